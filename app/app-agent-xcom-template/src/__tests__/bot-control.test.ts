@@ -0,0 +1,97 @@
+import { TemplateBot } from '../bot';
+import { DatabaseConnection } from '../shared/database/connection';
+import { TemplatePostManager } from '../services/post-manager';
+import { InMemoryPublisher } from '../services/publishing';
+
+jest.mock('../services/openai');
+jest.mock('../utils/logger');
+
+describe('pause, resume and kill switch', () => {
+  const env = { ...process.env };
+  let db: DatabaseConnection;
+  let publisher: InMemoryPublisher;
+  let bot: TemplateBot | undefined;
+
+  const queuePost = (content: string) =>
+    new TemplatePostManager(db).addPost({ content, category: 'test', tokens_used: 0, cost: 0, model: 'manual' });
+
+  beforeEach(async () => {
+    process.env.TIMEZONE = 'UTC';
+    process.env.BOT_SCHEDULE = '09:00';
+    db = new DatabaseConnection(':memory:');
+    await db.initialize();
+    publisher = new InMemoryPublisher();
+  });
+
+  afterEach(async () => {
+    process.env = { ...env };
+    // Shutdown also closes the database
+    await (bot ? bot.shutdown() : db.close());
+    bot = undefined;
+  });
+
+  it('should stay paused across restarts and stop posting and replenishment until resumed', async () => {
+    process.env.REPLENISHMENT_THRESHOLD = '10';
+    await queuePost('First post');
+
+    // Paused by another process (the CLI) before the bot starts
+    await new TemplateBot(db, publisher).pause('Maintenance');
+
+    bot = new TemplateBot(db, publisher);
+    const generatePosts = jest.spyOn(bot as any, 'generatePosts').mockResolvedValue(undefined);
+    await bot.initialize();
+    expect(await bot.getStatus()).toMatchObject({ isInitialized: true, paused: true });
+    expect(generatePosts).not.toHaveBeenCalled();
+
+    expect(await bot.executePost()).toMatchObject({ success: false, blocked: true, error: 'Bot is paused' });
+    await bot.runScheduledSlot(new Date('2026-05-01T09:00:00Z'));
+    expect((await bot.getSlotHistory(1)).slots[0]).toMatchObject({ status: 'skipped', reason: 'Bot is paused' });
+    expect(publisher.published).toHaveLength(0);
+
+    expect(await bot.resume()).toEqual({ paused: false });
+    expect(generatePosts).toHaveBeenCalledTimes(1);
+    expect(await bot.executePost()).toMatchObject({ success: true });
+    expect(publisher.published.map(tweet => tweet.content)).toEqual(['First post']);
+
+    // A pause stored by another process stops the cron jobs on the next minute check
+    const [job] = bot['cronJobs'];
+    const stop = jest.spyOn(job, 'stop');
+    await new TemplateBot(db, publisher).pause('From the CLI');
+    await bot['syncPauseState']();
+    expect(stop).toHaveBeenCalled();
+    expect(await bot.getPauseState()).toMatchObject({ paused: true, reason: 'From the CLI', killed: false });
+  });
+
+  it('should pause and delete the most recent tweets with the kill switch', async () => {
+    process.env.REPLENISHMENT_THRESHOLD = '0';
+    await queuePost('Single post');
+    await new TemplatePostManager(db).addPost({
+      content: 'Thread head',
+      segments: ['Thread head', 'Thread reply'],
+      category: 'test',
+      tokens_used: 0,
+      cost: 0,
+      model: 'manual'
+    });
+    await queuePost('Last post');
+
+    bot = new TemplateBot(db, publisher);
+    await bot.initialize();
+    for (let i = 0; i < 3; i++) {
+      await bot.executePost();
+    }
+    const [single, head, reply, last] = publisher.published.map(tweet => tweet.tweet_id);
+
+    const report = await bot.killSwitch(3, 'Bad batch');
+    expect(report).toMatchObject({ requested: 3, pause: { paused: true, reason: 'Bad batch', killed: true }, failed: [] });
+    expect(report.deleted).toEqual([last, reply, head]);
+    expect(publisher.published.map(tweet => tweet.tweet_id)).toEqual([single]);
+    expect(await bot.executePost()).toMatchObject({ blocked: true });
+
+    // Deleted tweets are not deleted again; tweets already gone from X are reported
+    publisher.published.length = 0;
+    const again = await bot.killSwitch(5);
+    expect(again.deleted).toEqual([]);
+    expect(again.failed).toEqual([{ tweet_id: single, error: 'Tweet not found' }]);
+  });
+});
@@ -1,5 +1,6 @@
 import { TemplateBot } from '../bot';
-import { DatabaseConnection, initializeDatabase } from '../shared/database/connection';
+import { DatabaseConnection } from '../shared/database/connection';
+import { InMemoryPublisher } from '../services/publishing';
 
 // Mock external dependencies
 jest.mock('../services/twitter');
@@ -10,26 +11,18 @@ describe('TemplateBot', () => {
   let bot: TemplateBot;
   let db: DatabaseConnection;
 
-  beforeAll(async () => {
-    // Initialize test database
-    db = await initializeDatabase(':memory:');
-  });
-
   beforeEach(async () => {
-    // Create fresh bot instance for each test
-    bot = new TemplateBot(db);
+    // Create a fresh database and bot instance for each test
+    db = new DatabaseConnection(':memory:');
+    await db.initialize();
+    bot = new TemplateBot(db, new InMemoryPublisher());
   });
 
   afterEach(async () => {
-    // Clean up after each test
+    // Clean up after each test (shutdown also closes the database)
     await bot.shutdown();
   });
 
-  afterAll(async () => {
-    // Clean up database
-    await db.close();
-  });
-
   describe('initialization', () => {
     it('should initialize successfully', async () => {
       await expect(bot.initialize()).resolves.not.toThrow();
@@ -42,7 +35,7 @@ describe('TemplateBot', () => {
 
     it('should schedule daily posts', async () => {
       await bot.initialize();
-      expect(bot['cronJob']).toBeDefined();
+      expect(bot['cronJobs']).toHaveLength(1);
     });
   });
 
@@ -84,10 +77,10 @@ describe('TemplateBot', () => {
       await expect(bot.shutdown()).resolves.not.toThrow();
     });
 
-    it('should stop cron job', async () => {
-      const cronJob = bot['cronJob'];
+    it('should stop cron jobs', async () => {
+      const stop = jest.spyOn(bot['cronJobs'][0], 'stop');
       await bot.shutdown();
-      expect(cronJob?.stop).toHaveBeenCalled();
+      expect(stop).toHaveBeenCalled();
     });
   });
 });
@@ -0,0 +1,144 @@
+import { TemplateBot } from '../bot';
+import { getPersona, PersonaSchema, setPersona } from '../config/persona';
+import { DatabaseConnection } from '../shared/database/connection';
+import { BotError } from '../shared/types';
+import { getNextCronDates } from '../shared/utils/cron';
+import { TemplateContentCalendar } from '../services/content-calendar';
+import { toSqlTimestamp } from '../shared/utils/sql-timestamp';
+import { TemplatePostManager } from '../services/post-manager';
+import { InMemoryPublisher } from '../services/publishing';
+
+jest.mock('../services/openai');
+jest.mock('../utils/logger');
+
+describe('content calendar', () => {
+  const env = { ...process.env };
+  const ONE_DAY = 24 * 60 * 60 * 1000;
+  let db: DatabaseConnection;
+  let bot: TemplateBot | undefined;
+
+  const queuePost = (content: string) =>
+    new TemplatePostManager(db).addPost({ content, category: 'test', tokens_used: 0, cost: 0, model: 'manual' });
+
+  beforeEach(async () => {
+    db = new DatabaseConnection(':memory:');
+    await db.initialize();
+  });
+
+  afterEach(async () => {
+    process.env = { ...env };
+    setPersona(null);
+    // Shutdown also closes the database
+    await (bot ? bot.shutdown() : db.close());
+    bot = undefined;
+  });
+
+  it('should find upcoming cron fire times in the schedule timezone', () => {
+    const from = new Date('2026-03-07T12:00:00Z');
+
+    // Denver switches to daylight time on March 8
+    expect(getNextCronDates('0 9 * * *', 'America/Denver', from, 3).map(date => date.toISOString())).toEqual([
+      '2026-03-07T16:00:00.000Z',
+      '2026-03-08T15:00:00.000Z',
+      '2026-03-09T15:00:00.000Z'
+    ]);
+    expect(getNextCronDates('30 9 * * mon-fri', 'Asia/Kolkata', from, 1)).toEqual([new Date('2026-03-09T04:00:00Z')]);
+    expect(() => getNextCronDates('0 25 * * *', 'UTC')).toThrow('Invalid cron value "25"');
+  });
+
+  it('should pin posts, reject slot conflicts and merge pinned posts into the calendar', async () => {
+    const calendar = new TemplateContentCalendar(db);
+    const schedule = { timezone: 'UTC', slots: [{ cron_expression: '0 9 * * *', timezone: 'UTC', description: '09:00 daily' }] };
+    const [firstSlot] = getNextCronDates('0 9 * * *', 'UTC');
+    const launchId = await queuePost('Launch day');
+    const holidayId = await queuePost('Happy holidays');
+    const otherId = await queuePost('Another launch');
+
+    await calendar.pinPost(launchId, new Date(firstSlot.getTime() + 30 * 1000));
+    const offSchedule = await calendar.pinPost(holidayId, new Date(firstSlot.getTime() + ONE_DAY + 60 * 60 * 1000));
+
+    const conflict = await calendar.pinPost(otherId, firstSlot).catch(error => error);
+    expect(conflict).toBeInstanceOf(BotError);
+    expect(conflict).toMatchObject({ code: 'SLOT_CONFLICT', context: { conflicting_post_ids: [launchId] } });
+    await expect(calendar.pinPost(otherId, new Date(Date.now() - 1000))).rejects.toMatchObject({ code: 'INVALID_SCHEDULE' });
+    await expect(calendar.pinPost(9999, offSchedule)).rejects.toMatchObject({ code: 'POST_NOT_FOUND' });
+
+    const slots = await calendar.getCalendar(schedule, new Date(), new Date(firstSlot.getTime() + 2 * ONE_DAY));
+    expect(slots.map(slot => [slot.source, slot.on_schedule, slot.post_id])).toEqual([
+      ['pinned', true, launchId],
+      ['queue', true, undefined],
+      ['pinned', false, holidayId],
+      ['queue', true, undefined]
+    ]);
+    expect((await new TemplatePostManager(db).getPostById(launchId))?.scheduled_for).toEqual(firstSlot);
+
+    expect(await calendar.unpinPost(holidayId)).toBe(true);
+    expect(await calendar.unpinPost(holidayId)).toBe(false);
+  });
+
+  it('should publish pinned posts at their slot instead of filling it from the queue', async () => {
+    process.env.REPLENISHMENT_THRESHOLD = '0';
+    await queuePost('Queued post');
+    const pinnedId = await queuePost('Pinned post');
+
+    // Pinned for a slot that has just arrived
+    const slot = new Date(Math.floor(Date.now() / 60000) * 60000);
+    await db.run('UPDATE posts SET scheduled_for = ? WHERE id = ?', [toSqlTimestamp(slot), pinnedId]);
+
+    const publisher = new InMemoryPublisher();
+    bot = new TemplateBot(db, publisher);
+    await bot.initialize();
+
+    await bot.runScheduledSlot(slot);
+    await bot.postDuePinnedPosts();
+    expect(publisher.published.map(tweet => tweet.content)).toEqual(['Pinned post']);
+
+    await bot.runScheduledSlot(new Date(slot.getTime() + ONE_DAY));
+    expect(publisher.published.map(tweet => tweet.content)).toEqual(['Pinned post', 'Queued post']);
+  });
+
+  it('should not publish a pinned post that was rejected after pinning', async () => {
+    process.env.REPLENISHMENT_THRESHOLD = '0';
+    const pinnedId = await queuePost('Pinned, then rejected');
+    const at = new Date(Date.now() + 60 * 60 * 1000);
+    await new TemplateContentCalendar(db).pinPost(pinnedId, at);
+
+    const publisher = new InMemoryPublisher();
+    bot = new TemplateBot(db, publisher);
+    await bot.initialize();
+    await bot.rejectPosts([pinnedId], 'alice', 'Off message');
+
+    await bot.postDuePinnedPosts(new Date(at.getTime() + 60 * 1000));
+    expect(publisher.published).toEqual([]);
+    expect(await db.get('SELECT used, review_status, scheduled_for FROM posts WHERE id = ?', [pinnedId]))
+      .toEqual({ used: 0, review_status: 'rejected', scheduled_for: null });
+
+    // Publishing it by ID is refused as well
+    expect(await bot.executePost(pinnedId)).toMatchObject({
+      success: false,
+      error: `Post ${pinnedId} is not publishable (review status: rejected)`
+    });
+    expect(publisher.published).toEqual([]);
+  });
+
+  it('should reject and unpin a pinned post that fails the pre-publish checks', async () => {
+    process.env.REPLENISHMENT_THRESHOLD = '0';
+    const pinnedId = await queuePost('Pinned with a word the rules now ban');
+    const at = new Date(Date.now() + 60 * 60 * 1000);
+    const calendar = new TemplateContentCalendar(db);
+    await calendar.pinPost(pinnedId, at);
+
+    const publisher = new InMemoryPublisher();
+    bot = new TemplateBot(db, publisher);
+    await bot.initialize();
+    setPersona(PersonaSchema.parse({ ...getPersona(), contentRules: { bannedWords: ['ban'] } }));
+
+    const due = new Date(at.getTime() + 60 * 1000);
+    await bot.postDuePinnedPosts(due);
+    expect(publisher.published).toEqual([]);
+    expect(await db.get('SELECT review_status, reviewed_by, scheduled_for FROM posts WHERE id = ?', [pinnedId]))
+      .toEqual({ review_status: 'rejected', reviewed_by: 'content-rules', scheduled_for: null });
+    // Not due again on the next minute
+    expect(await calendar.getDuePinnedPosts(new Date(due.getTime() + 60 * 1000))).toEqual([]);
+  });
+});
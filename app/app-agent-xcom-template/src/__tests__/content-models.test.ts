@@ -0,0 +1,65 @@
+import { createContentModel, OpenAIContentModel, StubContentModel } from '../services/content-models';
+import { TemplateOpenAIService } from '../services/openai';
+import { calculateCompletionCost } from '../shared/services/content-model';
+
+jest.mock('../utils/logger');
+
+describe('content models', () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  describe('createContentModel', () => {
+    it('should select the provider from LLM_PROVIDER', () => {
+      process.env.LLM_PROVIDER = 'stub';
+      expect(createContentModel().id).toBe('stub:stub-v1');
+
+      process.env.LLM_PROVIDER = 'openai-compatible';
+      process.env.LLM_MODEL = 'llama3';
+      expect(createContentModel().id).toBe('openai-compatible:llama3');
+
+      delete process.env.LLM_PROVIDER;
+      process.env.LLM_MODEL = 'gpt-4o-mini';
+      expect(createContentModel().id).toBe('openai:gpt-4o-mini');
+    });
+
+    it('should reject unknown providers', () => {
+      process.env.LLM_PROVIDER = 'carrier-pigeon';
+      expect(() => createContentModel()).toThrow('Invalid LLM_PROVIDER');
+    });
+
+    it('should price local models at zero unless pricing is configured', () => {
+      process.env.LLM_PROVIDER = 'openai-compatible';
+      expect(createContentModel().pricing).toEqual({ input_per_1k: 0, output_per_1k: 0 });
+
+      process.env.LLM_PRICE_INPUT_PER_1K = '0.001';
+      process.env.LLM_PRICE_OUTPUT_PER_1K = '0.002';
+      expect(createContentModel().pricing).toEqual({ input_per_1k: 0.001, output_per_1k: 0.002 });
+    });
+  });
+
+  describe('pricing', () => {
+    it('should use published OpenAI pricing per model', () => {
+      const model = new OpenAIContentModel({ model: 'gpt-4', apiKey: 'test' });
+      expect(calculateCompletionCost(model.pricing, 1000, 500)).toBeCloseTo(0.06);
+    });
+  });
+
+  describe('StubContentModel', () => {
+    it('should generate the same posts for the same prompts', async () => {
+      const generate = async () => {
+        const service = new TemplateOpenAIService(new StubContentModel());
+        await service.initialize();
+        return service.generatePosts(4, ['battle_wisdom', 'humor']);
+      };
+
+      const first = await generate();
+      expect(await generate()).toEqual(first);
+      expect(first).toHaveLength(4);
+      expect(new Set(first.map(post => post.content)).size).toBe(4);
+      expect(first.every(post => post.model === 'stub:stub-v1' && post.cost === 0 && post.tokens_used > 0)).toBe(true);
+    });
+  });
+});
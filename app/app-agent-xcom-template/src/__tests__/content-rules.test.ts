@@ -0,0 +1,103 @@
+import path from 'path';
+import { TemplateBot } from '../bot';
+import { loadPersona, PersonaSchema, setPersona } from '../config/persona';
+import { DatabaseConnection } from '../shared/database/connection';
+import { TemplatePostManager } from '../services/post-manager';
+import { InMemoryPublisher } from '../services/publishing';
+import { assertContentRules, checkContentRules } from '../services/content-rules';
+import { ContentRuleError } from '../shared/types';
+
+jest.mock('../services/openai');
+jest.mock('../utils/logger');
+
+const TEMPLATE_PERSONA = path.resolve(__dirname, '../../personas/template.json');
+
+describe('Content rules', () => {
+  const env = { ...process.env };
+  const withRules = (contentRules: unknown) => PersonaSchema.parse({ ...loadPersona(TEMPLATE_PERSONA), contentRules });
+
+  afterEach(() => {
+    process.env = { ...env };
+    setPersona(null);
+  });
+
+  it('should report structured violations with their severity and segment', () => {
+    const persona = withRules({
+      length: { min: 20 },
+      bannedWords: ['darn'],
+      hashtags: { allowed: 'persona', required: 1, max: 1 },
+      emojis: { allowed: 'none', severity: 'warning' },
+      punctuation: { quotes: false, requireEnding: true, severity: 'error' },
+      mentions: { allowed: false },
+      urls: { max: 0 }
+    });
+
+    expect(checkContentRules({ content: 'Ship small changes often. #Innovation' }, persona)).toEqual({ valid: true, violations: [] });
+    expect(checkContentRules({ content: 'Ship 🚀 small changes often #Innovation' }, persona)).toEqual({
+      valid: false,
+      violations: [
+        { rule: 'emojis', severity: 'warning', message: 'Emojis are not allowed (🚀)' },
+        { rule: 'punctuation', severity: 'error', message: 'Does not end with a finished sentence' }
+      ]
+    });
+
+    const thread = ['Darn, ask @someone about "it"!!!! #Random #Innovation', 'Read https://example.com/#notatag now.'];
+    const report = checkContentRules({ content: thread.join('\n\n'), segments: thread }, persona);
+    expect(report.valid).toBe(false);
+    expect(report.violations.map(violation => [violation.rule, violation.segment])).toEqual([
+      ['banned_words', 0],
+      ['hashtags', 0],
+      ['hashtags', 0],
+      ['punctuation', 0],
+      ['punctuation', 0],
+      ['mentions', 0],
+      ['urls', 1]
+    ]);
+    expect(checkContentRules({ content: 'Short.' }, persona).violations)
+      .toEqual([
+        { rule: 'length', severity: 'error', message: 'Post is 6 characters (min 20)' },
+        { rule: 'hashtags', severity: 'error', message: '0 hashtags (at least 1 required)' }
+      ]);
+    // Replies skip the whole-post rules
+    expect(checkContentRules({ content: 'Thanks!' }, persona, { reply: true }).valid).toBe(true);
+
+    expect(() => assertContentRules({ content: 'A darn good idea. #Innovation' }, persona)).toThrow(ContentRuleError);
+    expect(() => withRules({ length: { min: 300 } })).toThrow();
+  });
+
+  it('should keep rule-breaking posts out of the queue and reject them before publishing', async () => {
+    process.env.REPLENISHMENT_THRESHOLD = '0';
+    process.env.METRICS_COLLECTION = 'false';
+    const db = new DatabaseConnection(':memory:');
+    await db.initialize();
+    const publisher = new InMemoryPublisher();
+    const bot = new TemplateBot(db, publisher);
+
+    try {
+      const stored = await new TemplatePostManager(db).storePosts([
+        'Too many tags #a #b #c #d #e #f',
+        'Automate the boring parts first.',
+        'Review code like you would want yours reviewed.'
+      ].map(content => ({ content, category: 'tips', tokens_used: 0, cost: 0, model: 'manual' })));
+      expect(stored).toBe(2);
+      await bot.initialize();
+
+      // The rules change while posts are queued
+      setPersona(withRules({ bannedWords: ['boring'] }));
+      await expect(bot.manualPost({ content: 'Boring, but it works.' })).rejects.toBeInstanceOf(ContentRuleError);
+
+      const result = await bot.executePost();
+      expect(result.success).toBe(true);
+      expect(publisher.published.map(tweet => tweet.content)).toEqual(['Review code like you would want yours reviewed.']);
+
+      const [rejected] = await bot.getReviewPosts('rejected');
+      expect(rejected).toMatchObject({
+        content: 'Automate the boring parts first.',
+        reviewed_by: 'content-rules',
+        rejection_reason: 'Content rules: banned_words: Contains banned word "boring"'
+      });
+    } finally {
+      await bot.shutdown();
+    }
+  });
+});
@@ -0,0 +1,68 @@
+import { DatabaseConnection } from '../shared/database/connection';
+import { ContentCompletion, ContentRequest } from '../shared/services/content-model';
+import { StubContentModel } from '../services/content-models';
+import { GenerationBudgetTracker } from '../services/generation-budget';
+import { TemplateOpenAIService } from '../services/openai';
+import { TemplatePostManager } from '../services/post-manager';
+import { TemplateReplenishmentService } from '../services/replenishment';
+
+jest.mock('../utils/logger');
+
+// Stub model that charges a fixed price per completion
+class PricedStubModel extends StubContentModel {
+  async complete(request: ContentRequest): Promise<ContentCompletion> {
+    return { ...(await super.complete(request)), cost: 0.01 };
+  }
+}
+
+describe('GenerationBudgetTracker', () => {
+  const env = { ...process.env };
+  let db: DatabaseConnection;
+  let budget: GenerationBudgetTracker;
+
+  beforeEach(async () => {
+    db = new DatabaseConnection(':memory:');
+    await db.initialize();
+    await db.run('INSERT INTO bot_stats (bot_id) VALUES (?)', [process.env.BOT_NAME || 'template-bot']);
+    budget = new GenerationBudgetTracker(db);
+  });
+
+  afterEach(async () => {
+    process.env = { ...env };
+    await db.close();
+  });
+
+  it('should record spend in bot_stats and report warning and exhausted states', async () => {
+    process.env.GENERATION_DAILY_BUDGET_USD = '1.00';
+
+    await budget.recordSpend('openai:gpt-4', 0.85, 1200);
+    let status = await budget.checkBudget();
+    expect(status).toMatchObject({ allowed: true, state: 'warning' });
+    expect(status.daily).toEqual({ spent_usd: 0.85, limit_usd: 1, tokens: 1200 });
+
+    await budget.recordSpend('openai:gpt-4', 0.15, 300);
+    status = await budget.checkBudget();
+    expect(status).toMatchObject({ allowed: false, state: 'exhausted' });
+    expect(status.reason).toContain('Daily generation budget exhausted');
+
+    const stats = await db.get('SELECT total_cost, total_tokens FROM bot_stats');
+    expect(stats.total_cost).toBeCloseTo(1);
+    expect(stats.total_tokens).toBe(1500);
+  });
+
+  it('should stop LLM generation at the budget and fill the batch locally', async () => {
+    process.env.GENERATION_DAILY_BUDGET_USD = '0.10';
+    const openaiService = new TemplateOpenAIService(new PricedStubModel(), budget);
+    await openaiService.initialize();
+    const service = new TemplateReplenishmentService(db, new TemplatePostManager(db), openaiService);
+
+    const result = await service.replenish(15, 'llm');
+
+    // The first batch of 10 spends the budget, so the second batch never runs
+    expect(result.llm_posts).toBe(10);
+    expect(result.local_posts).toBe(5);
+    expect(result.fallback_reason).toContain('Daily generation budget exhausted');
+
+    await expect(openaiService.generatePosts(1, ['humor'])).rejects.toThrow('budget exhausted');
+  }, 10000);
+});
@@ -0,0 +1,95 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { resolveMediaAttachments, resolveMediaPath, validateMediaAttachments } from '../services/media';
+import { MediaError } from '../shared/types';
+import { MAX_ALT_TEXT_LENGTH, MAX_GIF_SIZE_BYTES, MAX_IMAGE_SIZE_BYTES, MAX_VIDEO_SIZE_BYTES } from '../shared/constants';
+
+describe('media validation', () => {
+  let dir: string;
+
+  // Create a media file of a given size (sparse, so large files cost no disk space)
+  const mediaFile = (name: string, size: number = 64) => {
+    const file = path.join(dir, name);
+    fs.writeFileSync(file, Buffer.alloc(Math.min(size, 64), 1));
+    fs.truncateSync(file, size);
+    return file;
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'media-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should accept up to four images with alt text and resolve their type and size', () => {
+    const attachments = ['a.png', 'b.jpg', 'c.webp', 'd.jpeg'].map(name => ({ path: mediaFile(name), alt_text: ` ${name} ` }));
+
+    expect(validateMediaAttachments(attachments)).toEqual({ isValid: true, errors: [] });
+    expect(resolveMediaAttachments(attachments)[0]).toEqual({
+      path: attachments[0].path,
+      alt_text: 'a.png',
+      mime_type: 'image/png',
+      file_size: 64
+    });
+  });
+
+  it('should reject missing files, unsupported types and oversize media', () => {
+    const missing = path.join(dir, 'missing.png');
+    expect(validateMediaAttachments([{ path: missing, alt_text: 'Chart' }]).errors).toEqual([`${missing}: file not found`]);
+
+    const document = mediaFile('notes.pdf');
+    expect(validateMediaAttachments([{ path: document, alt_text: 'Notes' }]).errors)
+      .toEqual([`${document}: unsupported media type`]);
+
+    for (const [name, limit] of [['photo.png', MAX_IMAGE_SIZE_BYTES], ['loop.gif', MAX_GIF_SIZE_BYTES], ['clip.mp4', MAX_VIDEO_SIZE_BYTES]] as const) {
+      const file = mediaFile(name, limit + 1);
+      expect(validateMediaAttachments([{ path: file, alt_text: name }]).errors)
+        .toEqual([`${file}: file size ${limit + 1} bytes exceeds limit of ${limit} bytes`]);
+      // Exactly at the limit is fine
+      fs.truncateSync(file, limit);
+      expect(validateMediaAttachments([{ path: file, alt_text: name }]).isValid).toBe(true);
+    }
+
+    expect(() => resolveMediaAttachments([{ path: missing, alt_text: 'Chart' }])).toThrow(MediaError);
+  });
+
+  it('should require alt text within the length limit', () => {
+    const image = mediaFile('chart.png');
+
+    expect(validateMediaAttachments([{ path: image, alt_text: '' }]).errors).toEqual([`${image}: alt text is required`]);
+    expect(validateMediaAttachments([{ path: image, alt_text: '   ' }]).errors).toEqual([`${image}: alt text is required`]);
+    expect(validateMediaAttachments([{ path: image, alt_text: 'a'.repeat(MAX_ALT_TEXT_LENGTH + 1) }]).errors)
+      .toEqual([`${image}: alt text exceeds ${MAX_ALT_TEXT_LENGTH} character limit`]);
+    expect(validateMediaAttachments([{ path: image, alt_text: 'a'.repeat(MAX_ALT_TEXT_LENGTH) }]).isValid).toBe(true);
+  });
+
+  it('should only allow a GIF or video on its own', () => {
+    const image = { path: mediaFile('chart.png'), alt_text: 'Chart' };
+    const gif = { path: mediaFile('loop.gif'), alt_text: 'Loop' };
+    const video = { path: mediaFile('clip.mp4'), alt_text: 'Clip' };
+    const mixed = 'GIFs and videos must be the only media attachment on a tweet';
+
+    expect(validateMediaAttachments([gif]).isValid).toBe(true);
+    expect(validateMediaAttachments([video]).isValid).toBe(true);
+    expect(validateMediaAttachments([image, gif]).errors).toEqual([mixed]);
+    expect(validateMediaAttachments([video, image]).errors).toEqual([mixed]);
+    expect(validateMediaAttachments([gif, video]).errors).toEqual([mixed]);
+    expect(validateMediaAttachments([image, image, image, image, image]).errors).toEqual(['Too many media attachments (max 4)']);
+  });
+
+  it('should keep request paths inside the media directory', () => {
+    expect(resolveMediaPath('chart.png', dir)).toBe(path.join(dir, 'chart.png'));
+    expect(resolveMediaPath('charts/weekly.png', dir)).toBe(path.join(dir, 'charts', 'weekly.png'));
+
+    expect(() => resolveMediaPath('../secret.png', dir)).toThrow(MediaError);
+    expect(() => resolveMediaPath('charts/../../secret.png', dir)).toThrow('Media path must be inside the media directory');
+    expect(() => resolveMediaPath('/etc/passwd', dir)).toThrow(MediaError);
+    expect(() => resolveMediaPath(`${dir}-other/chart.png`, dir)).toThrow(MediaError);
+    expect(() => resolveMediaPath('.', dir)).toThrow(MediaError);
+    // An absolute path inside the media directory is allowed
+    expect(resolveMediaPath(path.join(dir, 'chart.png'), dir)).toBe(path.join(dir, 'chart.png'));
+  });
+});
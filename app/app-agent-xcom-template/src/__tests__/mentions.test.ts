@@ -0,0 +1,132 @@
+import { TemplateBot } from '../bot';
+import { DatabaseConnection } from '../shared/database/connection';
+import { InMemoryPublisher } from '../services/publishing';
+import { TemplateOpenAIService } from '../services/openai';
+import { classifyMention, getMentionSettings } from '../services/mentions';
+import { TwitterAPIError } from '../shared/types';
+
+jest.mock('../services/openai');
+jest.mock('../utils/logger');
+
+describe('Mention monitoring', () => {
+  const env = { ...process.env };
+  let db: DatabaseConnection;
+  let bot: TemplateBot | undefined;
+
+  beforeEach(async () => {
+    process.env.REPLENISHMENT_THRESHOLD = '0';
+    process.env.METRICS_COLLECTION = 'false';
+    db = new DatabaseConnection(':memory:');
+    await db.initialize();
+    jest.mocked(TemplateOpenAIService.prototype.draftReply).mockImplementation(async (mention, category) => ({
+      content: `Thanks for asking: ${mention.text.replace(/^@\w+\s*/, '')}`.slice(0, 280),
+      category,
+      cost: 0.001,
+      tokens_used: 40,
+      model: 'stub:stub-v1'
+    }));
+  });
+
+  afterEach(async () => {
+    process.env = { ...env };
+    jest.mocked(TemplateOpenAIService.prototype.draftReply).mockReset();
+    // Shutdown also closes the database
+    await (bot ? bot.shutdown() : db.close());
+    bot = undefined;
+  });
+
+  it('should classify mentions and validate the settings', () => {
+    expect(classifyMention('@templatebot How do you run a good retro?')).toBe('question');
+    expect(classifyMention('@templatebot what a great thread, thank you')).toBe('praise');
+    expect(classifyMention('@templatebot Huge giveaway! DM me to claim https://spam.example')).toBe('spam');
+    expect(classifyMention('@templatebot this is garbage, are you stupid?')).toBe('abuse');
+    expect(classifyMention('@templatebot what the hell is this', ['hell'])).toBe('abuse');
+    expect(classifyMention('@templatebot @friend saw this today')).toBe('other');
+
+    expect(getMentionSettings()).toEqual({ enabled: false, interval_minutes: 5, reply_mode: 'approval', replies_per_hour: 5 });
+    process.env.MENTION_REPLY_MODE = 'always';
+    expect(() => getMentionSettings()).toThrow('Invalid MENTION_REPLY_MODE "always"');
+  });
+
+  it('should draft replies for approval and post them within the cap and posting budget', async () => {
+    const publisher = new InMemoryPublisher();
+    bot = new TemplateBot(db, publisher);
+
+    const question = publisher.receiveMention('@templatebot How do you keep retros useful?', 'reader');
+    publisher.receiveMention('@templatebot Well said, thank you!', 'fan');
+    publisher.receiveMention('@templatebot Free followers, click here https://a.example https://b.example', 'bot123');
+    publisher.receiveMention('@templatebot you are an idiot', 'troll');
+
+    expect(await bot.processMentions()).toMatchObject({ fetched: 4, drafted: 2, pending_approval: 2, replied: 0 });
+    const pending = await bot.getMentions('pending_approval');
+    expect(pending.map(mention => [mention.author_username, mention.category])).toEqual([['fan', 'praise'], ['reader', 'question']]);
+    expect((await bot.getMentions('ignored')).map(mention => mention.category).sort()).toEqual(['abuse', 'spam']);
+
+    // The since_id cursor means nothing is fetched twice
+    const newer = publisher.receiveMention('@templatebot Which book got you started?', 'reader');
+    expect(await bot.processMentions()).toMatchObject({ fetched: 1, drafted: 1, pending_approval: 3 });
+
+    const [praise, first] = pending;
+    await bot.reviewMentionReply(first.id, true);
+    await bot.reviewMentionReply(praise.id, false);
+    await expect(bot.reviewMentionReply(praise.id, true)).rejects.toMatchObject({ code: 'MENTION_NOT_PENDING' });
+    await expect(bot.reviewMentionReply(999, true)).rejects.toMatchObject({ code: 'MENTION_NOT_FOUND' });
+
+    // Paused: approved replies wait
+    await bot.pause('Maintenance');
+    expect(await bot.processMentions()).toMatchObject({ replied: 0, blocked: 'Bot is paused' });
+    await bot.resume();
+
+    expect(await bot.processMentions()).toMatchObject({ replied: 1, pending_approval: 1 });
+    expect(publisher.published).toEqual([
+      expect.objectContaining({ content: 'Thanks for asking: How do you keep retros useful?', reply_to_id: question })
+    ]);
+    expect((await bot.getRateLimitStatus()).budget.posts_last_15min).toBe(1);
+
+    // Auto mode with a cap of one reply per hour: the newer reply is held back
+    process.env.MENTION_REPLY_MODE = 'auto';
+    process.env.MENTION_REPLIES_PER_HOUR = '1';
+    const [waiting] = await bot.getMentions('pending_approval');
+    expect(waiting.tweet_id).toBe(newer);
+    await bot.reviewMentionReply(waiting.id, true);
+    publisher.receiveMention('@templatebot Do you ever take a day off?', 'reader');
+    expect(await bot.processMentions()).toMatchObject({ fetched: 1, drafted: 1, replied: 0, rate_limited: true });
+    expect((await bot.getMentions('approved')).length).toBe(2);
+
+    // A permanent failure is given up, a temporary one is retried next run
+    process.env.MENTION_REPLIES_PER_HOUR = '10';
+    publisher.failNext(new TwitterAPIError('Duplicate tweet content', false), new TwitterAPIError('X API server error', true));
+    expect(await bot.processMentions()).toMatchObject({ replied: 0, error: 'X API server error' });
+    expect((await bot.getMentions('failed')).map(mention => mention.error)).toEqual(['Duplicate tweet content']);
+    expect(await bot.processMentions()).toMatchObject({ replied: 1 });
+    expect(publisher.published).toHaveLength(2);
+  });
+
+  it('should not post a reply again when it went out but could not be recorded', async () => {
+    process.env.MENTION_REPLY_MODE = 'auto';
+    const publisher = new InMemoryPublisher();
+    bot = new TemplateBot(db, publisher);
+    publisher.receiveMention('@templatebot How do you keep retros useful?', 'reader');
+
+    // X accepts the reply, but its post_logs row cannot be written
+    const run = db.run.bind(db);
+    jest.spyOn(db, 'run').mockImplementation(async (sql, params) => {
+      if (sql.includes('INSERT INTO post_logs') && sql.includes('VALUES (?, NULL, 1, 1, ?, ?)')) {
+        throw new Error('SQLITE_BUSY: database is locked');
+      }
+      return run(sql, params);
+    });
+    const report = await bot.processMentions();
+    expect(report).toMatchObject({ drafted: 1, replied: 0 });
+    expect(publisher.published).toHaveLength(1);
+
+    const [failed] = await bot.getMentions('failed');
+    expect(failed.reply_tweet_id).toBe(publisher.published[0].tweet_id);
+    expect(failed.error).toBe(`Reply ${failed.reply_tweet_id} was posted but could not be recorded: SQLITE_BUSY: database is locked`);
+    expect(report.error).toBe(failed.error);
+
+    // The next run leaves it alone
+    expect(await bot.processMentions()).toMatchObject({ replied: 0 });
+    expect(publisher.published).toHaveLength(1);
+  });
+});
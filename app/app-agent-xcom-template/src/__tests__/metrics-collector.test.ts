@@ -0,0 +1,121 @@
+import { TemplateBot } from '../bot';
+import { DatabaseConnection } from '../shared/database/connection';
+import { TwitterAPIError } from '../shared/types';
+import { TemplatePostManager } from '../services/post-manager';
+import { InMemoryPublisher } from '../services/publishing';
+import { toSqlTimestamp } from '../shared/utils/sql-timestamp';
+
+jest.mock('../services/openai');
+jest.mock('../utils/logger');
+
+describe('engagement metrics collection', () => {
+  const env = { ...process.env };
+  const now = new Date('2026-05-10T12:00:00Z');
+  let db: DatabaseConnection;
+  let publisher: InMemoryPublisher;
+  let bot: TemplateBot | undefined;
+
+  // Pretend the tweets of a post went out some hours before now
+  const postedHoursAgo = (postId: number, hours: number) =>
+    db.run('UPDATE published_tweets SET created_at = ? WHERE post_id = ?', [
+      toSqlTimestamp(new Date(now.getTime() - hours * 60 * 60 * 1000)),
+      postId
+    ]);
+
+  beforeEach(async () => {
+    process.env.REPLENISHMENT_THRESHOLD = '0';
+    process.env.METRICS_COLLECTION = 'false';
+    db = new DatabaseConnection(':memory:');
+    await db.initialize();
+    publisher = new InMemoryPublisher();
+  });
+
+  afterEach(async () => {
+    process.env = { ...env };
+    // Shutdown also closes the database
+    await (bot ? bot.shutdown() : db.close());
+    bot = undefined;
+  });
+
+  it('should snapshot tweets at their ages and aggregate per post, category and persona', async () => {
+    const postManager = new TemplatePostManager(db);
+    const newsId = await postManager.addPost({ content: 'News post', category: 'news', tokens_used: 0, cost: 0, model: 'manual' });
+    const tipsId = await postManager.addPost({ content: 'Tips post', category: 'tips', tokens_used: 0, cost: 0, model: 'manual' });
+    const threadId = await postManager.addPost({
+      content: 'Thread head',
+      segments: ['Thread head', 'Thread reply'],
+      category: 'news',
+      tokens_used: 0,
+      cost: 0,
+      model: 'manual'
+    });
+
+    bot = new TemplateBot(db, publisher);
+    await bot.initialize();
+    for (const postId of [newsId, tipsId, threadId]) {
+      await bot.executePost(postId);
+    }
+    const [news, tips, head, reply] = publisher.published.map(tweet => tweet.tweet_id);
+    publisher.setMetrics(news, { impressions: 100, likes: 5, replies: 1 });
+    publisher.setMetrics(tips, { impressions: 40, reposts: 2 });
+    publisher.setMetrics(head, { impressions: 300, likes: 9 });
+    publisher.setMetrics(reply, { impressions: 60, quotes: 1 });
+
+    // 1h and 24h snapshots are due; the thread is too new and a 2-day-old 24h snapshot is given up
+    await postedHoursAgo(newsId, 1.5);
+    await postedHoursAgo(tipsId, 30);
+    await postedHoursAgo(threadId, 0.5);
+    const lookup = jest.spyOn(publisher, 'getTweetMetrics');
+    expect(await bot.collectMetrics(now)).toEqual({ due: 2, collected: 2, missing: 0, requests: 1, rate_limited: false });
+    expect(lookup).toHaveBeenCalledWith([tips, news]);
+    expect((await bot.collectMetrics(now)).due).toBe(0);
+
+    expect(await bot.getPostMetrics(newsId)).toMatchObject({
+      post_id: newsId,
+      category: 'news',
+      persona_version: 1,
+      snapshots: [{ age: '1h', tweets: 1, impressions: 100, likes: 5, reposts: 0, replies: 1, quotes: 0, collected_at: now }]
+    });
+
+    // A thread is summed over its tweets
+    await postedHoursAgo(newsId, 24.5);
+    await postedHoursAgo(threadId, 25);
+    await bot.collectMetrics(now);
+    expect((await bot.getPostMetrics(threadId)).snapshots).toEqual([
+      { age: '24h', tweets: 2, impressions: 360, likes: 9, reposts: 0, replies: 0, quotes: 1, collected_at: now }
+    ]);
+    expect((await bot.getPostMetrics(newsId)).snapshots.map(snapshot => snapshot.age)).toEqual(['1h', '24h']);
+
+    const byCategory = await bot.getMetricsSummary('category', '24h');
+    expect(byCategory.map(group => [group.group, group.posts, group.impressions])).toEqual([['news', 2, 460], ['tips', 1, 40]]);
+    expect(byCategory[0].avg_impressions).toBe(230);
+    expect(byCategory[0].engagement_rate).toBeCloseTo(16 / 460);
+    expect(await bot.getMetricsSummary('persona', '24h')).toEqual([
+      expect.objectContaining({ group: '1', persona_name: expect.any(String), posts: 3, impressions: 500 })
+    ]);
+
+    await expect(bot.getPostMetrics(9999)).rejects.toMatchObject({ code: 'POST_NOT_FOUND' });
+  });
+
+  it('should stop on the X rate limit and skip tweets that are gone', async () => {
+    process.env.METRICS_MAX_REQUESTS_PER_RUN = '1';
+    const postManager = new TemplatePostManager(db);
+    const firstId = await postManager.addPost({ content: 'First post', category: 'news', tokens_used: 0, cost: 0, model: 'manual' });
+    const secondId = await postManager.addPost({ content: 'Second post', category: 'news', tokens_used: 0, cost: 0, model: 'manual' });
+
+    bot = new TemplateBot(db, publisher);
+    await bot.initialize();
+    await bot.executePost(firstId);
+    await bot.executePost(secondId);
+    await postedHoursAgo(firstId, 1.5);
+    await postedHoursAgo(secondId, 1.5);
+
+    jest.spyOn(publisher, 'getTweetMetrics')
+      .mockRejectedValueOnce(new TwitterAPIError('Rate limit exceeded', true, { statusCode: 429 }));
+    expect(await bot.collectMetrics(now)).toMatchObject({ due: 2, collected: 0, requests: 1, rate_limited: true, error: 'Rate limit exceeded' });
+
+    // The second tweet was deleted on X outside the bot
+    publisher.published.splice(1, 1);
+    expect(await bot.collectMetrics(now)).toEqual({ due: 2, collected: 1, missing: 1, requests: 1, rate_limited: false });
+  });
+});
@@ -0,0 +1,103 @@
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { TemplateBot } from '../bot';
+import { getPersona, loadPersona, setPersona } from '../config/persona';
+import { DatabaseConnection } from '../shared/database/connection';
+import { InMemoryPublisher } from '../services/publishing';
+import { TemplatePostGenerator } from '../services/generator/post-generator';
+
+jest.mock('../services/openai');
+jest.mock('../utils/logger');
+
+const PERSONAS_DIR = path.resolve(__dirname, '../../personas');
+
+describe('persona', () => {
+  const writePersona = (persona: unknown) => {
+    const file = path.join(mkdtempSync(path.join(tmpdir(), 'persona-')), 'persona.json');
+    writeFileSync(file, JSON.stringify(persona));
+    return file;
+  };
+
+  afterEach(() => {
+    setPersona(null);
+  });
+
+  it('should load the personas shipped with the template', () => {
+    for (const file of ['template.json', 'northern-warrior.json']) {
+      const persona = loadPersona(path.join(PERSONAS_DIR, file));
+      expect(persona.topics.length).toBeGreaterThan(0);
+      expect(persona.topics.every(topic => topic.seedPosts.length > 0)).toBe(true);
+    }
+  });
+
+  it('should reject invalid persona files with the failing fields', () => {
+    const persona = loadPersona(path.join(PERSONAS_DIR, 'template.json'));
+    const file = writePersona({
+      ...persona,
+      postLength: { min: 300, max: 280 },
+      topics: [persona.topics[0], persona.topics[0]]
+    });
+
+    expect(() => loadPersona(file)).toThrow(/postLength\.max.*topics\.1\.key: Duplicate topic key/);
+  });
+
+  it('should generate local posts from the active persona topics', () => {
+    setPersona(loadPersona(path.join(PERSONAS_DIR, 'northern-warrior.json')));
+
+    const posts = TemplatePostGenerator.generateTopicPosts('battle_wisdom', 3);
+
+    expect(posts.map(post => post.category)).toEqual(['battle_wisdom', 'battle_wisdom', 'battle_wisdom']);
+    expect(() => TemplatePostGenerator.generateTopicPosts('leadership_tips', 1)).toThrow('Unknown topic');
+  });
+
+  it('should split local generation across topics by weight', () => {
+    expect(TemplatePostGenerator.allocateByWeight(10, { a: 1, b: 1, c: 3 })).toEqual({ a: 2, b: 2, c: 6 });
+    expect(TemplatePostGenerator.allocateByWeight(5, { a: 1, b: 1, c: 1 })).toEqual({ a: 2, b: 2, c: 1 });
+    expect(() => TemplatePostGenerator.allocateByWeight(5, { a: 0 })).toThrow('positive weight');
+
+    const persona = loadPersona(path.join(PERSONAS_DIR, 'template.json'));
+    const [heavy, light] = persona.topics;
+    setPersona({ ...persona, topics: [{ ...heavy, weight: 3 }, { ...light, weight: 1 }] });
+
+    const { posts, distribution } = TemplatePostGenerator.generateWeightedPosts(4);
+    expect(distribution).toEqual([
+      { topic: heavy.key, weight: 3, target: 3, generated: 3 },
+      { topic: light.key, weight: 1, target: 1, generated: 1 }
+    ]);
+    expect(new Set(posts.map(post => post.content)).size).toBe(4);
+
+    // Topics with no variations run out after their seed posts
+    const short = TemplatePostGenerator.generateWeightedPosts(8);
+    expect(short.distribution[0]).toMatchObject({ target: 6, generated: heavy.seedPosts.length });
+  });
+
+  it('should snapshot a new persona version only when the persona changes', async () => {
+    process.env.REPLENISHMENT_THRESHOLD = '0';
+    const db = new DatabaseConnection(':memory:');
+    await db.initialize();
+    const startBot = async () => {
+      const bot = new TemplateBot(db, new InMemoryPublisher());
+      await bot.initialize();
+      return bot;
+    };
+
+    const first = await startBot();
+    const restarted = await startBot();
+    setPersona({ ...getPersona(), tone: 'Dry and understated' });
+    const edited = await startBot();
+
+    const snapshots = await db.all('SELECT version, name FROM persona_snapshots ORDER BY version');
+    expect(snapshots).toEqual([
+      { version: 1, name: 'Template Bot' },
+      { version: 2, name: 'Template Bot' }
+    ]);
+    const config = await db.get('SELECT tone, persona_version FROM bot_configs');
+    expect(config).toEqual({ tone: 'Dry and understated', persona_version: 2 });
+    expect((await edited.getStatus()).persona).toEqual({ name: 'Template Bot', version: 2 });
+
+    await first.shutdown();
+    await restarted.shutdown();
+    await edited.shutdown();
+  });
+});
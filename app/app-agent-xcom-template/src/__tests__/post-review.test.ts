@@ -0,0 +1,93 @@
+import { TemplateBot } from '../bot';
+import { DatabaseConnection } from '../shared/database/connection';
+import { TemplatePostManager } from '../services/post-manager';
+import { InMemoryPublisher } from '../services/publishing';
+import { canTransition } from '../services/post-review';
+import { validatePostApproval } from '../shared/utils/validation';
+
+jest.mock('../services/openai');
+jest.mock('../utils/logger');
+
+describe('Post review workflow', () => {
+  const env = { ...process.env };
+  let db: DatabaseConnection;
+  let bot: TemplateBot | undefined;
+
+  const storeGenerated = (contents: string[]) => new TemplatePostManager(db).storePosts(contents.map(content => ({
+    content,
+    category: 'tips',
+    review_status: 'pending_review' as const,
+    tokens_used: 40,
+    cost: 0.001,
+    model: 'stub:stub-v1'
+  })));
+
+  beforeEach(async () => {
+    process.env.REPLENISHMENT_THRESHOLD = '0';
+    process.env.METRICS_COLLECTION = 'false';
+    db = new DatabaseConnection(':memory:');
+    await db.initialize();
+  });
+
+  afterEach(async () => {
+    process.env = { ...env };
+    // Shutdown also closes the database
+    await (bot ? bot.shutdown() : db.close());
+    bot = undefined;
+  });
+
+  it('should follow the review state machine and validate approvals', () => {
+    expect(canTransition('draft', 'pending_review')).toBe(true);
+    expect(canTransition('pending_review', 'approved')).toBe(true);
+    expect(canTransition('approved', 'retired')).toBe(true);
+    expect(canTransition('approved', 'rejected')).toBe(true);
+    expect(canTransition('rejected', 'approved')).toBe(false);
+    expect(canTransition('retired', 'approved')).toBe(false);
+
+    expect(validatePostApproval({ reviewer: 'alice' })).toEqual({ reviewer: 'alice', edit: undefined });
+    expect(validatePostApproval({ reviewer: 'alice', segments: ['One', 'Two'] }).edit)
+      .toEqual({ content: 'One\n\nTwo', segments: ['One', 'Two'] });
+    expect(() => validatePostApproval({ reviewer: 'alice', content: 'x'.repeat(281) })).toThrow('280 character limit');
+    expect(() => validatePostApproval({ content: 'No reviewer' })).toThrow();
+  });
+
+  it('should publish only approved posts and record who reviewed them', async () => {
+    const publisher = new InMemoryPublisher();
+    bot = new TemplateBot(db, publisher);
+    await storeGenerated(['Draft tip one', 'Draft tip two', 'Draft tip three']);
+    await bot.initialize();
+
+    // Nothing is approved yet, and posts waiting for review hold back replenishment
+    expect(await bot.executePost()).toMatchObject({ success: false, error: 'No available posts' });
+    expect(publisher.published).toHaveLength(0);
+    expect(await db.all('SELECT id FROM posts')).toHaveLength(3);
+
+    const [first, second, third] = await bot.getReviewPosts();
+    expect([first, second, third].map(post => post.review_status)).toEqual(['pending_review', 'pending_review', 'pending_review']);
+    expect((await bot.getStatus()).pendingReviewPosts).toBe(3);
+
+    const approved = await bot.approvePost(first.id, 'alice', { content: 'Edited tip one' });
+    expect(approved).toMatchObject({ content: 'Edited tip one', review_status: 'approved', reviewed_by: 'alice' });
+    expect(approved.reviewed_at).toBeInstanceOf(Date);
+
+    // Bulk rejection is all or nothing
+    await expect(bot.rejectPosts([second.id, 999], 'bob', 'Off topic')).rejects.toMatchObject({ code: 'POST_NOT_FOUND' });
+    expect((await bot.getReviewPosts()).map(post => post.id)).toEqual([second.id, third.id]);
+
+    const rejected = await bot.rejectPosts([second.id, third.id], 'bob', 'Off topic');
+    expect(rejected.map(post => [post.review_status, post.reviewed_by, post.rejection_reason]))
+      .toEqual([['rejected', 'bob', 'Off topic'], ['rejected', 'bob', 'Off topic']]);
+    await expect(bot.approvePost(second.id, 'alice')).rejects.toMatchObject({ code: 'INVALID_REVIEW_TRANSITION' });
+    await expect(bot.rejectPosts([third.id], 'bob', 'Again')).rejects.toMatchObject({ code: 'INVALID_REVIEW_TRANSITION' });
+
+    // Edits may not duplicate another post
+    await storeGenerated(['Draft tip four']);
+    const [fourth] = await bot.getReviewPosts();
+    await expect(bot.approvePost(fourth.id, 'alice', { content: 'Edited tip one' })).rejects.toMatchObject({ code: 'DUPLICATE_POST' });
+    expect((await bot.getReviewPosts()).map(post => post.id)).toEqual([fourth.id]);
+
+    await bot.executePost();
+    expect(publisher.published.map(tweet => tweet.content)).toEqual(['Edited tip one']);
+    expect((await bot.getStatus()).remainingPosts).toBe(0);
+  });
+});
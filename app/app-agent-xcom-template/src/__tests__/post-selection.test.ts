@@ -0,0 +1,134 @@
+import { getPersona } from '../config/persona';
+import { DatabaseConnection } from '../shared/database/connection';
+import { SelectionPolicy } from '../shared/types';
+import { TemplatePostManager } from '../services/post-manager';
+import { getSelectionPolicy, TemplatePostSelector } from '../services/post-selection';
+
+jest.mock('../utils/logger');
+
+describe('TemplatePostSelector', () => {
+  const env = { ...process.env };
+  const botId = process.env.BOT_NAME || 'template-bot';
+  let db: DatabaseConnection;
+  let postManager: TemplatePostManager;
+  let topics: string[];
+
+  const policy = (overrides: Partial<SelectionPolicy>): SelectionPolicy => ({
+    strategy: 'oldest',
+    no_repeat_within: 0,
+    category_gaps: {},
+    ...overrides
+  });
+
+  // Queue one unused post per category, oldest first
+  const queuePosts = (categories: string[]) => postManager.storePosts(categories.map((category, index) => ({
+    content: `Queued post ${index} about ${category}`,
+    category,
+    tokens_used: 0,
+    cost: 0,
+    model: 'test'
+  })));
+
+  // Record a post published `hoursAgo` hours ago
+  const publishedPost = (category: string, hoursAgo: number) => db.run(`
+    INSERT INTO posts (content, bot_id, category, used, used_at, content_hash)
+    VALUES (?, ?, ?, 1, datetime('now', ?), ?)
+  `, [`Published ${category} ${hoursAgo}`, botId, category, `-${hoursAgo} hours`, `${category}-${hoursAgo}`]);
+
+  beforeEach(async () => {
+    db = new DatabaseConnection(':memory:');
+    await db.initialize();
+    postManager = new TemplatePostManager(db);
+    topics = getPersona().topics.map(topic => topic.key);
+  });
+
+  afterEach(async () => {
+    process.env = { ...env };
+    await db.close();
+  });
+
+  it('should skip categories posted within the no-repeat window and record why', async () => {
+    await queuePosts([topics[0], topics[1], topics[2]]);
+    await publishedPost(topics[1], 2);
+    await publishedPost(topics[0], 1);
+    const selector = new TemplatePostSelector(db);
+
+    const decision = await selector.selectNext(policy({ no_repeat_within: 2 }));
+
+    expect(decision.category).toBe(topics[2]);
+    expect((await postManager.getPostById(decision.post_id!))?.category).toBe(topics[2]);
+    expect(decision.candidates.find(candidate => candidate.category === topics[0])).toMatchObject({
+      eligible: false,
+      reason: 'Posted 1 post(s) ago (no repeat within 2)'
+    });
+
+    const [recorded] = await selector.getRecentDecisions();
+    expect(recorded).toMatchObject({ post_id: decision.post_id, category: topics[2], relaxed: false });
+    expect(recorded.candidates).toHaveLength(3);
+
+    // Stored timestamps are UTC
+    await db.run(`UPDATE post_selections SET created_at = '2026-01-02 03:04:05'`);
+    expect((await selector.getRecentDecisions())[0].decided_at).toEqual(new Date('2026-01-02T03:04:05Z'));
+  });
+
+  it('should enforce per-category gaps and relax the rules when every category is blocked', async () => {
+    await queuePosts([topics[0], topics[1]]);
+    await publishedPost(topics[0], 2);
+    await publishedPost(topics[1], 30);
+    const selector = new TemplatePostSelector(db);
+
+    let decision = await selector.selectNext(policy({ category_gaps: { '*': 24 } }));
+    expect(decision).toMatchObject({ category: topics[1], relaxed: false });
+    expect(decision.candidates.find(candidate => candidate.category === topics[0])?.reason)
+      .toMatch(/Last posted 2\.\dh ago \(minimum gap 24h\)/);
+
+    decision = await selector.selectNext(policy({ category_gaps: { '*': 24, [topics[1]]: 48 } }));
+    expect(decision).toMatchObject({ category: topics[0], relaxed: true });
+    expect(decision.reason).toContain('Rotation rules block all 2 categories');
+  });
+
+  it('should rotate categories round-robin and draw weighted-random picks', async () => {
+    await queuePosts([topics[2], topics[1], topics[0]]);
+    await publishedPost(topics[0], 1);
+
+    const roundRobin = await new TemplatePostSelector(db).selectNext(policy({ strategy: 'round-robin' }));
+    expect(roundRobin.category).toBe(topics[1]);
+    expect(roundRobin.reason).toContain(`after "${topics[0]}"`);
+
+    // A draw just below 1 lands in the last candidate
+    const weighted = await new TemplatePostSelector(db, () => 0.999).selectNext(
+      policy({ strategy: 'weighted-random' }),
+      false
+    );
+    expect(weighted.category).toBe(weighted.candidates[weighted.candidates.length - 1].category);
+    expect(await new TemplatePostSelector(db).getRecentDecisions()).toHaveLength(1);
+  });
+
+  it('should keep rotating round-robin when the last category is blocked', async () => {
+    await queuePosts([topics[0], topics[1], topics[2], topics[3], topics[0], topics[1]]);
+    const selector = new TemplatePostSelector(db);
+
+    const categories: string[] = [];
+    for (let second = 1; second <= 6; second++) {
+      const decision = await selector.selectNext(policy({ strategy: 'round-robin', no_repeat_within: 1 }));
+      categories.push(decision.category!);
+      await db.run(`UPDATE posts SET used = 1, used_at = datetime('now', ?) WHERE id = ?`, [`+${second} seconds`, decision.post_id]);
+    }
+
+    expect(categories).toEqual([topics[0], topics[1], topics[2], topics[3], topics[0], topics[1]]);
+  });
+
+  it('should read the policy from the environment', () => {
+    process.env.POST_SELECTION_STRATEGY = 'round-robin';
+    process.env.POST_SELECTION_NO_REPEAT_WITHIN = '3';
+    process.env.POST_SELECTION_CATEGORY_GAPS = 'humor:12, *:6';
+    expect(getSelectionPolicy()).toEqual({
+      strategy: 'round-robin',
+      no_repeat_within: 3,
+      category_gaps: { humor: 12, '*': 6 }
+    });
+
+    process.env.POST_SELECTION_CATEGORY_GAPS = 'humor';
+    expect(() => getSelectionPolicy()).toThrow('Invalid POST_SELECTION_CATEGORY_GAPS entry "humor"');
+  });
+});
@@ -0,0 +1,128 @@
+import { TemplateBot } from '../bot';
+import { DatabaseConnection } from '../shared/database/connection';
+import { getBlackoutPeriods, parseBlackouts, TemplatePostingGate } from '../services/posting-gate';
+import { TemplatePostManager } from '../services/post-manager';
+import { InMemoryPublisher } from '../services/publishing';
+import { validateQuietModeRequest } from '../shared/utils/validation';
+
+jest.mock('../services/openai');
+jest.mock('../utils/logger');
+
+describe('posting gate', () => {
+  const env = { ...process.env };
+  let db: DatabaseConnection;
+  let bot: TemplateBot | undefined;
+
+  const queuePost = (content: string) =>
+    new TemplatePostManager(db).addPost({ content, category: 'test', tokens_used: 0, cost: 0, model: 'manual' });
+
+  beforeEach(async () => {
+    db = new DatabaseConnection(':memory:');
+    await db.initialize();
+  });
+
+  afterEach(async () => {
+    process.env = { ...env };
+    // Shutdown also closes the database
+    await (bot ? bot.shutdown() : db.close());
+    bot = undefined;
+  });
+
+  it('should parse date ranges and recurring blackout windows in the schedule timezone', () => {
+    const windows = parseBlackouts('2026-12-24..2026-12-25; daily 22:00-06:00; sat,sun; fri-mon 12:00-13:00');
+    expect(windows.map(({ start, end, days }) => [start, end, days])).toEqual([
+      ['2026-12-24T00:00', '2026-12-26T00:00', undefined],
+      ['22:00', '06:00', [0, 1, 2, 3, 4, 5, 6]],
+      ['00:00', '00:00', [0, 6]],
+      ['12:00', '13:00', [0, 1, 5, 6]]
+    ]);
+    expect(() => parseBlackouts('xmas')).toThrow('Invalid POSTING_BLACKOUTS entry "xmas"');
+    expect(() => parseBlackouts('2026-12-26..2026-12-24')).toThrow('Invalid POSTING_BLACKOUTS entry');
+
+    // Denver falls back on November 1: the night window is one hour longer
+    const periods = getBlackoutPeriods(windows.slice(1, 2), 'America/Denver', new Date('2026-10-31T11:00:00Z'), new Date('2026-11-01T12:00:00Z'));
+    expect(periods.map(period => [period.start.toISOString(), period.end.toISOString()])).toEqual([
+      ['2026-10-31T04:00:00.000Z', '2026-10-31T12:00:00.000Z'],
+      ['2026-11-01T04:00:00.000Z', '2026-11-01T13:00:00.000Z']
+    ]);
+  });
+
+  it('should block posting in blackouts and quiet mode and add jitter', async () => {
+    process.env.TIMEZONE = 'UTC';
+    process.env.POST_JITTER_MINUTES = '10';
+    const gate = new TemplatePostingGate(db, () => 0.5);
+    expect(gate.getJitterMs()).toBe(5 * 60 * 1000);
+
+    const settings = { jitter_minutes: 0, blackout_action: 'skip' as const, blackouts: parseBlackouts('daily 22:00-06:00; 2026-05-02T05:00..2026-05-02T09:00') };
+    const blocked = await gate.check(new Date('2026-05-01T23:00:00Z'), settings);
+    expect(blocked).toMatchObject({ allowed: false, blackout: { label: 'daily 22:00-06:00' } });
+    expect(blocked.resume_at).toEqual(new Date('2026-05-02T09:00:00Z'));
+    expect((await gate.check(new Date('2026-05-02T09:00:00Z'), settings)).allowed).toBe(true);
+
+    await gate.setQuietMode(true, 'Breaking news', new Date(Date.now() + 60 * 60 * 1000));
+    expect(await gate.check()).toMatchObject({ allowed: false, reason: 'Quiet mode is on: Breaking news' });
+    expect((await gate.check(new Date(Date.now() + 2 * 60 * 60 * 1000))).allowed).toBe(true);
+    await gate.setQuietMode(false);
+    expect((await gate.getQuietMode()).enabled).toBe(false);
+  });
+
+  it('should keep quiet mode on without an end time and refuse one that has passed', async () => {
+    const gate = new TemplatePostingGate(db);
+
+    // null is no end time, not the epoch
+    const request = validateQuietModeRequest({ enabled: true, reason: 'Incident', until: null });
+    expect(request).toEqual({ enabled: true, reason: 'Incident', until: undefined });
+    await gate.setQuietMode(request.enabled, request.reason, request.until);
+    expect(await gate.getQuietMode(new Date(Date.now() + 365 * 24 * 60 * 60 * 1000))).toMatchObject({ enabled: true, reason: 'Incident' });
+
+    const past = validateQuietModeRequest({ enabled: true, until: new Date(Date.now() - 60 * 1000).toISOString() });
+    await expect(gate.setQuietMode(past.enabled, past.reason, past.until)).rejects.toMatchObject({ code: 'INVALID_QUIET_MODE' });
+    await expect(gate.setQuietMode(true, 'Epoch', new Date(0))).rejects.toMatchObject({ code: 'INVALID_QUIET_MODE' });
+    expect(() => validateQuietModeRequest({ enabled: true, until: 'soon' })).toThrow('Invalid until time');
+    expect(() => validateQuietModeRequest({ enabled: 'yes' })).toThrow();
+
+    // The quiet mode that was on is left untouched
+    expect((await gate.getQuietMode()).reason).toBe('Incident');
+  });
+
+  it('should defer blacked-out slots, skip in quiet mode and show blackouts in the calendar', async () => {
+    process.env.TIMEZONE = 'UTC';
+    process.env.BOT_SCHEDULE = '09:00';
+    process.env.BLACKOUT_ACTION = 'defer';
+    process.env.POSTING_BLACKOUTS = '2026-01-01..2026-01-02';
+    process.env.REPLENISHMENT_THRESHOLD = '0';
+    for (const content of ['First post', 'Second post']) {
+      await queuePost(content);
+    }
+
+    const publisher = new InMemoryPublisher();
+    bot = new TemplateBot(db, publisher);
+    await bot.initialize();
+
+    await bot.runScheduledSlot(new Date('2026-01-01T09:00:00Z'));
+    await bot.runScheduledSlot(new Date('2026-01-02T09:00:00Z'));
+    expect(publisher.published).toHaveLength(0);
+
+    await bot.postDeferredSlot();
+    expect(publisher.published.map(tweet => tweet.content)).toEqual(['First post']);
+    const { slots } = await bot.getSlotHistory();
+    expect(slots.map(slot => [slot.slot_at.toISOString(), slot.status])).toEqual([
+      ['2026-01-02T09:00:00.000Z', 'skipped'],
+      ['2026-01-01T09:00:00.000Z', 'posted']
+    ]);
+    expect(slots[0].reason).toContain('slot 2026-01-01T09:00:00.000Z is already deferred');
+
+    await bot.setQuietMode(true, 'Incident');
+    expect(await bot.executePost()).toMatchObject({ success: false, blocked: true, error: 'Quiet mode is on: Incident' });
+    await bot.runScheduledSlot(new Date('2026-01-05T09:00:00Z'));
+    expect(publisher.published).toHaveLength(1);
+    expect((await bot.getSlotHistory(1)).slots[0]).toMatchObject({ status: 'skipped', reason: 'Quiet mode is on: Incident' });
+
+    process.env.POSTING_BLACKOUTS = 'sun';
+    const calendar = await bot.getCalendar(14);
+    const sunday = calendar.slots.find(slot => slot.at.getUTCDay() === 0);
+    expect(sunday?.blackout).toBe('sun');
+    expect(calendar.blackouts.every(period => period.label === 'sun')).toBe(true);
+    expect((await bot.getPostingStatus()).gate.quiet_mode.enabled).toBe(true);
+  });
+});
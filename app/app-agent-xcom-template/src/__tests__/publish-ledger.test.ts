@@ -0,0 +1,75 @@
+import { TemplateBot } from '../bot';
+import { DatabaseConnection } from '../shared/database/connection';
+import { TwitterAPIError } from '../shared/types';
+import { TemplatePostManager } from '../services/post-manager';
+import { InMemoryPublisher } from '../services/publishing';
+
+jest.mock('../services/openai');
+jest.mock('../utils/logger');
+
+describe('published-post ledger', () => {
+  const env = { ...process.env };
+  let db: DatabaseConnection;
+  let bot: TemplateBot | undefined;
+
+  beforeEach(async () => {
+    process.env.REPLENISHMENT_THRESHOLD = '0';
+    process.env.MAX_RETRIES = '2';
+    process.env.RETRY_DELAY_MS = '0';
+    db = new DatabaseConnection(':memory:');
+    await db.initialize();
+  });
+
+  afterEach(async () => {
+    process.env = { ...env };
+    // Shutdown also closes the database
+    await (bot ? bot.shutdown() : db.close());
+    bot = undefined;
+  });
+
+  it('should link posts to their tweets, attempts and status, and delete them by local ID', async () => {
+    const postManager = new TemplatePostManager(db);
+    const singleId = await postManager.addPost({ content: 'Single post', category: 'news', tokens_used: 0, cost: 0, model: 'manual' });
+    const threadId = await postManager.addPost({
+      content: 'Thread head',
+      segments: ['Thread head', 'Thread reply', 'Thread end'],
+      category: 'threads',
+      tokens_used: 0,
+      cost: 0,
+      model: 'manual'
+    });
+
+    const publisher = new InMemoryPublisher();
+    bot = new TemplateBot(db, publisher);
+    await bot.initialize();
+
+    // The single post fails once, then goes out on its retry
+    publisher.failNext(new TwitterAPIError('Temporary failure', true));
+    await bot.executePost(singleId);
+    await bot.executePost(threadId);
+
+    const [thread, single] = await bot.getPublishedPosts();
+    expect(single).toMatchObject({
+      post_id: singleId,
+      status: 'published',
+      publish_mode: 'memory',
+      attempts: 2,
+      tweet_ids: [single.tweet_id],
+      content: 'Single post',
+      category: 'news'
+    });
+    expect((await postManager.getPostById(singleId))?.tweet_id).toBe(single.tweet_id);
+    expect(thread).toMatchObject({ post_id: threadId, status: 'published', attempts: 1, error: undefined });
+    expect(thread.tweet_ids).toHaveLength(3);
+    expect(thread.tweet_id).toBe(thread.tweet_ids[0]);
+
+    // Replies are deleted before the head
+    const deleteTweet = jest.spyOn(publisher, 'deleteTweet');
+    expect(await bot.deletePublishedPost(threadId)).toEqual({ deleted: [...thread.tweet_ids].reverse(), failed: [] });
+    expect(deleteTweet.mock.calls.map(([tweetId]) => tweetId)).toEqual([...thread.tweet_ids].reverse());
+    expect((await bot.getPublishedPosts(10, 0, 'deleted')).map(post => post.post_id)).toEqual([threadId]);
+    expect(publisher.published.map(tweet => tweet.content)).toEqual(['Single post']);
+
+    await expect(bot.deletePublishedPost(9999)).rejects.toMatchObject({ code: 'POST_NOT_FOUND' });
+  });
+});
@@ -0,0 +1,202 @@
+import { TemplateBot } from '../bot';
+import { DatabaseConnection } from '../shared/database/connection';
+import { TemplatePostManager } from '../services/post-manager';
+import { DryRunPublisher, InMemoryPublisher } from '../services/publishing';
+import { TwitterAPIError } from '../shared/types';
+import { validateManualPost } from '../shared/utils/validation';
+
+jest.mock('../services/openai');
+jest.mock('../utils/logger');
+
+describe('publishers', () => {
+  const env = { ...process.env };
+  let db: DatabaseConnection;
+  let bot: TemplateBot;
+
+  const queuePost = (content: string, segments?: string[]) =>
+    new TemplatePostManager(db).addPost({
+      content,
+      segments,
+      category: 'test',
+      tokens_used: 0,
+      cost: 0,
+      model: 'manual'
+    });
+
+  beforeEach(async () => {
+    process.env.REPLENISHMENT_THRESHOLD = '0';
+    process.env.RETRY_DELAY_MS = '0';
+    // A fresh connection per test; initializeDatabase() returns a shared instance
+    db = new DatabaseConnection(':memory:');
+    await db.initialize();
+  });
+
+  afterEach(async () => {
+    // Shutdown also closes this test's database
+    await bot.shutdown();
+    process.env = { ...env };
+  });
+
+  describe('InMemoryPublisher', () => {
+    it('should run the full posting path without touching X', async () => {
+      const publisher = new InMemoryPublisher();
+      const postId = await queuePost('Hello from the in-memory publisher');
+      bot = new TemplateBot(db, publisher);
+      await bot.initialize();
+
+      await bot.executePost();
+
+      expect(publisher.published.map(tweet => tweet.content)).toEqual(['Hello from the in-memory publisher']);
+      const post = await db.get('SELECT used FROM posts WHERE id = ?', [postId]);
+      expect(post.used).toBe(1);
+      const logs = await db.all('SELECT tweet_id FROM post_logs WHERE post_id = ? AND success = 1', [postId]);
+      expect(logs).toEqual([{ tweet_id: 'memory-1' }]);
+      expect((await bot.getStatus()).publishMode).toBe('memory');
+    });
+
+    it('should retry retryable failures and stop on permanent ones', async () => {
+      const publisher = new InMemoryPublisher();
+      const retriedId = await queuePost('Retried post');
+      bot = new TemplateBot(db, publisher);
+      await bot.initialize();
+
+      publisher.failNext(new TwitterAPIError('Temporary failure', true));
+      await bot.executePost();
+      expect(publisher.published).toHaveLength(1);
+      expect((await db.get('SELECT used FROM posts WHERE id = ?', [retriedId])).used).toBe(1);
+
+      const rejectedId = await queuePost('Rejected post');
+      publisher.failNext(new TwitterAPIError('Duplicate tweet content', false));
+      await bot.executePost(rejectedId);
+      const attempts = await db.all('SELECT success FROM post_logs WHERE post_id = ?', [rejectedId]);
+      expect(attempts).toEqual([{ success: 0 }]);
+      expect((await db.get('SELECT used FROM posts WHERE id = ?', [rejectedId])).used).toBe(0);
+    });
+  });
+
+  describe('DryRunPublisher', () => {
+    it('should record tweets in the outbox and mark posts as used by default', async () => {
+      const publisher = new DryRunPublisher(db, undefined);
+      const postId = await queuePost('Rehearsal post');
+      bot = new TemplateBot(db, publisher);
+      await bot.initialize();
+
+      await bot.executePost();
+
+      const outbox = await publisher.getOutbox();
+      expect(outbox).toHaveLength(1);
+      expect(outbox[0].content).toBe('Rehearsal post');
+      expect(outbox[0].tweet_id).toMatch(/^dry-run-/);
+      expect((await db.get('SELECT used FROM posts WHERE id = ?', [postId])).used).toBe(1);
+    });
+
+    it('should leave posts queued but move through the queue when DRY_RUN_MARK_USED is false', async () => {
+      process.env.DRY_RUN_MARK_USED = 'false';
+      const publisher = new DryRunPublisher(db, undefined);
+      const firstId = await queuePost('Rehearsal post');
+      const secondId = await queuePost('Second rehearsal post');
+      bot = new TemplateBot(db, publisher);
+      await bot.initialize();
+
+      expect(await bot.executePost()).toMatchObject({ success: true, post_id: firstId });
+      // The first post stays queued, but the next slot picks the next post
+      expect(await bot.executePost()).toMatchObject({ success: true, post_id: secondId });
+      expect(await bot.executePost()).toMatchObject({ success: false, error: 'No available posts' });
+
+      expect((await publisher.getOutbox()).map(tweet => tweet.content)).toEqual(['Second rehearsal post', 'Rehearsal post']);
+      expect(await publisher.getRehearsedPostIds()).toEqual([firstId, secondId]);
+      const posts = await db.all('SELECT used FROM posts WHERE id IN (?, ?)', [firstId, secondId]);
+      expect(posts).toEqual([{ used: 0 }, { used: 0 }]);
+    });
+  });
+
+  describe('threads', () => {
+    it('should chain thread segments as replies', async () => {
+      const publisher = new InMemoryPublisher();
+      await queuePost('First\n\nSecond', ['First', 'Second']);
+      bot = new TemplateBot(db, publisher);
+      await bot.initialize();
+
+      await bot.executePost();
+
+      expect(publisher.published).toHaveLength(2);
+      expect(publisher.published[1].reply_to_id).toBe(publisher.published[0].tweet_id);
+    });
+
+    it('should resume a stopped thread after its posted segments without BOT_NAME', async () => {
+      delete process.env.BOT_NAME;
+      process.env.MAX_RETRIES = '2';
+      const publisher = new InMemoryPublisher();
+      const threadId = await queuePost('First\n\nSecond\n\nThird', ['First', 'Second', 'Third']);
+      bot = new TemplateBot(db, publisher);
+      await bot.initialize();
+
+      // The thread stops after its head on both attempts, then completes on the next run
+      const postTweet = publisher.postTweet.bind(publisher);
+      jest.spyOn(publisher, 'postTweet')
+        .mockImplementationOnce(postTweet)
+        .mockRejectedValueOnce(new TwitterAPIError('Temporary failure', true))
+        .mockRejectedValueOnce(new TwitterAPIError('Temporary failure', true));
+      expect(await bot.executePost(threadId)).toMatchObject({ success: false });
+      const [firstRun] = await bot.getPublishedPosts();
+      expect(firstRun).toMatchObject({ post_id: threadId, status: 'partial', attempts: 2, error: 'Thread failed at segment 2/3: Temporary failure' });
+      expect(firstRun.tweet_ids).toHaveLength(1);
+
+      await bot.executePost(threadId);
+      const [thread] = await bot.getPublishedPosts();
+      expect(thread).toMatchObject({ status: 'published', attempts: 3, error: undefined });
+      expect(thread.tweet_ids).toHaveLength(3);
+      expect(publisher.published.map(tweet => tweet.content)).toEqual(['First', 'Second', 'Third']);
+      expect(publisher.published[1].reply_to_id).toBe(publisher.published[0].tweet_id);
+      const logs = await db.all('SELECT DISTINCT bot_id FROM post_logs WHERE post_id = ?', [threadId]);
+      expect(logs).toEqual([{ bot_id: 'template-bot' }]);
+    });
+
+    it('should stop a thread and take it out of the queue when a posted segment cannot be recorded', async () => {
+      const publisher = new InMemoryPublisher();
+      const threadId = await queuePost('Thread head\n\nThread reply\n\nThread end', ['Thread head', 'Thread reply', 'Thread end']);
+      bot = new TemplateBot(db, publisher);
+      await bot.initialize();
+
+      // X accepts the reply, but its post_logs row is never written
+      const run = db.run.bind(db);
+      let segmentLogs = 0;
+      jest.spyOn(db, 'run').mockImplementation(async (sql, params) => {
+        if (sql.includes('INSERT INTO post_logs') && sql.includes('segment_index') && params?.[3] === true && ++segmentLogs === 2) {
+          throw new Error('SQLITE_BUSY: database is locked');
+        }
+        return run(sql, params);
+      });
+
+      const result = await bot.executePost(threadId);
+      expect(result).toMatchObject({ success: false, post_id: threadId });
+      expect(result.error).toMatch(/^Thread stopped at segment 2\/3: tweet \S+ was posted but could not be recorded: SQLITE_BUSY/);
+      // No retry: the reply is posted once and the thread end never
+      expect(publisher.published.map(tweet => tweet.content)).toEqual(['Thread head', 'Thread reply']);
+
+      const post = await new TemplatePostManager(db).getPostById(threadId);
+      expect(post).toMatchObject({ used: false, review_status: 'needs_attention' });
+      const [entry] = await bot.getPublishedPosts();
+      expect(entry).toMatchObject({ post_id: threadId, status: 'partial', attempts: 1 });
+      expect(entry.tweet_ids).toHaveLength(2);
+
+      // Later runs leave it alone instead of posting the reply again
+      expect(await bot.executePost(threadId)).toMatchObject({ success: false, error: `Post ${threadId} is not publishable (review status: needs_attention)` });
+      await bot.executePost();
+      expect(publisher.published.filter(tweet => tweet.content.startsWith('Thread')).map(tweet => tweet.content))
+        .toEqual(['Thread head', 'Thread reply']);
+    });
+
+    it('should publish a one-segment thread as a single tweet', async () => {
+      const publisher = new InMemoryPublisher();
+      bot = new TemplateBot(db, publisher);
+      await bot.initialize();
+
+      await bot.manualPost(validateManualPost({ segments: ['Only one segment'] }));
+
+      expect(publisher.published.map(tweet => tweet.content)).toEqual(['Only one segment']);
+      const post = await db.get("SELECT content, segments, used FROM posts WHERE category = 'manual'");
+      expect(post).toEqual({ content: 'Only one segment', segments: null, used: 1 });
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { DatabaseConnection } from '../shared/database/connection';
+import { getPostingBudgetSettings, RateLimitTracker, TWEET_CREATE_ENDPOINT } from '../services/rate-limit-tracker';
+
+jest.mock('../utils/logger');
+
+const MINUTE_MS = 60 * 1000;
+
+describe('posting budget', () => {
+  const env = { ...process.env };
+  let db: DatabaseConnection;
+  let tracker: RateLimitTracker;
+
+  // A tweet posted some minutes ago, as post_logs records it
+  const logTweet = (minutesAgo: number, tweetId: string = `tweet-${minutesAgo}`) => db.run(`
+    INSERT INTO post_logs (bot_id, attempt_number, success, tweet_id, created_at)
+    VALUES (?, 1, 1, ?, datetime('now', ?))
+  `, ['template-bot', tweetId, `-${minutesAgo} minutes`]);
+
+  beforeEach(async () => {
+    delete process.env.BOT_NAME;
+    process.env.TWITTER_POSTS_PER_15MIN_BUDGET = '3';
+    process.env.TWITTER_POSTS_PER_DAY_BUDGET = '5';
+    db = new DatabaseConnection(':memory:');
+    await db.initialize();
+    tracker = new RateLimitTracker(db);
+  });
+
+  afterEach(async () => {
+    process.env = { ...env };
+    await db.close();
+  });
+
+  it('should validate the budget settings', async () => {
+    expect(getPostingBudgetSettings()).toEqual({ limit_per_15min: 3, limit_per_day: 5 });
+
+    delete process.env.TWITTER_POSTS_PER_15MIN_BUDGET;
+    delete process.env.TWITTER_POSTS_PER_DAY_BUDGET;
+    expect(getPostingBudgetSettings()).toEqual({ limit_per_15min: 300, limit_per_day: 2400 });
+
+    process.env.TWITTER_POSTS_PER_15MIN_BUDGET = '3O';
+    expect(() => getPostingBudgetSettings()).toThrow('Invalid TWITTER_POSTS_PER_15MIN_BUDGET "3O"');
+    await expect(tracker.checkPostingBudget()).rejects.toThrow('Invalid TWITTER_POSTS_PER_15MIN_BUDGET');
+    await expect(tracker.initialize()).rejects.toThrow('Invalid TWITTER_POSTS_PER_15MIN_BUDGET');
+
+    process.env.TWITTER_POSTS_PER_15MIN_BUDGET = '3';
+    for (const value of ['-1', '2.5', 'many']) {
+      process.env.TWITTER_POSTS_PER_DAY_BUDGET = value;
+      expect(() => getPostingBudgetSettings()).toThrow(`Invalid TWITTER_POSTS_PER_DAY_BUDGET "${value}"`);
+    }
+  });
+
+  it('should enforce the 15-minute window and wait until its oldest tweet leaves it', async () => {
+    await logTweet(20);
+    await logTweet(10);
+    await logTweet(5);
+
+    expect(await tracker.checkPostingBudget(1)).toMatchObject({
+      allowed: true,
+      wait_ms: 0,
+      posts_last_15min: 2,
+      posts_last_day: 3,
+      limit_per_15min: 3,
+      limit_per_day: 5
+    });
+
+    // A thread needs a tweet per segment: two more would make four in 15 minutes
+    const thread = await tracker.checkPostingBudget(2);
+    expect(thread).toMatchObject({ allowed: false, reason: '15-minute posting budget exhausted (2/3)' });
+    // The tweet from 10 minutes ago leaves the window in 5 minutes
+    expect(thread.wait_ms).toBeGreaterThan(5 * MINUTE_MS - 5000);
+    expect(thread.wait_ms).toBeLessThanOrEqual(5 * MINUTE_MS);
+  });
+
+  it('should enforce the daily window and wait until its oldest tweet leaves it', async () => {
+    await logTweet(23 * 60);
+    for (const minutesAgo of [120, 90, 60, 30]) {
+      await logTweet(minutesAgo);
+    }
+    await logTweet(25 * 60);  // Outside both windows
+
+    const status = await tracker.checkPostingBudget(1);
+    expect(status).toMatchObject({ allowed: false, posts_last_15min: 0, posts_last_day: 5, reason: 'Daily posting budget exhausted (5/5)' });
+    // The tweet from 23 hours ago leaves the window in an hour
+    expect(status.wait_ms).toBeGreaterThan(60 * MINUTE_MS - 5000);
+    expect(status.wait_ms).toBeLessThanOrEqual(60 * MINUTE_MS);
+
+    // Checking without posting (status endpoints) never exceeds the budget
+    expect((await tracker.checkPostingBudget(0)).allowed).toBe(true);
+  });
+
+  it('should only count successful tweets of this bot and respect the X window', async () => {
+    await db.run(`INSERT INTO post_logs (bot_id, attempt_number, success, error_message) VALUES ('template-bot', 1, 0, 'Failed')`);
+    await db.run(`INSERT INTO post_logs (bot_id, attempt_number, success, tweet_id) VALUES ('other-bot', 1, 1, 'other-tweet')`);
+    expect(await tracker.checkPostingBudget(3)).toMatchObject({ allowed: true, posts_last_15min: 0, posts_last_day: 0 });
+
+    // X says the tweet window is used up: wait for its reset even with local budget left
+    const resetAt = Date.now() + 10 * MINUTE_MS;
+    await tracker.record(TWEET_CREATE_ENDPOINT, { limit: 200, remaining: 0, reset: Math.floor(resetAt / 1000) });
+    const status = await tracker.checkPostingBudget(1);
+    expect(status).toMatchObject({ allowed: false, reason: 'X API tweet rate limit exhausted' });
+    expect(status.wait_ms).toBeGreaterThan(10 * MINUTE_MS - 5000);
+    expect(status.wait_ms).toBeLessThanOrEqual(10 * MINUTE_MS);
+  });
+});
@@ -0,0 +1,70 @@
+import { DatabaseConnection } from '../shared/database/connection';
+import { StubContentModel } from '../services/content-models';
+import { TemplateOpenAIService } from '../services/openai';
+import { TemplatePostManager } from '../services/post-manager';
+import { TemplateReplenishmentService } from '../services/replenishment';
+
+jest.mock('../utils/logger');
+
+describe('TemplateReplenishmentService', () => {
+  const env = { ...process.env };
+  let db: DatabaseConnection;
+  let postManager: TemplatePostManager;
+
+  beforeEach(async () => {
+    db = new DatabaseConnection(':memory:');
+    await db.initialize();
+    postManager = new TemplatePostManager(db);
+  });
+
+  afterEach(async () => {
+    process.env = { ...env };
+    await db.close();
+  });
+
+  it('should split a hybrid batch by REPLENISHMENT_LLM_RATIO', async () => {
+    process.env.REPLENISHMENT_LLM_RATIO = '0.25';
+    const openaiService = new TemplateOpenAIService(new StubContentModel());
+    await openaiService.initialize();
+    const service = new TemplateReplenishmentService(db, postManager, openaiService);
+
+    const result = await service.replenish(8, 'hybrid');
+
+    expect(result.llm_posts).toBe(2);
+    expect(result.local_posts).toBe(6);
+    expect(result.stored).toBe(8);
+    expect(result.pending_review).toBe(2);
+    expect(await postManager.getPostCount()).toMatchObject({ total: 8, remaining: 6, pending_review: 2 });
+    expect(result.models).toEqual(['stub:stub-v1', 'template-bot-local']);
+    expect(result.fallback_reason).toBeUndefined();
+
+    const log = await db.get('SELECT * FROM generation_logs');
+    expect(log).toMatchObject({ batch_size: 8, strategy: 'hybrid', success_count: 8, failure_count: 0 });
+  });
+
+  it('should fall back to local posts when the content model is unavailable', async () => {
+    const service = new TemplateReplenishmentService(
+      db,
+      postManager,
+      new TemplateOpenAIService(new StubContentModel())
+    );
+
+    const result = await service.replenish(5, 'llm');
+
+    expect(result.llm_posts).toBe(0);
+    expect(result.local_posts).toBe(5);
+    expect(result.stored).toBe(5);
+    expect(await db.all('SELECT id FROM posts')).toHaveLength(5);
+
+    const log = await db.get('SELECT * FROM generation_logs');
+    expect(log).toMatchObject({ strategy: 'llm', success_count: 5, failure_count: 5 });
+    expect(log.error_message).toContain('not initialized');
+  });
+
+  it('should reject unknown strategies', async () => {
+    process.env.REPLENISHMENT_STRATEGY = 'magic';
+    const service = new TemplateReplenishmentService(db, postManager, new TemplateOpenAIService(new StubContentModel()));
+
+    await expect(service.replenish(1)).rejects.toThrow('Invalid REPLENISHMENT_STRATEGY');
+  });
+});
@@ -0,0 +1,98 @@
+import { TemplateBot } from '../bot';
+import { DatabaseConnection } from '../shared/database/connection';
+import { TemplateBotState } from '../services/bot-state';
+import { toSqlTimestamp } from '../shared/utils/sql-timestamp';
+import { TemplatePostManager } from '../services/post-manager';
+import { InMemoryPublisher } from '../services/publishing';
+import { getMissedPostSettings, TemplateSlotTracker } from '../services/schedule-slots';
+
+jest.mock('../services/openai');
+jest.mock('../utils/logger');
+
+describe('missed slot catch-up', () => {
+  const env = { ...process.env };
+  const schedule = { timezone: 'UTC', slots: [{ cron_expression: '0 9 * * *', timezone: 'UTC', description: '09:00 daily' }] };
+  const grace = { policy: 'grace-window' as const, grace_minutes: 60 };
+  let db: DatabaseConnection;
+  let tracker: TemplateSlotTracker;
+  let bot: TemplateBot | undefined;
+
+  const queuePost = (content: string) =>
+    new TemplatePostManager(db).addPost({ content, category: 'test', tokens_used: 0, cost: 0, model: 'manual' });
+
+  beforeEach(async () => {
+    db = new DatabaseConnection(':memory:');
+    await db.initialize();
+    tracker = new TemplateSlotTracker(db);
+  });
+
+  afterEach(async () => {
+    process.env = { ...env };
+    // Shutdown also closes the database
+    await (bot ? bot.shutdown() : db.close());
+    bot = undefined;
+  });
+
+  it('should start tracking on first run and post once within the grace window', async () => {
+    const postId = await queuePost('Catch-up post');
+    const post = jest.fn().mockResolvedValue({ success: true, post_id: postId });
+
+    expect(await tracker.catchUp(schedule, post, new Date('2026-05-01T12:00:00Z'), grace)).toMatchObject({ missed: 0 });
+
+    const report = await tracker.catchUp(schedule, post, new Date('2026-05-04T09:20:00Z'), grace);
+    expect(report).toMatchObject({ missed: 3, posted: true, post_id: postId, latest_missed_at: new Date('2026-05-04T09:00:00Z') });
+    expect(report.reason).toBe('Latest missed slot is 20 minute(s) old, within the 60 minute grace window');
+    expect(post).toHaveBeenCalledTimes(1);
+
+    expect((await tracker.getRecentSlots(10, true)).map(slot => [slot.slot_at.toISOString(), slot.status, slot.post_id])).toEqual([
+      ['2026-05-04T09:00:00.000Z', 'caught-up', postId],
+      ['2026-05-03T09:00:00.000Z', 'skipped', undefined],
+      ['2026-05-02T09:00:00.000Z', 'skipped', undefined]
+    ]);
+
+    // Recorded slots are not missed again
+    expect(await tracker.catchUp(schedule, post, new Date('2026-05-04T09:30:00Z'), grace)).toMatchObject({ missed: 0 });
+  });
+
+  it('should skip, ignore pinned slots and record the reasoning per policy', async () => {
+    const post = jest.fn().mockResolvedValue({ success: true });
+    await new TemplateBotState(db).set('schedule_tracked_since', '2026-05-01T12:00:00.000Z');
+    const pinnedId = await queuePost('Pinned post');
+    await db.run('UPDATE posts SET scheduled_for = ? WHERE id = ?', [toSqlTimestamp(new Date('2026-05-03T09:00:00Z')), pinnedId]);
+
+    const late = await tracker.catchUp(schedule, post, new Date('2026-05-03T11:30:00Z'), grace);
+    expect(late).toMatchObject({ missed: 1, posted: false, reason: 'Latest missed slot is 26.5h old, outside the 60 minute grace window' });
+
+    const skipped = await tracker.catchUp(schedule, post, new Date('2026-05-05T09:05:00Z'), { policy: 'skip', grace_minutes: 60 });
+    expect(skipped).toMatchObject({ missed: 2, posted: false });
+    expect(skipped.reason).toContain('policy skip does not post missed slots');
+
+    const once = await tracker.catchUp(schedule, post, new Date('2026-05-09T10:00:00Z'), { policy: 'post-once', grace_minutes: 0 });
+    expect(once).toMatchObject({ missed: 4, posted: true, reason: 'Posting once for 4 missed slot(s) (latest 60 minute(s) ago)' });
+    expect(post).toHaveBeenCalledTimes(1);
+
+    process.env.MISSED_POST_POLICY = 'always';
+    expect(() => getMissedPostSettings()).toThrow('Invalid MISSED_POST_POLICY "always"');
+  });
+
+  it('should catch up on startup and record slots as they fire', async () => {
+    process.env.BOT_SCHEDULE = '0 */6 * * *';
+    process.env.MISSED_POST_POLICY = 'post-once';
+    process.env.REPLENISHMENT_THRESHOLD = '0';
+    await queuePost('Missed while down');
+    await queuePost('On time');
+    await new TemplateBotState(db).set('schedule_tracked_since', new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString());
+
+    const publisher = new InMemoryPublisher();
+    bot = new TemplateBot(db, publisher);
+    await bot.initialize();
+    expect(publisher.published.map(tweet => tweet.content)).toEqual(['Missed while down']);
+
+    const next = new Date(Math.ceil(Date.now() / (6 * 60 * 60 * 1000)) * 6 * 60 * 60 * 1000);
+    await bot.runScheduledSlot(next);
+    const { settings, slots } = await bot.getSlotHistory(10);
+    expect(settings).toEqual({ policy: 'post-once', grace_minutes: 60 });
+    expect(slots[0]).toMatchObject({ slot_at: next, status: 'posted', missed: false });
+    expect(slots.filter(slot => slot.missed).map(slot => slot.status).sort()).toEqual(['caught-up', 'skipped', 'skipped', 'skipped']);
+  });
+});
@@ -0,0 +1,115 @@
+import path from 'path';
+import { TemplateBot } from '../bot';
+import { loadPersona, PersonaSchema } from '../config/persona';
+import { getNextFireTimes, getPersonaSchedule, getPostingSchedule } from '../config/schedule';
+import { DatabaseConnection } from '../shared/database/connection';
+import { getNextCronDates } from '../shared/utils/cron';
+import { TemplatePostManager } from '../services/post-manager';
+import { InMemoryPublisher } from '../services/publishing';
+
+jest.mock('../services/openai');
+jest.mock('../utils/logger');
+
+const TEMPLATE_PERSONA = path.resolve(__dirname, '../../personas/template.json');
+
+describe('posting schedule', () => {
+  const env = { ...process.env };
+  const persona = loadPersona(TEMPLATE_PERSONA);
+  const withSchedule = (schedule: Record<string, unknown>) =>
+    ({ ...persona, schedule: { ...persona.schedule, ...schedule } }) as typeof persona;
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('should turn slot times and weekday variations into one cron job per time', () => {
+    const schedule = {
+      timezone: 'America/Denver',
+      slots: getPersonaSchedule(withSchedule({ slots: ['09:00', '17:30'], weekdays: { sat: ['11:00'], sun: [] } }))
+    };
+
+    expect(schedule.slots.map(slot => [slot.cron_expression, slot.description])).toEqual([
+      ['0 9 * * 1,2,3,4,5', '09:00 mon,tue,wed,thu,fri'],
+      ['0 11 * * 6', '11:00 sat'],
+      ['30 17 * * 1,2,3,4,5', '17:30 mon,tue,wed,thu,fri']
+    ]);
+
+    // Friday before the switch to daylight time; no posts on Sunday
+    expect(getNextFireTimes(schedule, new Date('2026-03-06T12:00:00Z'), 5).map(date => date.toISOString())).toEqual([
+      '2026-03-06T16:00:00.000Z',
+      '2026-03-07T00:30:00.000Z',
+      '2026-03-07T18:00:00.000Z',
+      '2026-03-09T15:00:00.000Z',
+      '2026-03-09T23:30:00.000Z'
+    ]);
+  });
+
+  it('should skip missing times and fire repeated times once across DST changes', () => {
+    expect(getNextCronDates('30 2 * * *', 'America/Denver', new Date('2026-03-07T12:00:00Z'))).toEqual([
+      new Date('2026-03-09T08:30:00Z')
+    ]);
+    expect(getNextCronDates('30 1 * * *', 'America/Denver', new Date('2026-10-31T12:00:00Z'), 2)).toEqual([
+      new Date('2026-11-01T07:30:00Z'),
+      new Date('2026-11-02T08:30:00Z')
+    ]);
+  });
+
+  it('should take BOT_SCHEDULE and TIMEZONE over the persona schedule and validate them', () => {
+    process.env.BOT_SCHEDULE = '20:00; 08:00; 0 12 * * sat';
+    process.env.TIMEZONE = 'Asia/Kolkata';
+    expect(getPostingSchedule()).toEqual({
+      timezone: 'Asia/Kolkata',
+      slots: [
+        { cron_expression: '0 8 * * *', timezone: 'Asia/Kolkata', description: '08:00 daily' },
+        { cron_expression: '0 20 * * *', timezone: 'Asia/Kolkata', description: '20:00 daily' },
+        { cron_expression: '0 12 * * sat', timezone: 'Asia/Kolkata', description: '0 12 * * sat' }
+      ]
+    });
+
+    process.env.BOT_SCHEDULE = '25:00';
+    expect(() => getPostingSchedule()).toThrow('Invalid BOT_SCHEDULE entry "25:00"');
+    process.env.TIMEZONE = 'Mars/Olympus_Mons';
+    expect(() => getPostingSchedule()).toThrow(expect.objectContaining({ code: 'INVALID_SCHEDULE' }));
+  });
+
+  it('should reject persona schedules with unknown weekdays, timezones or no slots', () => {
+    const issues = (schedule: Record<string, unknown>) =>
+      PersonaSchema.safeParse(withSchedule(schedule)).error?.errors.map((issue: { message: string }) => issue.message);
+
+    expect(issues({ weekdays: { funday: ['09:00'] } })).toEqual([expect.stringContaining('Unknown weekday "funday"')]);
+    expect(issues({ timezone: 'Nowhere/City' })).toEqual(['Unknown IANA timezone']);
+    expect(issues({ slots: [], weekdays: { mon: [] } })).toEqual(['schedule needs at least one slot time or cron expression']);
+    expect(issues({ slots: ['9am'] })).toEqual(['Slot times are HH:MM on a 24-hour clock']);
+  });
+
+  it('should run one job per slot and fill each local minute once', async () => {
+    process.env.BOT_SCHEDULE = '09:00; 18:00; 0 9 * * *';
+    process.env.REPLENISHMENT_THRESHOLD = '0';
+    const db = new DatabaseConnection(':memory:');
+    await db.initialize();
+    const postManager = new TemplatePostManager(db);
+    for (const content of ['First post', 'Second post']) {
+      await postManager.addPost({ content, category: 'test', tokens_used: 0, cost: 0, model: 'manual' });
+    }
+
+    const publisher = new InMemoryPublisher();
+    const bot = new TemplateBot(db, publisher);
+    try {
+      await bot.initialize();
+      expect(bot['cronJobs']).toHaveLength(3);
+
+      // Two slots firing in the same minute post once
+      const slot = new Date('2026-05-04T15:00:00Z');
+      await bot.runScheduledSlot(slot);
+      await bot.runScheduledSlot(slot);
+      expect(publisher.published.map(tweet => tweet.content)).toEqual(['First post']);
+
+      const config = await db.get('SELECT schedule_cron, timezone FROM bot_configs WHERE bot_id = ?', [
+        process.env.BOT_NAME || 'template-bot'
+      ]);
+      expect(config).toEqual({ schedule_cron: '0 9 * * *; 0 18 * * *; 0 9 * * *', timezone: 'America/Denver' });
+    } finally {
+      await bot.shutdown();
+    }
+  });
+});
@@ -0,0 +1,143 @@
+import { TemplateBot } from '../bot';
+import { setPersona } from '../config/persona';
+import { DatabaseConnection } from '../shared/database/connection';
+import { EmbeddingModel } from '../shared/services/content-model';
+import { SimilarPostError } from '../shared/types';
+import { TemplatePostManager } from '../services/post-manager';
+import { InMemoryPublisher } from '../services/publishing';
+import {
+  estimateSimilarity,
+  getSimilaritySettings,
+  minhashSignature,
+  normalizeForSimilarity,
+  TemplateSimilarityChecker
+} from '../services/similarity';
+
+jest.mock('../services/openai');
+jest.mock('../utils/logger');
+
+const ORIGINAL = 'Small steps every day add up to something big when you keep showing up for the work.';
+const REPHRASED = 'small steps every day add up to something BIG when you keep showing up for the work!';
+const EXTENDED = 'Small steps every day add up to something big when you keep showing up for the work, always.';
+const DISTINCT = 'Review code like you would want yours reviewed.';
+const PAIRING = 'Pair up on the hardest problem of the week and work through it together';
+
+const asPost = (content: string) => ({ content, category: 'tips', tokens_used: 0, cost: 0, model: 'manual' });
+
+describe('Similarity detection', () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+    setPersona(null);
+  });
+
+  it('should estimate the similarity of normalized word shingles', () => {
+    expect(normalizeForSimilarity('Ｓhip it: https://example.com/x #DevLife @team!')).toBe('ship it devlife team');
+
+    const original = minhashSignature(ORIGINAL)!;
+    expect(estimateSimilarity(original, minhashSignature(REPHRASED)!)).toBe(1);
+    expect(estimateSimilarity(original, minhashSignature(EXTENDED)!)).toBeGreaterThanOrEqual(0.8);
+    expect(estimateSimilarity(original, minhashSignature(DISTINCT)!)).toBeLessThan(0.2);
+    expect(minhashSignature('🚀🔥')).toBeNull();
+
+    expect(getSimilaritySettings()).toEqual({ enabled: true, threshold: 0.8, embedding_threshold: 0.92, lookback_days: 90 });
+    process.env.SIMILARITY_THRESHOLD = '1.5';
+    expect(() => getSimilaritySettings()).toThrow('Invalid SIMILARITY_THRESHOLD "1.5"');
+  });
+
+  it('should keep near-duplicates out of the queue and report the post they collide with', async () => {
+    const db = new DatabaseConnection(':memory:');
+    await db.initialize();
+    const postManager = new TemplatePostManager(db);
+
+    try {
+      expect(await postManager.storePosts([ORIGINAL, REPHRASED, DISTINCT, EXTENDED].map(asPost))).toBe(2);
+      const [original, distinct] = await db.all('SELECT id FROM posts ORDER BY id');
+
+      await expect(postManager.addPost(asPost(EXTENDED))).rejects.toMatchObject({
+        code: 'SIMILAR_POST',
+        context: { similar_post_id: original.id, similar_content: ORIGINAL, method: 'minhash' }
+      });
+      await expect(postManager.updatePostContent(distinct.id, REPHRASED)).rejects.toBeInstanceOf(SimilarPostError);
+      // Variants of one A/B test are meant to be alike
+      expect(await postManager.addPosts([
+        { ...asPost(`${PAIRING} today.`), variant_group: 'pairing', variant_label: 'A' },
+        { ...asPost(`${PAIRING} this week.`), variant_group: 'pairing', variant_label: 'B' }
+      ])).toHaveLength(2);
+
+      const rejections = await new TemplateSimilarityChecker(db).getRejections();
+      expect(rejections.map(rejection => [rejection.stage, rejection.content, rejection.similar_post_id])).toEqual([
+        ['insert', EXTENDED, original.id],
+        ['insert', REPHRASED, original.id]
+      ]);
+      expect(rejections[0]).toMatchObject({ similar_content: ORIGINAL, method: 'minhash' });
+      expect(rejections[1].similarity).toBe(1);
+
+      // Nothing is compared with detection turned off
+      process.env.SIMILARITY_CHECK = 'false';
+      expect(await postManager.addPost(asPost(EXTENDED))).toBeGreaterThan(0);
+    } finally {
+      await db.close();
+    }
+  });
+
+  it('should compare embeddings when a model is configured', async () => {
+    const db = new DatabaseConnection(':memory:');
+    await db.initialize();
+    const vectors: Record<string, number[]> = {
+      'Ship small changes often.': [1, 0, 0],
+      'Release in tiny increments, frequently.': [0.98, 0.1, 0],
+      [DISTINCT]: [0, 1, 0]
+    };
+    const embed = jest.fn(async (texts: string[]) => texts.map(text => vectors[text]));
+    const model: EmbeddingModel = { id: 'test:embeddings', embed };
+    const checker = new TemplateSimilarityChecker(db, model);
+
+    try {
+      await new TemplatePostManager(db).storePosts([asPost('Ship small changes often.'), asPost(DISTINCT)]);
+      const index = await checker.loadIndex('pool');
+      expect(index.size).toBe(2);
+      const [rephrased] = await checker.fingerprint(['Release in tiny increments, frequently.']);
+      expect(index.findMatch(rephrased)).toMatchObject({ content: 'Ship small changes often.', method: 'embedding' });
+
+      // Embeddings are stored with the post and not requested again
+      embed.mockClear();
+      await checker.loadIndex('pool');
+      expect(embed).not.toHaveBeenCalled();
+    } finally {
+      await db.close();
+    }
+  });
+
+  it('should reject queued posts that repeat a recently published post', async () => {
+    process.env.REPLENISHMENT_THRESHOLD = '0';
+    process.env.METRICS_COLLECTION = 'false';
+    const db = new DatabaseConnection(':memory:');
+    await db.initialize();
+    const publisher = new InMemoryPublisher();
+    const bot = new TemplateBot(db, publisher);
+
+    try {
+      // Queued before detection was turned on
+      process.env.SIMILARITY_CHECK = 'false';
+      await new TemplatePostManager(db).storePosts([ORIGINAL, EXTENDED, DISTINCT].map(asPost));
+      delete process.env.SIMILARITY_CHECK;
+      await bot.initialize();
+
+      expect((await bot.executePost()).success).toBe(true);
+      const result = await bot.executePost();
+      expect(result.success).toBe(true);
+      expect(publisher.published.map(tweet => tweet.content)).toEqual([ORIGINAL, DISTINCT]);
+
+      const [rejected] = await bot.getReviewPosts('rejected');
+      expect(rejected).toMatchObject({ content: EXTENDED, reviewed_by: 'similarity' });
+      expect(rejected.rejection_reason).toMatch(/^Too similar to post \d+ \(minhash similarity 0\.\d\d\)$/);
+      expect(await bot.getSimilarityRejections()).toMatchObject([
+        { stage: 'publish', post_id: rejected.id, content: EXTENDED, similar_content: ORIGINAL }
+      ]);
+    } finally {
+      await bot.shutdown();
+    }
+  });
+});
@@ -0,0 +1,113 @@
+import { TemplateBot } from '../bot';
+import { getPersona, setPersona } from '../config/persona';
+import { DatabaseConnection } from '../shared/database/connection';
+import { TopicArmStats } from '../shared/types';
+import { TemplatePostManager } from '../services/post-manager';
+import { TemplatePostSelector } from '../services/post-selection';
+import { InMemoryPublisher } from '../services/publishing';
+import { toSqlTimestamp } from '../shared/utils/sql-timestamp';
+import { computeLearnedWeights } from '../services/topic-optimizer';
+
+jest.mock('../services/openai');
+jest.mock('../utils/logger');
+
+describe('topic weight optimizer', () => {
+  const env = { ...process.env };
+  let db: DatabaseConnection;
+  let bot: TemplateBot | undefined;
+
+  const arm = (topic: string, impressions: number, engagements: number): TopicArmStats =>
+    ({ topic, posts: 1, impressions, engagements, rate: 0 });
+
+  beforeEach(async () => {
+    process.env.REPLENISHMENT_THRESHOLD = '0';
+    process.env.METRICS_COLLECTION = 'false';
+    db = new DatabaseConnection(':memory:');
+    await db.initialize();
+  });
+
+  afterEach(async () => {
+    process.env = { ...env };
+    setPersona(null);
+    // Shutdown also closes the database
+    await (bot ? bot.shutdown() : db.close());
+    bot = undefined;
+  });
+
+  it('should favour topics with more engagement per impression and keep an exploration floor', () => {
+    const arms = [arm('strong', 5000, 250), arm('weak', 5000, 25), arm('untried', 0, 0)];
+    const weights = computeLearnedWeights(arms, 0.1);
+
+    expect(weights.strong).toBeGreaterThan(weights.untried);
+    expect(weights.untried).toBeGreaterThan(weights.weak);
+    expect(weights.weak).toBeGreaterThanOrEqual(0.1);
+    expect(Object.values(weights).reduce((sum, weight) => sum + weight, 0)).toBeCloseTo(1, 3);
+    // An untried topic sits at the overall rate; the others are pulled towards it
+    expect(arms[2].rate).toBeCloseTo(275 / 10000);
+    expect(arms[0].rate).toBeLessThan(250 / 5000);
+
+    // The floor is capped at an equal share, and no engagement at all means equal weights
+    expect(computeLearnedWeights([arm('a', 100, 10), arm('b', 100, 0)], 0.8)).toEqual({ a: 0.5, b: 0.5 });
+    expect(computeLearnedWeights([arm('a', 100, 0), arm('b', 0, 0)], 0)).toEqual({ a: 0.5, b: 0.5 });
+  });
+
+  it('should learn weights from collected metrics and switch between static and learned per bot', async () => {
+    const [first, second, third] = getPersona().topics;
+    setPersona({
+      ...getPersona(),
+      topics: [{ ...first, key: 'alpha', weight: 2 }, { ...second, key: 'beta', weight: 1 }, { ...third, key: 'gamma', weight: 1 }]
+    });
+    process.env.TOPIC_EXPLORATION_FLOOR = '0.1';
+
+    const postManager = new TemplatePostManager(db);
+    const postIds: number[] = [];
+    for (const category of ['alpha', 'beta', 'gamma']) {
+      postIds.push(await postManager.addPost({ content: `Post about ${category}`, category, tokens_used: 0, cost: 0, model: 'manual' }));
+    }
+
+    const publisher = new InMemoryPublisher();
+    bot = new TemplateBot(db, publisher);
+    await bot.initialize();
+    for (const postId of postIds) {
+      await bot.executePost(postId);
+    }
+    const [alpha, beta, gamma] = publisher.published.map(tweet => tweet.tweet_id);
+    publisher.setMetrics(alpha, { impressions: 4000, likes: 20 });
+    publisher.setMetrics(beta, { impressions: 4000, likes: 200, reposts: 40 });
+    publisher.setMetrics(gamma, { impressions: 4000, likes: 60 });
+
+    const now = new Date();
+    await db.run('UPDATE published_tweets SET created_at = ?', [toSqlTimestamp(new Date(now.getTime() - 30 * 60 * 60 * 1000))]);
+    expect(await bot.getTopicWeights()).toMatchObject({ mode: 'static', weights: { alpha: 2, beta: 1, gamma: 1 } });
+
+    // Collecting 24h snapshots records an update with its inputs, used in both modes only once learned is on
+    await bot.collectMetrics(now);
+    const [update] = await bot.getTopicWeightUpdates();
+    expect(update.arms.map(({ topic, posts, impressions, engagements }) => [topic, posts, impressions, engagements])).toEqual([
+      ['alpha', 1, 4000, 20],
+      ['beta', 1, 4000, 240],
+      ['gamma', 1, 4000, 60]
+    ]);
+    expect(update.weights.beta).toBeGreaterThan(update.weights.gamma);
+    expect(update.weights.gamma).toBeGreaterThan(update.weights.alpha);
+    expect(update.weights.alpha).toBeGreaterThanOrEqual(0.1);
+    expect((await bot.getTopicWeights()).weights).toEqual({ alpha: 2, beta: 1, gamma: 1 });
+
+    const learned = await bot.setTopicWeightMode('learned');
+    expect(learned.mode).toBe('learned');
+    expect(learned.weights.beta).toBeCloseTo(update.weights.beta * 4, 3);
+
+    // The switch is kept per bot and drives weighted-random selection (the queue was refilled after posting)
+    const decision = await new TemplatePostSelector(db).selectNext(
+      { strategy: 'weighted-random', no_repeat_within: 0, category_gaps: {} },
+      false
+    );
+    expect(Object.fromEntries(decision.candidates.map(candidate => [candidate.category, candidate.weight]))).toEqual(learned.weights);
+
+    // Unchanged engagement does not record another update
+    await bot.collectMetrics(now);
+    expect(await bot.getTopicWeightUpdates()).toHaveLength(1);
+
+    expect((await bot.setTopicWeightMode('static')).weights).toEqual({ alpha: 2, beta: 1, gamma: 1 });
+  });
+});
@@ -0,0 +1,69 @@
+import { extractUrls, fitsInTweet, truncateTweet, tweetLength } from '../shared/utils/tweet-length';
+import { assertPublishableContent } from '../services/publishing';
+import { validateManualPost, validatePostApproval } from '../shared/utils/validation';
+
+jest.mock('../utils/logger');
+
+describe('tweet length', () => {
+  it('should count characters the way X weighs them', () => {
+    expect(tweetLength('Hello, world!')).toBe(13);
+    expect(tweetLength('日本語')).toBe(6);
+    expect(tweetLength('Ship it 🚀')).toBe(10);
+    // One emoji sequence counts once, however many code points it has
+    expect(tweetLength('👨‍👩‍👧‍👦')).toBe(2);
+    expect(tweetLength('🇳🇴')).toBe(2);
+    expect(tweetLength('1️⃣')).toBe(2);
+    // Combining sequences are counted after NFC normalization
+    expect(tweetLength('café')).toBe(4);
+
+    const link = 'https://example.com/a/path/that/is/much/longer/than/twenty-three/characters';
+    expect(tweetLength(link)).toBe(23);
+    expect(tweetLength(`Read (${link}).`)).toBe(31);
+    expect(extractUrls(`See www.example.org, example.io/docs and ${link}. Mail me@example.com`))
+      .toEqual(['www.example.org', 'example.io/docs', link]);
+  });
+
+  it('should let long links and short text through while rejecting wide text', () => {
+    const withLinks = `${'a'.repeat(200)} ${'https://example.com/'.repeat(1)}${'x'.repeat(100)}`;
+    expect(withLinks.length).toBeGreaterThan(280);
+    expect(fitsInTweet(withLinks)).toBe(true);
+    expect(() => assertPublishableContent(withLinks)).not.toThrow();
+
+    const cjk = '語'.repeat(141);
+    expect(cjk.length).toBeLessThan(280);
+    expect(fitsInTweet(cjk)).toBe(false);
+    expect(() => assertPublishableContent(cjk)).toThrow('280 character limit');
+    expect(() => validateManualPost({ content: cjk })).toThrow('280 character limit');
+    expect(() => validateManualPost({ segments: ['Fine', cjk] })).toThrow('280 character limit');
+  });
+
+  it('should keep a post\'s content and thread segments in agreement', () => {
+    const mismatch = 'Content must be the thread segments joined by blank lines';
+    // A single segment is published as content, so the two must match
+    expect(() => validateManualPost({ content: 'x'.repeat(400), segments: ['Short'] })).toThrow(mismatch);
+    expect(() => validateManualPost({ content: 'Other', segments: ['Short'] })).toThrow(mismatch);
+    expect(validateManualPost({ segments: ['Short'] })).toMatchObject({ content: 'Short' });
+
+    expect(() => validateManualPost({ content: 'Head then tail', segments: ['Head', 'Tail'] })).toThrow(mismatch);
+    expect(validateManualPost({ content: 'Head\n\nTail', segments: ['Head', 'Tail'] })).toMatchObject({ content: 'Head\n\nTail' });
+    expect(() => validatePostApproval({ reviewer: 'alice', content: 'Edited', segments: ['One', 'Two'] })).toThrow(mismatch);
+  });
+
+  it('should truncate on word and grapheme boundaries', () => {
+    const words = 'Small steps every day add up to something big. '.repeat(8);
+    const truncated = truncateTweet(words);
+    expect(tweetLength(truncated)).toBeLessThanOrEqual(280);
+    expect(truncated).toMatch(/ [a-z]+…$/);
+    expect(words.startsWith(truncated.slice(0, -1))).toBe(true);
+
+    // A word too long to fit is cut between graphemes; emoji sequences and links stay whole
+    expect(tweetLength(truncateTweet('a'.repeat(300)))).toBe(280);
+    const family = truncateTweet('👨‍👩‍👧‍👦'.repeat(200));
+    expect(family).toBe(`${'👨‍👩‍👧‍👦'.repeat(139)}…`);
+    const link = 'https://example.com/some/long/path';
+    expect(truncateTweet(`${'b'.repeat(250)} ${link} trailing text`, 270)).toBe(`${'b'.repeat(250)}…`);
+    expect(tweetLength(`${'b'.repeat(250)}${link}`)).toBe(250 + link.length);
+
+    expect(truncateTweet('Short and sweet.')).toBe('Short and sweet.');
+  });
+});
@@ -0,0 +1,247 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { TemplateBot } from '../bot';
+import { DatabaseConnection } from '../shared/database/connection';
+import { TemplatePostManager } from '../services/post-manager';
+import { TemplateTwitterService } from '../services/twitter';
+import { RateLimitTracker, TWEET_CREATE_ENDPOINT } from '../services/rate-limit-tracker';
+import { TwitterAPIError } from '../shared/types';
+import { FakeXServer } from '../testing/fake-x-server';
+
+jest.mock('../services/openai');
+jest.mock('../utils/logger');
+
+describe('TemplateTwitterService against the fake X server', () => {
+  const fakeX = new FakeXServer();
+  let db: DatabaseConnection;
+
+  beforeAll(async () => {
+    process.env.TWITTER_API_BASE_URL = await fakeX.start();
+    delete process.env.PUBLISH_MODE;
+  });
+
+  afterAll(async () => {
+    delete process.env.TWITTER_API_BASE_URL;
+    await fakeX.stop();
+  });
+
+  beforeEach(async () => {
+    fakeX.reset();
+    process.env.RETRY_DELAY_MS = '10';
+    process.env.REPLENISHMENT_THRESHOLD = '0';
+    db = new DatabaseConnection(':memory:');
+    await db.initialize();
+  });
+
+  describe('service', () => {
+    let service: TemplateTwitterService;
+    let tracker: RateLimitTracker;
+
+    beforeEach(async () => {
+      tracker = new RateLimitTracker(db);
+      await tracker.initialize();
+      service = new TemplateTwitterService(tracker);
+      await service.initialize();
+    });
+
+    afterEach(async () => {
+      await db.close();
+    });
+
+    it('should verify credentials with users/me on initialize', () => {
+      expect(fakeX.requestsTo('GET /2/users/me')).toHaveLength(1);
+    });
+
+    it('should post, look up and delete tweets', async () => {
+      const tweetId = await service.postTweet('Hello from the fake X server');
+
+      expect(fakeX.tweets.get(tweetId)?.text).toBe('Hello from the fake X server');
+      expect((await service.getTweet(tweetId)).text).toBe('Hello from the fake X server');
+      await expect(service.deleteTweet(tweetId)).resolves.toBe(true);
+      expect(fakeX.tweets.size).toBe(0);
+    });
+
+    it('should look up the metrics of several tweets in one request', async () => {
+      const first = await service.postTweet('First tweet with metrics');
+      const second = await service.postTweet('Second tweet with metrics');
+      Object.assign(fakeX.tweets.get(first)!.public_metrics, { impression_count: 120, like_count: 7, retweet_count: 2 });
+
+      const metrics = await service.getTweetMetrics([first, second, '1799999999999999999']);
+
+      expect(metrics.get(first)).toEqual({ impressions: 120, likes: 7, reposts: 2, replies: 0, quotes: 0 });
+      expect(metrics.get(second)).toEqual({ impressions: 0, likes: 0, reposts: 0, replies: 0, quotes: 0 });
+      expect(metrics.has('1799999999999999999')).toBe(false);
+      expect(fakeX.requestsTo('GET /2/tweets')).toHaveLength(1);
+      expect(tracker.getWaitMs('GET /2/tweets')).toBe(0);
+    });
+
+    it('should read mentions since the last one seen', async () => {
+      const first = fakeX.addMention('@fake_x_bot How do you pick topics?', 'reader');
+      fakeX.addMention('@fake_x_bot Thanks for the thread', 'fan');
+
+      const mentions = await service.getMentions();
+      expect(mentions.map(mention => [mention.text, mention.author_username])).toEqual([
+        ['@fake_x_bot How do you pick topics?', 'reader'],
+        ['@fake_x_bot Thanks for the thread', 'fan']
+      ]);
+      expect(mentions[0]).toMatchObject({ tweet_id: first, conversation_id: first });
+
+      const third = fakeX.addMention('@fake_x_bot One more question?', 'reader');
+      expect((await service.getMentions(mentions[1].tweet_id)).map(mention => mention.tweet_id)).toEqual([third]);
+      expect(await service.getMentions(third)).toEqual([]);
+      expect(tracker.getWaitMs('GET /2/users/:id/mentions')).toBe(0);
+    });
+
+    it('should upload media in chunks and set alt text', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fake-x-media-'));
+      const imagePath = path.join(dir, 'chart.png');
+      fs.writeFileSync(imagePath, Buffer.alloc(64, 1));
+
+      try {
+        const tweetId = await service.postTweet('Chart attached', {
+          media: [{ path: imagePath, alt_text: 'Bar chart of weekly signups' }]
+        });
+
+        const [mediaId] = fakeX.tweets.get(tweetId)?.media_ids || [];
+        expect(fakeX.media.get(mediaId)).toMatchObject({
+          media_type: 'image/png',
+          finalized: true,
+          alt_text: 'Bar chart of weekly signups'
+        });
+        expect(fakeX.requestsTo('POST /1.1/media/upload.json').map(request => request.command))
+          .toEqual(['INIT', 'APPEND', 'FINALIZE']);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should record rate limit headers in the tracker', async () => {
+      await service.postTweet('Counting against the window');
+
+      const { endpoints } = await tracker.getStatus();
+      const window = endpoints.find(entry => entry.endpoint === TWEET_CREATE_ENDPOINT);
+      expect(window).toMatchObject({ limit: 200, remaining: 199 });
+    });
+
+    it.each([
+      [{ type: 'rate-limit', resetInSeconds: 60 } as const, 'Rate limit exceeded', true, 429],
+      [{ type: 'duplicate' } as const, 'Duplicate tweet content', false, 403],
+      [{ type: 'forbidden' } as const, 'Tweet content violates Twitter rules', false, 403],
+      [{ type: 'unauthorized' } as const, 'Twitter API credentials are invalid', false, 401],
+      [{ type: 'server-error', status: 503 } as const, 'X API server error (503)', true, 503]
+    ])('should classify %o', async (failure, message, retryable, statusCode) => {
+      fakeX.failNext(TWEET_CREATE_ENDPOINT, failure);
+
+      const error = await service.postTweet('Scripted failure').catch(caught => caught);
+
+      expect(error).toBeInstanceOf(TwitterAPIError);
+      expect(error.message).toContain(message);
+      expect(error.retryable).toBe(retryable);
+      expect(error.context.statusCode).toBe(statusCode);
+    });
+
+    it('should report when a rate limited window resets', async () => {
+      fakeX.failNext(TWEET_CREATE_ENDPOINT, { type: 'rate-limit', resetInSeconds: 120 });
+
+      const error = await service.postTweet('Too soon').catch(caught => caught);
+
+      expect(error.context.resetAt).toBeGreaterThan(Date.now() + 100 * 1000);
+      expect(tracker.getWaitMs(TWEET_CREATE_ENDPOINT)).toBeGreaterThan(100 * 1000);
+    });
+  });
+
+  describe('bot posting', () => {
+    let bot: TemplateBot;
+
+    const queuePost = (content: string, segments?: string[]) =>
+      new TemplatePostManager(db).addPost({
+        content,
+        segments,
+        category: 'test',
+        tokens_used: 0,
+        cost: 0,
+        model: 'manual'
+      });
+
+    const attemptsFor = (postId: number) =>
+      db.all('SELECT attempt_number, success, segment_index FROM post_logs WHERE post_id = ? ORDER BY id', [postId]);
+
+    beforeEach(async () => {
+      bot = new TemplateBot(db);
+    });
+
+    afterEach(async () => {
+      // Shutdown also closes this test's database
+      await bot.shutdown();
+    });
+
+    it('should retry server errors after the retry delay', async () => {
+      const postId = await queuePost('Retry after a server error');
+      await bot.initialize();
+      fakeX.failNext(TWEET_CREATE_ENDPOINT, { type: 'server-error' });
+
+      await bot.executePost(postId);
+
+      expect(fakeX.tweets.size).toBe(1);
+      expect(await attemptsFor(postId)).toEqual([
+        { attempt_number: 1, success: 0, segment_index: null },
+        { attempt_number: 2, success: 1, segment_index: null }
+      ]);
+    });
+
+    it('should wait for the rate limit reset instead of retrying blindly', async () => {
+      const postId = await queuePost('Posted after the window resets');
+      await bot.initialize();
+      fakeX.failNext(TWEET_CREATE_ENDPOINT, { type: 'rate-limit', resetInSeconds: 1 });
+
+      const startedAt = Date.now();
+      await bot.executePost(postId);
+
+      expect(fakeX.tweets.size).toBe(1);
+      expect(Date.now() - startedAt).toBeGreaterThanOrEqual(1000);
+      expect(fakeX.requestsTo(TWEET_CREATE_ENDPOINT).map(request => request.status)).toEqual([429, 201]);
+    });
+
+    it('should not retry duplicate content', async () => {
+      const postId = await queuePost('Already said this');
+      await bot.initialize();
+      fakeX.failNext(TWEET_CREATE_ENDPOINT, { type: 'duplicate' });
+
+      await bot.executePost(postId);
+
+      expect(fakeX.requestsTo(TWEET_CREATE_ENDPOINT)).toHaveLength(1);
+      expect(await attemptsFor(postId)).toEqual([{ attempt_number: 1, success: 0, segment_index: null }]);
+    });
+
+    it('should resume a thread without re-posting the head', async () => {
+      const postId = await queuePost('Head\n\nMiddle\n\nTail', ['Head', 'Middle', 'Tail']);
+      await bot.initialize();
+      fakeX.failNext(TWEET_CREATE_ENDPOINT, { type: 'none' }, { type: 'server-error' });
+
+      await bot.executePost(postId);
+
+      const tweets = Array.from(fakeX.tweets.values());
+      expect(tweets.map(tweet => tweet.text)).toEqual(['Head', 'Middle', 'Tail']);
+      expect(tweets[1].reply_to_id).toBe(tweets[0].id);
+      expect(tweets[2].reply_to_id).toBe(tweets[1].id);
+      expect(await attemptsFor(postId)).toEqual([
+        { attempt_number: 1, success: 1, segment_index: 0 },
+        { attempt_number: 1, success: 0, segment_index: 1 },
+        { attempt_number: 2, success: 1, segment_index: 1 },
+        { attempt_number: 2, success: 1, segment_index: 2 }
+      ]);
+    });
+
+    it('should log response times that include API latency', async () => {
+      const postId = await queuePost('Slow network');
+      await bot.initialize();
+      fakeX.setLatency(200);
+
+      await bot.executePost(postId);
+
+      const log = await db.get('SELECT response_time_ms FROM post_logs WHERE post_id = ? AND success = 1', [postId]);
+      expect(log.response_time_ms).toBeGreaterThanOrEqual(200);
+    });
+  });
+});
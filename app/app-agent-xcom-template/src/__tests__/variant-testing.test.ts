@@ -0,0 +1,128 @@
+import { TemplateBot } from '../bot';
+import { DatabaseConnection } from '../shared/database/connection';
+import { TemplatePostManager } from '../services/post-manager';
+import { InMemoryPublisher } from '../services/publishing';
+import { toSqlTimestamp } from '../shared/utils/sql-timestamp';
+import { getVariantTestSettings, TemplateVariantTester, twoProportionZTest } from '../services/variant-testing';
+import { validateVariantGroup } from '../shared/utils/validation';
+
+jest.mock('../services/openai');
+jest.mock('../utils/logger');
+
+describe('A/B post variants', () => {
+  const env = { ...process.env };
+  let db: DatabaseConnection;
+  let bot: TemplateBot | undefined;
+
+  beforeEach(async () => {
+    process.env.REPLENISHMENT_THRESHOLD = '0';
+    process.env.METRICS_COLLECTION = 'false';
+    process.env.TIMEZONE = 'UTC';
+    process.env.BOT_SCHEDULE = '0 9 * * *';
+    db = new DatabaseConnection(':memory:');
+    await db.initialize();
+  });
+
+  afterEach(async () => {
+    process.env = { ...env };
+    // Shutdown also closes the database
+    await (bot ? bot.shutdown() : db.close());
+    bot = undefined;
+  });
+
+  it('should test the difference between two engagement rates', () => {
+    const { z_score, p_value } = twoProportionZTest(120, 2000, 80, 2000);
+    expect(z_score).toBeCloseTo(2.902, 2);
+    expect(p_value).toBeCloseTo(0.0037, 3);
+
+    expect(twoProportionZTest(10, 1000, 10, 1000).z_score).toBe(0);
+    expect(twoProportionZTest(10, 1000, 10, 1000).p_value).toBeCloseTo(1, 6);
+    expect(twoProportionZTest(0, 1000, 0, 1000)).toEqual({ z_score: 0, p_value: 1 });
+
+    process.env.VARIANT_SIGNIFICANCE = '0.5';
+    expect(() => getVariantTestSettings()).toThrow('Invalid VARIANT_SIGNIFICANCE "0.5"');
+    expect(() => validateVariantGroup({ group: 'solo', variants: [{ label: 'A', content: 'One' }, { label: 'A', content: 'Two' }] }))
+      .toThrow('At least two variant labels are required');
+  });
+
+  it('should publish variants at comparable slots and retire the losers once a winner is clear', async () => {
+    const publisher = new InMemoryPublisher();
+    bot = new TemplateBot(db, publisher);
+
+    const group = await bot.addVariantGroup(validateVariantGroup({
+      group: 'launch',
+      category: 'news',
+      variants: [
+        { label: 'A', content: 'We shipped it. Try the new editor today.' },
+        { label: 'B', content: 'Ever wished your editor read your mind? Now it does.' },
+        { label: 'A', content: 'We shipped it. The new editor is live.' },
+        { label: 'B', content: 'Ever lost an hour to formatting? Not anymore.' }
+      ]
+    }));
+    expect(group).toMatchObject({ group: 'launch', category: 'news', status: 'running' });
+    expect(group.variants.map(variant => [variant.label, variant.queued])).toEqual([['A', 2], ['B', 2]]);
+    await expect(bot.addVariantGroup(validateVariantGroup({
+      group: 'launch',
+      variants: [{ label: 'A', content: 'Another take' }, { label: 'B', content: 'Yet another take' }]
+    }))).rejects.toMatchObject({ code: 'VARIANT_GROUP_EXISTS' });
+
+    const postManager = new TemplatePostManager(db);
+    await postManager.addPost({ content: 'Regular post one', category: 'news', tokens_used: 0, cost: 0, model: 'manual' });
+    await postManager.addPost({ content: 'Regular post two', category: 'news', tokens_used: 0, cost: 0, model: 'manual' });
+
+    // A duplicate variant stores none of the group
+    await expect(bot.addVariantGroup(validateVariantGroup({
+      group: 'copy',
+      variants: [{ label: 'A', content: 'Fresh copy' }, { label: 'B', content: 'Regular post one' }]
+    }))).rejects.toMatchObject({ code: 'DUPLICATE_POST' });
+    await expect(bot.getVariantReport('copy')).rejects.toMatchObject({ code: 'VARIANT_GROUP_NOT_FOUND' });
+    await bot.initialize();
+
+    // Variant label (or content) of the post that filled a slot
+    const posted = async (slot: string) => {
+      await bot!.runScheduledSlot(new Date(slot));
+      const post = await db.get(`
+        SELECT p.content, p.variant_label FROM schedule_slots s JOIN posts p ON p.id = s.post_id WHERE s.slot_at = ?
+      `, [toSqlTimestamp(new Date(slot))]);
+      return post.variant_label || post.content;
+    };
+
+    expect(await posted('2026-05-04T09:00:00Z')).toBe('A');
+    // One post of the group per day, then only at the 09:00 slot, with labels taking turns
+    expect(await posted('2026-05-04T18:00:00Z')).toBe('Regular post one');
+    const waiting = await new TemplateVariantTester(db).getWaitingPosts(new Date('2026-05-05T08:00:00Z'));
+    expect(Array.from(waiting.values())).toEqual([
+      'Variant group "launch" posts at the 09:00 slot',
+      'Variant group "launch" posts at the 09:00 slot',
+      'Variant group "launch" posts at the 09:00 slot'
+    ]);
+    expect(await posted('2026-05-05T08:00:00Z')).toBe('Regular post two');
+    expect(Array.from((await new TemplateVariantTester(db).getWaitingPosts(new Date('2026-05-05T09:00:00Z'))).values()))
+      .toEqual(['Variant A of group "launch" waits for the other variants\' turn']);
+    expect(await posted('2026-05-05T09:00:00Z')).toBe('B');
+
+    // A is clearly ahead on 24h engagement per impression
+    const [a, regularOne, regularTwo, b] = publisher.published.map(tweet => tweet.tweet_id);
+    publisher.setMetrics(a, { impressions: 5000, likes: 280, reposts: 20 });
+    publisher.setMetrics(b, { impressions: 5000, likes: 150 });
+    publisher.setMetrics(regularOne, { impressions: 5000, likes: 5 });
+    publisher.setMetrics(regularTwo, { impressions: 5000, likes: 5 });
+    const now = new Date();
+    await db.run('UPDATE published_tweets SET created_at = ?', [toSqlTimestamp(new Date(now.getTime() - 30 * 60 * 60 * 1000))]);
+    expect((await bot.getVariantReport('launch')).leader).toBeUndefined();
+
+    await bot.collectMetrics(now);
+    const report = await bot.getVariantReport('launch');
+    expect(report).toMatchObject({ status: 'concluded', leader: 'A', winner: 'A', retired_posts: 1 });
+    expect(report.variants).toEqual([
+      expect.objectContaining({ label: 'A', published: 1, queued: 1, retired: 0, impressions: 5000, engagements: 300, engagement_rate: 0.06 }),
+      expect.objectContaining({ label: 'B', published: 1, queued: 0, retired: 1, engagements: 150, significant: true })
+    ]);
+    expect(report.variants[1].p_value).toBeLessThan(0.001);
+    expect(await postManager.getPostCount()).toMatchObject({ used: 4, remaining: 1 });
+
+    // The retired B post never goes out, and the winner is an ordinary queue post now
+    expect(await posted('2026-05-05T18:00:00Z')).toBe('A');
+    expect(await db.get('SELECT COUNT(*) AS count FROM posts WHERE variant_label = ? AND used = 0', ['B'])).toEqual({ count: 1 });
+  });
+});
@@ -6,7 +6,7 @@
  * 
  * Key Responsibilities:
  * - Initialize all bot services (Twitter, OpenAI, Database)
- * - Schedule daily posts at 9am MST
+ * - Schedule posts at the persona's slot times in its timezone
  * - Manage post content and generation
  * - Handle error recovery and retry logic
  * - Provide health monitoring and statistics
@@ -19,11 +19,79 @@ import cron from 'node-cron';
 import { DatabaseConnection } from './shared/database/connection';
 import { logger } from './utils/logger';
 import { TemplatePostManager } from './services/post-manager';
-import { TemplateTwitterService } from './services/twitter';
 import { TemplateOpenAIService } from './services/openai';
-import { personalityConfig } from './config/personality';
+import { getPersona, getPersonaPath, personaHash } from './config/persona';
+import { getNextFireTimes, getPostingSchedule, getWallClock, PostingSchedule } from './config/schedule';
 import { DatabaseSeeder } from './services/generator/database-seeder';
 import { TemplatePostGenerator } from './services/generator/post-generator';
+import { TemplateReplenishmentService } from './services/replenishment';
+import { getSelectionPolicy, TemplatePostSelector } from './services/post-selection';
+import { TemplateContentCalendar } from './services/content-calendar';
+import { getMissedPostSettings, TemplateSlotTracker } from './services/schedule-slots';
+import { getBlackoutPeriods, getPostingWindowSettings, TemplatePostingGate } from './services/posting-gate';
+import { TemplateBotState } from './services/bot-state';
+import { TemplatePublishLedger } from './services/publish-ledger';
+import { getMetricsSettings, TemplateMetricsCollector } from './services/metrics-collector';
+import { TemplateTopicOptimizer } from './services/topic-optimizer';
+import { TemplateVariantTester } from './services/variant-testing';
+import { getMentionSettings, TemplateMentionMonitor } from './services/mentions';
+import { TemplatePostReviewer } from './services/post-review';
+import { checkContentRules, formatViolations } from './services/content-rules';
+import { TemplateSimilarityChecker } from './services/similarity';
+import {
+  BlackoutPeriod,
+  BotError,
+  CalendarSlot,
+  GenerationBudgetStatus,
+  KillSwitchReport,
+  MentionRecord,
+  MentionRunReport,
+  MentionStatus,
+  MetricsAge,
+  MetricsCollectionReport,
+  MetricsGroupSummary,
+  MissedPostSettings,
+  MissedSlotReport,
+  PauseState,
+  PersonaSnapshot,
+  Post,
+  PostMetrics,
+  PostExecutionResult,
+  PostingBudgetStatus,
+  PostingGateStatus,
+  PostingWindowSettings,
+  PostReviewStatus,
+  PublishedPostRecord,
+  PublishedPostStatus,
+  QuietMode,
+  PublishMode,
+  RateLimitWindow,
+  ScheduleSlotRecord,
+  SelectionDecision,
+  SelectionPolicy,
+  SimilarityRejection,
+  TopicWeightMode,
+  TopicWeightStatus,
+  TopicWeightUpdate,
+  TweetDeletionResult,
+  TwitterAPIError,
+  VariantGroupReport
+} from './shared/types';
+import { ONE_MINUTE_MS } from './shared/constants';
+import { RateLimitTracker } from './services/rate-limit-tracker';
+import { GenerationBudgetTracker } from './services/generation-budget';
+import { createPublisher, DryRunPublisher, postThread, Publisher } from './services/publishing';
+import { ManualPostInput, VariantGroupInput } from './shared/utils/validation';
+import { parseSqlTimestamp } from './shared/utils/sql-timestamp';
+
+// bot_state key holding the persisted PauseState (JSON)
+const PAUSE_STATE_KEY = 'pause_state';
+
+// Recorded as the reviewer of queued posts rejected by the pre-publish content rule check
+const CONTENT_RULES_REVIEWER = 'content-rules';
+
+// Recorded as the reviewer of queued posts rejected as near-duplicates of recently published posts
+const SIMILARITY_REVIEWER = 'similarity';
 
 /**
  * Main Bot Class - X.com Bot Template
@@ -38,33 +106,78 @@ import { TemplatePostGenerator } from './services/generator/post-generator';
 export class TemplateBot {
   // Core service instances
   private postManager: TemplatePostManager;        // Manages post content and database operations
-  private twitterService: TemplateTwitterService;  // Handles Twitter API interactions
-  private openaiService: TemplateOpenAIService;    // Manages OpenAI API for content generation
-  private cronJob: cron.ScheduledTask | null = null;  // Cron job for scheduled posting
+  private publisher: Publisher;                    // Publishes tweets (live X, dry-run outbox, or memory)
+  private openaiService: TemplateOpenAIService;    // Generates content with the configured LLM provider
+  private rateLimitTracker: RateLimitTracker;      // Tracks X API rate limits and local posting budget
+  private generationBudget: GenerationBudgetTracker;  // Tracks content model spend against daily/monthly budgets
+  private replenishmentService: TemplateReplenishmentService;  // Refills the queue (local, llm, or hybrid)
+  private postSelector: TemplatePostSelector;      // Picks the next queued post under the category rotation rules
+  private calendar: TemplateContentCalendar;       // Pinned posts and upcoming posting slots
+  private slotTracker: TemplateSlotTracker;        // Records posting slots and catches up on missed ones
+  private postingGate: TemplatePostingGate;        // Jitter, blackout windows and quiet mode
+  private botState: TemplateBotState;              // Persisted pause state
+  private ledger: TemplatePublishLedger;           // Which queued post produced which tweets
+  private metricsCollector: TemplateMetricsCollector;  // Engagement snapshots of published tweets
+  private topicOptimizer: TemplateTopicOptimizer;  // Topic weights learned from engagement
+  private variantTester: TemplateVariantTester;    // A/B tests of post variants
+  private mentionMonitor: TemplateMentionMonitor;  // Mentions of the account and replies to them
+  private postReviewer: TemplatePostReviewer;      // Human approval of queued posts
+  private similarityChecker: TemplateSimilarityChecker;  // Near-duplicates of recently published posts
+  private cronJobs: cron.ScheduledTask[] = [];     // One cron job per posting slot
+  private pinnedJob: cron.ScheduledTask | null = null;  // Minute check for due pinned posts
+  private pinnedRun: Promise<void> | null = null;  // Pinned posts being published right now
+  private metricsJob: cron.ScheduledTask | null = null;  // Periodic engagement metrics collection
+  private mentionsJob: cron.ScheduledTask | null = null;  // Periodic mention polling and replies
+  private lastSlotWallClock = '';               // Local minute of the last slot filled from the queue
+  private jitterTimers = new Set<ReturnType<typeof setTimeout>>();  // Scheduled posts waiting out their jitter delay
   private isInitialized = false;                // Tracks bot initialization status
+  private paused = false;                       // Scheduled posting and replenishment stopped (pause / kill switch)
+  private personaSnapshot: PersonaSnapshot | null = null;  // Persona version the bot is running with
+  private botId: string;                        // Bot ID its rows are stored under (BOT_NAME)
 
   /**
    * Constructor - Initialize bot with database connection
    * 
    * @param db - Database connection instance for persistent storage
+   * @param publisher - Optional publisher; defaults to the one selected by PUBLISH_MODE
    */
-  constructor(private db: DatabaseConnection) {
+  constructor(private db: DatabaseConnection, publisher?: Publisher) {
     // Initialize service instances with database connection
     this.postManager = new TemplatePostManager(db);
-    this.twitterService = new TemplateTwitterService();
-    this.openaiService = new TemplateOpenAIService();
+    this.rateLimitTracker = new RateLimitTracker(db);
+    this.publisher = publisher || createPublisher(db, this.rateLimitTracker);
+    this.generationBudget = new GenerationBudgetTracker(db);
+    this.openaiService = new TemplateOpenAIService(undefined, this.generationBudget);
+    this.replenishmentService = new TemplateReplenishmentService(db, this.postManager, this.openaiService);
+    this.postSelector = new TemplatePostSelector(db);
+    this.calendar = new TemplateContentCalendar(db);
+    this.slotTracker = new TemplateSlotTracker(db);
+    this.postingGate = new TemplatePostingGate(db);
+    this.botState = new TemplateBotState(db);
+    this.ledger = new TemplatePublishLedger(db);
+    this.metricsCollector = new TemplateMetricsCollector(db, this.publisher, this.rateLimitTracker);
+    this.topicOptimizer = new TemplateTopicOptimizer(db);
+    this.variantTester = new TemplateVariantTester(db);
+    this.mentionMonitor = new TemplateMentionMonitor(db, this.publisher, this.openaiService, this.rateLimitTracker);
+    this.postReviewer = new TemplatePostReviewer(db);
+    this.similarityChecker = new TemplateSimilarityChecker(db);
+    this.botId = process.env.BOT_NAME || 'template-bot';
   }
 
   /**
    * Initialize Bot - Set up all services and start scheduling
    * 
-   * This method performs the following initialization steps:
+   * This method loads the persona file, then performs the following initialization steps:
    * 1. Initialize post manager for content handling
-   * 2. Initialize Twitter service for posting
+   * 2. Initialize the publisher (live X, dry-run outbox, or memory)
    * 3. Initialize OpenAI service (optional, for local generation)
    * 4. Set up bot configuration in database
-   * 5. Schedule daily posting
+   * 5. Schedule posting from the persona schedule
    * 6. Check and generate initial posts if needed
+   * 7. Apply the missed post policy to slots missed while the bot was down
+   * 
+   * A bot paused before it stopped comes back paused: its cron jobs are
+   * created stopped and steps 6 and 7 wait until it is resumed.
    * 
    * @throws Error if any service fails to initialize
    */
@@ -72,9 +185,14 @@ export class TemplateBot {
     try {
       logger.info('Initializing X.com Bot Template...');
 
+      // Load and validate the persona file first so a bad persona fails fast
+      const persona = getPersona();
+      logger.info(`Loaded persona "${persona.name}" with ${persona.topics.length} topics from ${getPersonaPath()}`);
+
       // Step 1: Initialize core services
       await this.postManager.initialize();
-      await this.twitterService.initialize();
+      await this.rateLimitTracker.initialize();
+      await this.publisher.initialize();
       
       // Step 2: Initialize OpenAI service (optional for local generation)
       try {
@@ -87,12 +205,21 @@ export class TemplateBot {
 
       // Step 3: Set up bot configuration in database
       await this.setupBotConfig();
+      const pause = await this.getPauseState();
+      this.paused = pause.paused;
 
-      // Step 4: Schedule daily posting at 9am MST
+      // Step 4: Schedule posting from the persona schedule
       this.schedulePosting();
 
-      // Step 5: Check if we need to generate initial posts
-      await this.checkAndGeneratePosts();
+      if (this.paused) {
+        logger.warn(`Bot is paused since ${pause.since?.toISOString()}${pause.reason ? ` (${pause.reason})` : ''}; not posting until resumed`);
+      } else {
+        // Step 5: Check if we need to generate initial posts
+        await this.checkAndGeneratePosts();
+
+        // Step 6: Catch up on slots missed while the bot was down
+        await this.catchUpMissedSlots();
+      }
 
       // Mark bot as fully initialized
       this.isInitialized = true;
@@ -108,49 +235,72 @@ export class TemplateBot {
    * 
    * This method ensures the bot has proper configuration stored in the database,
    * including personality settings, posting schedule, and statistics tracking.
+   * The active persona is snapshotted first; bot_configs is rewritten from it
+   * whenever the persona version changes.
    */
   private async setupBotConfig(): Promise<void> {
     try {
-      const botId = process.env.BOT_NAME || 'template-bot';
+      const persona = getPersona();
+      const schedule = getPostingSchedule();
+      this.personaSnapshot = await this.snapshotPersona(this.botId);
       
       // Check if bot config already exists in database
       const existingConfig = await this.db.get(
         'SELECT * FROM bot_configs WHERE bot_id = ?',
-        [botId]
+        [this.botId]
       );
 
+      const configValues = [
+        persona.voice,
+        JSON.stringify(persona.topics.map(topic => topic.key)),
+        persona.writingStyle,
+        JSON.stringify(persona.topics.map(topic => topic.name)),
+        persona.tone,
+        persona.postLength.max,
+        schedule.slots.map(slot => slot.cron_expression).join('; '),
+        schedule.timezone,
+        this.personaSnapshot.version
+      ];
+
       if (!existingConfig) {
-        // Insert new bot configuration with personality settings
+        // Insert new bot configuration with persona settings
         await this.db.run(`
           INSERT INTO bot_configs (
-            bot_id, personality_prompt, content_sources, posting_style, 
-            topics, tone, max_length, schedule_cron, timezone
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
-        `, [
-          botId,
-          personalityConfig.voice,
-          JSON.stringify(personalityConfig.topics),
-          personalityConfig.writingStyle,
-          JSON.stringify(personalityConfig.topics),
-          personalityConfig.tone,
-          personalityConfig.postLength.max,
-          process.env.BOT_SCHEDULE || '0 9 * * *',
-          process.env.TIMEZONE || 'America/Denver'
-        ]);
+            personality_prompt, content_sources, posting_style, 
+            topics, tone, max_length, schedule_cron, timezone, persona_version, bot_id
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `, [...configValues, this.botId]);
 
         logger.info('Bot configuration created in database');
+      } else if (existingConfig.persona_version !== this.personaSnapshot.version) {
+        await this.db.run(`
+          UPDATE bot_configs
+          SET personality_prompt = ?, content_sources = ?, posting_style = ?,
+              topics = ?, tone = ?, max_length = ?, schedule_cron = ?, timezone = ?,
+              persona_version = ?, updated_at = CURRENT_TIMESTAMP
+          WHERE bot_id = ?
+        `, [...configValues, this.botId]);
+
+        logger.info(`Bot configuration updated to persona version ${this.personaSnapshot.version}`);
+      } else if (existingConfig.schedule_cron !== configValues[6] || existingConfig.timezone !== configValues[7]) {
+        // BOT_SCHEDULE / TIMEZONE can change without a new persona version
+        await this.db.run(`
+          UPDATE bot_configs SET schedule_cron = ?, timezone = ?, updated_at = CURRENT_TIMESTAMP WHERE bot_id = ?
+        `, [configValues[6], configValues[7], this.botId]);
+
+        logger.info(`Bot configuration updated to schedule ${configValues[6]} (${configValues[7]})`);
       }
 
       // Initialize bot statistics if not exists
       const existingStats = await this.db.get(
         'SELECT * FROM bot_stats WHERE bot_id = ?',
-        [botId]
+        [this.botId]
       );
 
       if (!existingStats) {
         await this.db.run(`
           INSERT INTO bot_stats (bot_id) VALUES (?)
-        `, [botId]);
+        `, [this.botId]);
         logger.info('Bot stats initialized');
       }
     } catch (error) {
@@ -160,131 +310,626 @@ export class TemplateBot {
   }
 
   /**
-   * Schedule Posting - Set up cron job for daily posting
+   * Snapshot Persona - Store the active persona as a new version if it changed
+   * 
+   * Each distinct persona (by content hash) gets the next version number, so
+   * the history of persona edits and switches is kept in persona_snapshots.
+   * 
+   * @param botId - Bot the snapshot belongs to
+   * @returns Promise<PersonaSnapshot> - Snapshot matching the active persona
+   */
+  private async snapshotPersona(botId: string): Promise<PersonaSnapshot> {
+    const persona = getPersona();
+    const contentHash = personaHash(persona);
+
+    const latest = await this.db.get(`
+      SELECT version, name, source_path, content_hash, created_at
+      FROM persona_snapshots
+      WHERE bot_id = ?
+      ORDER BY version DESC
+      LIMIT 1
+    `, [botId]);
+
+    if (latest && latest.content_hash === contentHash) {
+      return { ...latest, created_at: parseSqlTimestamp(latest.created_at) };
+    }
+
+    const snapshot: PersonaSnapshot = {
+      version: (latest?.version || 0) + 1,
+      name: persona.name,
+      source_path: getPersonaPath(),
+      content_hash: contentHash,
+      created_at: new Date()
+    };
+
+    await this.db.run(`
+      INSERT INTO persona_snapshots (bot_id, version, name, source_path, content_hash, persona)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `, [botId, snapshot.version, snapshot.name, snapshot.source_path, contentHash, JSON.stringify(persona)]);
+
+    logger.info(`Stored persona "${persona.name}" as version ${snapshot.version} (${snapshot.source_path})`);
+    return snapshot;
+  }
+
+  /**
+   * Schedule Posting - Set up cron jobs for scheduled and pinned posts
    * 
-   * This method creates a cron job that triggers daily posting at 9am MST.
-   * The schedule can be configured via environment variables.
+   * This method creates one cron job per slot of the posting schedule
+   * (persona schedule, overridden by BOT_SCHEDULE / TIMEZONE), each matched
+   * against the wall clock of the schedule timezone, and a minute job that
+   * publishes pinned posts when their time comes and slots deferred by a
+   * blackout once it ends. Scheduled posts wait a random POST_JITTER_MINUTES
+   * delay after their slot. The minute job also picks up pauses and resumes
+   * made by another process (the bot-control CLI), so it keeps running while
+   * the bot is paused. Engagement metrics are collected every
+   * METRICS_INTERVAL_MINUTES when the publisher supports lookups, and with
+   * MENTIONS_POLLING=true mentions are polled and answered every
+   * MENTIONS_INTERVAL_MINUTES.
    */
   private schedulePosting(): void {
-    // Use environment variable for schedule, fallback to 9:00 AM MDT
-    // Cron format: minute hour day month day-of-week
-    // 0 15 * * * = 3:00 PM UTC = 9:00 AM MDT
-    const schedule = process.env.BOT_SCHEDULE || '0 15 * * *';
+    const schedule = getPostingSchedule();
 
-    logger.info(`Scheduling daily posts for ${schedule} UTC (9:00 AM MDT)`);
+    for (const slot of schedule.slots) {
+      logger.info(`Scheduling posts at ${slot.description} (${slot.cron_expression}, ${slot.timezone})`);
 
-    // Create cron job that executes daily at the specified time
-    this.cronJob = cron.schedule(schedule, async () => {
+      this.cronJobs.push(cron.schedule(slot.cron_expression, async () => {
+        try {
+          const slotAt = new Date();
+          await this.waitForJitter(slot.description);
+          logger.info(`Executing scheduled post for ${slot.description}...`);
+          await this.runScheduledSlot(slotAt);
+        } catch (error) {
+          logger.error('Failed to execute scheduled post:', error);
+        }
+      }, {
+        scheduled: !this.paused,  // Start the job immediately unless the bot is paused
+        timezone: slot.timezone
+      }));
+    }
+
+    // Pinned posts can be due at any minute, not only at scheduled slots
+    this.pinnedJob = cron.schedule('* * * * *', async () => {
       try {
-        logger.info('Executing scheduled post at 9:00 AM MDT...');
-        await this.executePost();
+        await this.syncPauseState();
+        await this.postDuePinnedPosts();
+        await this.postDeferredSlot();
       } catch (error) {
-        logger.error('Failed to execute scheduled post:', error);
+        logger.error('Failed to publish pinned or deferred posts:', error);
       }
-    }, {
-      scheduled: true  // Start the job immediately
+    }, { scheduled: true });
+
+    // Engagement metrics are read-only lookups, so they are collected while paused too
+    const metrics = getMetricsSettings();
+    if (metrics.enabled && this.publisher.getTweetMetrics) {
+      this.metricsJob = cron.schedule(`*/${metrics.interval_minutes} * * * *`, async () => {
+        try {
+          await this.collectMetrics();
+        } catch (error) {
+          logger.error('Failed to collect engagement metrics:', error);
+        }
+      }, { scheduled: true });
+    }
+
+    // Mentions are still polled and drafted while paused; replies wait until posting is allowed
+    const mentions = getMentionSettings();
+    if (mentions.enabled && this.publisher.getMentions) {
+      logger.info(`Polling mentions every ${mentions.interval_minutes} minute(s), replies: ${mentions.reply_mode}`);
+      this.mentionsJob = cron.schedule(`*/${mentions.interval_minutes} * * * *`, async () => {
+        try {
+          await this.processMentions();
+        } catch (error) {
+          logger.error('Failed to process mentions:', error);
+        }
+      }, { scheduled: true });
+    }
+
+    const [nextRun] = getNextFireTimes(schedule);
+    logger.info(`Posting scheduled successfully: ${schedule.slots.length} slot(s) in ${schedule.timezone}, next at ${nextRun?.toISOString()}`);
+  }
+
+  /**
+   * Wait For Jitter - Delay a scheduled post by a random POST_JITTER_MINUTES share
+   * 
+   * @param description - Slot being delayed, for the log
+   */
+  private async waitForJitter(description: string): Promise<void> {
+    const delay = this.postingGate.getJitterMs();
+    if (delay <= 0) {
+      return;
+    }
+
+    logger.info(`Delaying post for ${description} by ${Math.round(delay / 1000)}s (jitter)`);
+    await new Promise<void>(resolve => {
+      const timer = setTimeout(() => {
+        this.jitterTimers.delete(timer);
+        resolve();
+      }, delay);
+      this.jitterTimers.add(timer);
     });
+  }
 
-    logger.info('Daily posting scheduled successfully for 9:00 AM MDT');
+  /**
+   * Run Scheduled Slot - Fill one slot of the posting schedule
+   * 
+   * Due pinned posts go out first. If a pinned post owns this slot, the slot
+   * is not also filled from the queue. A slot is filled at most once per
+   * local minute, so slots sharing a time and the hour repeated when DST
+   * ends never post twice.
+   * 
+   * In quiet mode the slot is skipped. In a blackout it is skipped, or with
+   * BLACKOUT_ACTION=defer posted once the blackout ends (one deferred slot
+   * at a time).
+   * 
+   * @param at - Slot time (default: now)
+   */
+  async runScheduledSlot(at: Date = new Date()): Promise<void> {
+    if (this.paused) {
+      logger.info(`Slot ${at.toISOString()} skipped: bot is paused`);
+      await this.slotTracker.recordSlot(at, 'skipped', { reason: 'Bot is paused' });
+      return;
+    }
+
+    await this.postDuePinnedPosts(at);
+
+    if (await this.calendar.isSlotPinned(at)) {
+      logger.info(`Slot ${at.toISOString()} belongs to a pinned post, skipping the queue`);
+      await this.slotTracker.recordSlot(at, 'pinned');
+      return;
+    }
+
+    const wallClock = getWallClock(at, getPostingSchedule().timezone);
+    if (wallClock <= this.lastSlotWallClock) {
+      logger.info(`Slot ${wallClock} (local time) was already filled, skipping`);
+      return;
+    }
+    this.lastSlotWallClock = wallClock;
+
+    const gate = await this.postingGate.check(at);
+    if (!gate.allowed) {
+      const defer = !gate.quiet_mode.enabled && gate.resume_at && getPostingWindowSettings().blackout_action === 'defer';
+      const pending = defer && gate.resume_at ? await this.postingGate.deferSlot(at, gate.resume_at) : null;
+      const status = defer && !pending ? 'deferred' : 'skipped';
+      const reason = pending
+        ? `${gate.reason}; slot ${pending.toISOString()} is already deferred`
+        : `${gate.reason}${status === 'deferred' ? '; deferred until it ends' : ''}`;
+
+      logger.warn(`Slot ${at.toISOString()} ${status}: ${reason}`);
+      await this.slotTracker.recordSlot(at, status, { reason });
+      return;
+    }
+
+    try {
+      const result = await this.executePost(undefined, at);
+      await this.slotTracker.recordSlot(at, result.success ? 'posted' : 'failed', {
+        post_id: result.post_id,
+        reason: result.error
+      });
+    } catch (error) {
+      await this.slotTracker.recordSlot(at, 'failed', { reason: error instanceof Error ? error.message : String(error) });
+      throw error;
+    }
+  }
+
+  /**
+   * Catch Up Missed Slots - Apply MISSED_POST_POLICY to slots missed during downtime
+   * 
+   * Failures are logged and do not stop the bot from starting.
+   * 
+   * @param now - Current time
+   * @returns Promise<MissedSlotReport | null> - What was missed and done, or null if the check failed
+   */
+  async catchUpMissedSlots(now: Date = new Date()): Promise<MissedSlotReport | null> {
+    try {
+      const report = await this.slotTracker.catchUp(getPostingSchedule(), () => this.executePost(), now);
+      if (report.missed > 0) {
+        logger.info(`Missed slot catch-up (${report.policy}): ${report.posted ? `posted post ${report.post_id}` : 'nothing posted'}`);
+      }
+      return report;
+    } catch (error) {
+      logger.error('Failed to check for missed posting slots:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Post Deferred Slot - Post the slot deferred by a blackout once posting is allowed again
+   * 
+   * @param now - Current time
+   */
+  async postDeferredSlot(now: Date = new Date()): Promise<void> {
+    if (this.paused) {
+      return;
+    }
+    const slotAt = await this.postingGate.takeDueDeferredSlot(now);
+    if (!slotAt) {
+      return;
+    }
+
+    logger.info(`Blackout over, posting deferred slot ${slotAt.toISOString()}`);
+    const result = await this.executePost(undefined, slotAt);
+    await this.slotTracker.updateSlot(slotAt, result.success ? 'posted' : 'failed', {
+      post_id: result.post_id,
+      reason: `Deferred by a blackout, ${result.success ? 'posted' : `failed (${result.error})`} at ${now.toISOString()}`
+    });
+  }
+
+  /**
+   * Post Due Pinned Posts - Publish pinned posts whose time has come
+   * 
+   * Calls that overlap (the schedule and the minute job firing together)
+   * share one run, so a pinned post is never published twice. During a
+   * blackout, quiet mode or a pause pinned posts wait until posting is allowed.
+   * 
+   * @param now - Current time
+   */
+  async postDuePinnedPosts(now: Date = new Date()): Promise<void> {
+    if (!this.pinnedRun) {
+      this.pinnedRun = (async () => {
+        if (this.paused || !(await this.postingGate.check(now)).allowed) {
+          return;
+        }
+        for (const postId of await this.calendar.getDuePinnedPosts(now)) {
+          logger.info(`Publishing pinned post ${postId}`);
+          await this.executePost(postId);
+        }
+      })().finally(() => {
+        this.pinnedRun = null;
+      });
+    }
+    return this.pinnedRun;
   }
 
   /**
    * Execute Post - Main posting logic with retry mechanism
    * 
    * This method handles the complete posting workflow:
-   * 1. Get next available post from database
-   * 2. Post to Twitter with retry logic
-   * 3. Mark post as used if successful
+   * 0. Stop if the bot is paused or a blackout or quiet mode blocks posting
+   * 1. Get the next post chosen by the post selector (category rotation rules);
+   *    queued posts that break the persona's content rules or are near-duplicates
+   *    of a recently published post are rejected and the selector picks again
+   *    (a requested post that fails these checks is rejected and not published)
+   * 2. Post to Twitter with retry logic (threads are posted as reply chains)
+   * 3. Mark post as used if successful (a thread counts as one post) and
+   *    record the outcome in the published-post ledger; a thread whose posted
+   *    segment could not be logged is marked as needing attention instead
    * 4. Check if more posts need to be generated
    * 
+   * @param postId - Optional specific post to publish instead of the next queued one
+   * @param slotAt - Schedule slot being filled (variants of an A/B test wait for a comparable slot)
+   * @returns Promise<PostExecutionResult> - Post published (or attempted) and the outcome
    * @throws Error if posting fails after all retries
    */
-  async executePost(): Promise<void> {
+  async executePost(postId?: number, slotAt?: Date): Promise<PostExecutionResult> {
     try {
       logger.info('Starting post execution...');
 
-      // Step 1: Get next available post from database
-      const post = await this.postManager.getNextPost();
+      // Nothing is posted while paused, during a blackout or in quiet mode
+      if (this.paused) {
+        logger.warn('Not posting: bot is paused');
+        return { success: false, blocked: true, error: 'Bot is paused' };
+      }
+      const gate = await this.postingGate.check();
+      if (!gate.allowed) {
+        logger.warn(`Not posting: ${gate.reason}`);
+        return { success: false, blocked: true, error: gate.reason };
+      }
+
+      // Step 1: Get the requested post, or let the selector pick the next queued post
+      let post: Post | null = null;
+      for (;;) {
+        const selectedId = postId !== undefined
+          ? postId
+          : (await this.postSelector.selectNext(undefined, true, slotAt, await this.getRehearsedPostIds())).post_id;
+        post = selectedId !== null ? await this.postManager.getPostById(selectedId) : null;
+        if (!post && postId !== undefined) {
+          throw new Error(`Post ${postId} not found`);
+        }
+        if (!post) {
+          break;
+        }
+        // Only approved posts are publishable, once
+        if (post.used || post.retired_at || post.review_status !== 'approved') {
+          const state = post.used ? 'already posted' : post.retired_at ? 'retired' : `review status: ${post.review_status}`;
+          logger.warn(`Not posting post ${post.id}: not publishable (${state})`);
+          return { success: false, error: `Post ${post.id} is not publishable (${state})`, post_id: post.id };
+        }
+
+        const rejection = await this.checkBeforePublishing(post);
+        if (!rejection) {
+          break;
+        }
+        logger.warn(`Not posting post ${post.id}: ${rejection.reason}`);
+        // Take the post out of the queue (and off the calendar) so it is not picked or due again
+        await this.postReviewer.reject([post.id], rejection.reviewer, rejection.reason);
+        if (postId !== undefined) {
+          return { success: false, error: rejection.reason, post_id: post.id };
+        }
+      }
       if (!post) {
-        logger.warn('No available posts found, generating new batch...');
-        await this.generatePosts();
-        return;
+        // Posts waiting for review count toward the threshold, so unreviewed batches do not pile up
+        logger.warn('No available posts found, checking whether to generate a new batch...');
+        await this.checkAndGeneratePosts();
+        return { success: false, error: 'No available posts' };
       }
 
       // Step 2: Post to Twitter with retry logic
-      const result = await this.postWithRetry(post.content);
+      const result = await this.postWithRetry(post);
       
       if (result.success) {
-        // Step 3: Mark post as used in database
-        await this.postManager.markPostAsUsed(post.id, result.tweet_id);
+        // Step 3: Mark post as used in database (once per logical post, even for threads).
+        // Dry runs can leave the queue untouched with DRY_RUN_MARK_USED=false
+        if (this.publisher.mode === 'live' || process.env.DRY_RUN_MARK_USED !== 'false') {
+          await this.postManager.markPostAsUsed(post.id, result.tweet_id);
+        } else {
+          logger.info(`Dry run: leaving post ${post.id} in the queue`);
+        }
         logger.info(`Successfully posted tweet: ${result.tweet_id}`);
+      } else if (result.unrecorded_tweet_id) {
+        // Resuming from post_logs would post the unrecorded segment again
+        logger.error(`Thread for post ${post.id} needs attention: ${result.error}`);
+        await this.postManager.markNeedsAttention(post.id);
       } else {
         logger.error(`Failed to post after retries: ${result.error}`);
       }
 
+      const isThread = Boolean(post.segments && post.segments.length > 1);
+      const unrecorded = result.unrecorded_tweet_id ? [result.unrecorded_tweet_id] : [];
+      await this.ledger.record(post.id, {
+        tweet_ids: isThread
+          ? [...(await this.postManager.getThreadProgress(post.id)).tweet_ids, ...unrecorded]
+          : result.tweet_id ? [result.tweet_id] : [],
+        complete: result.success,
+        attempts: result.attempts,
+        error: result.error,
+        account: this.publisher.account,
+        publish_mode: this.publisher.mode,
+        persona_version: this.personaSnapshot?.version
+      });
+
       // Step 4: Check if we need to generate more posts
       await this.checkAndGeneratePosts();
 
+      return { success: result.success, tweet_id: result.tweet_id, error: result.error, post_id: post.id };
     } catch (error) {
       logger.error('Error during post execution:', error);
       throw error;
     }
   }
 
+  /**
+   * Get Rehearsed Post IDs - Posts a dry run published but left in the queue
+   * 
+   * With DRY_RUN_MARK_USED=false nothing marks posts as used, so the selector
+   * leaves out the posts already in the outbox to move on through the queue.
+   * 
+   * @returns Promise<number[]> - Post IDs the selector must not pick (empty outside such dry runs)
+   */
+  private async getRehearsedPostIds(): Promise<number[]> {
+    return this.publisher instanceof DryRunPublisher && process.env.DRY_RUN_MARK_USED === 'false'
+      ? this.publisher.getRehearsedPostIds()
+      : [];
+  }
+
+  /**
+   * Check Before Publishing - Why a queued post must not go out, if it must not
+   * 
+   * The persona's rules may have changed since the post was queued, and posts
+   * published since then may say the same thing. Near-duplicates are recorded
+   * in similarity_rejections with the published post they collide with.
+   * 
+   * @param post - Post about to be published
+   * @returns Promise<{reviewer, reason} | null> - Who rejects the post and why, or null if it may go out
+   */
+  private async checkBeforePublishing(post: Post): Promise<{ reviewer: string; reason: string } | null> {
+    const report = checkContentRules(post);
+    if (!report.valid) {
+      const errors = report.violations.filter(violation => violation.severity === 'error');
+      return { reviewer: CONTENT_RULES_REVIEWER, reason: `Content rules: ${formatViolations(errors)}` };
+    }
+    if (report.violations.length > 0) {
+      logger.warn(`Post ${post.id} has content rule warnings: ${formatViolations(report.violations)}`);
+    }
+
+    const match = await this.similarityChecker.checkQueuedPost(post);
+    if (match) {
+      await this.similarityChecker.recordRejection(this.db, 'publish', post.content, match, post.id);
+      return {
+        reviewer: SIMILARITY_REVIEWER,
+        reason: `Too similar to post ${match.post_id} (${match.method} similarity ${match.similarity.toFixed(2)})`
+      };
+    }
+    return null;
+  }
+
   /**
    * Post With Retry - Post to Twitter with automatic retry logic
    * 
    * This method implements a robust retry mechanism for posting to Twitter:
-   * - Configurable number of retry attempts
-   * - Exponential backoff between retries
-   * - Comprehensive error logging
-   * - Success/failure tracking in database
+   * - Local posting budget and X rate limit window checked before each attempt
+   * - Rate-limited attempts wait until the window resets instead of a fixed delay
+   * - Permanent failures (duplicate content, bad credentials, invalid media) stop immediately
+   * - Comprehensive error logging and success/failure tracking in database
+   * 
+   * Threads are resumed from the last successfully posted segment on each
+   * attempt, so a failure mid-thread never re-posts the head. A segment that
+   * was posted but could not be logged stops the thread without a retry and
+   * is returned as unrecorded_tweet_id.
    * 
-   * @param content - The tweet content to post
-   * @returns Object with success status and tweet ID or error message
+   * @param post - The post to publish (single tweet or thread)
+   * @returns Object with success status, root tweet ID or error message, the attempts made and any unrecorded tweet
    */
-  private async postWithRetry(content: string): Promise<{ success: boolean; tweet_id?: string; error?: string }> {
+  private async postWithRetry(post: Post): Promise<{
+    success: boolean;
+    tweet_id?: string;
+    error?: string;
+    attempts: number;
+    unrecorded_tweet_id?: string;
+  }> {
     const maxRetries = parseInt(process.env.MAX_RETRIES || '3');
     const retryDelay = parseInt(process.env.RETRY_DELAY_MS || '5000');
+    const maxWaitMs = parseInt(process.env.MAX_RATE_LIMIT_WAIT_MS || String(15 * ONE_MINUTE_MS));
+    const tweetsNeeded = post.segments && post.segments.length > 1 ? post.segments.length : 1;
 
     // Try posting up to maxRetries times
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      // Respect the local posting budget and the X tweet window before posting
+      const budget = await this.rateLimitTracker.checkPostingBudget(tweetsNeeded);
+      if (!budget.allowed) {
+        if (budget.wait_ms > maxWaitMs) {
+          logger.warn(`${budget.reason}; not posting (budget frees up in ${Math.ceil(budget.wait_ms / ONE_MINUTE_MS)} minutes)`);
+          return { success: false, error: budget.reason, attempts: attempt - 1 };
+        }
+        logger.info(`${budget.reason}; waiting ${Math.ceil(budget.wait_ms / 1000)}s before posting`);
+        await this.sleep(budget.wait_ms);
+      }
+
       try {
         logger.info(`Posting attempt ${attempt}/${maxRetries}`);
-        
-        // Record start time for performance tracking
-        const startTime = Date.now();
-        const tweetId = await this.twitterService.postTweet(content);
-        const responseTime = Date.now() - startTime;
 
-        // Log successful post to database for analytics
-        await this.db.run(`
-          INSERT INTO post_logs (bot_id, success, tweet_id, response_time_ms)
-          VALUES (?, ?, ?, ?)
-        `, [process.env.BOT_NAME, true, tweetId, responseTime]);
+        const tweetId = post.segments && post.segments.length > 1
+          ? await this.postThreadAttempt(post, post.segments, attempt)
+          : await this.postSingleAttempt(post, attempt);
 
-        return { success: true, tweet_id: tweetId };
+        return { success: true, tweet_id: tweetId, attempts: attempt };
 
       } catch (error) {
         logger.warn(`Post attempt ${attempt} failed:`, error);
+        const message = error instanceof Error ? error.message : String(error);
 
         // Log failed attempt to database for debugging
+        const failedSegment = error instanceof TwitterAPIError
+          ? error.context?.failedSegmentIndex
+          : undefined;
         await this.db.run(`
-          INSERT INTO post_logs (bot_id, attempt_number, success, error_message)
-          VALUES (?, ?, ?, ?)
-        `, [process.env.BOT_NAME, attempt, false, error instanceof Error ? error.message : String(error)]);
+          INSERT INTO post_logs (bot_id, post_id, attempt_number, success, error_message, segment_index)
+          VALUES (?, ?, ?, ?, ?, ?)
+        `, [
+          this.botId,
+          post.id,
+          attempt,
+          false,
+          message,
+          failedSegment ?? null
+        ]);
+
+        // Permanent failures will not succeed on retry
+        if (error instanceof BotError && !error.retryable) {
+          const unrecordedTweetId = error.code === 'THREAD_PROGRESS_NOT_RECORDED'
+            ? error.context?.unrecordedTweetId as string
+            : undefined;
+          return { success: false, error: message, attempts: attempt, unrecorded_tweet_id: unrecordedTweetId };
+        }
 
         // If this was the last attempt, return failure
         if (attempt === maxRetries) {
-          return { success: false, error: error instanceof Error ? error.message : String(error) };
+          return { success: false, error: message, attempts: attempt };
         }
 
-        // Wait before retry (exponential backoff could be implemented here)
-        await new Promise(resolve => setTimeout(resolve, retryDelay));
+        // Wait until the rate limit window resets, or the fixed retry delay otherwise
+        const delay = this.getRetryDelay(error, retryDelay);
+        if (delay > maxWaitMs) {
+          logger.warn(`Rate limited for ${Math.ceil(delay / ONE_MINUTE_MS)} minutes, giving up on this post for now`);
+          return { success: false, error: message, attempts: attempt };
+        }
+        await this.sleep(delay);
       }
     }
 
-    return { success: false, error: 'Max retries exceeded' };
+    return { success: false, error: 'Max retries exceeded', attempts: maxRetries };
+  }
+
+  /**
+   * Get Retry Delay - Time to wait before the next posting attempt
+   * 
+   * @param error - The error from the failed attempt
+   * @param retryDelay - Fixed delay for errors without a rate limit reset time
+   * @returns number - Milliseconds to wait
+   */
+  private getRetryDelay(error: unknown, retryDelay: number): number {
+    const resetAt = error instanceof TwitterAPIError ? error.context?.resetAt : undefined;
+    if (typeof resetAt === 'number') {
+      // Small buffer so the request lands after the window has actually reset
+      return Math.max(0, resetAt - Date.now()) + 1000;
+    }
+    return retryDelay;
+  }
+
+  /**
+   * Sleep - Wait for the given number of milliseconds
+   * 
+   * @param ms - Milliseconds to wait
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  /**
+   * Post Single Attempt - Post a single tweet and log the result
+   * 
+   * @param post - The post to publish
+   * @param attempt - Current attempt number
+   * @returns Promise<string> - The posted tweet ID
+   */
+  private async postSingleAttempt(post: Post, attempt: number): Promise<string> {
+    // Record start time for performance tracking
+    const startTime = Date.now();
+    const tweetId = await this.publisher.postTweet(post.content, { media: post.media });
+    const responseTime = Date.now() - startTime;
+
+    // Log successful post to database for analytics
+    await this.db.run(`
+      INSERT INTO post_logs (bot_id, post_id, attempt_number, success, tweet_id, response_time_ms)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `, [this.botId, post.id, attempt, true, tweetId, responseTime]);
+
+    return tweetId;
+  }
+
+  /**
+   * Post Thread Attempt - Post (or resume) a thread and log each segment
+   * 
+   * Previously posted segments are read back from post_logs, and every newly
+   * posted segment is logged as soon as it succeeds, so the next attempt (or
+   * the next scheduled run after a crash) continues where this one stopped.
+   * If that log write fails, the thread stops there (THREAD_PROGRESS_NOT_RECORDED).
+   * 
+   * @param post - The thread post to publish
+   * @param segments - Ordered thread segments
+   * @param attempt - Current attempt number
+   * @returns Promise<string> - Tweet ID of the thread head
+   */
+  private async postThreadAttempt(post: Post, segments: string[], attempt: number): Promise<string> {
+    const progress = await this.postManager.getThreadProgress(post.id);
+
+    if (progress.next_segment_index >= segments.length) {
+      logger.info(`Thread for post ${post.id} was already fully posted`);
+      return progress.tweet_ids[0];
+    }
+
+    if (progress.next_segment_index > 0) {
+      logger.info(`Resuming thread for post ${post.id} at segment ${progress.next_segment_index + 1}/${segments.length}`);
+    }
+
+    let segmentStart = Date.now();
+    const postedIds = await postThread(this.publisher, segments, {
+      media: post.media,
+      resumeFrom: progress.next_segment_index > 0
+        ? {
+            segmentIndex: progress.next_segment_index,
+            replyToId: progress.tweet_ids[progress.tweet_ids.length - 1]
+          }
+        : undefined,
+      onSegmentPosted: async (segmentIndex, tweetId) => {
+        await this.db.run(`
+          INSERT INTO post_logs (
+            bot_id, post_id, attempt_number, success, tweet_id, response_time_ms, segment_index
+          ) VALUES (?, ?, ?, ?, ?, ?, ?)
+        `, [this.botId, post.id, attempt, true, tweetId, Date.now() - segmentStart, segmentIndex]);
+        segmentStart = Date.now();
+      }
+    });
+
+    return progress.tweet_ids[0] ?? postedIds[0];
   }
 
   /**
@@ -294,11 +939,18 @@ export class TemplateBot {
    * - Checks remaining post count in database
    * - Triggers generation if count falls below threshold
    * - Uses configurable threshold from environment variables
+   * - Counts posts waiting for review, so unreviewed batches do not pile up
+   * - Does nothing while the bot is paused
    */
   private async checkAndGeneratePosts(): Promise<void> {
+    if (this.paused) {
+      logger.info('Bot is paused, skipping replenishment check');
+      return;
+    }
+
     try {
       const postCount = await this.postManager.getPostCount();
-      const remainingPosts = postCount.remaining;
+      const remainingPosts = postCount.remaining + postCount.pending_review;
       const threshold = parseInt(process.env.REPLENISHMENT_THRESHOLD || '50');
 
       if (remainingPosts <= threshold) {
@@ -313,28 +965,20 @@ export class TemplateBot {
   }
 
   /**
-   * Generate Posts - Create new posts using local generator
+   * Generate Posts - Refill the queue using the configured replenishment strategy
    * 
-   * This method generates new posts using the local post generator instead of
-   * OpenAI API to reduce costs and improve reliability. It generates posts
-   * in batches and stores them in the database.
+   * This method generates a batch of POSTS_BATCH_SIZE posts with the strategy
+   * selected by REPLENISHMENT_STRATEGY (local, llm, or hybrid). LLM failures
+   * fall back to the local generator; each run is logged to generation_logs.
    * 
    * @throws Error if post generation fails
    */
   private async generatePosts(): Promise<void> {
     try {
       const batchSize = parseInt(process.env.POSTS_BATCH_SIZE || '2016');
-      logger.info(`Generating ${batchSize} new posts using local generator...`);
+      const result = await this.replenishmentService.replenish(batchSize);
 
-      // Use local post generator instead of OpenAI API for cost efficiency
-              const { TemplatePostGenerator } = await import('./services/generator/post-generator');
-        const posts = TemplatePostGenerator.generateAllPosts();
-      
-      // Store generated posts in database
-      await this.postManager.storePosts(posts);
-
-      // Update bot statistics with new post count
-      const botId = process.env.BOT_NAME || 'template-bot';
+      // Update bot statistics with the number of posts actually stored (posts for review join the queue once approved)
       await this.db.run(`
         UPDATE bot_stats 
         SET total_posts = total_posts + ?, 
@@ -342,9 +986,17 @@ export class TemplateBot {
             last_replenishment_at = CURRENT_TIMESTAMP,
             updated_at = CURRENT_TIMESTAMP
         WHERE bot_id = ?
-      `, [posts.length, posts.length, botId]);
+      `, [result.stored, result.stored - result.pending_review, this.botId]);
 
-      logger.info(`Successfully generated and stored ${posts.length} posts using local generator`);
+      logger.info(`Successfully generated and stored ${result.stored} posts (${result.strategy} strategy)`);
+      if (result.pending_review > 0) {
+        logger.info(`${result.pending_review} generated posts are waiting for review`);
+      }
+      if (result.distribution.length > 0) {
+        logger.info('Local topic distribution (generated/target): ' + result.distribution
+          .map(topic => `${topic.topic} ${topic.generated}/${topic.target}`)
+          .join(', '));
+      }
     } catch (error) {
       logger.error('Failed to generate posts:', error);
       throw error;
@@ -355,7 +1007,7 @@ export class TemplateBot {
    * Shutdown Bot - Clean shutdown of all services
    * 
    * This method performs a graceful shutdown:
-   * - Stops the cron job
+   * - Stops the cron jobs
    * - Closes database connections
    * - Logs shutdown completion
    */
@@ -363,11 +1015,16 @@ export class TemplateBot {
     try {
       logger.info('Shutting down X.com Bot Template...');
 
-      // Stop the cron job if it's running
-      if (this.cronJob) {
-        this.cronJob.stop();
-        logger.info('Cron job stopped');
+      // Stop the cron jobs if they're running
+      if (this.cronJobs.length > 0) {
+        this.cronJobs.forEach(job => job.stop());
+        logger.info(`${this.cronJobs.length} cron job(s) stopped`);
       }
+      this.pinnedJob?.stop();
+      this.metricsJob?.stop();
+      this.mentionsJob?.stop();
+      this.jitterTimers.forEach(timer => clearTimeout(timer));
+      this.jitterTimers.clear();
 
       // Close database connection
       await this.db.close();
@@ -383,15 +1040,41 @@ export class TemplateBot {
    * Manual Post - Trigger a post manually (for testing)
    * 
    * This method allows manual triggering of a post, bypassing the schedule.
-   * Useful for testing and emergency posting.
+   * Useful for testing and emergency posting. When content is supplied it is
+   * validated (including media files), stored in the queue and posted right
+   * away; otherwise the next queued post is used.
    * 
+   * @param input - Optional content, thread segments and media to post
    * @throws Error if bot is not initialized
+   * @throws MediaError if attached media fails validation
+   * @throws ContentRuleError if the content breaks the persona's content rules
    */
-  async manualPost(): Promise<void> {
+  async manualPost(input?: ManualPostInput): Promise<void> {
     if (!this.isInitialized) {
       throw new Error('Bot not initialized');
     }
-    await this.executePost();
+
+    if (!input) {
+      await this.executePost();
+      return;
+    }
+
+    const postId = await this.postManager.addPost({
+      content: input.content,
+      segments: input.segments,
+      media: input.media,
+      category: 'manual',
+      tokens_used: 0,
+      cost: 0,
+      model: 'manual'
+    });
+    await this.db.run(`
+      UPDATE bot_stats
+      SET total_posts = total_posts + 1, remaining_posts = remaining_posts + 1, updated_at = CURRENT_TIMESTAMP
+      WHERE bot_id = ?
+    `, [this.botId]);
+
+    await this.executePost(postId);
   }
 
   /**
@@ -399,32 +1082,578 @@ export class TemplateBot {
    * 
    * This method provides comprehensive status information including:
    * - Initialization status
+   * - Publish mode (live, dry-run, memory)
    * - Remaining post count
+   * - Posts waiting for review
    * - Last post timestamp
    * - Last replenishment timestamp
+   * - Whether the bot is paused
    * 
    * @returns Object with bot status information
    */
   async getStatus(): Promise<{
     isInitialized: boolean;
+    paused: boolean;
+    publishMode: PublishMode;
+    persona: { name: string; version?: number };
     remainingPosts: number;
+    pendingReviewPosts: number;
     lastPostAt?: Date;
     lastReplenishmentAt?: Date;
   }> {
-    const botId = process.env.BOT_NAME || 'template-bot';
-    
     // Query bot statistics from database
     const stats = await this.db.get(`
       SELECT remaining_posts, last_post_at, last_replenishment_at
       FROM bot_stats 
       WHERE bot_id = ?
-    `, [botId]);
+    `, [this.botId]);
+    const postCount = await this.postManager.getPostCount();
 
     return {
       isInitialized: this.isInitialized,
+      paused: this.paused,
+      publishMode: this.publisher.mode,
+      persona: { name: getPersona().name, version: this.personaSnapshot?.version },
       remainingPosts: stats?.remaining_posts || 0,
+      pendingReviewPosts: postCount.pending_review,
       lastPostAt: stats?.last_post_at ? new Date(stats.last_post_at) : undefined,
       lastReplenishmentAt: stats?.last_replenishment_at ? new Date(stats.last_replenishment_at) : undefined
     };
   }
+
+  /**
+   * Get Rate Limit Status - Return X API rate limit windows and posting budget
+   * 
+   * @returns Promise with per-endpoint windows and the local posting budget
+   */
+  async getRateLimitStatus(): Promise<{ endpoints: RateLimitWindow[]; budget: PostingBudgetStatus }> {
+    return this.rateLimitTracker.getStatus();
+  }
+
+  /**
+   * Get Generation Budget Status - Content model spend against the daily and monthly budgets
+   * 
+   * @returns Promise<GenerationBudgetStatus> - Spend per period, state and whether generation is allowed
+   */
+  async getGenerationBudgetStatus(): Promise<GenerationBudgetStatus> {
+    return this.generationBudget.checkBudget();
+  }
+
+  /**
+   * Get Selection Status - Active selection policy, the post it would pick next, and recent decisions
+   * 
+   * @param limit - Maximum number of recent decisions to return
+   * @returns Promise with the policy, a preview decision for the next slot (not recorded) and recent decisions
+   */
+  async getSelectionStatus(limit: number = 10): Promise<{
+    policy: SelectionPolicy;
+    next: SelectionDecision;
+    recent: SelectionDecision[];
+  }> {
+    const policy = getSelectionPolicy();
+    return {
+      policy,
+      next: await this.postSelector.selectNext(policy, false, getNextFireTimes(getPostingSchedule())[0], await this.getRehearsedPostIds()),
+      recent: await this.postSelector.getRecentDecisions(limit)
+    };
+  }
+
+  /**
+   * Get Calendar - Upcoming posting slots with their pinned posts
+   * 
+   * @param days - Number of days ahead to include
+   * @returns Promise<Object> - Slots in time order and the blackout periods in the range
+   */
+  async getCalendar(days: number = 7): Promise<{ slots: CalendarSlot[]; blackouts: BlackoutPeriod[] }> {
+    const schedule = getPostingSchedule();
+    const from = new Date();
+    const to = new Date(from.getTime() + days * 24 * 60 * ONE_MINUTE_MS);
+    const blackouts = getBlackoutPeriods(getPostingWindowSettings().blackouts, schedule.timezone, from, to);
+
+    return { slots: await this.calendar.getCalendar(schedule, from, to, blackouts), blackouts };
+  }
+
+  /**
+   * Get Posting Status - Quiet mode, blackouts and jitter
+   * 
+   * @returns Promise<Object> - Settings, whether posting is allowed now, the
+   *   next week's blackout periods and the slot deferred by a blackout, if any
+   */
+  async getPostingStatus(): Promise<{
+    settings: PostingWindowSettings;
+    gate: PostingGateStatus;
+    upcoming: BlackoutPeriod[];
+    deferred: { slot_at: Date; not_before: Date } | null;
+  }> {
+    const settings = getPostingWindowSettings();
+    const now = new Date();
+    const timezone = getPostingSchedule().timezone;
+
+    return {
+      settings,
+      gate: await this.postingGate.check(now, settings),
+      upcoming: getBlackoutPeriods(settings.blackouts, timezone, now, new Date(now.getTime() + 7 * 24 * 60 * ONE_MINUTE_MS)),
+      deferred: await this.postingGate.getDeferredSlot()
+    };
+  }
+
+  /**
+   * Set Quiet Mode - Stop or resume all posting at runtime
+   * 
+   * @param enabled - True to stop posting
+   * @param reason - Why (shown in /stats)
+   * @param until - Optional time at which quiet mode ends by itself
+   * @returns Promise<QuietMode> - The new quiet mode state
+   * @throws BotError (INVALID_QUIET_MODE) if until is not in the future
+   */
+  async setQuietMode(enabled: boolean, reason?: string, until?: Date): Promise<QuietMode> {
+    return this.postingGate.setQuietMode(enabled, reason, until);
+  }
+
+  /**
+   * Get Pause State - Whether the bot is paused, as stored in the database
+   * 
+   * @returns Promise<PauseState> - Pause state (not paused if never set)
+   */
+  async getPauseState(): Promise<PauseState> {
+    const stored = await this.botState.get(PAUSE_STATE_KEY);
+    if (!stored) {
+      return { paused: false };
+    }
+    const state = JSON.parse(stored);
+    return { ...state, since: state.since ? new Date(state.since) : undefined };
+  }
+
+  /**
+   * Pause - Stop scheduled posting and replenishment without shutting down
+   * 
+   * The cron jobs are stopped and the database stays open, so the health
+   * server keeps answering. The pause is stored, so a restarted bot stays
+   * paused until resume is called.
+   * 
+   * @param reason - Why the bot was paused (shown in /health and the logs)
+   * @param killed - True when paused by the kill switch
+   * @returns Promise<PauseState> - The new pause state
+   */
+  async pause(reason?: string, killed: boolean = false): Promise<PauseState> {
+    const state: PauseState = { paused: true, reason, since: new Date(), killed };
+    await this.botState.set(PAUSE_STATE_KEY, JSON.stringify(state));
+    this.applyPause(true);
+    logger.warn(`Bot paused${reason ? `: ${reason}` : ''}`);
+    return state;
+  }
+
+  /**
+   * Resume - Restart scheduled posting and replenishment after a pause
+   * 
+   * Slots that passed while the bot was paused are not caught up on.
+   * 
+   * @returns Promise<PauseState> - The new (not paused) state
+   */
+  async resume(): Promise<PauseState> {
+    await this.botState.delete(PAUSE_STATE_KEY);
+    await this.slotTracker.restartTracking();
+    this.applyPause(false);
+    logger.info('Bot resumed');
+
+    if (this.isInitialized) {
+      await this.checkAndGeneratePosts();
+    }
+    return { paused: false };
+  }
+
+  /**
+   * Kill Switch - Pause the bot and delete its most recent tweets
+   * 
+   * For when something has gone badly wrong: the bot is paused first, then
+   * the newest `deleteCount` tweets still on X are deleted (each thread
+   * segment counts as one tweet). A failed deletion does not stop the rest.
+   * 
+   * @param deleteCount - Number of recent tweets to delete (0 only pauses)
+   * @param reason - Why the kill switch was used
+   * @returns Promise<KillSwitchReport> - Pause state and the tweets deleted or not
+   * @throws Error if bot is not initialized
+   */
+  async killSwitch(deleteCount: number, reason?: string): Promise<KillSwitchReport> {
+    if (!this.isInitialized) {
+      throw new Error('Bot not initialized');
+    }
+
+    const pause = await this.pause(reason || 'Kill switch', true);
+    const tweets = deleteCount > 0 ? await this.postManager.getRecentTweets(deleteCount) : [];
+    const report: KillSwitchReport = {
+      pause,
+      requested: deleteCount,
+      ...await this.deleteTweets(tweets.map(tweet => tweet.tweet_id))
+    };
+
+    logger.error(`Kill switch: bot paused, deleted ${report.deleted.length} of ${tweets.length} recent tweet(s)` +
+      (report.failed.length > 0 ? `, ${report.failed.length} failed` : ''));
+    return report;
+  }
+
+  /**
+   * Delete Published Post - Delete the tweets of a post from X by its local ID
+   * 
+   * Thread replies are deleted before the head. The post stays used; its
+   * ledger entry becomes 'deleted' once all of its tweets are gone.
+   * 
+   * @param postId - Local post ID
+   * @returns Promise<TweetDeletionResult> - Tweets deleted and tweets that could not be
+   * @throws BotError (POST_NOT_FOUND) if the post never published a tweet
+   */
+  async deletePublishedPost(postId: number): Promise<TweetDeletionResult> {
+    const entry = await this.ledger.getEntry(postId);
+    if (!entry || entry.tweet_ids.length === 0) {
+      throw new BotError(`Post ${postId} has no published tweets`, 'POST_NOT_FOUND', false, { post_id: postId });
+    }
+
+    const result = await this.deleteTweets((await this.ledger.getLiveTweets(postId)).reverse());
+    logger.warn(`Deleted ${result.deleted.length} tweet(s) of post ${postId}` +
+      (result.failed.length > 0 ? `, ${result.failed.length} failed` : ''));
+    return result;
+  }
+
+  /**
+   * Get Published Posts - Published-post ledger, most recent first
+   * 
+   * @param limit - Maximum number of entries
+   * @param offset - Entries to skip (paging)
+   * @param status - Only entries with this status
+   * @returns Promise<PublishedPostRecord[]> - Ledger entries with their tweets
+   */
+  async getPublishedPosts(limit: number = 20, offset: number = 0, status?: PublishedPostStatus): Promise<PublishedPostRecord[]> {
+    return this.ledger.getPublished(limit, offset, status);
+  }
+
+  /**
+   * Collect Metrics - Look up the engagement snapshots that are due
+   * 
+   * New snapshots also update the learned topic weights and conclude the
+   * A/B tests that have a clear winner.
+   * 
+   * @param now - Current time
+   * @returns Promise<MetricsCollectionReport> - Snapshots due, collected and missing
+   */
+  async collectMetrics(now: Date = new Date()): Promise<MetricsCollectionReport> {
+    const report = await this.metricsCollector.collect(now);
+    if (report.collected > 0) {
+      await this.topicOptimizer.update(now);
+      await this.variantTester.evaluate(now);
+    }
+    return report;
+  }
+
+  /**
+   * Get Post Metrics - Engagement snapshots of one published post
+   * 
+   * @param postId - Local post ID
+   * @returns Promise<PostMetrics> - Snapshots per age, summed over the post's tweets
+   * @throws BotError (POST_NOT_FOUND) if the post was never published
+   */
+  async getPostMetrics(postId: number): Promise<PostMetrics> {
+    const metrics = await this.metricsCollector.getPostMetrics(postId);
+    if (!metrics) {
+      throw new BotError(`Post ${postId} was never published`, 'POST_NOT_FOUND', false, { post_id: postId });
+    }
+    return metrics;
+  }
+
+  /**
+   * Get Metrics Summary - Engagement at one age per category or per persona version
+   * 
+   * @param groupBy - 'category' or 'persona'
+   * @param age - Snapshot age to compare
+   * @returns Promise<MetricsGroupSummary[]> - One entry per group, most impressions first
+   */
+  async getMetricsSummary(groupBy: 'category' | 'persona', age: MetricsAge = '24h'): Promise<MetricsGroupSummary[]> {
+    return this.metricsCollector.getSummary(groupBy, age);
+  }
+
+  /**
+   * Get Topic Weights - Topic weights in use, persona weights and the latest learned update
+   * 
+   * @returns Promise<TopicWeightStatus> - Current topic weighting
+   */
+  async getTopicWeights(): Promise<TopicWeightStatus> {
+    return this.topicOptimizer.getStatus();
+  }
+
+  /**
+   * Set Topic Weight Mode - Switch this bot between persona and learned topic weights
+   * 
+   * @param mode - 'static' or 'learned' (kept across restarts)
+   * @returns Promise<TopicWeightStatus> - Topic weighting after the switch
+   */
+  async setTopicWeightMode(mode: TopicWeightMode): Promise<TopicWeightStatus> {
+    await this.topicOptimizer.setMode(mode);
+    return this.topicOptimizer.getStatus();
+  }
+
+  /**
+   * Get Topic Weight Updates - Learned weight updates with their inputs, newest first
+   * 
+   * @param limit - Maximum number of updates
+   * @returns Promise<TopicWeightUpdate[]> - Stored updates
+   */
+  async getTopicWeightUpdates(limit: number = 10): Promise<TopicWeightUpdate[]> {
+    return this.topicOptimizer.getUpdates(limit);
+  }
+
+  /**
+   * Add Variant Group - Queue phrasings of the same idea as an A/B test
+   * 
+   * @param input - Group name, optional category and the variants (validated)
+   * @returns Promise<VariantGroupReport> - The new group
+   * @throws BotError (VARIANT_GROUP_EXISTS) if the group name is taken
+   * @throws BotError (DUPLICATE_POST) if a variant duplicates an existing post; nothing is queued
+   */
+  async addVariantGroup(input: VariantGroupInput): Promise<VariantGroupReport> {
+    if ((await this.variantTester.getReports(input.group)).length > 0) {
+      throw new BotError(`Variant group "${input.group}" already exists`, 'VARIANT_GROUP_EXISTS', false, { group: input.group });
+    }
+
+    const postIds = await this.postManager.addPosts(input.variants.map(variant => ({
+      content: variant.content,
+      segments: variant.segments,
+      category: input.category,
+      variant_group: input.group,
+      variant_label: variant.label,
+      tokens_used: 0,
+      cost: 0,
+      model: 'manual'
+    })));
+    await this.db.run(`
+      UPDATE bot_stats
+      SET total_posts = total_posts + ?, remaining_posts = remaining_posts + ?, updated_at = CURRENT_TIMESTAMP
+      WHERE bot_id = ?
+    `, [postIds.length, postIds.length, this.botId]);
+
+    logger.info(`Queued variant group "${input.group}" with ${postIds.length} variants`);
+    return this.getVariantReport(input.group);
+  }
+
+  /**
+   * Get Variant Reports - A/B test results of every variant group
+   * 
+   * @returns Promise<VariantGroupReport[]> - Groups by name
+   */
+  async getVariantReports(): Promise<VariantGroupReport[]> {
+    return this.variantTester.getReports();
+  }
+
+  /**
+   * Get Variant Report - A/B test results of one variant group
+   * 
+   * @param group - Group name
+   * @returns Promise<VariantGroupReport> - Variants with their 24h engagement and significance
+   * @throws BotError (VARIANT_GROUP_NOT_FOUND) if no post belongs to the group
+   */
+  async getVariantReport(group: string): Promise<VariantGroupReport> {
+    const [report] = await this.variantTester.getReports(group);
+    if (!report) {
+      throw new BotError(`Variant group "${group}" not found`, 'VARIANT_GROUP_NOT_FOUND', false, { group });
+    }
+    return report;
+  }
+
+  /**
+   * Process Mentions - Poll new mentions, draft replies and post the approved ones
+   * 
+   * Replies are drafted while the bot is paused or posting is blocked, but
+   * only posted when a scheduled post could go out too.
+   * 
+   * @param now - Current time
+   * @returns Promise<MentionRunReport> - Mentions fetched, replies drafted and posted
+   */
+  async processMentions(now: Date = new Date()): Promise<MentionRunReport> {
+    const gate = this.paused ? null : await this.postingGate.check(now);
+    const blocked = !gate ? 'Bot is paused' : gate.allowed ? undefined : gate.reason || 'Posting is blocked';
+    return this.mentionMonitor.run(blocked, now);
+  }
+
+  /**
+   * Get Mentions - Stored mentions with their drafted replies, newest first
+   * 
+   * @param status - Only mentions with this status (e.g. 'pending_approval')
+   * @param limit - Maximum number of mentions
+   * @returns Promise<MentionRecord[]> - Mentions
+   */
+  async getMentions(status?: MentionStatus, limit: number = 20): Promise<MentionRecord[]> {
+    return this.mentionMonitor.getMentions(status, limit);
+  }
+
+  /**
+   * Review Mention Reply - Approve or reject a drafted reply
+   * 
+   * Approved replies go out with the next mentions run, within the reply cap
+   * and posting budget.
+   * 
+   * @param id - Local mention ID
+   * @param approved - True to approve, false to reject
+   * @returns Promise<MentionRecord> - The reviewed mention
+   * @throws BotError (MENTION_NOT_FOUND, MENTION_NOT_PENDING) if there is no reply to review
+   */
+  async reviewMentionReply(id: number, approved: boolean): Promise<MentionRecord> {
+    return this.mentionMonitor.review(id, approved);
+  }
+
+  /**
+   * Get Review Posts - Posts in one review status, oldest first
+   * 
+   * @param status - Review status (default: pending_review)
+   * @param limit - Maximum number of posts
+   * @returns Promise<Post[]> - Posts with their review details
+   */
+  async getReviewPosts(status: PostReviewStatus = 'pending_review', limit: number = 20): Promise<Post[]> {
+    return this.postReviewer.getPosts(status, limit);
+  }
+
+  /**
+   * Approve Post - Approve a post for publishing, optionally with edited content
+   * 
+   * @param postId - Post to approve
+   * @param reviewer - Who approved it
+   * @param edit - Replacement content and thread segments (validated)
+   * @returns Promise<Post> - The approved post
+   * @throws BotError (POST_NOT_FOUND, INVALID_REVIEW_TRANSITION, DUPLICATE_POST, SIMILAR_POST) if it cannot be approved
+   */
+  async approvePost(postId: number, reviewer: string, edit?: { content: string; segments?: string[] }): Promise<Post> {
+    return this.postReviewer.approve(postId, reviewer, edit);
+  }
+
+  /**
+   * Reject Posts - Reject several posts with one reason; nothing changes if any cannot be rejected
+   * 
+   * @param postIds - Posts to reject
+   * @param reviewer - Who rejected them
+   * @param reason - Why they were rejected
+   * @returns Promise<Post[]> - The rejected posts
+   * @throws BotError (POST_NOT_FOUND, INVALID_REVIEW_TRANSITION) if a post cannot be rejected
+   */
+  async rejectPosts(postIds: number[], reviewer: string, reason: string): Promise<Post[]> {
+    return this.postReviewer.reject(postIds, reviewer, reason);
+  }
+
+  /**
+   * Get Similarity Rejections - Recent near-duplicates with the posts they collided with
+   * 
+   * @param limit - Maximum number of rejections
+   * @returns Promise<SimilarityRejection[]> - Newest first
+   */
+  async getSimilarityRejections(limit: number = 50): Promise<SimilarityRejection[]> {
+    return this.similarityChecker.getRejections(limit);
+  }
+
+  /**
+   * Delete Tweets - Delete tweets from X and record which ones are gone
+   * 
+   * A failed deletion does not stop the rest.
+   * 
+   * @param tweetIds - Tweets to delete, in order
+   * @returns Promise<TweetDeletionResult> - Tweets deleted and tweets that could not be
+   */
+  private async deleteTweets(tweetIds: string[]): Promise<TweetDeletionResult> {
+    const result: TweetDeletionResult = { deleted: [], failed: [] };
+
+    for (const tweetId of tweetIds) {
+      try {
+        if (await this.publisher.deleteTweet(tweetId)) {
+          await this.postManager.markTweetDeleted(tweetId);
+          result.deleted.push(tweetId);
+        } else {
+          result.failed.push({ tweet_id: tweetId, error: 'Tweet not found' });
+        }
+      } catch (error) {
+        result.failed.push({ tweet_id: tweetId, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    await this.ledger.markTweetsDeleted(result.deleted);
+    return result;
+  }
+
+  /**
+   * Apply Pause - Stop or restart the posting cron jobs
+   * 
+   * @param paused - True to stop them
+   */
+  private applyPause(paused: boolean): void {
+    this.paused = paused;
+    this.cronJobs.forEach(job => (paused ? job.stop() : job.start()));
+  }
+
+  /**
+   * Sync Pause State - Apply a pause or resume stored by another process
+   */
+  private async syncPauseState(): Promise<void> {
+    const { paused } = await this.getPauseState();
+    if (paused === this.paused) {
+      return;
+    }
+
+    logger.info(`Pause state changed in the database, ${paused ? 'pausing' : 'resuming'}`);
+    this.applyPause(paused);
+    if (!paused) {
+      await this.checkAndGeneratePosts();
+    }
+  }
+
+  /**
+   * Get Slot History - Recorded posting slots and the missed post policy
+   * 
+   * @param limit - Maximum number of slots
+   * @param missedOnly - Only slots missed during downtime
+   * @returns Promise<Object> - Missed post settings and the latest recorded slots
+   */
+  async getSlotHistory(limit: number = 20, missedOnly: boolean = false): Promise<{
+    settings: MissedPostSettings;
+    slots: ScheduleSlotRecord[];
+  }> {
+    return {
+      settings: getMissedPostSettings(),
+      slots: await this.slotTracker.getRecentSlots(limit, missedOnly)
+    };
+  }
+
+  /**
+   * Get Schedule - Posting schedule the bot is running on
+   * 
+   * @returns PostingSchedule - Slots and IANA timezone
+   */
+  getSchedule(): PostingSchedule {
+    return getPostingSchedule();
+  }
+
+  /**
+   * Get Next Runs - Upcoming fire times of the posting schedule
+   * 
+   * @param count - Number of fire times to return
+   * @returns Date[] - Next fire times across all slots, earliest first
+   */
+  getNextRuns(count: number = 5): Date[] {
+    return getNextFireTimes(getPostingSchedule(), new Date(), count);
+  }
+
+  /**
+   * Pin Post - Publish a queued post at a specific time instead of from the queue
+   * 
+   * @param postId - Post to pin
+   * @param at - Time to publish
+   * @returns Promise<Date> - The slot the post was pinned to
+   * @throws BotError (POST_NOT_FOUND, INVALID_SCHEDULE, SLOT_CONFLICT)
+   */
+  async pinPost(postId: number, at: Date): Promise<Date> {
+    return this.calendar.pinPost(postId, at);
+  }
+
+  /**
+   * Unpin Post - Return a pinned post to the general queue
+   * 
+   * @param postId - Post to unpin
+   * @returns Promise<boolean> - True if the post was pinned
+   */
+  async unpinPost(postId: number): Promise<boolean> {
+    return this.calendar.unpinPost(postId);
+  }
 }
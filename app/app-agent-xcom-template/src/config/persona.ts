@@ -0,0 +1,309 @@
+/**
+ * Persona - Bot persona loaded from a JSON file
+ *
+ * A persona holds everything that makes the bot sound like itself: voice,
+ * tone, writing style, weighted topics with seed posts for the local
+ * generator, hashtags, emojis, posting schedule, length limits and content
+ * rules. Personas live in the personas/ directory; PERSONA_FILE selects one
+ * (default: personas/template.json), so switching persona needs no code change.
+ *
+ * The posting schedule is resolved in config/schedule.ts.
+ *
+ * The file is validated with PersonaSchema when it is first used, and the
+ * bot stores a versioned snapshot in persona_snapshots at startup.
+ *
+ * @author Your Name
+ * @version 1.0.0
+ */
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { z } from 'zod';
+import { BotError } from '../shared/types';
+import {
+  CRON_SCHEDULES,
+  MAX_HASHTAGS_PER_TWEET,
+  MAX_TWEET_LENGTH,
+  MAX_URLS_PER_TWEET,
+  SCHEDULE_WEEKDAYS,
+  SLOT_TIME_PATTERN,
+  TIMEZONES
+} from '../shared/constants';
+import { isValidTimezone, parseCronExpression } from '../shared/utils/cron';
+import { TweetTextSchema } from '../shared/utils/validation';
+
+const PersonaPostsSchema = z.array(TweetTextSchema);
+
+// One topic: weight is relative to the other topics, seed posts feed the local generator
+export const PersonaTopicSchema = z.object({
+  key: z.string().regex(/^[a-z0-9_]+$/, 'Topic keys are lowercase letters, digits and underscores'),
+  name: z.string().min(1),
+  weight: z.number().positive().default(1),
+  prompt: z.string().min(1).optional(),
+  seedPosts: PersonaPostsSchema.min(1),
+  extraPosts: PersonaPostsSchema.optional()
+});
+
+const SlotTimesSchema = z.array(z.string().regex(SLOT_TIME_PATTERN, 'Slot times are HH:MM on a 24-hour clock'));
+
+// When to post: daily slot times, per-weekday replacements ("sat": [] = no posts) and raw cron expressions
+export const PersonaScheduleSchema = z.object({
+  timezone: z.string().refine(isValidTimezone, 'Unknown IANA timezone').default(TIMEZONES.MOUNTAIN),
+  slots: SlotTimesSchema.default([]),
+  weekdays: z.record(SlotTimesSchema).default({}),
+  cron: z.union([z.string().min(1), z.array(z.string().min(1))]).default([])
+});
+
+// Extra phrasings the local generator may use for seed posts containing `match`
+export const PersonaVariationSchema = z.object({
+  match: z.string().min(1),
+  posts: PersonaPostsSchema.min(1)
+});
+
+const RuleSeveritySchema = z.enum(['error', 'warning', 'off']);
+
+// Which hashtags or emojis a post may use: any, only the persona's own, or none
+const TokenPolicySchema = z.enum(['any', 'persona', 'none']);
+
+// Content rules every post is checked against (generation, queueing, review and publishing).
+// bannedWords may be a plain list of words, which are then errors
+export const ContentRulesSchema = z.object({
+  length: z.object({
+    min: z.number().int().min(1).optional(),  // Shortest whole post
+    max: z.number().int().min(1).max(MAX_TWEET_LENGTH).default(MAX_TWEET_LENGTH),  // Longest tweet
+    severity: RuleSeveritySchema.default('error')
+  }).default({}),
+  bannedWords: z.union([
+    z.array(z.string().min(1)).transform(terms => ({ terms, severity: 'error' as const })),
+    z.object({ terms: z.array(z.string().min(1)).default([]), severity: RuleSeveritySchema.default('error') })
+  ]).default([]),
+  hashtags: z.object({
+    allowed: TokenPolicySchema.default('any'),
+    required: z.number().int().min(0).default(0),  // Hashtags the post must have
+    max: z.number().int().min(0).default(MAX_HASHTAGS_PER_TWEET),
+    severity: RuleSeveritySchema.default('error')
+  }).default({}),
+  emojis: z.object({
+    allowed: TokenPolicySchema.default('any'),
+    max: z.number().int().min(0).optional(),
+    severity: RuleSeveritySchema.default('error')
+  }).default({}),
+  punctuation: z.object({
+    quotes: z.boolean().default(true),
+    brackets: z.boolean().default(true),
+    maxRepeated: z.number().int().min(1).default(3),  // Longest run of ! or ?
+    requireEnding: z.boolean().default(false),  // Must end with . ! ? or an emoji
+    severity: RuleSeveritySchema.default('warning')
+  }).default({}),
+  mentions: z.object({
+    allowed: z.boolean().default(true),
+    severity: RuleSeveritySchema.default('error')
+  }).default({}),
+  urls: z.object({
+    max: z.number().int().min(0).default(MAX_URLS_PER_TWEET),
+    severity: RuleSeveritySchema.default('error')
+  }).default({})
+});
+
+export const PersonaSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().default(''),
+  voice: z.string().min(1),
+  tone: z.string().min(1),
+  writingStyle: z.string().min(1),
+  schedule: PersonaScheduleSchema.default({ cron: CRON_SCHEDULES.DAILY_9AM }),
+  postLength: z.object({
+    min: z.number().int().min(1),
+    max: z.number().int().max(MAX_TWEET_LENGTH)
+  }),
+  hashtags: z.array(z.string().regex(/^#\w+$/, 'Hashtags start with # and contain no spaces')).default([]),
+  emojis: z.array(z.string().min(1)).default([]),
+  topics: z.array(PersonaTopicSchema).min(1),
+  variations: z.array(PersonaVariationSchema).default([]),
+  contentRules: ContentRulesSchema.default({})
+}).superRefine((persona, ctx) => {
+  if (persona.postLength.min > persona.postLength.max) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['postLength'],
+      message: 'postLength.min must not exceed postLength.max'
+    });
+  }
+  const { length } = persona.contentRules;
+  if (length.min !== undefined && length.min > length.max) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['contentRules', 'length'],
+      message: 'contentRules.length.min must not exceed contentRules.length.max'
+    });
+  }
+
+  const { slots, weekdays, cron } = persona.schedule;
+  for (const day of Object.keys(weekdays)) {
+    if (!(SCHEDULE_WEEKDAYS as readonly string[]).includes(day)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['schedule', 'weekdays', day],
+        message: `Unknown weekday "${day}" (expected one of: ${SCHEDULE_WEEKDAYS.join(', ')})`
+      });
+    }
+  }
+  const expressions = typeof cron === 'string' ? [cron] : cron;
+  expressions.forEach((expression, index) => {
+    try {
+      parseCronExpression(expression);
+    } catch (error) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['schedule', 'cron', ...(typeof cron === 'string' ? [] : [index])],
+        message: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+  const daySlots = SCHEDULE_WEEKDAYS.map(day => weekdays[day] ?? slots);
+  if (expressions.length === 0 && daySlots.every(times => times.length === 0)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['schedule'],
+      message: 'schedule needs at least one slot time or cron expression'
+    });
+  }
+
+  const seen = new Set<string>();
+  persona.topics.forEach((topic, index) => {
+    if (seen.has(topic.key)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['topics', index, 'key'],
+        message: `Duplicate topic key "${topic.key}"`
+      });
+    }
+    seen.add(topic.key);
+  });
+});
+
+export type Persona = z.infer<typeof PersonaSchema>;
+export type PersonaTopic = z.infer<typeof PersonaTopicSchema>;
+export type ContentRules = z.infer<typeof ContentRulesSchema>;
+
+// Persona shipped with the template, relative to the app root (works from src/ and dist/)
+export const DEFAULT_PERSONA_FILE = path.resolve(__dirname, '../../personas/template.json');
+
+let activePersona: Persona | null = null;
+
+/**
+ * Get Persona Path - Persona file selected by PERSONA_FILE
+ *
+ * @returns string - Absolute path of the persona file
+ */
+export function getPersonaPath(): string {
+  return process.env.PERSONA_FILE ? path.resolve(process.env.PERSONA_FILE) : DEFAULT_PERSONA_FILE;
+}
+
+/**
+ * Load Persona - Read and validate a persona file
+ *
+ * @param filePath - Persona file; defaults to PERSONA_FILE
+ * @returns Persona - Validated persona with defaults applied
+ * @throws BotError (INVALID_PERSONA) if the file is missing, not JSON, or fails validation
+ */
+export function loadPersona(filePath: string = getPersonaPath()): Persona {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new BotError(
+      `Cannot read persona file ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+      'INVALID_PERSONA',
+      false,
+      { path: filePath }
+    );
+  }
+
+  const result = PersonaSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.errors.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new BotError(`Invalid persona file ${filePath}: ${issues.join('; ')}`, 'INVALID_PERSONA', false, {
+      path: filePath,
+      issues
+    });
+  }
+  return result.data;
+}
+
+/**
+ * Get Persona - The active persona, loaded from PERSONA_FILE on first use
+ *
+ * @returns Persona - Active persona
+ * @throws BotError (INVALID_PERSONA) if the persona file cannot be loaded
+ */
+export function getPersona(): Persona {
+  if (!activePersona) {
+    activePersona = loadPersona();
+  }
+  return activePersona;
+}
+
+/**
+ * Set Persona - Replace the active persona (reloads and tests)
+ *
+ * @param persona - Persona to use, or null to reload from PERSONA_FILE on next use
+ */
+export function setPersona(persona: Persona | null): void {
+  activePersona = persona;
+}
+
+/**
+ * Persona Hash - Stable fingerprint of a persona's content
+ *
+ * @param persona - Persona to fingerprint
+ * @returns string - SHA-256 of the persona's JSON
+ */
+export function personaHash(persona: Persona): string {
+  return createHash('sha256').update(JSON.stringify(persona)).digest('hex');
+}
+
+/**
+ * Get Persona Topic - Look up a topic of the active persona by key
+ *
+ * @param key - Topic key, e.g. "leadership"
+ * @returns PersonaTopic | undefined - The topic, or undefined if the persona has no such topic
+ */
+export function getPersonaTopic(key: string): PersonaTopic | undefined {
+  return getPersona().topics.find(topic => topic.key === key);
+}
+
+/**
+ * Get Random Topic - Pick a topic key at random, in proportion to topic weights
+ *
+ * @returns string - Topic key
+ */
+export const getRandomTopic = (): string => {
+  const topics = getPersona().topics;
+  const totalWeight = topics.reduce((sum, topic) => sum + topic.weight, 0);
+  let random = Math.random() * totalWeight;
+
+  for (const topic of topics) {
+    random -= topic.weight;
+    if (random <= 0) {
+      return topic.key;
+    }
+  }
+  return topics[topics.length - 1].key;
+};
+
+export const getRandomHashtag = (): string => {
+  const hashtags = getPersona().hashtags;
+  return hashtags[Math.floor(Math.random() * hashtags.length)];
+};
+
+export const getRandomEmoji = (): string => {
+  const emojis = getPersona().emojis;
+  return emojis[Math.floor(Math.random() * emojis.length)];
+};
+
+export const getRandomEmojis = (count: number = 2): string => {
+  const shuffled = [...getPersona().emojis].sort(() => 0.5 - Math.random());
+  return shuffled.slice(0, count).join('');
+};
@@ -0,0 +1,183 @@
+/**
+ * Posting Schedule - When the bot posts, in an explicit IANA timezone
+ *
+ * The persona schedule lists daily slot times ("09:00"), per-weekday
+ * variations that replace them on those days, and optional raw cron
+ * expressions. Each slot becomes one node-cron job evaluated in the schedule
+ * timezone, so "09:00" is 9 AM on the local wall clock all year round.
+ *
+ * BOT_SCHEDULE replaces the persona's slots (";"-separated cron expressions
+ * or HH:MM times) and TIMEZONE replaces its timezone.
+ *
+ * DST: a slot whose time does not exist on the spring-forward day (02:30 in
+ * US zones) does not fire that day, and a slot in the hour repeated on the
+ * fall-back day fires once.
+ *
+ * @author Your Name
+ * @version 1.0.0
+ */
+
+import { BotError, ScheduleConfig } from '../shared/types';
+import { SCHEDULE_WEEKDAYS, SLOT_TIME_PATTERN } from '../shared/constants';
+import { getNextCronDates, getTimezoneOffset, isValidTimezone, parseCronExpression } from '../shared/utils/cron';
+import { getPersona, Persona } from './persona';
+
+// Posting schedule resolved from the persona and BOT_SCHEDULE / TIMEZONE
+export interface PostingSchedule {
+  timezone: string;
+  slots: ScheduleConfig[];
+}
+
+/**
+ * Slots To Cron - Turn daily slot times and weekday variations into cron slots
+ *
+ * A time posted on several days becomes one expression for all of them,
+ * e.g. slots ["09:00"] with weekdays { sun: [] } gives "0 9 * * 1,2,3,4,5,6".
+ *
+ * @param times - Slot times for every day without its own entry
+ * @param weekdays - Slot times for specific days ("sun".."sat"); an empty list means no posts that day
+ * @param timezone - IANA timezone the times are in
+ * @returns ScheduleConfig[] - One slot per distinct time, in time order
+ */
+export function slotsToCron(
+  times: string[],
+  weekdays: Partial<Record<string, string[]>>,
+  timezone: string
+): ScheduleConfig[] {
+  const daysByTime = new Map<string, number[]>();
+  SCHEDULE_WEEKDAYS.forEach((day, index) => {
+    for (const time of new Set(weekdays[day] ?? times)) {
+      daysByTime.set(time, [...(daysByTime.get(time) || []), index]);
+    }
+  });
+
+  return [...daysByTime.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([time, days]) => {
+      const [, hour, minute] = SLOT_TIME_PATTERN.exec(time) || [];
+      const everyDay = days.length === SCHEDULE_WEEKDAYS.length;
+      return {
+        cron_expression: `${Number(minute)} ${Number(hour)} * * ${everyDay ? '*' : days.join(',')}`,
+        timezone,
+        description: `${time} ${everyDay ? 'daily' : days.map(day => SCHEDULE_WEEKDAYS[day]).join(',')}`
+      };
+    });
+}
+
+/**
+ * Parse Schedule Entries - Read a BOT_SCHEDULE value
+ *
+ * @param value - ";"-separated cron expressions and HH:MM daily times
+ * @param timezone - IANA timezone the entries are in
+ * @returns ScheduleConfig[] - One slot per entry
+ * @throws BotError (INVALID_SCHEDULE) if an entry is neither a time nor a valid cron expression
+ */
+export function parseScheduleEntries(value: string, timezone: string): ScheduleConfig[] {
+  const entries = value.split(';').map(entry => entry.trim()).filter(Boolean);
+  const times = entries.filter(entry => SLOT_TIME_PATTERN.test(entry));
+
+  const cronSlots = entries
+    .filter(entry => !SLOT_TIME_PATTERN.test(entry))
+    .map(expression => {
+      try {
+        parseCronExpression(expression);
+      } catch (error) {
+        throw new BotError(
+          `Invalid BOT_SCHEDULE entry "${expression}": ${error instanceof Error ? error.message : String(error)}`,
+          'INVALID_SCHEDULE',
+          false,
+          { entry: expression }
+        );
+      }
+      return { cron_expression: expression, timezone, description: expression };
+    });
+
+  return [...slotsToCron(times, {}, timezone), ...cronSlots];
+}
+
+/**
+ * Get Persona Schedule - Slots declared in a persona file
+ *
+ * @param persona - Persona whose schedule to read
+ * @param timezone - Timezone to evaluate the slots in
+ * @returns ScheduleConfig[] - Slot times first, then raw cron expressions
+ */
+export function getPersonaSchedule(persona: Persona, timezone: string = persona.schedule.timezone): ScheduleConfig[] {
+  const { slots, weekdays, cron } = persona.schedule;
+  const cronSlots = (typeof cron === 'string' ? [cron] : cron).map(expression => ({
+    cron_expression: expression,
+    timezone,
+    description: expression
+  }));
+  return [...slotsToCron(slots, weekdays, timezone), ...cronSlots];
+}
+
+/**
+ * Get Posting Schedule - Slots and timezone the bot posts on
+ *
+ * BOT_SCHEDULE and TIMEZONE override the active persona's schedule.
+ *
+ * @returns PostingSchedule - Validated schedule with at least one slot
+ * @throws BotError (INVALID_SCHEDULE) if the timezone is unknown or no slot is left
+ */
+export function getPostingSchedule(): PostingSchedule {
+  const persona = getPersona();
+  const timezone = process.env.TIMEZONE || persona.schedule.timezone;
+  if (!isValidTimezone(timezone)) {
+    throw new BotError(`Invalid TIMEZONE "${timezone}" (expected an IANA timezone such as America/Denver)`, 'INVALID_SCHEDULE', false, {
+      timezone
+    });
+  }
+
+  const slots = process.env.BOT_SCHEDULE
+    ? parseScheduleEntries(process.env.BOT_SCHEDULE, timezone)
+    : getPersonaSchedule(persona, timezone);
+  if (slots.length === 0) {
+    throw new BotError('Posting schedule has no slots', 'INVALID_SCHEDULE', false, { timezone });
+  }
+
+  return { timezone, slots };
+}
+
+/**
+ * Get Next Fire Times - Upcoming times across every slot of a schedule
+ *
+ * @param schedule - Posting schedule
+ * @param from - Times strictly after this instant are returned (default: now)
+ * @param count - Number of fire times to return
+ * @returns Date[] - Up to `count` distinct times in ascending order
+ */
+export function getNextFireTimes(schedule: PostingSchedule, from: Date = new Date(), count: number = 1): Date[] {
+  const times = new Set<number>();
+  for (const slot of schedule.slots) {
+    for (const date of getNextCronDates(slot.cron_expression, slot.timezone, from, count)) {
+      times.add(date.getTime());
+    }
+  }
+
+  return [...times].sort((a, b) => a - b).slice(0, count).map(time => new Date(time));
+}
+
+/**
+ * Get Wall Clock - Local minute of an instant in a timezone
+ *
+ * @param at - Instant
+ * @param timezone - IANA timezone
+ * @returns string - "YYYY-MM-DDTHH:MM" on the local wall clock (sorts chronologically except across a fall-back)
+ */
+export function getWallClock(at: Date, timezone: string): string {
+  return new Date(at.getTime() + getTimezoneOffset(timezone, at)).toISOString().slice(0, 16);
+}
+
+/**
+ * From Wall Clock - Instant at which a timezone's wall clock shows a local time
+ *
+ * @param local - "YYYY-MM-DDTHH:MM" on the local wall clock
+ * @param timezone - IANA timezone
+ * @returns Date - The instant; a local time skipped by a DST change resolves one hour earlier
+ */
+export function fromWallClock(local: string, timezone: string): Date {
+  const localMs = Date.parse(`${local}Z`);
+  const guess = localMs - getTimezoneOffset(timezone, new Date(localMs));
+  return new Date(localMs - getTimezoneOffset(timezone, new Date(guess)));
+}
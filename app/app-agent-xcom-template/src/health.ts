@@ -8,6 +8,9 @@
  * - Health status monitoring
  * - Manual post triggering
  * - Bot statistics and metrics
+ * - Pause, resume and kill switch (HTTP Basic auth required)
+ * - Mention replies awaiting approval (HTTP Basic auth required)
+ * - Review of generated posts before they are published (HTTP Basic auth required)
  * - Security middleware (rate limiting, authentication)
  * - Comprehensive error handling
  * 
@@ -19,7 +22,53 @@ import express from 'express';
 import rateLimit from 'express-rate-limit';
 import helmet from 'helmet';
 import { logger } from './utils/logger';
+import { ZodError } from 'zod';
 import { TemplateBot } from './bot';
+import {
+  BlackoutPeriod,
+  BotError,
+  ContentRuleError,
+  MediaError,
+  MentionRecord,
+  MentionStatus,
+  MetricsAge,
+  MetricsGroupSummary,
+  PauseState,
+  Post,
+  PostMetricsSnapshot,
+  PostReviewStatus,
+  PublishedPostRecord,
+  PublishedPostStatus,
+  QuietMode,
+  SimilarityRejection,
+  SimilarPostError,
+  TopicWeightMode,
+  TopicWeightUpdate,
+  VariantGroupReport
+} from './shared/types';
+import {
+  ManualPostInput,
+  validateManualPost,
+  validatePostApproval,
+  validatePostRejection,
+  validateQuietModeRequest,
+  validateVariantGroup
+} from './shared/utils/validation';
+import { resolveMediaPath } from './services/media';
+import { basicAuth } from './security/middleware';
+
+// Most tweets the kill switch deletes in one request
+const MAX_KILL_SWITCH_DELETES = 100;
+
+const PUBLISHED_POST_STATUSES: PublishedPostStatus[] = ['published', 'partial', 'failed', 'deleted'];
+
+const METRICS_AGES: MetricsAge[] = ['1h', '24h', '7d'];
+
+const TOPIC_WEIGHT_MODES: TopicWeightMode[] = ['static', 'learned'];
+
+const MENTION_STATUSES: MentionStatus[] = ['new', 'ignored', 'pending_approval', 'approved', 'replied', 'rejected', 'failed'];
+
+const REVIEW_STATUSES: PostReviewStatus[] = ['draft', 'pending_review', 'approved', 'rejected', 'retired', 'needs_attention'];
 
 
 /**
@@ -155,10 +204,32 @@ export class HealthServer {
       legacyHeaders: false,
     });
 
+    // Rate limiter for review decisions (reviewers approve posts one at a time)
+    const reviewRateLimiter = rateLimit({
+      windowMs: 15 * 60 * 1000, // 15 minutes
+      max: 300, // limit each IP to 300 requests per windowMs
+      message: 'Too many review requests from this IP, please try again later.',
+      standardHeaders: true,
+      legacyHeaders: false,
+    });
+
     // Apply rate limiters to specific routes
     this.app.use('/health', healthRateLimiter);
     this.app.use('/post', controlRateLimiter);
+    this.app.use('/quiet-mode', controlRateLimiter);
+    this.app.put('/topic-weights', controlRateLimiter);
+    this.app.post('/variants', controlRateLimiter);
+    this.app.get(['/variants', '/variants/:group'], healthRateLimiter);
+    this.app.post(['/mentions/:id/approve', '/mentions/:id/reject'], controlRateLimiter);
+    this.app.get('/mentions', healthRateLimiter);
+    this.app.post(['/posts/:id/approve', '/posts/reject'], reviewRateLimiter);
+    this.app.get(['/posts/review', '/posts/similar'], healthRateLimiter);
+    this.app.use(['/pause', '/resume', '/kill'], controlRateLimiter);
+    this.app.put('/calendar/:postId', controlRateLimiter);
+    this.app.delete('/calendar/:postId', controlRateLimiter);
+    this.app.delete('/posts/published/:postId', controlRateLimiter);
     this.app.use('/stats', healthRateLimiter);
+    this.app.use('/metrics', healthRateLimiter);
   }
 
   /**
@@ -173,16 +244,27 @@ export class HealthServer {
     // Health check endpoint - returns bot status and service health
     this.app.get('/health', async (req, res) => {
       try {
-        // Get current bot status
+        // Get current bot status and generation budget
         const status = await this.bot.getStatus();
+        const generationBudget = await this.bot.getGenerationBudgetStatus();
+
+        // A nearly spent or exhausted generation budget, or a pause, is a warning, not an outage
+        const warnings = generationBudget.reason ? [generationBudget.reason] : [];
+        if (status.paused) {
+          warnings.push('Bot is paused');
+        }
         
         // Return health status in standardized format
         res.json({
-          status: status.isInitialized ? 'healthy' : 'unhealthy',
+          status: !status.isInitialized ? 'unhealthy' : warnings.length > 0 ? 'warning' : 'healthy',
+          warnings,
           bot: {
             name: process.env.BOT_NAME || 'template-bot',
             isInitialized: status.isInitialized,
+            paused: status.paused,
+            publishMode: status.publishMode,
             remainingPosts: status.remainingPosts,
+            pendingReviewPosts: status.pendingReviewPosts,
             lastPostAt: status.lastPostAt?.toISOString(),
             lastReplenishmentAt: status.lastReplenishmentAt?.toISOString()
           },
@@ -198,11 +280,25 @@ export class HealthServer {
       }
     });
 
-    // Manual post trigger endpoint - allows manual posting for testing
-    this.app.post('/post', async (req, res) => {
+    // Manual post trigger endpoint - posts the next queued post, or the
+    // content/segments/media supplied in the request body
+    this.app.post('/post', basicAuth, async (req, res) => {
       try {
+        let input: ManualPostInput | undefined;
+
+        if (req.body && Object.keys(req.body).length > 0) {
+          input = validateManualPost(req.body);
+
+          // Media paths from requests must stay inside the media directory
+          const mediaDir = process.env.MEDIA_DIR || './media';
+          input.media = input.media?.map(attachment => ({
+            ...attachment,
+            path: resolveMediaPath(attachment.path, mediaDir)
+          }));
+        }
+
         // Trigger manual post
-        await this.bot.manualPost();
+        await this.bot.manualPost(input);
         
         // Return success response
         res.json({
@@ -212,6 +308,27 @@ export class HealthServer {
         });
       } catch (error) {
         logger.error('Manual post failed:', error);
+
+        // Invalid request bodies, media and content are client errors
+        if (error instanceof ZodError || error instanceof MediaError || error instanceof ContentRuleError) {
+          res.status(400).json({
+            error: error instanceof ZodError ? 'Invalid post request' : error.message,
+            details: error instanceof ZodError ? error.errors
+              : error instanceof ContentRuleError ? error.context?.violations
+              : error.context?.errors,
+            timestamp: new Date().toISOString()
+          });
+          return;
+        }
+        if (error instanceof BotError && ['DUPLICATE_POST', 'SIMILAR_POST'].includes(error.code)) {
+          res.status(409).json({
+            error: error.message,
+            details: error instanceof SimilarPostError ? this.formatSimilarPost(error) : undefined,
+            timestamp: new Date().toISOString()
+          });
+          return;
+        }
+
         res.status(500).json({
           error: error instanceof Error ? error.message : 'Manual post failed',
           timestamp: new Date().toISOString()
@@ -219,26 +336,81 @@ export class HealthServer {
       }
     });
 
-    // Statistics endpoint - returns detailed bot statistics
+    // Statistics endpoint - returns detailed bot statistics (?next= upcoming posting times, 1-50)
     this.app.get('/stats', async (req, res) => {
       try {
-        // Get bot status and configuration
+        // Get bot status, configuration and rate limit state
+        const next = Math.min(Math.max(parseInt(String(req.query.next || '5')) || 5, 1), 50);
+        const schedule = this.bot.getSchedule();
+        const nextRuns = this.bot.getNextRuns(next);
         const status = await this.bot.getStatus();
+        const rateLimits = await this.bot.getRateLimitStatus();
+        const generationBudget = await this.bot.getGenerationBudgetStatus();
+        const posting = await this.bot.getPostingStatus();
         
         // Return comprehensive statistics
         res.json({
-                bot: {
-        name: process.env.BOT_NAME || 'template-bot',
-        personality: 'Customizable bot personality',
-            schedule: process.env.BOT_SCHEDULE || '0 9 * * *',
-            timezone: process.env.TIMEZONE || 'America/Denver'
+          bot: {
+            name: process.env.BOT_NAME || 'template-bot',
+            persona: status.persona.name,
+            personaVersion: status.persona.version,
+            schedule: schedule.slots.map(slot => ({ cron: slot.cron_expression, description: slot.description })),
+            timezone: schedule.timezone,
+            nextRuns: nextRuns.map(date => date.toISOString())
+          },
+          posting: {
+            allowed: posting.gate.allowed,
+            reason: posting.gate.reason,
+            resumeAt: posting.gate.resume_at?.toISOString(),
+            quietMode: this.formatQuietMode(posting.gate.quiet_mode),
+            jitterMinutes: posting.settings.jitter_minutes,
+            blackoutAction: posting.settings.blackout_action,
+            activeBlackout: posting.gate.blackout ? this.formatBlackout(posting.gate.blackout) : null,
+            upcomingBlackouts: posting.upcoming.map(period => this.formatBlackout(period)),
+            deferredSlot: posting.deferred ? {
+              slotAt: posting.deferred.slot_at.toISOString(),
+              notBefore: posting.deferred.not_before.toISOString()
+            } : null
           },
           status: {
             isInitialized: status.isInitialized,
+            paused: status.paused,
+            publishMode: status.publishMode,
             remainingPosts: status.remainingPosts,
+            pendingReviewPosts: status.pendingReviewPosts,
             lastPostAt: status.lastPostAt?.toISOString(),
             lastReplenishmentAt: status.lastReplenishmentAt?.toISOString()
           },
+          rateLimits: {
+            endpoints: rateLimits.endpoints.map(window => ({
+              endpoint: window.endpoint,
+              limit: window.limit,
+              remaining: window.remaining,
+              resetAt: window.reset_at.toISOString()
+            })),
+            postingBudget: {
+              allowed: rateLimits.budget.allowed,
+              postsLast15Min: rateLimits.budget.posts_last_15min,
+              limitPer15Min: rateLimits.budget.limit_per_15min,
+              postsLastDay: rateLimits.budget.posts_last_day,
+              limitPerDay: rateLimits.budget.limit_per_day
+            }
+          },
+          generationBudget: {
+            state: generationBudget.state,
+            allowed: generationBudget.allowed,
+            reason: generationBudget.reason,
+            daily: {
+              spentUsd: generationBudget.daily.spent_usd,
+              limitUsd: generationBudget.daily.limit_usd,
+              tokens: generationBudget.daily.tokens
+            },
+            monthly: {
+              spentUsd: generationBudget.monthly.spent_usd,
+              limitUsd: generationBudget.monthly.limit_usd,
+              tokens: generationBudget.monthly.tokens
+            }
+          },
           timestamp: new Date().toISOString()
         });
       } catch (error) {
@@ -250,6 +422,559 @@ export class HealthServer {
       }
     });
 
+    // Selection endpoint - active post selection policy, the post it would
+    // pick next (preview, not recorded) and recent decisions with their reasons
+    this.app.get('/selection', async (req, res) => {
+      try {
+        const limit = Math.min(Math.max(parseInt(String(req.query.limit || '10')) || 10, 1), 100);
+        const selection = await this.bot.getSelectionStatus(limit);
+        const formatDecision = (decision: typeof selection.next) => ({
+          postId: decision.post_id,
+          category: decision.category,
+          strategy: decision.strategy,
+          reason: decision.reason,
+          relaxed: decision.relaxed,
+          candidates: decision.candidates,
+          decidedAt: decision.decided_at.toISOString()
+        });
+
+        res.json({
+          policy: {
+            strategy: selection.policy.strategy,
+            noRepeatWithin: selection.policy.no_repeat_within,
+            categoryGaps: selection.policy.category_gaps
+          },
+          next: formatDecision(selection.next),
+          recent: selection.recent.map(formatDecision),
+          timestamp: new Date().toISOString()
+        });
+      } catch (error) {
+        logger.error('Selection request failed:', error);
+        res.status(500).json({
+          error: error instanceof Error ? error.message : 'Failed to retrieve selection status',
+          timestamp: new Date().toISOString()
+        });
+      }
+    });
+
+    // Calendar endpoint - upcoming posting slots and the pinned posts that fill them
+    this.app.get('/calendar', async (req, res) => {
+      try {
+        const days = Math.min(Math.max(parseInt(String(req.query.days || '7')) || 7, 1), 90);
+        const { slots, blackouts } = await this.bot.getCalendar(days);
+        const schedule = this.bot.getSchedule();
+
+        res.json({
+          schedule: schedule.slots.map(slot => ({ cron: slot.cron_expression, description: slot.description })),
+          timezone: schedule.timezone,
+          days,
+          slots: slots.map(slot => ({
+            at: slot.at.toISOString(),
+            source: slot.source,
+            onSchedule: slot.on_schedule,
+            postId: slot.post_id,
+            category: slot.category,
+            content: slot.content,
+            conflicts: slot.conflicts,
+            blackout: slot.blackout
+          })),
+          blackouts: blackouts.map(period => this.formatBlackout(period)),
+          timestamp: new Date().toISOString()
+        });
+      } catch (error) {
+        logger.error('Calendar request failed:', error);
+        res.status(500).json({
+          error: error instanceof Error ? error.message : 'Failed to retrieve calendar',
+          timestamp: new Date().toISOString()
+        });
+      }
+    });
+
+    // Pin endpoint - publish a queued post at a specific time ({ "scheduledFor": ISO 8601 })
+    this.app.put('/calendar/:postId', basicAuth, async (req, res) => {
+      try {
+        const scheduledFor = new Date(req.body?.scheduledFor);
+        const slot = await this.bot.pinPost(parseInt(req.params.postId), scheduledFor);
+
+        res.json({
+          success: true,
+          postId: parseInt(req.params.postId),
+          scheduledFor: slot.toISOString(),
+          timestamp: new Date().toISOString()
+        });
+      } catch (error) {
+        logger.error('Pin request failed:', error);
+
+        const statusByCode: Record<string, number> = { INVALID_SCHEDULE: 400, POST_NOT_FOUND: 404, SLOT_CONFLICT: 409 };
+        res.status((error instanceof BotError && statusByCode[error.code]) || 500).json({
+          error: error instanceof Error ? error.message : 'Failed to pin post',
+          details: error instanceof BotError ? error.context : undefined,
+          timestamp: new Date().toISOString()
+        });
+      }
+    });
+
+    // Unpin endpoint - return a pinned post to the general queue
+    this.app.delete('/calendar/:postId', basicAuth, async (req, res) => {
+      try {
+        const unpinned = await this.bot.unpinPost(parseInt(req.params.postId));
+
+        res.status(unpinned ? 200 : 404).json({
+          success: unpinned,
+          postId: parseInt(req.params.postId),
+          timestamp: new Date().toISOString()
+        });
+      } catch (error) {
+        logger.error('Unpin request failed:', error);
+        res.status(500).json({
+          error: error instanceof Error ? error.message : 'Failed to unpin post',
+          timestamp: new Date().toISOString()
+        });
+      }
+    });
+
+    // Published posts endpoint - the published-post ledger (?limit=&offset=&status=)
+    this.app.get('/posts/published', async (req, res) => {
+      try {
+        const limit = Math.min(Math.max(parseInt(String(req.query.limit || '20')) || 20, 1), 200);
+        const offset = Math.max(parseInt(String(req.query.offset || '0')) || 0, 0);
+        const status = req.query.status as PublishedPostStatus | undefined;
+        if (status !== undefined && !PUBLISHED_POST_STATUSES.includes(status)) {
+          return res.status(400).json({
+            error: `Invalid status "${status}" (expected one of: ${PUBLISHED_POST_STATUSES.join(', ')})`,
+            timestamp: new Date().toISOString()
+          });
+        }
+
+        const posts = await this.bot.getPublishedPosts(limit, offset, status);
+        res.json({
+          posts: posts.map(post => this.formatPublishedPost(post)),
+          limit,
+          offset,
+          timestamp: new Date().toISOString()
+        });
+      } catch (error) {
+        logger.error('Published posts request failed:', error);
+        res.status(500).json({
+          error: error instanceof Error ? error.message : 'Failed to retrieve published posts',
+          timestamp: new Date().toISOString()
+        });
+      }
+    });
+
+    // Delete a published post from X by its local post ID
+    this.app.delete('/posts/published/:postId', basicAuth, async (req, res) => {
+      try {
+        const result = await this.bot.deletePublishedPost(parseInt(req.params.postId));
+        res.json({
+          postId: parseInt(req.params.postId),
+          deleted: result.deleted,
+          failed: result.failed.map(failure => ({ tweetId: failure.tweet_id, error: failure.error })),
+          timestamp: new Date().toISOString()
+        });
+      } catch (error) {
+        logger.error('Published post deletion failed:', error);
+        res.status(error instanceof BotError && error.code === 'POST_NOT_FOUND' ? 404 : 500).json({
+          error: error instanceof Error ? error.message : 'Failed to delete published post',
+          timestamp: new Date().toISOString()
+        });
+      }
+    });
+
+    // Metrics summary endpoint - engagement at one age per category or persona (?by=category|persona&age=24h)
+    this.app.get('/metrics', async (req, res) => {
+      try {
+        const by = String(req.query.by || 'category');
+        const age = String(req.query.age || '24h') as MetricsAge;
+        if ((by !== 'category' && by !== 'persona') || !METRICS_AGES.includes(age)) {
+          return res.status(400).json({
+            error: `Invalid query (expected by=category|persona and age=${METRICS_AGES.join('|')})`,
+            timestamp: new Date().toISOString()
+          });
+        }
+
+        const groups = await this.bot.getMetricsSummary(by, age);
+        res.json({
+          by,
+          age,
+          groups: groups.map(group => this.formatMetricsGroup(group)),
+          timestamp: new Date().toISOString()
+        });
+      } catch (error) {
+        logger.error('Metrics request failed:', error);
+        res.status(500).json({
+          error: error instanceof Error ? error.message : 'Failed to retrieve metrics',
+          timestamp: new Date().toISOString()
+        });
+      }
+    });
+
+    // Post metrics endpoint - engagement snapshots of one published post
+    this.app.get('/metrics/posts/:postId', async (req, res) => {
+      try {
+        const metrics = await this.bot.getPostMetrics(parseInt(req.params.postId));
+        res.json({
+          postId: metrics.post_id,
+          category: metrics.category,
+          personaVersion: metrics.persona_version,
+          publishedAt: metrics.published_at?.toISOString(),
+          snapshots: metrics.snapshots.map(snapshot => this.formatMetricsSnapshot(snapshot)),
+          timestamp: new Date().toISOString()
+        });
+      } catch (error) {
+        logger.error('Post metrics request failed:', error);
+        res.status(error instanceof BotError && error.code === 'POST_NOT_FOUND' ? 404 : 500).json({
+          error: error instanceof Error ? error.message : 'Failed to retrieve post metrics',
+          timestamp: new Date().toISOString()
+        });
+      }
+    });
+
+    // Topic weights endpoint - weights in use and learned updates (?history= updates to list, 0-50)
+    this.app.get('/topic-weights', async (req, res) => {
+      try {
+        const history = Math.min(Math.max(parseInt(String(req.query.history || '5')) || 0, 0), 50);
+        const status = await this.bot.getTopicWeights();
+        const updates = history > 0 ? await this.bot.getTopicWeightUpdates(history) : [];
+        res.json({
+          mode: status.mode,
+          weights: status.weights,
+          staticWeights: status.static_weights,
+          updates: updates.map(update => this.formatTopicWeightUpdate(update)),
+          timestamp: new Date().toISOString()
+        });
+      } catch (error) {
+        logger.error('Topic weights request failed:', error);
+        res.status(500).json({
+          error: error instanceof Error ? error.message : 'Failed to retrieve topic weights',
+          timestamp: new Date().toISOString()
+        });
+      }
+    });
+
+    // Switch between persona (static) and learned topic weights for this bot
+    this.app.put('/topic-weights', basicAuth, async (req, res) => {
+      try {
+        const { mode } = req.body || {};
+        if (!TOPIC_WEIGHT_MODES.includes(mode)) {
+          return res.status(400).json({
+            error: `Expected { "mode": ${TOPIC_WEIGHT_MODES.map(value => `"${value}"`).join(' | ')} }`,
+            timestamp: new Date().toISOString()
+          });
+        }
+
+        const status = await this.bot.setTopicWeightMode(mode);
+        res.json({ mode: status.mode, weights: status.weights, timestamp: new Date().toISOString() });
+      } catch (error) {
+        logger.error('Topic weight mode update failed:', error);
+        res.status(500).json({
+          error: error instanceof Error ? error.message : 'Failed to update topic weight mode',
+          timestamp: new Date().toISOString()
+        });
+      }
+    });
+
+    // Variant endpoints - A/B test results of every variant group
+    this.app.get('/variants', async (req, res) => {
+      try {
+        const groups = await this.bot.getVariantReports();
+        res.json({ groups: groups.map(group => this.formatVariantGroup(group)), timestamp: new Date().toISOString() });
+      } catch (error) {
+        logger.error('Variant report request failed:', error);
+        res.status(500).json({
+          error: error instanceof Error ? error.message : 'Failed to retrieve variant groups',
+          timestamp: new Date().toISOString()
+        });
+      }
+    });
+
+    this.app.get('/variants/:group', async (req, res) => {
+      try {
+        const group = await this.bot.getVariantReport(req.params.group);
+        res.json({ ...this.formatVariantGroup(group), timestamp: new Date().toISOString() });
+      } catch (error) {
+        logger.error('Variant report request failed:', error);
+        res.status(error instanceof BotError && error.code === 'VARIANT_GROUP_NOT_FOUND' ? 404 : 500).json({
+          error: error instanceof Error ? error.message : 'Failed to retrieve variant group',
+          timestamp: new Date().toISOString()
+        });
+      }
+    });
+
+    // Queue an A/B test ({ "group", "category"?, "variants": [{ "label", "content" | "segments" }] })
+    this.app.post('/variants', basicAuth, async (req, res) => {
+      try {
+        const group = await this.bot.addVariantGroup(validateVariantGroup(req.body));
+        res.status(201).json({ ...this.formatVariantGroup(group), timestamp: new Date().toISOString() });
+      } catch (error) {
+        logger.error('Variant group creation failed:', error);
+
+        if (error instanceof ZodError) {
+          res.status(400).json({
+            error: 'Invalid variant group',
+            details: error.errors,
+            timestamp: new Date().toISOString()
+          });
+          return;
+        }
+        if (error instanceof ContentRuleError) {
+          res.status(400).json({
+            error: error.message,
+            details: error.context?.violations,
+            timestamp: new Date().toISOString()
+          });
+          return;
+        }
+        const conflict = error instanceof BotError && ['DUPLICATE_POST', 'SIMILAR_POST', 'VARIANT_GROUP_EXISTS'].includes(error.code);
+        res.status(conflict ? 409 : 500).json({
+          error: error instanceof Error ? error.message : 'Failed to create variant group',
+          details: error instanceof SimilarPostError ? this.formatSimilarPost(error) : undefined,
+          timestamp: new Date().toISOString()
+        });
+      }
+    });
+
+    // Mention endpoints - mentions of the account and the replies drafted for them (?status=pending_approval&limit=20)
+    this.app.get('/mentions', async (req, res) => {
+      try {
+        const limit = Math.min(Math.max(parseInt(String(req.query.limit || '20')) || 20, 1), 200);
+        const status = req.query.status as MentionStatus | undefined;
+        if (status !== undefined && !MENTION_STATUSES.includes(status)) {
+          return res.status(400).json({
+            error: `Invalid status "${status}" (expected one of: ${MENTION_STATUSES.join(', ')})`,
+            timestamp: new Date().toISOString()
+          });
+        }
+
+        const mentions = await this.bot.getMentions(status, limit);
+        res.json({ mentions: mentions.map(mention => this.formatMention(mention)), limit, timestamp: new Date().toISOString() });
+      } catch (error) {
+        logger.error('Mentions request failed:', error);
+        res.status(500).json({
+          error: error instanceof Error ? error.message : 'Failed to retrieve mentions',
+          timestamp: new Date().toISOString()
+        });
+      }
+    });
+
+    // Approve or reject a drafted reply waiting for a human
+    this.app.post(['/mentions/:id/approve', '/mentions/:id/reject'], basicAuth, async (req, res) => {
+      try {
+        const approved = req.path.endsWith('/approve');
+        const mention = await this.bot.reviewMentionReply(parseInt(req.params.id), approved);
+        res.json({ ...this.formatMention(mention), timestamp: new Date().toISOString() });
+      } catch (error) {
+        logger.error('Mention reply review failed:', error);
+        const status = error instanceof BotError && error.code === 'MENTION_NOT_FOUND' ? 404
+          : error instanceof BotError && error.code === 'MENTION_NOT_PENDING' ? 409
+          : 500;
+        res.status(status).json({
+          error: error instanceof Error ? error.message : 'Failed to review mention reply',
+          timestamp: new Date().toISOString()
+        });
+      }
+    });
+
+    // Review endpoints - posts by review status (?status=pending_review&limit=20)
+    this.app.get('/posts/review', async (req, res) => {
+      try {
+        const limit = Math.min(Math.max(parseInt(String(req.query.limit || '20')) || 20, 1), 500);
+        const status = (req.query.status || 'pending_review') as PostReviewStatus;
+        if (!REVIEW_STATUSES.includes(status)) {
+          return res.status(400).json({
+            error: `Invalid status "${status}" (expected one of: ${REVIEW_STATUSES.join(', ')})`,
+            timestamp: new Date().toISOString()
+          });
+        }
+
+        const posts = await this.bot.getReviewPosts(status, limit);
+        res.json({ status, posts: posts.map(post => this.formatReviewPost(post)), limit, timestamp: new Date().toISOString() });
+      } catch (error) {
+        logger.error('Review posts request failed:', error);
+        res.status(500).json({
+          error: error instanceof Error ? error.message : 'Failed to retrieve posts for review',
+          timestamp: new Date().toISOString()
+        });
+      }
+    });
+
+    // Near-duplicates kept out of the queue or held back before publishing, with the posts they collided with (?limit=50)
+    this.app.get('/posts/similar', async (req, res) => {
+      try {
+        const limit = Math.min(Math.max(parseInt(String(req.query.limit || '50')) || 50, 1), 500);
+        const rejections = await this.bot.getSimilarityRejections(limit);
+        res.json({
+          rejections: rejections.map(rejection => this.formatSimilarityRejection(rejection)),
+          limit,
+          timestamp: new Date().toISOString()
+        });
+      } catch (error) {
+        logger.error('Similarity rejections request failed:', error);
+        res.status(500).json({
+          error: error instanceof Error ? error.message : 'Failed to retrieve similarity rejections',
+          timestamp: new Date().toISOString()
+        });
+      }
+    });
+
+    // Approve a post, optionally with edited content ({ "reviewer", "content"? | "segments"? })
+    this.app.post('/posts/:id/approve', basicAuth, async (req, res) => {
+      try {
+        const { reviewer, edit } = validatePostApproval(req.body);
+        const post = await this.bot.approvePost(parseInt(req.params.id), reviewer, edit);
+        res.json({ ...this.formatReviewPost(post), timestamp: new Date().toISOString() });
+      } catch (error) {
+        logger.error('Post approval failed:', error);
+        this.sendReviewError(res, error, 'Failed to approve post');
+      }
+    });
+
+    // Reject posts together ({ "reviewer", "ids": [...], "reason" }); none are rejected if one cannot be
+    this.app.post('/posts/reject', basicAuth, async (req, res) => {
+      try {
+        const { reviewer, ids, reason } = validatePostRejection(req.body);
+        const posts = await this.bot.rejectPosts(ids, reviewer, reason);
+        res.json({ posts: posts.map(post => this.formatReviewPost(post)), timestamp: new Date().toISOString() });
+      } catch (error) {
+        logger.error('Post rejection failed:', error);
+        this.sendReviewError(res, error, 'Failed to reject posts');
+      }
+    });
+
+    // Quiet mode endpoints - emergency stop for all posting, kept across restarts
+    this.app.get('/quiet-mode', async (req, res) => {
+      try {
+        const posting = await this.bot.getPostingStatus();
+        res.json({ ...this.formatQuietMode(posting.gate.quiet_mode), timestamp: new Date().toISOString() });
+      } catch (error) {
+        logger.error('Quiet mode request failed:', error);
+        res.status(500).json({
+          error: error instanceof Error ? error.message : 'Failed to retrieve quiet mode',
+          timestamp: new Date().toISOString()
+        });
+      }
+    });
+
+    // { "enabled": true, "reason": "...", "until": ISO 8601 (optional; null for no end time) }
+    this.app.put('/quiet-mode', basicAuth, async (req, res) => {
+      try {
+        const { enabled, reason, until } = validateQuietModeRequest(req.body || {});
+        const quietMode = await this.bot.setQuietMode(enabled, reason, until);
+        res.json({ ...this.formatQuietMode(quietMode), timestamp: new Date().toISOString() });
+      } catch (error) {
+        logger.error('Quiet mode update failed:', error);
+        if (error instanceof ZodError) {
+          return res.status(400).json({
+            error: 'Expected { "enabled": boolean, "reason"?: string, "until"?: ISO 8601 time or null }',
+            details: error.errors,
+            timestamp: new Date().toISOString()
+          });
+        }
+        res.status(error instanceof BotError && error.code === 'INVALID_QUIET_MODE' ? 400 : 500).json({
+          error: error instanceof Error ? error.message : 'Failed to update quiet mode',
+          timestamp: new Date().toISOString()
+        });
+      }
+    });
+
+    // Pause endpoints - stop and restart scheduled posting and replenishment, kept across restarts
+    this.app.get('/pause', async (req, res) => {
+      try {
+        res.json({ ...this.formatPauseState(await this.bot.getPauseState()), timestamp: new Date().toISOString() });
+      } catch (error) {
+        logger.error('Pause state request failed:', error);
+        res.status(500).json({
+          error: error instanceof Error ? error.message : 'Failed to retrieve pause state',
+          timestamp: new Date().toISOString()
+        });
+      }
+    });
+
+    // { "reason": "..." (optional) }
+    this.app.post('/pause', basicAuth, async (req, res) => {
+      try {
+        const reason = typeof req.body?.reason === 'string' ? req.body.reason : undefined;
+        res.json({ ...this.formatPauseState(await this.bot.pause(reason)), timestamp: new Date().toISOString() });
+      } catch (error) {
+        logger.error('Pause failed:', error);
+        res.status(500).json({
+          error: error instanceof Error ? error.message : 'Failed to pause the bot',
+          timestamp: new Date().toISOString()
+        });
+      }
+    });
+
+    this.app.post('/resume', basicAuth, async (req, res) => {
+      try {
+        res.json({ ...this.formatPauseState(await this.bot.resume()), timestamp: new Date().toISOString() });
+      } catch (error) {
+        logger.error('Resume failed:', error);
+        res.status(500).json({
+          error: error instanceof Error ? error.message : 'Failed to resume the bot',
+          timestamp: new Date().toISOString()
+        });
+      }
+    });
+
+    // Kill switch - pause and delete the most recent tweets: { "deleteCount": 5, "reason": "..." (optional) }
+    this.app.post('/kill', basicAuth, async (req, res) => {
+      try {
+        const { deleteCount, reason } = req.body || {};
+        if (!Number.isInteger(deleteCount) || deleteCount < 0 || deleteCount > MAX_KILL_SWITCH_DELETES) {
+          return res.status(400).json({
+            error: `Expected { "deleteCount": 0-${MAX_KILL_SWITCH_DELETES}, "reason"?: string }`,
+            timestamp: new Date().toISOString()
+          });
+        }
+
+        const report = await this.bot.killSwitch(deleteCount, typeof reason === 'string' ? reason : undefined);
+        res.json({
+          ...this.formatPauseState(report.pause),
+          requested: report.requested,
+          deleted: report.deleted,
+          failed: report.failed.map(failure => ({ tweetId: failure.tweet_id, error: failure.error })),
+          timestamp: new Date().toISOString()
+        });
+      } catch (error) {
+        logger.error('Kill switch failed:', error);
+        res.status(500).json({
+          error: error instanceof Error ? error.message : 'Kill switch failed',
+          timestamp: new Date().toISOString()
+        });
+      }
+    });
+
+    // Slots endpoint - posting slots that came due and what happened to missed ones (?missed=true for missed only)
+    this.app.get('/slots', async (req, res) => {
+      try {
+        const limit = Math.min(Math.max(parseInt(String(req.query.limit || '20')) || 20, 1), 200);
+        const history = await this.bot.getSlotHistory(limit, req.query.missed === 'true');
+
+        res.json({
+          missedPostPolicy: {
+            policy: history.settings.policy,
+            graceMinutes: history.settings.grace_minutes
+          },
+          slots: history.slots.map(slot => ({
+            slotAt: slot.slot_at.toISOString(),
+            status: slot.status,
+            missed: slot.missed,
+            policy: slot.policy,
+            reason: slot.reason,
+            postId: slot.post_id,
+            recordedAt: slot.recorded_at.toISOString()
+          })),
+          timestamp: new Date().toISOString()
+        });
+      } catch (error) {
+        logger.error('Slots request failed:', error);
+        res.status(500).json({
+          error: error instanceof Error ? error.message : 'Failed to retrieve posting slots',
+          timestamp: new Date().toISOString()
+        });
+      }
+    });
+
     // Root endpoint - basic information about the API
     this.app.get('/', (req, res) => {
       res.json({
@@ -258,7 +983,29 @@ export class HealthServer {
         endpoints: {
           health: 'GET /health - Bot health status',
           post: 'POST /post - Manual post trigger',
-          stats: 'GET /stats - Bot statistics'
+          stats: 'GET /stats - Bot statistics',
+          selection: 'GET /selection - Post selection policy and recent decisions',
+          calendar: 'GET /calendar - Upcoming posting slots and pinned posts',
+          pin: 'PUT /calendar/:postId - Pin a post to a time',
+          unpin: 'DELETE /calendar/:postId - Return a pinned post to the queue',
+          slots: 'GET /slots - Posting slots that came due, including missed ones',
+          quietMode: 'GET|PUT /quiet-mode - Emergency stop for all posting',
+          pause: 'GET|POST /pause - Pause scheduled posting and replenishment',
+          resume: 'POST /resume - Resume after a pause',
+          kill: 'POST /kill - Pause and delete the most recent tweets',
+          published: 'GET /posts/published - Published-post ledger',
+          deletePublished: 'DELETE /posts/published/:postId - Delete a post\'s tweets from X',
+          metrics: 'GET /metrics - Engagement per category or persona',
+          postMetrics: 'GET /metrics/posts/:postId - Engagement snapshots of a post',
+          topicWeights: 'GET|PUT /topic-weights - Static or learned topic weights',
+          variants: 'GET|POST /variants - A/B tests of post variants',
+          variantGroup: 'GET /variants/:group - A/B test results of one variant group',
+          mentions: 'GET /mentions - Mentions of the account and drafted replies',
+          reviewMention: 'POST /mentions/:id/approve|reject - Approve or reject a drafted reply',
+          review: 'GET /posts/review - Posts by review status (pending_review by default)',
+          approvePost: 'POST /posts/:id/approve - Approve a post, optionally with edited content',
+          rejectPosts: 'POST /posts/reject - Reject several posts with a reason',
+          similar: 'GET /posts/similar - Near-duplicates and the posts they collided with'
         },
         timestamp: new Date().toISOString()
       });
@@ -268,12 +1015,279 @@ export class HealthServer {
     this.app.use('*', (req, res) => {
       res.status(404).json({
         error: 'Endpoint not found',
-        availableEndpoints: ['/health', '/post', '/stats'],
+        availableEndpoints: ['/health', '/post', '/stats', '/selection', '/calendar', '/slots', '/quiet-mode', '/pause', '/resume', '/kill', '/posts/published', '/metrics', '/topic-weights', '/variants', '/mentions', '/posts/review', '/posts/similar'],
         timestamp: new Date().toISOString()
       });
     });
   }
 
+  /**
+   * Format Quiet Mode - Quiet mode state as returned by the API
+   * 
+   * @param quietMode - Quiet mode state
+   * @returns Object with camelCase fields and ISO 8601 times
+   */
+  private formatQuietMode(quietMode: QuietMode) {
+    return {
+      enabled: quietMode.enabled,
+      reason: quietMode.reason,
+      since: quietMode.since?.toISOString(),
+      until: quietMode.until?.toISOString()
+    };
+  }
+
+  /**
+   * Format Published Post - Ledger entry as returned by the API
+   * 
+   * @param post - Published-post ledger entry
+   * @returns Object with camelCase fields and ISO 8601 times
+   */
+  private formatPublishedPost(post: PublishedPostRecord) {
+    return {
+      postId: post.post_id,
+      status: post.status,
+      account: post.account,
+      publishMode: post.publish_mode,
+      tweetId: post.tweet_id,
+      tweetIds: post.tweet_ids,
+      attempts: post.attempts,
+      error: post.error,
+      publishedAt: post.published_at?.toISOString(),
+      deletedAt: post.deleted_at?.toISOString(),
+      category: post.category,
+      content: post.content
+    };
+  }
+
+  /**
+   * Format Metrics Snapshot - Post metrics at one age as returned by the API
+   * 
+   * @param snapshot - Snapshot summed over the post's tweets
+   * @returns Object with camelCase fields and an ISO 8601 collection time
+   */
+  private formatMetricsSnapshot(snapshot: PostMetricsSnapshot) {
+    return {
+      age: snapshot.age,
+      tweets: snapshot.tweets,
+      impressions: snapshot.impressions,
+      likes: snapshot.likes,
+      reposts: snapshot.reposts,
+      replies: snapshot.replies,
+      quotes: snapshot.quotes,
+      collectedAt: snapshot.collected_at.toISOString()
+    };
+  }
+
+  /**
+   * Format Metrics Group - Category or persona summary as returned by the API
+   * 
+   * @param group - Aggregated metrics of the group
+   * @returns Object with camelCase fields
+   */
+  private formatMetricsGroup(group: MetricsGroupSummary) {
+    return {
+      group: group.group,
+      personaName: group.persona_name,
+      posts: group.posts,
+      impressions: group.impressions,
+      likes: group.likes,
+      reposts: group.reposts,
+      replies: group.replies,
+      quotes: group.quotes,
+      avgImpressions: Math.round(group.avg_impressions * 10) / 10,
+      engagementRate: Math.round(group.engagement_rate * 10000) / 10000
+    };
+  }
+
+  /**
+   * Format Topic Weight Update - Learned weight update as returned by the API
+   * 
+   * @param update - Stored weight update
+   * @returns Object with camelCase fields and an ISO 8601 time
+   */
+  private formatTopicWeightUpdate(update: TopicWeightUpdate) {
+    return {
+      id: update.id,
+      weights: update.weights,
+      arms: update.arms.map(arm => ({
+        topic: arm.topic,
+        posts: arm.posts,
+        impressions: arm.impressions,
+        engagements: arm.engagements,
+        rate: Math.round(arm.rate * 1000000) / 1000000
+      })),
+      explorationFloor: update.exploration_floor,
+      lookbackDays: update.lookback_days,
+      createdAt: update.created_at.toISOString()
+    };
+  }
+
+  /**
+   * Format Variant Group - A/B test report as returned by the API
+   * 
+   * @param report - Variant group report
+   * @returns Object with camelCase fields and an ISO 8601 time
+   */
+  private formatVariantGroup(report: VariantGroupReport) {
+    return {
+      group: report.group,
+      category: report.category,
+      status: report.status,
+      leader: report.leader,
+      winner: report.winner,
+      concludedAt: report.concluded_at?.toISOString(),
+      retiredPosts: report.retired_posts,
+      variants: report.variants.map(variant => ({
+        label: variant.label,
+        posts: variant.posts,
+        published: variant.published,
+        queued: variant.queued,
+        retired: variant.retired,
+        impressions: variant.impressions,
+        engagements: variant.engagements,
+        engagementRate: Math.round(variant.engagement_rate * 1000000) / 1000000,
+        zScore: variant.z_score === undefined ? undefined : Math.round(variant.z_score * 1000) / 1000,
+        pValue: variant.p_value === undefined ? undefined : Math.round(variant.p_value * 1000000) / 1000000,
+        significant: variant.significant
+      }))
+    };
+  }
+
+  /**
+   * Format Mention - Mention and its drafted reply as returned by the API
+   * 
+   * @param mention - Stored mention
+   * @returns Object with camelCase fields and ISO 8601 times
+   */
+  private formatMention(mention: MentionRecord) {
+    return {
+      id: mention.id,
+      tweetId: mention.tweet_id,
+      author: mention.author_username ? `@${mention.author_username}` : mention.author_id,
+      text: mention.text,
+      category: mention.category,
+      status: mention.status,
+      reply: mention.reply_content,
+      replyTweetId: mention.reply_tweet_id,
+      replyModel: mention.reply_model,
+      replyCost: mention.reply_cost,
+      error: mention.error,
+      mentionedAt: mention.created_at?.toISOString(),
+      receivedAt: mention.received_at.toISOString(),
+      reviewedAt: mention.reviewed_at?.toISOString(),
+      repliedAt: mention.replied_at?.toISOString()
+    };
+  }
+
+  /**
+   * Format Review Post - Post and its review details as returned by the API
+   * 
+   * @param post - Stored post
+   * @returns Object with camelCase fields and ISO 8601 times
+   */
+  private formatReviewPost(post: Post) {
+    return {
+      id: post.id,
+      content: post.content,
+      segments: post.segments,
+      category: post.category,
+      model: post.generation_model,
+      reviewStatus: post.review_status,
+      reviewedBy: post.reviewed_by,
+      reviewedAt: post.reviewed_at?.toISOString(),
+      rejectionReason: post.rejection_reason,
+      createdAt: post.created_at.toISOString()
+    };
+  }
+
+  /**
+   * Send Review Error - Map a failed review decision to an HTTP response
+   * 
+   * @param res - Response to send
+   * @param error - What went wrong
+   * @param fallback - Message when the error has none
+   */
+  private sendReviewError(res: express.Response, error: unknown, fallback: string): void {
+    if (error instanceof ZodError) {
+      res.status(400).json({ error: 'Invalid review request', details: error.errors, timestamp: new Date().toISOString() });
+      return;
+    }
+    if (error instanceof ContentRuleError) {
+      res.status(400).json({ error: error.message, details: error.context?.violations, timestamp: new Date().toISOString() });
+      return;
+    }
+
+    const code = error instanceof BotError ? error.code : undefined;
+    const status = code === 'POST_NOT_FOUND' ? 404
+      : code === 'INVALID_REVIEW_TRANSITION' || code === 'DUPLICATE_POST' || code === 'SIMILAR_POST' ? 409
+      : 500;
+    res.status(status).json({
+      error: error instanceof Error ? error.message : fallback,
+      details: error instanceof SimilarPostError ? this.formatSimilarPost(error) : undefined,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Format Similar Post - The post a rejected near-duplicate collided with
+   * 
+   * @param error - Near-duplicate error
+   * @returns Object with camelCase fields
+   */
+  private formatSimilarPost(error: SimilarPostError) {
+    return {
+      similarPostId: error.context?.similar_post_id,
+      similarContent: error.context?.similar_content,
+      similarity: error.context?.similarity,
+      method: error.context?.method
+    };
+  }
+
+  /**
+   * Format Similarity Rejection - Near-duplicate as returned by the API
+   * 
+   * @param rejection - Recorded near-duplicate
+   * @returns Object with camelCase fields and ISO 8601 times
+   */
+  private formatSimilarityRejection(rejection: SimilarityRejection) {
+    return {
+      id: rejection.id,
+      stage: rejection.stage,
+      postId: rejection.post_id,
+      content: rejection.content,
+      similarPostId: rejection.similar_post_id,
+      similarContent: rejection.similar_content,
+      similarity: rejection.similarity,
+      method: rejection.method,
+      createdAt: rejection.created_at.toISOString()
+    };
+  }
+
+  /**
+   * Format Pause State - Pause state as returned by the API
+   * 
+   * @param state - Pause state
+   * @returns Object with camelCase fields and ISO 8601 times
+   */
+  private formatPauseState(state: PauseState) {
+    return {
+      paused: state.paused,
+      reason: state.reason,
+      since: state.since?.toISOString(),
+      killed: state.killed
+    };
+  }
+
+  /**
+   * Format Blackout - Blackout period as returned by the API
+   * 
+   * @param period - Blackout period
+   * @returns Object with the window label and ISO 8601 start and end
+   */
+  private formatBlackout(period: BlackoutPeriod) {
+    return { label: period.label, start: period.start.toISOString(), end: period.end.toISOString() };
+  }
+
   /**
    * Setup Error Handling - Global error handling middleware
    * 
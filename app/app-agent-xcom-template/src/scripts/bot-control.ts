@@ -0,0 +1,189 @@
+#!/usr/bin/env node
+
+import * as dotenv from 'dotenv';
+import { userInfo } from 'os';
+import { TemplateBot } from '../bot';
+import { initializeDatabase } from '../shared/database/connection';
+import { PostReviewStatus } from '../shared/types';
+import { validatePostApproval } from '../shared/utils/validation';
+
+// Load environment variables
+dotenv.config();
+
+const COMMANDS = ['status', 'pause', 'resume', 'kill', 'replies', 'approve', 'reject', 'review', 'approve-post', 'reject-posts'];
+
+interface ControlArgs {
+  command: string;
+  reason?: string;
+  deleteCount: number;
+  mentionId?: number;
+  postIds: number[];
+  reviewer: string;
+  content?: string;
+  status?: PostReviewStatus;
+}
+
+/**
+ * Parse command line arguments into a control command
+ *
+ * Usage:
+ *   bot-control status                              Show whether the bot is paused
+ *   bot-control pause [--reason "Text"]             Stop scheduled posting and replenishment
+ *   bot-control resume                              Start posting again
+ *   bot-control kill --delete 5 [--reason "Text"]   Pause and delete the 5 most recent tweets
+ *   bot-control replies                             List drafted replies waiting for approval
+ *   bot-control approve 12                          Approve the reply to mention 12
+ *   bot-control reject 12                           Reject the reply to mention 12
+ *   bot-control review [--status rejected]          List posts waiting for review (or in another review status)
+ *   bot-control approve-post 7 [--content "Text"]   Approve post 7, optionally with edited content
+ *   bot-control reject-posts 7 8 9 --reason "Text"  Reject posts 7, 8 and 9
+ *
+ * Review decisions record --reviewer (default: the current user). The pause
+ * is stored in the database, so a running bot picks it up within a minute
+ * and a restarted bot stays paused. Approved replies go out with the running
+ * bot's next mentions run; approved posts join the queue straight away.
+ */
+function parseArgs(args: string[]): ControlArgs {
+  const [command, ...options] = args;
+  if (!COMMANDS.includes(command)) {
+    throw new Error(`Unknown command: ${command ?? '(none)'} (expected ${COMMANDS.slice(0, -1).join(', ')} or ${COMMANDS[COMMANDS.length - 1]})`);
+  }
+
+  const parsed: ControlArgs = { command, deleteCount: 0, postIds: [], reviewer: process.env.USER || userInfo().username };
+  if (command === 'approve' || command === 'reject') {
+    parsed.mentionId = Number(options.shift());
+    if (!Number.isInteger(parsed.mentionId)) {
+      throw new Error(`${command} expects a mention ID`);
+    }
+  }
+  if (command === 'approve-post' || command === 'reject-posts') {
+    while (options.length > 0 && !options[0].startsWith('--')) {
+      parsed.postIds.push(Number(options.shift()));
+    }
+    if (parsed.postIds.length === 0 || !parsed.postIds.every(Number.isInteger) || (command === 'approve-post' && parsed.postIds.length > 1)) {
+      throw new Error(`${command} expects ${command === 'approve-post' ? 'a post ID' : 'post IDs'}`);
+    }
+  }
+  for (let i = 0; i < options.length; i++) {
+    const value = options[i + 1];
+
+    switch (options[i]) {
+      case '--reason':
+        parsed.reason = value;
+        i++;
+        break;
+      case '--reviewer':
+        parsed.reviewer = value;
+        i++;
+        break;
+      case '--content':
+        parsed.content = value;
+        i++;
+        break;
+      case '--status':
+        parsed.status = value as PostReviewStatus;
+        i++;
+        break;
+      case '--delete':
+        parsed.deleteCount = Number(value);
+        if (!Number.isInteger(parsed.deleteCount) || parsed.deleteCount < 0) {
+          throw new Error(`--delete expects a number of tweets, got "${value}"`);
+        }
+        i++;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${options[i]}`);
+    }
+  }
+
+  if (command === 'reject-posts' && !parsed.reason) {
+    throw new Error('reject-posts expects --reason');
+  }
+  return parsed;
+}
+
+async function botControl() {
+  try {
+    const { command, reason, deleteCount, mentionId, postIds, reviewer, content, status } = parseArgs(process.argv.slice(2));
+
+    // Initialize database
+    const dbPath = process.env.DATABASE_PATH || './data/template-bot.db';
+    const db = await initializeDatabase(dbPath);
+
+    // Create bot instance (only the kill switch needs the publisher, so only it initializes the bot)
+    const bot = new TemplateBot(db);
+
+    switch (command) {
+      case 'pause':
+        await bot.pause(reason);
+        console.log(`⏸️  Bot paused${reason ? `: ${reason}` : ''}`);
+        break;
+      case 'resume':
+        await bot.resume();
+        console.log('▶️  Bot resumed');
+        break;
+      case 'kill': {
+        // Pause before initializing so startup neither posts nor catches up
+        await bot.pause(reason || 'Kill switch', true);
+        await bot.initialize();
+        const report = await bot.killSwitch(deleteCount, reason);
+        console.log(`🛑 Bot paused, deleted ${report.deleted.length} tweet(s)`);
+        report.deleted.forEach(tweetId => console.log(`   deleted ${tweetId}`));
+        report.failed.forEach(failure => console.log(`   ❌ ${failure.tweet_id}: ${failure.error}`));
+        break;
+      }
+      case 'replies': {
+        const mentions = await bot.getMentions('pending_approval', 100);
+        console.log(`💬 ${mentions.length} repl(ies) waiting for approval`);
+        mentions.reverse().forEach(mention => {
+          console.log(`   #${mention.id} @${mention.author_username || mention.author_id} (${mention.category}): ${mention.text}`);
+          console.log(`      ↳ ${mention.reply_content}`);
+        });
+        break;
+      }
+      case 'approve':
+      case 'reject': {
+        const mention = await bot.reviewMentionReply(mentionId!, command === 'approve');
+        console.log(`${command === 'approve' ? '✅' : '🚫'} Reply to mention ${mention.id} ${mention.status}`);
+        break;
+      }
+      case 'review': {
+        const posts = await bot.getReviewPosts(status || 'pending_review', 100);
+        console.log(`📝 ${posts.length} post(s) ${status || 'pending_review'}`);
+        posts.forEach(post => {
+          console.log(`   #${post.id} (${post.category || 'uncategorized'}, ${post.generation_model}): ${post.content}`);
+          if (post.rejection_reason) {
+            console.log(`      ↳ rejected by ${post.reviewed_by}: ${post.rejection_reason}`);
+          }
+        });
+        break;
+      }
+      case 'approve-post': {
+        const approval = validatePostApproval({ reviewer, content });
+        const post = await bot.approvePost(postIds[0], approval.reviewer, approval.edit);
+        console.log(`✅ Post ${post.id} ${approval.edit ? 'edited and ' : ''}approved by ${post.reviewed_by}`);
+        break;
+      }
+      case 'reject-posts': {
+        const posts = await bot.rejectPosts(postIds, reviewer, reason!);
+        console.log(`🚫 Rejected ${posts.length} post(s): ${posts.map(post => post.id).join(', ')}`);
+        break;
+      }
+      default: {
+        const state = await bot.getPauseState();
+        console.log(state.paused
+          ? `⏸️  Paused since ${state.since?.toISOString()}${state.reason ? ` (${state.reason})` : ''}${state.killed ? ' by the kill switch' : ''}`
+          : '▶️  Running');
+      }
+    }
+
+    // Shutdown gracefully
+    await bot.shutdown();
+
+  } catch (error) {
+    console.error('❌ Bot control failed:', error);
+    process.exit(1);
+  }
+}
+
+botControl();
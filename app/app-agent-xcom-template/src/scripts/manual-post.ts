@@ -3,14 +3,63 @@
 import * as dotenv from 'dotenv';
 import { TemplateBot } from '../bot';
 import { initializeDatabase } from '../shared/database/connection';
+import { ManualPostInput, validateManualPost } from '../shared/utils/validation';
 
 // Load environment variables
 dotenv.config();
 
+/**
+ * Parse command line arguments into a manual post request
+ *
+ * Usage:
+ *   manual-post                                   Post the next queued post
+ *   manual-post --content "Text"                  Post the given text
+ *   manual-post --segment "One" --segment "Two"   Post a thread
+ *   manual-post --content "Text" --media ./media/chart.png --alt "Bar chart of..."
+ *
+ * Each --media must be followed by an --alt describing it.
+ */
+function parseArgs(args: string[]): ManualPostInput | undefined {
+  const request: { content?: string; segments?: string[]; media?: Array<{ path: string; alt_text: string }> } = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const value = args[i + 1];
+
+    switch (args[i]) {
+      case '--content':
+        request.content = value;
+        i++;
+        break;
+      case '--segment':
+        request.segments = [...(request.segments || []), value];
+        i++;
+        break;
+      case '--media':
+        request.media = [...(request.media || []), { path: value, alt_text: '' }];
+        i++;
+        break;
+      case '--alt':
+        if (!request.media || request.media.length === 0) {
+          throw new Error('--alt must follow a --media argument');
+        }
+        request.media[request.media.length - 1].alt_text = value;
+        i++;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${args[i]}`);
+    }
+  }
+
+  return Object.keys(request).length > 0 ? validateManualPost(request) : undefined;
+}
+
 async function manualPost() {
   try {
     console.log('🚀 Triggering manual post for X.com Bot Template...\n');
 
+    // Validate the requested post before touching the database or Twitter
+    const input = parseArgs(process.argv.slice(2));
+
     // Initialize database
     const dbPath = process.env.DATABASE_PATH || './data/template-bot.db';
     const db = await initializeDatabase(dbPath);
@@ -22,10 +71,10 @@ async function manualPost() {
     await bot.initialize();
     
     console.log('✅ Bot initialized successfully');
-    console.log('📝 Triggering manual post...\n');
+    console.log(input ? '📝 Posting supplied content...\n' : '📝 Triggering manual post...\n');
     
     // Trigger a manual post
-    await bot.manualPost();
+    await bot.manualPost(input);
     
     console.log('🎉 Manual post completed!');
     
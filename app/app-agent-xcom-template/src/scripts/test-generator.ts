@@ -1,6 +1,8 @@
 #!/usr/bin/env node
 
 import { TemplatePostGenerator } from '../services/generator/post-generator';
+import { getPersona } from '../config/persona';
+import { tweetLength } from '../shared/utils/tweet-length';
 
 async function testGenerator() {
   try {
@@ -8,33 +10,28 @@ async function testGenerator() {
 
     // Test generating posts for a single topic
     console.log('=== Testing Single Topic Generation ===');
-    const battlePosts = TemplatePostGenerator.generateTopicPosts('battle_wisdom', 5);
-    console.log(`Generated ${battlePosts.length} battle wisdom posts:`);
-    battlePosts.forEach((post, index) => {
-      console.log(`${index + 1}. "${post.content}" (${post.content.length} chars)`);
+    const firstTopic = getPersona().topics[0];
+    const topicPosts = TemplatePostGenerator.generateTopicPosts(firstTopic.key, 5);
+    console.log(`Generated ${topicPosts.length} ${firstTopic.name} posts:`);
+    topicPosts.forEach((post, index) => {
+      console.log(`${index + 1}. "${post.content}" (${tweetLength(post.content)} chars)`);
     });
 
-    console.log('\n=== Testing All Posts Generation ===');
-    const allPosts = TemplatePostGenerator.generateAllPosts();
-    console.log(`Generated ${allPosts.length} total posts`);
+    console.log('\n=== Testing Weighted Generation ===');
+    const batchSize = parseInt(process.env.POSTS_BATCH_SIZE || '2016');
+    const { posts: allPosts, distribution } = TemplatePostGenerator.generateWeightedPosts(batchSize);
+    console.log(`Generated ${allPosts.length} of ${batchSize} posts`);
 
-    // Show topic distribution
-    const topicCounts: { [key: string]: number } = {};
-    allPosts.forEach(() => {
-      // Extract topic from content (simplified)
-      const topic = 'battle_wisdom'; // This would be more sophisticated in real implementation
-      topicCounts[topic] = (topicCounts[topic] || 0) + 1;
-    });
-
-    console.log('\nTopic Distribution:');
-    Object.entries(topicCounts).forEach(([topic, count]) => {
-      console.log(`  ${topic}: ${count} posts`);
+    // Show realized topic distribution against the weighted targets
+    console.log('\nTopic Distribution (generated/target):');
+    distribution.forEach(topic => {
+      console.log(`  ${topic.topic} (weight ${topic.weight}): ${topic.generated}/${topic.target} posts`);
     });
 
     // Show character count distribution
     const charCounts: { [key: string]: number } = {};
     allPosts.forEach(post => {
-      const length = post.content.length;
+      const length = tweetLength(post.content);
       if (length <= 60) charCounts['Short (40-60)'] = (charCounts['Short (40-60)'] || 0) + 1;
       else if (length <= 90) charCounts['Medium (61-90)'] = (charCounts['Medium (61-90)'] || 0) + 1;
       else charCounts['Long (91-130)'] = (charCounts['Long (91-130)'] || 0) + 1;
@@ -45,7 +45,7 @@ export const postRateLimiter = rateLimit({
 export const basicAuth = (req: express.Request, res: express.Response, next: express.NextFunction) => {
   const authHeader = req.headers.authorization;
   
-  if (!authHeader) {
+  if (!authHeader || !authHeader.startsWith('Basic ')) {
     return res.status(401).json({
       error: 'Authentication required',
       message: 'Please provide valid credentials'
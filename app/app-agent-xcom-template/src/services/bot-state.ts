@@ -0,0 +1,61 @@
+/**
+ * Template Bot State - Small per-bot values that survive restarts
+ *
+ * A key/value store in bot_state for bookkeeping that does not deserve its
+ * own table, such as when the bot started tracking its posting slots.
+ * Values are stored as strings; callers encode anything richer.
+ *
+ * @author Your Name
+ * @version 1.0.0
+ */
+
+import { DatabaseConnection } from '../shared/database/connection';
+
+/**
+ * Template Bot State Class
+ */
+export class TemplateBotState {
+  private botId: string;
+
+  /**
+   * Constructor - Initialize state store with database connection
+   *
+   * @param db - Database connection for bot_state
+   */
+  constructor(private db: DatabaseConnection) {
+    this.botId = process.env.BOT_NAME || 'template-bot';
+  }
+
+  /**
+   * Get - Read a stored value
+   *
+   * @param key - State key
+   * @returns Promise<string | undefined> - The value, or undefined if it was never set
+   */
+  async get(key: string): Promise<string | undefined> {
+    const row = await this.db.get('SELECT value FROM bot_state WHERE bot_id = ? AND key = ?', [this.botId, key]);
+    return row?.value;
+  }
+
+  /**
+   * Set - Store a value, replacing any previous one
+   *
+   * @param key - State key
+   * @param value - Value to store
+   */
+  async set(key: string, value: string): Promise<void> {
+    await this.db.run(`
+      INSERT INTO bot_state (bot_id, key, value) VALUES (?, ?, ?)
+      ON CONFLICT (bot_id, key) DO UPDATE SET value = excluded.value, updated_at = CURRENT_TIMESTAMP
+    `, [this.botId, key, value]);
+  }
+
+  /**
+   * Delete - Remove a stored value
+   *
+   * @param key - State key
+   */
+  async delete(key: string): Promise<void> {
+    await this.db.run('DELETE FROM bot_state WHERE bot_id = ? AND key = ?', [this.botId, key]);
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Template Content Calendar - Pinned posts and upcoming posting slots
+ *
+ * Posts normally wait in the queue and go out at the next slot of the
+ * posting schedule (persona slots or BOT_SCHEDULE). A post can instead be
+ * pinned to a time with scheduled_for (launches, holidays): the bot publishes
+ * it at that time, and a scheduled slot that has a pinned post is not filled
+ * from the queue.
+ *
+ * Slots have minute resolution. Pinning a post to a minute that already has
+ * another unused pinned post fails with SLOT_CONFLICT.
+ *
+ * @author Your Name
+ * @version 1.0.0
+ */
+
+import { DatabaseConnection } from '../shared/database/connection';
+import { getNextFireTimes, PostingSchedule } from '../config/schedule';
+import { BlackoutPeriod, BotError, CalendarSlot, Post } from '../shared/types';
+import { parseSqlTimestamp, toSqlTimestamp } from '../shared/utils/sql-timestamp';
+import { logger } from '../utils/logger';
+
+// Longest calendar range returned at once, in slots
+const MAX_CALENDAR_SLOTS = 500;
+
+/**
+ * Template Content Calendar Class
+ */
+export class TemplateContentCalendar {
+  private botId: string;
+
+  /**
+   * Constructor - Initialize calendar with database connection
+   *
+   * @param db - Database connection for posts
+   */
+  constructor(private db: DatabaseConnection) {
+    this.botId = process.env.BOT_NAME || 'template-bot';
+  }
+
+  /**
+   * Pin Post - Schedule a queued post for a specific time
+   *
+   * @param postId - Post to pin
+   * @param at - Time to publish; seconds are dropped (slots are per minute)
+   * @returns Promise<Date> - The slot the post was pinned to
+   * @throws BotError (POST_NOT_FOUND) if the post does not exist, was already posted, was retired or is not approved
+   * @throws BotError (INVALID_SCHEDULE) if the time is not in the future
+   * @throws BotError (SLOT_CONFLICT) if another pinned post has the same slot
+   */
+  async pinPost(postId: number, at: Date): Promise<Date> {
+    const slot = new Date(Math.floor(at.getTime() / 60000) * 60000);
+    if (isNaN(slot.getTime()) || slot.getTime() <= Date.now()) {
+      throw new BotError('Posts can only be pinned to a future time', 'INVALID_SCHEDULE', false, {
+        post_id: postId,
+        scheduled_for: at.toString()
+      });
+    }
+
+    return this.db.transaction(async db => {
+      const post = await db.get(`
+        SELECT id FROM posts WHERE id = ? AND bot_id = ? AND used = 0 AND retired_at IS NULL AND review_status = 'approved'
+      `, [postId, this.botId]);
+      if (!post) {
+        throw new BotError(`Post ${postId} not found, already posted, retired or not approved`, 'POST_NOT_FOUND', false, { post_id: postId });
+      }
+
+      const conflicts = await db.all(`
+        SELECT id FROM posts
+        WHERE bot_id = ? AND used = 0 AND id != ? AND scheduled_for = ?
+      `, [this.botId, postId, toSqlTimestamp(slot)]);
+      if (conflicts.length > 0) {
+        const ids = conflicts.map(row => row.id);
+        throw new BotError(
+          `Slot ${slot.toISOString()} already has pinned post ${ids.join(', ')}`,
+          'SLOT_CONFLICT',
+          false,
+          { post_id: postId, slot: slot.toISOString(), conflicting_post_ids: ids }
+        );
+      }
+
+      await db.run(`
+        UPDATE posts SET scheduled_for = ? WHERE id = ? AND bot_id = ?
+      `, [toSqlTimestamp(slot), postId, this.botId]);
+
+      logger.info(`Pinned post ${postId} to ${slot.toISOString()}`);
+      return slot;
+    });
+  }
+
+  /**
+   * Unpin Post - Return a pinned post to the general queue
+   *
+   * @param postId - Post to unpin
+   * @returns Promise<boolean> - True if the post was pinned and unused
+   */
+  async unpinPost(postId: number): Promise<boolean> {
+    const result = await this.db.run(`
+      UPDATE posts SET scheduled_for = NULL
+      WHERE id = ? AND bot_id = ? AND used = 0 AND scheduled_for IS NOT NULL
+    `, [postId, this.botId]);
+
+    const unpinned = (result.changes || 0) > 0;
+    if (unpinned) {
+      logger.info(`Unpinned post ${postId}`);
+    }
+    return unpinned;
+  }
+
+  /**
+   * Get Due Pinned Posts - Pinned posts whose time has come and that have not been attempted
+   *
+   * A pinned post is attempted once: if publishing fails, post_logs records
+   * it and the post is not picked up again until it is re-pinned. Only
+   * approved posts are due: a post rejected or retired after pinning is skipped.
+   *
+   * @param now - Current time
+   * @returns Promise<number[]> - Post IDs, earliest slot first
+   */
+  async getDuePinnedPosts(now: Date = new Date()): Promise<number[]> {
+    const rows = await this.db.all(`
+      SELECT id FROM posts
+      WHERE bot_id = ? AND used = 0 AND retired_at IS NULL AND review_status = 'approved'
+        AND scheduled_for IS NOT NULL AND scheduled_for <= ?
+        AND NOT EXISTS (
+          SELECT 1 FROM post_logs
+          WHERE post_logs.post_id = posts.id AND post_logs.created_at >= posts.scheduled_for
+        )
+      ORDER BY scheduled_for ASC, id ASC
+    `, [this.botId, toSqlTimestamp(now)]);
+
+    return rows.map(row => row.id);
+  }
+
+  /**
+   * Is Slot Pinned - Whether a pinned post (posted or not) owns the slot at a time
+   *
+   * @param at - Slot time; compared per minute
+   * @returns Promise<boolean> - True if the queue should not fill this slot
+   */
+  async isSlotPinned(at: Date): Promise<boolean> {
+    const slot = new Date(Math.floor(at.getTime() / 60000) * 60000);
+    const row = await this.db.get(`
+      SELECT id FROM posts WHERE bot_id = ? AND scheduled_for = ? LIMIT 1
+    `, [this.botId, toSqlTimestamp(slot)]);
+    return Boolean(row);
+  }
+
+  /**
+   * Get Calendar - Upcoming slots between two times
+   *
+   * Scheduled slots come from every slot of the schedule; each takes the pinned
+   * post at the same minute if there is one, otherwise the queue fills it
+   * when it fires. Pinned posts at other times appear as extra slots.
+   * Overdue pinned posts that have not been attempted are listed at their
+   * original time. Slots inside a blackout period are marked with its label.
+   *
+   * @param schedule - Posting schedule (slots and IANA timezone)
+   * @param from - Start of the range
+   * @param to - End of the range
+   * @param blackouts - Blackout periods to mark slots with
+   * @returns Promise<CalendarSlot[]> - Slots in time order (at most 500)
+   * @throws Error if a slot's cron expression or timezone is invalid
+   */
+  async getCalendar(schedule: PostingSchedule, from: Date, to: Date, blackouts: BlackoutPeriod[] = []): Promise<CalendarSlot[]> {
+    const scheduled = getNextFireTimes(schedule, from, MAX_CALENDAR_SLOTS)
+      .filter(date => date <= to);
+
+    const rows = await this.db.all(`
+      SELECT id, content, category, scheduled_for FROM posts
+      WHERE bot_id = ? AND used = 0 AND scheduled_for IS NOT NULL AND scheduled_for <= ?
+      ORDER BY scheduled_for ASC, id ASC
+    `, [this.botId, toSqlTimestamp(to)]);
+
+    // Pinned posts per slot (more than one is a conflict)
+    const pinned = new Map<number, Post[]>();
+    for (const row of rows) {
+      const time = parseSqlTimestamp(row.scheduled_for).getTime();
+      const slotPosts = pinned.get(time) || [];
+      slotPosts.push({ id: row.id, content: row.content, category: row.category || undefined } as Post);
+      pinned.set(time, slotPosts);
+    }
+
+    const slots: CalendarSlot[] = scheduled.map(date => ({ at: date, source: 'queue', on_schedule: true }));
+    const slotTimes = new Set(scheduled.map(date => Math.floor(date.getTime() / 60000) * 60000));
+    for (const time of pinned.keys()) {
+      if (!slotTimes.has(time)) {
+        slots.push({ at: new Date(time), source: 'pinned', on_schedule: false });
+      }
+    }
+
+    for (const slot of slots) {
+      const blackout = blackouts.find(period => period.start <= slot.at && period.end > slot.at);
+      if (blackout) {
+        slot.blackout = blackout.label;
+      }
+
+      const [post, ...others] = pinned.get(Math.floor(slot.at.getTime() / 60000) * 60000) || [];
+      if (post) {
+        slot.source = 'pinned';
+        slot.post_id = post.id;
+        slot.category = post.category;
+        slot.content = post.content;
+        if (others.length > 0) {
+          slot.conflicts = others.map(other => other.id);
+        }
+      }
+    }
+
+    return slots.sort((a, b) => a.at.getTime() - b.at.getTime()).slice(0, MAX_CALENDAR_SLOTS);
+  }
+}
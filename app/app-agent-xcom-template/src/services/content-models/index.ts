@@ -0,0 +1,96 @@
+/**
+ * Content Models - Content model selection
+ *
+ * LLM_PROVIDER selects the model that writes posts:
+ * - openai (default): api.openai.com, model from LLM_MODEL / OPENAI_MODEL
+ * - openai-compatible: any chat completions server at LLM_BASE_URL
+ * - stub: deterministic offline model, no network access
+ *
+ * SIMILARITY_EMBEDDING_MODEL optionally selects an embedding model on the same
+ * provider for semantic near-duplicate detection.
+ *
+ * @author Your Name
+ * @version 1.0.0
+ */
+
+import { LLMProvider } from '../../shared/types';
+import { ContentModel, EmbeddingModel } from '../../shared/services/content-model';
+import {
+  getConfiguredPricing,
+  OpenAICompatibleContentModel,
+  OpenAIContentModel,
+  OpenAIEmbeddingModel
+} from './openai-model';
+import { StubContentModel } from './stub-model';
+
+export { OpenAIContentModel, OpenAICompatibleContentModel, OpenAIEmbeddingModel } from './openai-model';
+export { StubContentModel } from './stub-model';
+
+const LLM_PROVIDERS: LLMProvider[] = ['openai', 'openai-compatible', 'stub'];
+
+/**
+ * Get LLM Provider - Read LLM_PROVIDER from the environment
+ *
+ * @returns LLMProvider - Configured provider, "openai" when unset
+ * @throws Error if LLM_PROVIDER is not a known provider
+ */
+export function getLLMProvider(): LLMProvider {
+  const provider = (process.env.LLM_PROVIDER || 'openai') as LLMProvider;
+  if (!LLM_PROVIDERS.includes(provider)) {
+    throw new Error(`Invalid LLM_PROVIDER "${provider}" (expected one of: ${LLM_PROVIDERS.join(', ')})`);
+  }
+  return provider;
+}
+
+/**
+ * Create Content Model - Build the content model selected by LLM_PROVIDER
+ *
+ * @returns ContentModel - Model for the configured provider
+ */
+export function createContentModel(): ContentModel {
+  const model = process.env.LLM_MODEL || process.env.OPENAI_MODEL;
+
+  switch (getLLMProvider()) {
+    case 'stub':
+      return new StubContentModel(process.env.LLM_MODEL);
+    case 'openai-compatible':
+      return new OpenAICompatibleContentModel({
+        model: model || 'llama3',
+        apiKey: process.env.LLM_API_KEY,
+        baseURL: process.env.LLM_BASE_URL,
+        pricing: getConfiguredPricing()
+      });
+    default:
+      return new OpenAIContentModel({
+        model: model || 'gpt-4',
+        apiKey: process.env.LLM_API_KEY || process.env.OPENAI_API_KEY,
+        baseURL: process.env.LLM_BASE_URL,
+        pricing: getConfiguredPricing()
+      });
+  }
+}
+
+/**
+ * Create Embedding Model - Build the embedding model selected by SIMILARITY_EMBEDDING_MODEL
+ *
+ * @returns EmbeddingModel | null - Model on the configured provider, or null when
+ *   no embedding model is configured or the provider is the offline stub
+ */
+export function createEmbeddingModel(): EmbeddingModel | null {
+  const model = process.env.SIMILARITY_EMBEDDING_MODEL;
+  if (!model) {
+    return null;
+  }
+  const provider = getLLMProvider();
+  if (provider === 'stub') {
+    return null;
+  }
+
+  return new OpenAIEmbeddingModel(provider, {
+    model,
+    apiKey: provider === 'openai-compatible'
+      ? process.env.LLM_API_KEY
+      : process.env.LLM_API_KEY || process.env.OPENAI_API_KEY,
+    baseURL: process.env.LLM_BASE_URL
+  });
+}
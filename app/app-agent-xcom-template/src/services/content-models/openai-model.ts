@@ -0,0 +1,304 @@
+/**
+ * OpenAI Content Models - OpenAI and OpenAI-compatible chat completion endpoints
+ *
+ * OpenAIContentModel talks to api.openai.com. OpenAICompatibleContentModel
+ * reuses the same client against any server that speaks the chat completions
+ * API (llama.cpp server, Ollama, vLLM, LM Studio), where the API key is
+ * optional and tokens are free unless pricing is configured.
+ *
+ * Configuration:
+ * - LLM_MODEL (or OPENAI_MODEL): model name
+ * - OPENAI_API_KEY / LLM_API_KEY: API key
+ * - LLM_BASE_URL: endpoint for openai-compatible servers, e.g. http://localhost:11434/v1
+ * - LLM_PRICE_INPUT_PER_1K / LLM_PRICE_OUTPUT_PER_1K: override pricing (USD)
+ *
+ * OpenAIEmbeddingModel calls the embeddings endpoint of the same servers for
+ * semantic similarity between posts (SIMILARITY_EMBEDDING_MODEL).
+ *
+ * @author Your Name
+ * @version 1.0.0
+ */
+
+import OpenAI from 'openai';
+import { logger } from '../../utils/logger';
+import { LLMProvider, OpenAIError } from '../../shared/types';
+import {
+  calculateCompletionCost,
+  ContentCompletion,
+  ContentModel,
+  ContentModelPricing,
+  ContentRequest,
+  EmbeddingModel
+} from '../../shared/services/content-model';
+
+// Published OpenAI prices per 1,000 tokens (USD)
+const OPENAI_PRICING: Record<string, ContentModelPricing> = {
+  'gpt-4': { input_per_1k: 0.03, output_per_1k: 0.06 },
+  'gpt-4-turbo': { input_per_1k: 0.01, output_per_1k: 0.03 },
+  'gpt-4o': { input_per_1k: 0.0025, output_per_1k: 0.01 },
+  'gpt-4o-mini': { input_per_1k: 0.00015, output_per_1k: 0.0006 },
+  'gpt-3.5-turbo': { input_per_1k: 0.0005, output_per_1k: 0.0015 }
+};
+
+/**
+ * Options for OpenAI content models
+ */
+export interface OpenAIContentModelOptions {
+  model: string;
+  apiKey?: string;
+  baseURL?: string;
+  pricing?: ContentModelPricing;
+}
+
+/**
+ * Get Configured Pricing - Pricing from LLM_PRICE_* environment variables
+ *
+ * @returns ContentModelPricing | undefined - Configured pricing, or undefined if not set
+ */
+export function getConfiguredPricing(): ContentModelPricing | undefined {
+  if (!process.env.LLM_PRICE_INPUT_PER_1K && !process.env.LLM_PRICE_OUTPUT_PER_1K) {
+    return undefined;
+  }
+  return {
+    input_per_1k: parseFloat(process.env.LLM_PRICE_INPUT_PER_1K || '0'),
+    output_per_1k: parseFloat(process.env.LLM_PRICE_OUTPUT_PER_1K || '0')
+  };
+}
+
+/**
+ * OpenAI Content Model Class
+ */
+export class OpenAIContentModel implements ContentModel {
+  readonly provider: LLMProvider = 'openai';
+  readonly model: string;
+  readonly pricing: ContentModelPricing;
+  protected client: OpenAI | null = null;
+
+  /**
+   * Constructor - Configure model, credentials and pricing
+   *
+   * @param options - Model name, API key, endpoint and optional pricing override
+   */
+  constructor(protected options: OpenAIContentModelOptions) {
+    this.model = options.model;
+    this.pricing = options.pricing || this.defaultPricing();
+  }
+
+  get id(): string {
+    return `${this.provider}:${this.model}`;
+  }
+
+  /**
+   * Initialize Model - Create the client and test the connection
+   *
+   * @throws OpenAIError if credentials are missing or the endpoint does not respond
+   */
+  async initialize(): Promise<void> {
+    this.client = this.createClient();
+    await this.testConnection();
+    logger.info(`Content model ready: ${this.id}`);
+  }
+
+  /**
+   * Complete - Generate text for a prompt
+   *
+   * @param request - System message, prompt and sampling settings
+   * @returns Promise<ContentCompletion> - Text with token usage and cost
+   * @throws OpenAIError if the request fails or returns no text
+   */
+  async complete(request: ContentRequest): Promise<ContentCompletion> {
+    if (!this.client) {
+      throw new OpenAIError('Content model not initialized');
+    }
+
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [
+        { role: 'system', content: request.system },
+        { role: 'user', content: request.prompt }
+      ],
+      max_tokens: request.max_tokens ?? 280,
+      temperature: request.temperature ?? 0.8,
+      top_p: 0.9,
+      frequency_penalty: 0.1,
+      presence_penalty: 0.1
+    });
+
+    const promptTokens = response.usage?.prompt_tokens || 0;
+    const completionTokens = response.usage?.completion_tokens || 0;
+
+    return {
+      text: response.choices[0]?.message?.content?.trim() || '',
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: response.usage?.total_tokens || promptTokens + completionTokens,
+      cost: calculateCompletionCost(this.pricing, promptTokens, completionTokens),
+      model: this.id
+    };
+  }
+
+  /**
+   * Health Check - Verify the endpoint still answers
+   *
+   * @returns Promise<boolean> - True if a test completion succeeds
+   */
+  async healthCheck(): Promise<boolean> {
+    try {
+      await this.testConnection();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Create Client - Build the OpenAI SDK client
+   *
+   * @returns OpenAI - Client for api.openai.com
+   * @throws OpenAIError if the API key is missing
+   */
+  protected createClient(): OpenAI {
+    if (!this.options.apiKey) {
+      throw new OpenAIError('Missing OpenAI API key');
+    }
+    return new OpenAI({ apiKey: this.options.apiKey, baseURL: this.options.baseURL });
+  }
+
+  /**
+   * Default Pricing - Published pricing for the model
+   *
+   * Unknown models are priced as gpt-4 so cost tracking errs on the high side.
+   *
+   * @returns ContentModelPricing - Price per 1,000 tokens
+   */
+  protected defaultPricing(): ContentModelPricing {
+    const pricing = OPENAI_PRICING[this.options.model];
+    if (!pricing) {
+      logger.warn(`No pricing known for ${this.options.model}, using gpt-4 pricing`);
+      return OPENAI_PRICING['gpt-4'];
+    }
+    return pricing;
+  }
+
+  /**
+   * Test Connection - Send a tiny completion request
+   *
+   * @throws OpenAIError if the request fails or returns no text
+   */
+  private async testConnection(): Promise<void> {
+    if (!this.client) {
+      throw new OpenAIError('Content model not initialized');
+    }
+
+    try {
+      const response = await this.client.chat.completions.create({
+        model: this.model,
+        messages: [
+          {
+            role: 'user',
+            content: 'Hello, this is a test message. Please respond with "OK" if you can see this.'
+          }
+        ],
+        max_tokens: 10,
+        temperature: 0.1
+      });
+
+      if (!response.choices[0]?.message?.content) {
+        throw new OpenAIError(`No response from ${this.id}`);
+      }
+    } catch (error) {
+      throw new OpenAIError(`${this.id} connection test failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
+
+/**
+ * OpenAI-Compatible Content Model Class
+ *
+ * For self-hosted servers exposing /v1/chat/completions. Tokens are free
+ * unless LLM_PRICE_* is set.
+ */
+export class OpenAICompatibleContentModel extends OpenAIContentModel {
+  readonly provider: LLMProvider = 'openai-compatible';
+
+  /**
+   * Create Client - Build an OpenAI SDK client for the configured endpoint
+   *
+   * @returns OpenAI - Client for LLM_BASE_URL
+   * @throws OpenAIError if no endpoint is configured
+   */
+  protected createClient(): OpenAI {
+    if (!this.options.baseURL) {
+      throw new OpenAIError('Missing LLM_BASE_URL for openai-compatible provider');
+    }
+    // Most local servers ignore the key, but the SDK requires one
+    return new OpenAI({ apiKey: this.options.apiKey || 'not-needed', baseURL: this.options.baseURL });
+  }
+
+  /**
+   * Default Pricing - Self-hosted models cost nothing per token
+   *
+   * @returns ContentModelPricing - Zero pricing
+   */
+  protected defaultPricing(): ContentModelPricing {
+    return { input_per_1k: 0, output_per_1k: 0 };
+  }
+}
+
+/**
+ * OpenAI Embedding Model Class
+ *
+ * Embeds posts with /v1/embeddings on api.openai.com, or on LLM_BASE_URL for
+ * openai-compatible servers.
+ */
+export class OpenAIEmbeddingModel implements EmbeddingModel {
+  private client: OpenAI | null = null;
+
+  /**
+   * Constructor - Configure provider, model and credentials
+   *
+   * @param provider - openai or openai-compatible
+   * @param options - Model name, API key and endpoint
+   */
+  constructor(readonly provider: LLMProvider, private options: OpenAIContentModelOptions) {}
+
+  get id(): string {
+    return `${this.provider}:${this.options.model}`;
+  }
+
+  /**
+   * Embed - Embedding vector for each text
+   *
+   * @param texts - Texts to embed
+   * @returns Promise<number[][]> - One vector per text, in order
+   * @throws OpenAIError if credentials are missing or the request fails
+   */
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+    if (!this.client) {
+      this.client = this.createClient();
+    }
+
+    try {
+      const response = await this.client.embeddings.create({ model: this.options.model, input: texts });
+      return [...response.data].sort((a, b) => a.index - b.index).map(item => item.embedding);
+    } catch (error) {
+      throw new OpenAIError(`${this.id} embedding request failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private createClient(): OpenAI {
+    if (this.provider === 'openai-compatible') {
+      if (!this.options.baseURL) {
+        throw new OpenAIError('Missing LLM_BASE_URL for openai-compatible provider');
+      }
+      return new OpenAI({ apiKey: this.options.apiKey || 'not-needed', baseURL: this.options.baseURL });
+    }
+    if (!this.options.apiKey) {
+      throw new OpenAIError('Missing OpenAI API key');
+    }
+    return new OpenAI({ apiKey: this.options.apiKey, baseURL: this.options.baseURL });
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Stub Content Model - Deterministic offline content model
+ *
+ * Produces predictable posts without any network access, for tests, CI and
+ * rehearsing a persona before paying for tokens. The same sequence of
+ * prompts always yields the same sequence of posts; token counts are
+ * estimated at four characters per token and cost nothing.
+ *
+ * @author Your Name
+ * @version 1.0.0
+ */
+
+import { createHash } from 'crypto';
+import { LLMProvider } from '../../shared/types';
+import {
+  ContentCompletion,
+  ContentModel,
+  ContentModelPricing,
+  ContentRequest
+} from '../../shared/services/content-model';
+
+const STUB_OPENERS = [
+  'Here is a thought on',
+  'Something worth remembering about',
+  'A short note on',
+  'Today I keep coming back to',
+  'One lesson about'
+];
+
+/**
+ * Stub Content Model Class
+ */
+export class StubContentModel implements ContentModel {
+  readonly provider: LLMProvider = 'stub';
+  readonly pricing: ContentModelPricing = { input_per_1k: 0, output_per_1k: 0 };
+  private calls = 0;
+
+  /**
+   * Constructor - Name the stub model
+   *
+   * @param model - Model name reported in generation_model
+   */
+  constructor(readonly model: string = 'stub-v1') {}
+
+  get id(): string {
+    return `${this.provider}:${this.model}`;
+  }
+
+  /**
+   * Initialize Model - Nothing to set up
+   */
+  async initialize(): Promise<void> {}
+
+  /**
+   * Complete - Build a post from the prompt topic and call count
+   *
+   * @param request - System message and prompt
+   * @returns Promise<ContentCompletion> - Deterministic text with estimated usage
+   */
+  async complete(request: ContentRequest): Promise<ContentCompletion> {
+    this.calls++;
+    const digest = createHash('sha256').update(`${request.prompt}#${this.calls}`).digest();
+    const opener = STUB_OPENERS[digest[0] % STUB_OPENERS.length];
+    const topic = request.prompt
+      .replace(/^generate (a|an)?\s*(witty and humorous |philosophical )?tweet( with| about)?\s*/i, '')
+      .replace(/\.$/, '')
+      .trim() || 'life';
+    const text = `${opener} ${topic}. (#${this.calls})`.slice(0, 280);
+
+    const promptTokens = Math.ceil((request.system.length + request.prompt.length) / 4);
+    const completionTokens = Math.ceil(text.length / 4);
+
+    return {
+      text,
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens,
+      cost: 0,
+      model: this.id
+    };
+  }
+
+  /**
+   * Health Check - The stub is always available
+   *
+   * @returns Promise<boolean> - Always true
+   */
+  async healthCheck(): Promise<boolean> {
+    return true;
+  }
+}
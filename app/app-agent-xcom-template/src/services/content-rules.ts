@@ -0,0 +1,210 @@
+/**
+ * Content Rules - Check posts against the persona's content rules
+ *
+ * The persona's contentRules are the one rule set for every path a post
+ * takes: generated content, posts stored in the queue, edits approved by a
+ * reviewer, the pre-publish check and the QA script. Each rule has a severity:
+ * - error: the post is rejected
+ * - warning: the post goes through; the violation is logged and reported
+ * - off: the rule is not checked
+ *
+ * Rules:
+ * - length: tweets up to max characters, the whole post at least min
+ *   (weighted as X counts them)
+ * - banned_words: whole words, case-insensitive
+ * - hashtags: any, only the persona's own or none; at most max per tweet,
+ *   at least required per post
+ * - emojis: any, only the persona's own or none; at most max per tweet
+ * - punctuation: quotes, brackets, runs of ! or ?, and (optionally) a
+ *   finished sentence at the end
+ * - mentions: whether @handles may appear
+ * - urls: at most max per tweet
+ *
+ * Threads are checked tweet by tweet; violations name the segment. Replies
+ * skip the rules that describe a whole post (minimum length, required
+ * hashtags and the finished ending).
+ *
+ * @author Your Name
+ * @version 1.0.0
+ */
+
+import { getPersona, Persona } from '../config/persona';
+import {
+  ContentRuleError,
+  ContentRuleId,
+  ContentRuleReport,
+  ContentRuleSeverity,
+  ContentRuleViolation
+} from '../shared/types';
+import { extractUrls, tweetLength } from '../shared/utils/tweet-length';
+
+const URL_PATTERN = /https?:\/\/\S+/g;
+const HASHTAG_PATTERN = /#\w+/g;
+const MENTION_PATTERN = /(?:^|[^\w@])@(\w{1,15})/g;
+const EMOJI_PATTERN = /\p{Regional_Indicator}{2}|\p{Extended_Pictographic}(?:\uFE0F|\u200D\p{Extended_Pictographic})*/gu;
+const QUOTE_PATTERN = /["“”]/;
+const BRACKET_PATTERN = /[[\](){}]/;
+const TRAILING_HASHTAGS_PATTERN = /(\s*#\w+)+\s*$/;
+const ENDING_PATTERN = /([.!?…]|\p{Extended_Pictographic}\uFE0F?)$/u;
+
+/**
+ * Check Content Rules - Evaluate a post against the persona's content rules
+ *
+ * @param post - Content, and the thread segments if the post is a thread
+ * @param persona - Persona whose rules apply; defaults to the active persona
+ * @param options - reply: check a reply rather than a post
+ * @returns ContentRuleReport - Every violation, and whether any is an error
+ */
+export function checkContentRules(
+  post: { content: string; segments?: string[] },
+  persona: Persona = getPersona(),
+  options: { reply?: boolean } = {}
+): ContentRuleReport {
+  const rules = persona.contentRules;
+  const violations: ContentRuleViolation[] = [];
+  const add = (rule: ContentRuleId, severity: ContentRuleSeverity, message: string, segment?: number) => {
+    if (severity !== 'off') {
+      violations.push({ rule, severity, message, ...(segment !== undefined && { segment }) });
+    }
+  };
+
+  const tweets = post.segments && post.segments.length > 0 ? post.segments : [post.content];
+  const isThread = tweets.length > 1;
+  const personaHashtags = new Set(persona.hashtags.map(tag => tag.toLowerCase()));
+  const personaEmojis = new Set(persona.emojis.map(normalizeEmoji));
+  const bannedWords = rules.bannedWords.terms.map(word => ({
+    word,
+    pattern: new RegExp(`\\b${word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i')
+  }));
+  let hashtagCount = 0;
+
+  tweets.forEach((tweet, index) => {
+    const segment = isThread ? index : undefined;
+    const urls = extractUrls(tweet);
+    // URL fragments and paths are not hashtags or mentions
+    const text = tweet.replace(URL_PATTERN, ' ');
+    const hashtags = text.match(HASHTAG_PATTERN) || [];
+    const mentions = Array.from(text.matchAll(MENTION_PATTERN), match => `@${match[1]}`);
+    const emojis = text.match(EMOJI_PATTERN) || [];
+    hashtagCount += hashtags.length;
+
+    const length = tweetLength(tweet);
+    if (length > rules.length.max) {
+      add('length', rules.length.severity, `Tweet is ${length} characters (max ${rules.length.max})`, segment);
+    }
+
+    for (const { word, pattern } of bannedWords) {
+      if (pattern.test(tweet)) {
+        add('banned_words', rules.bannedWords.severity, `Contains banned word "${word}"`, segment);
+      }
+    }
+
+    if (rules.hashtags.allowed === 'none' && hashtags.length > 0) {
+      add('hashtags', rules.hashtags.severity, `Hashtags are not allowed (${hashtags.join(', ')})`, segment);
+    } else {
+      const foreign = rules.hashtags.allowed === 'persona'
+        ? hashtags.filter(tag => !personaHashtags.has(tag.toLowerCase()))
+        : [];
+      if (foreign.length > 0) {
+        add('hashtags', rules.hashtags.severity, `Hashtags not in the persona: ${foreign.join(', ')}`, segment);
+      }
+      if (hashtags.length > rules.hashtags.max) {
+        add('hashtags', rules.hashtags.severity, `${hashtags.length} hashtags (max ${rules.hashtags.max})`, segment);
+      }
+    }
+
+    if (rules.emojis.allowed === 'none' && emojis.length > 0) {
+      add('emojis', rules.emojis.severity, `Emojis are not allowed (${emojis.join(' ')})`, segment);
+    } else {
+      const foreign = rules.emojis.allowed === 'persona'
+        ? emojis.filter(emoji => !personaEmojis.has(normalizeEmoji(emoji)))
+        : [];
+      if (foreign.length > 0) {
+        add('emojis', rules.emojis.severity, `Emojis not in the persona: ${foreign.join(' ')}`, segment);
+      }
+      if (rules.emojis.max !== undefined && emojis.length > rules.emojis.max) {
+        add('emojis', rules.emojis.severity, `${emojis.length} emojis (max ${rules.emojis.max})`, segment);
+      }
+    }
+
+    const { punctuation } = rules;
+    if (!punctuation.quotes && QUOTE_PATTERN.test(text)) {
+      add('punctuation', punctuation.severity, 'Quotation marks are not allowed', segment);
+    }
+    if (!punctuation.brackets && BRACKET_PATTERN.test(text)) {
+      add('punctuation', punctuation.severity, 'Brackets are not allowed', segment);
+    }
+    if (new RegExp(`([!?])\\1{${punctuation.maxRepeated},}`).test(text)) {
+      add('punctuation', punctuation.severity, `More than ${punctuation.maxRepeated} ! or ? in a row`, segment);
+    }
+
+    if (!rules.mentions.allowed && mentions.length > 0) {
+      add('mentions', rules.mentions.severity, `Mentions are not allowed (${mentions.join(', ')})`, segment);
+    }
+
+    if (urls.length > rules.urls.max) {
+      add('urls', rules.urls.severity, `${urls.length} URLs (max ${rules.urls.max})`, segment);
+    }
+  });
+
+  if (options.reply) {
+    return { valid: !violations.some(violation => violation.severity === 'error'), violations };
+  }
+
+  const length = tweetLength(post.content.trim());
+  if (rules.length.min !== undefined && length < rules.length.min) {
+    add('length', rules.length.severity, `Post is ${length} characters (min ${rules.length.min})`);
+  }
+  if (hashtagCount < rules.hashtags.required) {
+    add('hashtags', rules.hashtags.severity, `${hashtagCount} hashtags (at least ${rules.hashtags.required} required)`);
+  }
+  // Hashtags and links after the last sentence do not count as its ending
+  const ending = tweets[tweets.length - 1].replace(URL_PATTERN, ' ').replace(TRAILING_HASHTAGS_PATTERN, '').trim();
+  if (rules.punctuation.requireEnding && !ENDING_PATTERN.test(ending)) {
+    add('punctuation', rules.punctuation.severity, 'Does not end with a finished sentence');
+  }
+
+  return { valid: !violations.some(violation => violation.severity === 'error'), violations };
+}
+
+/**
+ * Assert Content Rules - Check a post and fail on error violations
+ *
+ * @param post - Content, and the thread segments if the post is a thread
+ * @param persona - Persona whose rules apply; defaults to the active persona
+ * @returns ContentRuleReport - The report, which may still hold warnings
+ * @throws ContentRuleError if any rule with severity "error" is broken
+ */
+export function assertContentRules(
+  post: { content: string; segments?: string[] },
+  persona: Persona = getPersona()
+): ContentRuleReport {
+  const report = checkContentRules(post, persona);
+  if (!report.valid) {
+    const errors = report.violations.filter(violation => violation.severity === 'error');
+    throw new ContentRuleError(`Content rules violated: ${formatViolations(errors)}`, { violations: report.violations });
+  }
+  return report;
+}
+
+/**
+ * Format Violations - One-line summary of rule violations for logs and errors
+ *
+ * @param violations - Violations to describe
+ * @returns string - "rule: message" entries separated by semicolons
+ */
+export function formatViolations(violations: ContentRuleViolation[]): string {
+  return violations
+    .map(violation => `${violation.rule}: ${violation.message}${violation.segment !== undefined ? ` (segment ${violation.segment + 1})` : ''}`)
+    .join('; ');
+}
+
+/**
+ * Normalize Emoji - Drop variation selectors so "⚔" and "⚔️" compare equal
+ *
+ * @param emoji - Emoji sequence
+ * @returns string - The sequence without U+FE0F
+ */
+function normalizeEmoji(emoji: string): string {
+  return emoji.replace(/\uFE0F/g, '');
+}
@@ -0,0 +1,150 @@
+/**
+ * Generation Budget Tracker - Daily and monthly content model spend limits
+ *
+ * This class records the cost and tokens of every content model completion,
+ * keeps bot_stats.total_cost / total_tokens up to date, and tells the
+ * generation pipeline whether another batch may be generated.
+ *
+ * Configuration (all optional, 0 disables a limit):
+ * - GENERATION_DAILY_BUDGET_USD: spend per UTC day (default DEFAULT_DAILY_GENERATION_BUDGET_USD)
+ * - GENERATION_MONTHLY_BUDGET_USD: spend per UTC month (default DEFAULT_MONTHLY_GENERATION_BUDGET_USD)
+ * - GENERATION_BUDGET_WARNING_RATIO: share of a budget that raises a warning (default 0.8)
+ * - MAX_COST_PER_POST_GENERATION / MAX_TOKENS_PER_POST_GENERATION: per-post caps
+ *
+ * @author Your Name
+ * @version 1.0.0
+ */
+
+import { DatabaseConnection } from '../shared/database/connection';
+import { GenerationBudgetPeriod, GenerationBudgetStatus } from '../shared/types';
+import {
+  DEFAULT_DAILY_GENERATION_BUDGET_USD,
+  DEFAULT_GENERATION_BUDGET_WARNING_RATIO,
+  DEFAULT_MONTHLY_GENERATION_BUDGET_USD,
+  MAX_COST_PER_POST_GENERATION,
+  MAX_TOKENS_PER_POST_GENERATION
+} from '../shared/constants';
+import { validateCost, validateTokens } from '../shared/utils/validation';
+import { logger } from '../utils/logger';
+
+/**
+ * Generation Budget Tracker Class
+ */
+export class GenerationBudgetTracker {
+  private botId: string;
+
+  /**
+   * Constructor - Initialize tracker with database connection
+   *
+   * @param db - Database connection instance for persistent storage
+   */
+  constructor(private db: DatabaseConnection) {
+    this.botId = process.env.BOT_NAME || 'template-bot';
+  }
+
+  /**
+   * Record Spend - Store the cost of one completion and add it to bot_stats
+   *
+   * Persistence failures are logged but never fail the generation that
+   * produced the spend.
+   *
+   * @param model - Qualified model ID, e.g. "openai:gpt-4"
+   * @param cost - Cost in USD
+   * @param tokens - Total tokens used
+   */
+  async recordSpend(model: string, cost: number, tokens: number): Promise<void> {
+    try {
+      await this.db.run(`
+        INSERT INTO generation_spend (bot_id, model, cost, tokens)
+        VALUES (?, ?, ?, ?)
+      `, [this.botId, model, cost, tokens]);
+
+      await this.db.run(`
+        UPDATE bot_stats
+        SET total_cost = total_cost + ?,
+            total_tokens = total_tokens + ?,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE bot_id = ?
+      `, [cost, tokens, this.botId]);
+    } catch (error) {
+      logger.error('Failed to record generation spend:', error);
+    }
+  }
+
+  /**
+   * Is Within Post Limits - Check one completion against the per-post caps
+   *
+   * @param cost - Cost of the completion in USD
+   * @param tokens - Tokens used by the completion
+   * @returns boolean - True if both cost and tokens are within the caps
+   */
+  isWithinPostLimits(cost: number, tokens: number): boolean {
+    const maxCost = parseFloat(process.env.MAX_COST_PER_POST_GENERATION || String(MAX_COST_PER_POST_GENERATION));
+    const maxTokens = parseInt(process.env.MAX_TOKENS_PER_POST_GENERATION || String(MAX_TOKENS_PER_POST_GENERATION));
+    return validateCost(cost, maxCost) && validateTokens(tokens, maxTokens);
+  }
+
+  /**
+   * Check Budget - Whether another generation batch may run
+   *
+   * Generation stops once either the daily or the monthly spend reaches its
+   * limit; the state turns to "warning" once either passes the warning ratio.
+   *
+   * @returns Promise<GenerationBudgetStatus> - Spend per period and whether generation is allowed
+   */
+  async checkBudget(): Promise<GenerationBudgetStatus> {
+    const daily = await this.getPeriodSpend(
+      'start of day',
+      parseFloat(process.env.GENERATION_DAILY_BUDGET_USD || String(DEFAULT_DAILY_GENERATION_BUDGET_USD))
+    );
+    const monthly = await this.getPeriodSpend(
+      'start of month',
+      parseFloat(process.env.GENERATION_MONTHLY_BUDGET_USD || String(DEFAULT_MONTHLY_GENERATION_BUDGET_USD))
+    );
+    const warningRatio = parseFloat(
+      process.env.GENERATION_BUDGET_WARNING_RATIO || String(DEFAULT_GENERATION_BUDGET_WARNING_RATIO)
+    );
+
+    const status: GenerationBudgetStatus = { allowed: true, state: 'ok', daily, monthly };
+
+    for (const [name, period] of [['Daily', daily], ['Monthly', monthly]] as const) {
+      if (period.limit_usd <= 0) {
+        continue;
+      }
+      const usage = `$${period.spent_usd.toFixed(4)} of $${period.limit_usd.toFixed(2)}`;
+      if (period.spent_usd >= period.limit_usd) {
+        status.allowed = false;
+        status.state = 'exhausted';
+        status.reason = `${name} generation budget exhausted (${usage})`;
+        break;
+      }
+      if (period.spent_usd >= period.limit_usd * warningRatio && status.state === 'ok') {
+        status.state = 'warning';
+        status.reason = `${name} generation budget nearly spent (${usage})`;
+      }
+    }
+
+    return status;
+  }
+
+  /**
+   * Get Period Spend - Sum recorded spend since the start of a period
+   *
+   * @param modifier - SQLite datetime modifier, "start of day" or "start of month"
+   * @param limit - Budget for the period in USD
+   * @returns Promise<GenerationBudgetPeriod> - Spend, tokens and limit for the period
+   */
+  private async getPeriodSpend(modifier: string, limit: number): Promise<GenerationBudgetPeriod> {
+    const row = await this.db.get(`
+      SELECT COALESCE(SUM(cost), 0) as cost, COALESCE(SUM(tokens), 0) as tokens
+      FROM generation_spend
+      WHERE bot_id = ? AND created_at >= datetime('now', ?)
+    `, [this.botId, modifier]);
+
+    return {
+      spent_usd: row?.cost || 0,
+      limit_usd: isNaN(limit) ? 0 : limit,
+      tokens: row?.tokens || 0
+    };
+  }
+}
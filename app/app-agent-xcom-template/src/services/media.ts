@@ -0,0 +1,166 @@
+/**
+ * Media Validation - Checks for media attached to queued posts
+ *
+ * This module validates local media files before a post is stored or
+ * scheduled, so a post with a missing file, an unsupported format or an
+ * oversize asset never reaches the posting queue.
+ * 
+ * Rules enforced (matching X upload limits):
+ * - Files must exist and be one of SUPPORTED_MEDIA_TYPES
+ * - Images up to 5MB, GIFs up to 15MB, videos up to 512MB
+ * - Every attachment needs alt text (max 1000 characters)
+ * - Up to 4 images per tweet, or a single GIF or video
+ * 
+ * @author Your Name
+ * @version 1.0.0
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { MediaAttachment, MediaError } from '../shared/types';
+import {
+  MAX_ALT_TEXT_LENGTH,
+  MAX_GIF_SIZE_BYTES,
+  MAX_IMAGE_SIZE_BYTES,
+  MAX_MEDIA_PER_TWEET,
+  MAX_VIDEO_SIZE_BYTES,
+  SUPPORTED_MEDIA_TYPES
+} from '../shared/constants';
+
+/**
+ * Resolved media file ready for upload
+ */
+export interface ResolvedMedia extends MediaAttachment {
+  mime_type: string;
+  file_size: number;
+}
+
+/**
+ * Get Media Type - Look up the MIME type for a media file by extension
+ * 
+ * @param filePath - Path to the media file
+ * @returns string | undefined - MIME type, or undefined if unsupported
+ */
+export function getMediaMimeType(filePath: string): string | undefined {
+  return SUPPORTED_MEDIA_TYPES[path.extname(filePath).toLowerCase()];
+}
+
+/**
+ * Get Max Size - Size limit in bytes for a MIME type
+ * 
+ * @param mimeType - MIME type of the media file
+ * @returns number - Maximum allowed file size in bytes
+ */
+function getMaxSizeBytes(mimeType: string): number {
+  if (mimeType === 'image/gif') {
+    return MAX_GIF_SIZE_BYTES;
+  }
+  if (mimeType.startsWith('video/')) {
+    return MAX_VIDEO_SIZE_BYTES;
+  }
+  return MAX_IMAGE_SIZE_BYTES;
+}
+
+/**
+ * Validate Media Attachments - Check a post's media against upload limits
+ * 
+ * @param attachments - Media attached to a single post
+ * @returns Object with validity flag and a list of error messages
+ */
+export function validateMediaAttachments(attachments: MediaAttachment[]): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (attachments.length > MAX_MEDIA_PER_TWEET) {
+    errors.push(`Too many media attachments (max ${MAX_MEDIA_PER_TWEET})`);
+  }
+
+  let animatedCount = 0;
+
+  for (const attachment of attachments) {
+    const label = attachment.path || '(missing path)';
+
+    if (!attachment.alt_text || attachment.alt_text.trim().length === 0) {
+      errors.push(`${label}: alt text is required`);
+    } else if (attachment.alt_text.length > MAX_ALT_TEXT_LENGTH) {
+      errors.push(`${label}: alt text exceeds ${MAX_ALT_TEXT_LENGTH} character limit`);
+    }
+
+    const mimeType = getMediaMimeType(attachment.path);
+    if (!mimeType) {
+      errors.push(`${label}: unsupported media type`);
+      continue;
+    }
+
+    if (mimeType === 'image/gif' || mimeType.startsWith('video/')) {
+      animatedCount++;
+    }
+
+    let stats: fs.Stats;
+    try {
+      stats = fs.statSync(attachment.path);
+    } catch {
+      errors.push(`${label}: file not found`);
+      continue;
+    }
+
+    if (!stats.isFile()) {
+      errors.push(`${label}: not a regular file`);
+    } else if (stats.size === 0) {
+      errors.push(`${label}: file is empty`);
+    } else if (stats.size > getMaxSizeBytes(mimeType)) {
+      errors.push(`${label}: file size ${stats.size} bytes exceeds limit of ${getMaxSizeBytes(mimeType)} bytes`);
+    }
+  }
+
+  if (animatedCount > 0 && attachments.length > 1) {
+    errors.push('GIFs and videos must be the only media attachment on a tweet');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Resolve Media Path - Resolve a media path inside an allowed base directory
+ * 
+ * Used for media paths that arrive over the network, so a request cannot
+ * point the bot at arbitrary files on disk.
+ * 
+ * @param filePath - Media path, relative to the base directory
+ * @param baseDir - Directory media files must live in
+ * @returns string - Absolute path to the media file
+ * @throws MediaError if the path escapes the base directory
+ */
+export function resolveMediaPath(filePath: string, baseDir: string): string {
+  const root = path.resolve(baseDir);
+  const resolved = path.resolve(root, filePath);
+
+  if (!resolved.startsWith(root + path.sep)) {
+    throw new MediaError(`Media path must be inside the media directory: ${filePath}`);
+  }
+
+  return resolved;
+}
+
+/**
+ * Resolve Media Attachments - Validate media and attach MIME type and size
+ * 
+ * @param attachments - Media attached to a single post
+ * @returns ResolvedMedia[] - Attachments with MIME type and file size filled in
+ * @throws MediaError if any attachment fails validation
+ */
+export function resolveMediaAttachments(attachments: MediaAttachment[]): ResolvedMedia[] {
+  const validation = validateMediaAttachments(attachments);
+  if (!validation.isValid) {
+    throw new MediaError(`Invalid media: ${validation.errors.join('; ')}`, { errors: validation.errors });
+  }
+
+  return attachments.map(attachment => ({
+    path: attachment.path,
+    alt_text: attachment.alt_text.trim(),
+    mime_type: getMediaMimeType(attachment.path) as string,
+    file_size: fs.statSync(attachment.path).size
+  }));
+}
@@ -0,0 +1,486 @@
+/**
+ * Template Mention Monitor - Mentions of the account and persona-consistent replies
+ *
+ * Each run polls the mention timeline from a since_id cursor kept in
+ * bot_state, classifies every new mention (question, praise, abuse, spam or
+ * other) and drafts a reply in the persona's voice for questions and praise.
+ * Abuse, spam and everything else is stored and ignored.
+ *
+ * Drafted replies either go out on their own (MENTION_REPLY_MODE=auto) or
+ * wait for a human to approve them (MENTION_REPLY_MODE=approval). Replies are
+ * posted like scheduled posts:
+ * - drafts pass the same cleaning and persona content rules as generated posts
+ * - the local posting budget and the X tweet window are checked before each reply
+ * - every reply is logged in post_logs, so it counts against that budget
+ * - at most MENTION_REPLIES_PER_HOUR replies go out in any rolling hour
+ * - nothing is posted while the bot is paused, in a blackout or in quiet mode
+ *
+ * Approved replies held back by the cap or the budget go out in a later run.
+ * A reply that was posted but could not be recorded is marked failed with its
+ * tweet ID and never posted again.
+ *
+ * @author Your Name
+ * @version 1.0.0
+ */
+
+import { DatabaseConnection } from '../shared/database/connection';
+import {
+  BotError,
+  IncomingMention,
+  MentionCategory,
+  MentionRecord,
+  MentionReplyMode,
+  MentionRunReport,
+  MentionSettings,
+  MentionStatus,
+  TwitterAPIError
+} from '../shared/types';
+import { DEFAULT_MENTION_REPLIES_PER_HOUR, DEFAULT_MENTIONS_INTERVAL_MINUTES } from '../shared/constants';
+import { getPersona } from '../config/persona';
+import { Publisher } from './publishing';
+import { TemplateOpenAIService } from './openai';
+import { MENTIONS_TIMELINE_ENDPOINT, RateLimitTracker } from './rate-limit-tracker';
+import { TemplateBotState } from './bot-state';
+import { parseSqlTimestamp, toSqlTimestamp } from '../shared/utils/sql-timestamp';
+import { logger } from '../utils/logger';
+
+// bot_state key holding the newest mention seen (since_id of the next poll)
+const MENTIONS_CURSOR_KEY = 'mentions_since_id';
+
+const ONE_HOUR_MS = 60 * 60 * 1000;
+
+const MENTION_REPLY_MODES: MentionReplyMode[] = ['auto', 'approval'];
+
+// Categories that get a drafted reply
+export const REPLY_CATEGORIES: MentionCategory[] = ['question', 'praise'];
+
+const SPAM_PATTERN = /\b(giveaway|airdrop|crypto|nft|dm me|dm for|follow back|free followers|promo code|click here|check (out )?my (bio|profile|page)|earn \$?\d+|make money)\b/i;
+const ABUSE_PATTERN = /\b(idiot|stupid|moron|dumb|loser|trash|garbage|pathetic|shut up|hate you|kys|kill yourself)\b/i;
+const QUESTION_PATTERN = /^(how|what|why|when|where|who|which|can|could|would|should|do|does|did|is|are|any)\b/i;
+const PRAISE_PATTERN = /\b(thanks|thank you|thx|love (this|it|that)|great|awesome|amazing|brilliant|well said|so true|insightful|helpful|spot on|nailed it)\b|👏|🙌|❤️|💯/i;
+
+/**
+ * Get Mention Settings - Read MENTIONS_POLLING, MENTIONS_INTERVAL_MINUTES, MENTION_REPLY_MODE and MENTION_REPLIES_PER_HOUR
+ *
+ * @returns MentionSettings - Whether mentions are polled, how often, and how replies go out
+ * @throws Error if a setting is invalid
+ */
+export function getMentionSettings(): MentionSettings {
+  const intervalMinutes = Number(process.env.MENTIONS_INTERVAL_MINUTES || String(DEFAULT_MENTIONS_INTERVAL_MINUTES));
+  if (!Number.isInteger(intervalMinutes) || intervalMinutes < 1 || intervalMinutes > 59) {
+    throw new Error(`Invalid MENTIONS_INTERVAL_MINUTES "${process.env.MENTIONS_INTERVAL_MINUTES}" (expected 1-59 minutes)`);
+  }
+
+  const replyMode = (process.env.MENTION_REPLY_MODE || 'approval') as MentionReplyMode;
+  if (!MENTION_REPLY_MODES.includes(replyMode)) {
+    throw new Error(`Invalid MENTION_REPLY_MODE "${replyMode}" (expected one of: ${MENTION_REPLY_MODES.join(', ')})`);
+  }
+
+  const repliesPerHour = Number(process.env.MENTION_REPLIES_PER_HOUR || String(DEFAULT_MENTION_REPLIES_PER_HOUR));
+  if (!Number.isInteger(repliesPerHour) || repliesPerHour < 0) {
+    throw new Error(`Invalid MENTION_REPLIES_PER_HOUR "${process.env.MENTION_REPLIES_PER_HOUR}" (expected a number >= 0)`);
+  }
+
+  return {
+    enabled: process.env.MENTIONS_POLLING === 'true',
+    interval_minutes: intervalMinutes,
+    reply_mode: replyMode,
+    replies_per_hour: repliesPerHour
+  };
+}
+
+/**
+ * Classify Mention - Decide what a mention is
+ *
+ * Leading @handles (the reply context X adds) are ignored. Spam is checked
+ * first, then abuse (including the persona's banned words), so a hostile
+ * question is never answered.
+ *
+ * @param text - Mention text
+ * @param bannedWords - Words that make a mention abusive (persona content rules)
+ * @returns MentionCategory - question, praise, abuse, spam or other
+ */
+export function classifyMention(text: string, bannedWords: string[] = []): MentionCategory {
+  const body = text.replace(/^(\s*@\w+)+/, '').trim();
+
+  const links = (body.match(/https?:\/\/\S+/g) || []).length;
+  const tags = (body.match(/[#@]\w+/g) || []).length;
+  if (SPAM_PATTERN.test(body) || links > 1 || tags > 4 || (links > 0 && body.replace(/https?:\/\/\S+/g, '').trim().length < 10)) {
+    return 'spam';
+  }
+
+  const banned = bannedWords.some(word =>
+    new RegExp(`\\b${word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i').test(body));
+  if (banned || ABUSE_PATTERN.test(body)) {
+    return 'abuse';
+  }
+
+  // "What a great thread" opens like a question but is praise
+  if (body.includes('?')) {
+    return 'question';
+  }
+  if (PRAISE_PATTERN.test(body)) {
+    return 'praise';
+  }
+  return QUESTION_PATTERN.test(body) ? 'question' : 'other';
+}
+
+/**
+ * Is Newer Tweet ID - Compare X tweet IDs (numeric strings of any length)
+ *
+ * @param id - Tweet ID
+ * @param than - Tweet ID to compare with
+ * @returns boolean - True if id was issued after than
+ */
+function isNewerTweetId(id: string, than: string): boolean {
+  return id.length !== than.length ? id.length > than.length : id > than;
+}
+
+function toMentionRecord(row: any): MentionRecord {
+  return {
+    id: row.id,
+    tweet_id: row.tweet_id,
+    author_id: row.author_id ?? undefined,
+    author_username: row.author_username ?? undefined,
+    text: row.text,
+    conversation_id: row.conversation_id ?? undefined,
+    created_at: row.mentioned_at ? parseSqlTimestamp(row.mentioned_at) : undefined,
+    category: row.category,
+    status: row.status,
+    reply_content: row.reply_content ?? undefined,
+    reply_tweet_id: row.reply_tweet_id ?? undefined,
+    reply_model: row.reply_model ?? undefined,
+    reply_cost: row.reply_cost || 0,
+    error: row.error_message ?? undefined,
+    received_at: parseSqlTimestamp(row.received_at),
+    reviewed_at: row.reviewed_at ? parseSqlTimestamp(row.reviewed_at) : undefined,
+    replied_at: row.replied_at ? parseSqlTimestamp(row.replied_at) : undefined
+  };
+}
+
+/**
+ * Template Mention Monitor Class
+ */
+export class TemplateMentionMonitor {
+  private botId: string;
+  private botState: TemplateBotState;
+
+  /**
+   * Constructor - Initialize monitor
+   *
+   * @param db - Database connection for mentions, post_logs and the cursor
+   * @param publisher - Publisher that reads mentions and posts replies (dry-run publishers have no mentions)
+   * @param openaiService - Content service that drafts replies
+   * @param rateLimitTracker - Tracker holding the X rate limit windows and the posting budget
+   */
+  constructor(
+    private db: DatabaseConnection,
+    private publisher: Publisher,
+    private openaiService: TemplateOpenAIService,
+    private rateLimitTracker: RateLimitTracker
+  ) {
+    this.botId = process.env.BOT_NAME || 'template-bot';
+    this.botState = new TemplateBotState(db);
+  }
+
+  /**
+   * Run - Poll new mentions, draft replies and post the approved ones
+   *
+   * A failed poll or draft ends that step; what is left is picked up by the
+   * next run.
+   *
+   * @param blocked - Why the bot may not post right now (replies are drafted but not posted)
+   * @param now - Current time
+   * @returns Promise<MentionRunReport> - Mentions fetched, replies drafted and posted
+   */
+  async run(blocked?: string, now: Date = new Date()): Promise<MentionRunReport> {
+    const report: MentionRunReport = { fetched: 0, drafted: 0, pending_approval: 0, replied: 0, rate_limited: false };
+    if (!this.publisher.getMentions) {
+      return report;
+    }
+
+    const settings = getMentionSettings();
+    await this.poll(report, now);
+    await this.draftReplies(settings.reply_mode, report);
+
+    if (blocked) {
+      report.blocked = blocked;
+    } else {
+      await this.postApprovedReplies(settings.replies_per_hour, report, now);
+    }
+
+    report.pending_approval = (await this.db.get(
+      'SELECT COUNT(*) AS count FROM mentions WHERE bot_id = ? AND status = ?',
+      [this.botId, 'pending_approval']
+    )).count;
+
+    if (report.fetched > 0 || report.replied > 0) {
+      logger.info(`Mentions: ${report.fetched} new, ${report.drafted} replies drafted, ${report.replied} posted` +
+        (report.pending_approval > 0 ? `, ${report.pending_approval} awaiting approval` : ''));
+    }
+    return report;
+  }
+
+  /**
+   * Get Mentions - Stored mentions, newest first
+   *
+   * @param status - Only mentions with this status
+   * @param limit - Maximum number of mentions
+   * @returns Promise<MentionRecord[]> - Mentions with their drafted replies
+   */
+  async getMentions(status?: MentionStatus, limit: number = 20): Promise<MentionRecord[]> {
+    const rows = await this.db.all(`
+      SELECT * FROM mentions
+      WHERE bot_id = ? ${status ? 'AND status = ?' : ''}
+      ORDER BY id DESC
+      LIMIT ?
+    `, status ? [this.botId, status, limit] : [this.botId, limit]);
+    return rows.map(toMentionRecord);
+  }
+
+  /**
+   * Get Mention - One stored mention
+   *
+   * @param id - Local mention ID
+   * @returns Promise<MentionRecord | null> - The mention, or null if it does not exist
+   */
+  async getMention(id: number): Promise<MentionRecord | null> {
+    const row = await this.db.get('SELECT * FROM mentions WHERE bot_id = ? AND id = ?', [this.botId, id]);
+    return row ? toMentionRecord(row) : null;
+  }
+
+  /**
+   * Review - Approve or reject a drafted reply waiting for a human
+   *
+   * Approved replies are posted by the next run.
+   *
+   * @param id - Local mention ID
+   * @param approved - True to approve, false to reject
+   * @returns Promise<MentionRecord> - The reviewed mention
+   * @throws BotError (MENTION_NOT_FOUND) if the mention does not exist
+   * @throws BotError (MENTION_NOT_PENDING) if its reply is not waiting for approval
+   */
+  async review(id: number, approved: boolean): Promise<MentionRecord> {
+    const mention = await this.getMention(id);
+    if (!mention) {
+      throw new BotError(`Mention ${id} not found`, 'MENTION_NOT_FOUND', false, { mention_id: id });
+    }
+    if (mention.status !== 'pending_approval') {
+      throw new BotError(`Mention ${id} has no reply waiting for approval (status: ${mention.status})`, 'MENTION_NOT_PENDING', false, {
+        mention_id: id,
+        status: mention.status
+      });
+    }
+
+    await this.db.run(`
+      UPDATE mentions SET status = ?, reviewed_at = CURRENT_TIMESTAMP WHERE bot_id = ? AND id = ?
+    `, [approved ? 'approved' : 'rejected', this.botId, id]);
+    logger.info(`Reply to mention ${id} ${approved ? 'approved' : 'rejected'}`);
+    return (await this.getMention(id))!;
+  }
+
+  /**
+   * Poll - Store the mentions that arrived since the cursor
+   *
+   * @param report - Run report to update
+   * @param now - Current time
+   */
+  private async poll(report: MentionRunReport, now: Date): Promise<void> {
+    if (this.rateLimitTracker.getWaitMs(MENTIONS_TIMELINE_ENDPOINT, now) > 0) {
+      report.rate_limited = true;
+      return;
+    }
+
+    const sinceId = await this.botState.get(MENTIONS_CURSOR_KEY);
+    let mentions: IncomingMention[];
+    try {
+      mentions = await this.publisher.getMentions!(sinceId);
+    } catch (error) {
+      report.error = error instanceof Error ? error.message : String(error);
+      report.rate_limited = error instanceof TwitterAPIError && error.context?.statusCode === 429;
+      logger.warn(`Mention poll failed: ${report.error}`);
+      return;
+    }
+
+    const account = this.publisher.account?.replace(/^@/, '').toLowerCase();
+    const bannedWords = getPersona().contentRules.bannedWords.terms;
+    let newest = sinceId;
+
+    await this.db.transaction(async (db) => {
+      for (const mention of mentions) {
+        if (!newest || isNewerTweetId(mention.tweet_id, newest)) {
+          newest = mention.tweet_id;
+        }
+        // The bot never answers itself
+        if (account && mention.author_username?.toLowerCase() === account) {
+          continue;
+        }
+
+        const category = classifyMention(mention.text, bannedWords);
+        const result = await db.run(`
+          INSERT INTO mentions (bot_id, tweet_id, author_id, author_username, text, conversation_id, category, status, mentioned_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+          ON CONFLICT (bot_id, tweet_id) DO NOTHING
+        `, [
+          this.botId,
+          mention.tweet_id,
+          mention.author_id ?? null,
+          mention.author_username ?? null,
+          mention.text,
+          mention.conversation_id ?? null,
+          category,
+          REPLY_CATEGORIES.includes(category) ? 'new' : 'ignored',
+          mention.created_at ? toSqlTimestamp(mention.created_at) : null
+        ]);
+        report.fetched += result.changes || 0;
+      }
+
+      if (newest && newest !== sinceId) {
+        await db.run(`
+          INSERT INTO bot_state (bot_id, key, value) VALUES (?, ?, ?)
+          ON CONFLICT (bot_id, key) DO UPDATE SET value = excluded.value, updated_at = CURRENT_TIMESTAMP
+        `, [this.botId, MENTIONS_CURSOR_KEY, newest]);
+      }
+    });
+  }
+
+  /**
+   * Draft Replies - Write replies for new questions and praise
+   *
+   * A draft that fails validation marks the mention failed; a model error or
+   * an exhausted generation budget stops drafting until the next run.
+   *
+   * @param mode - auto (approved right away) or approval (waits for a human)
+   * @param report - Run report to update
+   */
+  private async draftReplies(mode: MentionReplyMode, report: MentionRunReport): Promise<void> {
+    const rows = await this.db.all(`
+      SELECT * FROM mentions WHERE bot_id = ? AND status = ? ORDER BY id ASC
+    `, [this.botId, 'new']);
+
+    for (const mention of rows.map(toMentionRecord)) {
+      let draft;
+      try {
+        draft = await this.openaiService.draftReply(mention, mention.category);
+      } catch (error) {
+        report.error = error instanceof Error ? error.message : String(error);
+        logger.warn(`Reply drafting stopped: ${report.error}`);
+        return;
+      }
+
+      if (!draft) {
+        await this.db.run(`
+          UPDATE mentions SET status = ?, error_message = ? WHERE id = ?
+        `, ['failed', 'Drafted reply failed content validation', mention.id]);
+        continue;
+      }
+
+      await this.db.run(`
+        UPDATE mentions SET status = ?, reply_content = ?, reply_model = ?, reply_cost = ? WHERE id = ?
+      `, [mode === 'auto' ? 'approved' : 'pending_approval', draft.content, draft.model, draft.cost, mention.id]);
+      report.drafted++;
+    }
+  }
+
+  /**
+   * Post Approved Replies - Post approved replies within the reply cap and posting budget
+   *
+   * @param repliesPerHour - Reply cap per rolling hour
+   * @param report - Run report to update
+   * @param now - Current time
+   */
+  private async postApprovedReplies(repliesPerHour: number, report: MentionRunReport, now: Date): Promise<void> {
+    const rows = await this.db.all(`
+      SELECT * FROM mentions WHERE bot_id = ? AND status = ? ORDER BY id ASC
+    `, [this.botId, 'approved']);
+    if (rows.length === 0) {
+      return;
+    }
+
+    const recent = await this.db.get(`
+      SELECT COUNT(*) AS count FROM mentions WHERE bot_id = ? AND status = ? AND replied_at > ?
+    `, [this.botId, 'replied', toSqlTimestamp(new Date(now.getTime() - ONE_HOUR_MS))]);
+    let remaining = repliesPerHour - recent.count;
+
+    for (const mention of rows.map(toMentionRecord)) {
+      if (remaining <= 0) {
+        logger.info(`Reply cap reached (${repliesPerHour} per hour), ${rows.length - report.replied} approved repl(ies) wait`);
+        report.rate_limited = true;
+        return;
+      }
+      const budget = await this.rateLimitTracker.checkPostingBudget(1);
+      if (!budget.allowed) {
+        logger.info(`${budget.reason}; approved replies wait`);
+        report.rate_limited = true;
+        return;
+      }
+
+      if (!(await this.postReply(mention, report, now))) {
+        return;
+      }
+      remaining--;
+    }
+  }
+
+  /**
+   * Post Reply - Publish one approved reply and log it like a scheduled post
+   *
+   * A reply that went out but could not be recorded is never retried: the
+   * mention keeps the reply's tweet ID and is marked failed.
+   *
+   * @param mention - Approved mention
+   * @param report - Run report to update
+   * @param now - Current time
+   * @returns Promise<boolean> - False if posting should stop for this run
+   */
+  private async postReply(mention: MentionRecord, report: MentionRunReport, now: Date): Promise<boolean> {
+    const startTime = Date.now();
+    let tweetId: string;
+    try {
+      tweetId = await this.publisher.postTweet(mention.reply_content!, { replyToId: mention.tweet_id });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const retryable = !(error instanceof BotError) || error.retryable;
+      await this.db.run(`
+        INSERT INTO post_logs (bot_id, post_id, attempt_number, success, error_message)
+        VALUES (?, NULL, 1, 0, ?)
+      `, [this.botId, message]);
+
+      // Permanent failures (duplicate content, deleted mention) are given up; others are retried next run
+      await this.db.run(`
+        UPDATE mentions SET status = ?, error_message = ? WHERE id = ?
+      `, [retryable ? 'approved' : 'failed', message, mention.id]);
+
+      logger.warn(`Reply to mention ${mention.tweet_id} failed${retryable ? ', retrying next run' : ''}: ${message}`);
+      report.error = message;
+      report.rate_limited = error instanceof TwitterAPIError && error.context?.statusCode === 429;
+      return !retryable;
+    }
+
+    try {
+      await this.db.transaction(async (db) => {
+        await db.run(`
+          INSERT INTO post_logs (bot_id, post_id, attempt_number, success, tweet_id, response_time_ms)
+          VALUES (?, NULL, 1, 1, ?, ?)
+        `, [this.botId, tweetId, Date.now() - startTime]);
+        await db.run(`
+          UPDATE mentions SET status = ?, reply_tweet_id = ?, replied_at = ?, error_message = NULL WHERE id = ?
+        `, ['replied', tweetId, toSqlTimestamp(now), mention.id]);
+      });
+    } catch (error) {
+      // The reply is live: retrying would post it again
+      const message = `Reply ${tweetId} was posted but could not be recorded: ${error instanceof Error ? error.message : String(error)}`;
+      await this.db.run(`
+        UPDATE mentions SET status = ?, reply_tweet_id = ?, replied_at = ?, error_message = ? WHERE id = ?
+      `, ['failed', tweetId, toSqlTimestamp(now), message, mention.id]);
+
+      logger.error(`Reply to mention ${mention.tweet_id} needs attention: ${message}`);
+      report.error = message;
+      return false;
+    }
+
+    logger.info(`Replied to mention ${mention.tweet_id}${mention.author_username ? ` from @${mention.author_username}` : ''}: ${tweetId}`);
+    report.replied++;
+    return true;
+  }
+}
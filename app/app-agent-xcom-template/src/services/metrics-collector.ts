@@ -0,0 +1,308 @@
+/**
+ * Template Metrics Collector - Engagement snapshots of published tweets
+ *
+ * Every tweet in the published-post ledger is looked up at three ages after
+ * it was posted (1h, 24h and 7d) and its public metrics (impressions, likes,
+ * reposts, replies, quotes) are stored as one snapshot per age in
+ * tweet_metrics. Snapshots are only taken close to their age: a snapshot
+ * still missing at twice its age (the bot was down) is given up, so a "24h"
+ * number is never really a 3-day one.
+ *
+ * Lookups respect the X rate limits:
+ * - one GET /2/tweets request covers up to 100 due tweets
+ * - at most METRICS_MAX_REQUESTS_PER_RUN requests per run (every METRICS_INTERVAL_MINUTES)
+ * - no request while the lookup window is exhausted; a 429 ends the run
+ *
+ * Snapshots are summed over a thread's tweets and can be read per post, or
+ * aggregated per category and per persona version at one age.
+ *
+ * @author Your Name
+ * @version 1.0.0
+ */
+
+import { DatabaseConnection } from '../shared/database/connection';
+import {
+  MetricsAge,
+  MetricsCollectionReport,
+  MetricsGroupSummary,
+  MetricsSettings,
+  PostMetrics,
+  TweetMetrics,
+  TwitterAPIError
+} from '../shared/types';
+import {
+  DEFAULT_METRICS_INTERVAL_MINUTES,
+  DEFAULT_METRICS_MAX_REQUESTS_PER_RUN,
+  MAX_METRICS_LOOKUP_IDS
+} from '../shared/constants';
+import { Publisher } from './publishing';
+import { RateLimitTracker, TWEET_LOOKUP_ENDPOINT } from './rate-limit-tracker';
+import { parseSqlTimestamp, toSqlTimestamp } from '../shared/utils/sql-timestamp';
+import { logger } from '../utils/logger';
+
+const ONE_HOUR_MS = 60 * 60 * 1000;
+
+// Ages at which snapshots are taken, in order
+export const METRICS_AGES: Array<{ age: MetricsAge; hours: number }> = [
+  { age: '1h', hours: 1 },
+  { age: '24h', hours: 24 },
+  { age: '7d', hours: 7 * 24 }
+];
+
+// Snapshot due for collection
+export interface DueSnapshot {
+  post_id: number;
+  tweet_id: string;
+  age: MetricsAge;
+}
+
+/**
+ * Get Metrics Settings - Read METRICS_COLLECTION, METRICS_INTERVAL_MINUTES and METRICS_MAX_REQUESTS_PER_RUN
+ *
+ * @returns MetricsSettings - Whether collection runs, how often and how many requests it may make
+ * @throws Error if a setting is invalid
+ */
+export function getMetricsSettings(): MetricsSettings {
+  const intervalMinutes = Number(process.env.METRICS_INTERVAL_MINUTES || String(DEFAULT_METRICS_INTERVAL_MINUTES));
+  if (!Number.isInteger(intervalMinutes) || intervalMinutes < 1 || intervalMinutes > 59) {
+    throw new Error(`Invalid METRICS_INTERVAL_MINUTES "${process.env.METRICS_INTERVAL_MINUTES}" (expected 1-59 minutes)`);
+  }
+
+  const maxRequests = Number(process.env.METRICS_MAX_REQUESTS_PER_RUN || String(DEFAULT_METRICS_MAX_REQUESTS_PER_RUN));
+  if (!Number.isInteger(maxRequests) || maxRequests < 1) {
+    throw new Error(`Invalid METRICS_MAX_REQUESTS_PER_RUN "${process.env.METRICS_MAX_REQUESTS_PER_RUN}" (expected a number >= 1)`);
+  }
+
+  return {
+    enabled: process.env.METRICS_COLLECTION !== 'false',
+    interval_minutes: intervalMinutes,
+    max_requests_per_run: maxRequests
+  };
+}
+
+function toMetrics(row: any): TweetMetrics {
+  return {
+    impressions: row.impressions || 0,
+    likes: row.likes || 0,
+    reposts: row.reposts || 0,
+    replies: row.replies || 0,
+    quotes: row.quotes || 0
+  };
+}
+
+/**
+ * Template Metrics Collector Class
+ */
+export class TemplateMetricsCollector {
+  private botId: string;
+
+  /**
+   * Constructor - Initialize collector
+   *
+   * @param db - Database connection for the ledger and tweet_metrics
+   * @param publisher - Publisher whose tweets are looked up (dry-run publishers have no metrics)
+   * @param rateLimitTracker - Tracker holding the X lookup rate limit window
+   */
+  constructor(
+    private db: DatabaseConnection,
+    private publisher: Publisher,
+    private rateLimitTracker: RateLimitTracker
+  ) {
+    this.botId = process.env.BOT_NAME || 'template-bot';
+  }
+
+  /**
+   * Get Due Snapshots - Snapshots whose age has come and that are not taken yet
+   *
+   * Only live tweets of the current publish mode count, so tweets from an
+   * earlier dry run are never looked up on X.
+   *
+   * @param now - Current time
+   * @returns Promise<DueSnapshot[]> - Due snapshots, oldest tweet first
+   */
+  async getDueSnapshots(now: Date = new Date()): Promise<DueSnapshot[]> {
+    const maxHours = METRICS_AGES[METRICS_AGES.length - 1].hours;
+    const rows = await this.db.all(`
+      SELECT pt.post_id, pt.tweet_id, pt.created_at,
+        (SELECT GROUP_CONCAT(tm.age) FROM tweet_metrics tm WHERE tm.bot_id = pt.bot_id AND tm.tweet_id = pt.tweet_id) AS taken
+      FROM published_tweets pt
+      JOIN published_posts pp ON pp.bot_id = pt.bot_id AND pp.post_id = pt.post_id
+      WHERE pt.bot_id = ? AND pt.deleted_at IS NULL AND pp.publish_mode = ?
+        AND pt.created_at > ? AND pt.created_at <= ?
+      ORDER BY pt.created_at ASC, pt.id ASC
+    `, [
+      this.botId,
+      this.publisher.mode,
+      toSqlTimestamp(new Date(now.getTime() - 2 * maxHours * ONE_HOUR_MS)),
+      toSqlTimestamp(new Date(now.getTime() - METRICS_AGES[0].hours * ONE_HOUR_MS))
+    ]);
+
+    const due: DueSnapshot[] = [];
+    for (const row of rows) {
+      const hoursOld = (now.getTime() - parseSqlTimestamp(row.created_at).getTime()) / ONE_HOUR_MS;
+      const taken: string[] = row.taken ? row.taken.split(',') : [];
+      // The windows [age, 2 x age) do not overlap, so at most one snapshot of a tweet is due
+      const age = METRICS_AGES.find(({ hours }) => hoursOld >= hours && hoursOld < 2 * hours);
+      if (age && !taken.includes(age.age)) {
+        due.push({ post_id: row.post_id, tweet_id: row.tweet_id, age: age.age });
+      }
+    }
+    return due;
+  }
+
+  /**
+   * Collect - Look up due snapshots and store them
+   *
+   * Stops at the per-run request cap, when the X lookup window is exhausted
+   * or when a lookup fails; what is left is picked up by the next run.
+   *
+   * @param now - Current time
+   * @returns Promise<MetricsCollectionReport> - Snapshots due, collected and missing, and why the run stopped
+   */
+  async collect(now: Date = new Date()): Promise<MetricsCollectionReport> {
+    const due = await this.getDueSnapshots(now);
+    const report: MetricsCollectionReport = { due: due.length, collected: 0, missing: 0, requests: 0, rate_limited: false };
+    if (due.length === 0 || !this.publisher.getTweetMetrics) {
+      return report;
+    }
+
+    const { max_requests_per_run: maxRequests } = getMetricsSettings();
+
+    for (let start = 0; start < due.length; start += MAX_METRICS_LOOKUP_IDS) {
+      const waitMs = this.rateLimitTracker.getWaitMs(TWEET_LOOKUP_ENDPOINT, now);
+      if (report.requests >= maxRequests || waitMs > 0) {
+        report.rate_limited = true;
+        break;
+      }
+
+      const batch = due.slice(start, start + MAX_METRICS_LOOKUP_IDS);
+      let metrics: Map<string, TweetMetrics>;
+      try {
+        report.requests++;
+        metrics = await this.publisher.getTweetMetrics(batch.map(snapshot => snapshot.tweet_id));
+      } catch (error) {
+        report.error = error instanceof Error ? error.message : String(error);
+        report.rate_limited = error instanceof TwitterAPIError && error.context?.statusCode === 429;
+        logger.warn(`Metrics collection stopped: ${report.error}`);
+        break;
+      }
+
+      await this.db.transaction(async (db) => {
+        for (const snapshot of batch) {
+          const counts = metrics.get(snapshot.tweet_id);
+          if (!counts) {
+            report.missing++;
+            continue;
+          }
+
+          await db.run(`
+            INSERT INTO tweet_metrics (bot_id, post_id, tweet_id, age, impressions, likes, reposts, replies, quotes, collected_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            ON CONFLICT (bot_id, tweet_id, age) DO NOTHING
+          `, [
+            this.botId,
+            snapshot.post_id,
+            snapshot.tweet_id,
+            snapshot.age,
+            counts.impressions,
+            counts.likes,
+            counts.reposts,
+            counts.replies,
+            counts.quotes,
+            toSqlTimestamp(now)
+          ]);
+          report.collected++;
+        }
+      });
+    }
+
+    if (report.collected > 0 || report.missing > 0) {
+      logger.info(`Collected ${report.collected} of ${report.due} metrics snapshot(s)` +
+        (report.missing > 0 ? `, ${report.missing} tweet(s) no longer on X` : ''));
+    }
+    return report;
+  }
+
+  /**
+   * Get Post Metrics - Snapshots of one post, summed over its tweets
+   *
+   * @param postId - Local post ID
+   * @returns Promise<PostMetrics | null> - Snapshots per age, or null if the post is not in the ledger
+   */
+  async getPostMetrics(postId: number): Promise<PostMetrics | null> {
+    const post = await this.db.get(`
+      SELECT pp.post_id, pp.persona_version, pp.published_at, p.category FROM published_posts pp
+      LEFT JOIN posts p ON p.id = pp.post_id
+      WHERE pp.bot_id = ? AND pp.post_id = ?
+    `, [this.botId, postId]);
+    if (!post) {
+      return null;
+    }
+
+    const rows = await this.db.all(`
+      SELECT age, COUNT(*) AS tweets, MAX(collected_at) AS collected_at,
+        SUM(impressions) AS impressions, SUM(likes) AS likes, SUM(reposts) AS reposts,
+        SUM(replies) AS replies, SUM(quotes) AS quotes
+      FROM tweet_metrics
+      WHERE bot_id = ? AND post_id = ?
+      GROUP BY age
+    `, [this.botId, postId]);
+
+    return {
+      post_id: post.post_id,
+      category: post.category ?? undefined,
+      persona_version: post.persona_version ?? undefined,
+      published_at: post.published_at ? parseSqlTimestamp(post.published_at) : undefined,
+      snapshots: METRICS_AGES
+        .map(({ age }) => rows.find(row => row.age === age))
+        .filter(row => row !== undefined)
+        .map(row => ({
+          age: row.age,
+          tweets: row.tweets,
+          collected_at: parseSqlTimestamp(row.collected_at),
+          ...toMetrics(row)
+        }))
+    };
+  }
+
+  /**
+   * Get Summary - Metrics at one age, aggregated per category or per persona version
+   *
+   * Only posts with a snapshot at that age are counted.
+   *
+   * @param groupBy - 'category' or 'persona'
+   * @param age - Snapshot age to compare
+   * @returns Promise<MetricsGroupSummary[]> - One entry per group, most impressions first
+   */
+  async getSummary(groupBy: 'category' | 'persona', age: MetricsAge = '24h'): Promise<MetricsGroupSummary[]> {
+    const group = groupBy === 'category'
+      ? "COALESCE(p.category, 'uncategorized')"
+      : "COALESCE(CAST(pp.persona_version AS TEXT), 'unknown')";
+
+    const rows = await this.db.all(`
+      SELECT ${group} AS grp, MAX(ps.name) AS persona_name, COUNT(DISTINCT tm.post_id) AS posts,
+        SUM(tm.impressions) AS impressions, SUM(tm.likes) AS likes, SUM(tm.reposts) AS reposts,
+        SUM(tm.replies) AS replies, SUM(tm.quotes) AS quotes
+      FROM tweet_metrics tm
+      JOIN published_posts pp ON pp.bot_id = tm.bot_id AND pp.post_id = tm.post_id
+      LEFT JOIN posts p ON p.id = tm.post_id
+      LEFT JOIN persona_snapshots ps ON ps.bot_id = pp.bot_id AND ps.version = pp.persona_version
+      WHERE tm.bot_id = ? AND tm.age = ?
+      GROUP BY grp
+      ORDER BY impressions DESC, grp ASC
+    `, [this.botId, age]);
+
+    return rows.map(row => {
+      const metrics = toMetrics(row);
+      const engagements = metrics.likes + metrics.reposts + metrics.replies + metrics.quotes;
+      return {
+        group: row.grp,
+        persona_name: groupBy === 'persona' ? row.persona_name ?? undefined : undefined,
+        posts: row.posts,
+        ...metrics,
+        avg_impressions: row.posts > 0 ? metrics.impressions / row.posts : 0,
+        engagement_rate: metrics.impressions > 0 ? engagements / metrics.impressions : 0
+      };
+    });
+  }
+}
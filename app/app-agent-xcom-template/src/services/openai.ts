@@ -1,127 +1,100 @@
 /**
- * Template OpenAI Service - OpenAI API Integration for Content Generation
+ * Template OpenAI Service - LLM Content Generation
  *
- * This class handles all interactions with the OpenAI API for content generation
- * for the X.com Bot Template. It provides functionality for generating posts
- * using GPT models with proper rate limiting, error handling, and content validation.
+ * This class generates posts for the X.com Bot Template with the content model
+ * selected by LLM_PROVIDER (OpenAI, an OpenAI-compatible endpoint, or the
+ * offline stub). It provides batching, prompt construction, content validation
+ * and cost tracking; the provider supplies pricing and token accounting.
  * 
  * Key Features:
- * - OpenAI GPT-4 integration for content generation
+ * - Provider-agnostic generation through the ContentModel interface
  * - Batch processing with rate limit management
  * - Content moderation and validation
- * - Cost tracking and token usage monitoring
+ * - Persona-consistent replies to mentions
+ * - Cost tracking and token usage monitoring from the provider
  * - Comprehensive error handling and retry logic
  * 
  * Dependencies:
- * - openai: Official OpenAI Node.js client
- * - Environment variables for API configuration
+ * - ContentModel implementations in services/content-models
+ * - Environment variables for provider configuration
  * - Personality configuration for content generation
  * 
  * @author Your Name
  * @version 1.0.0
  */
 
-import OpenAI from 'openai';
 import { logger } from '../utils/logger';
-import { OpenAIError, PostGenerationResult } from '../shared/types';
-import { personalityConfig } from '../config/personality';
+import {
+  BudgetExceededError,
+  GenerationBudgetStatus,
+  IncomingMention,
+  MentionCategory,
+  OpenAIError,
+  PostGenerationResult
+} from '../shared/types';
+import { ContentModel } from '../shared/services/content-model';
+import { MAX_TWEET_LENGTH } from '../shared/constants';
+import { truncateTweet, tweetLength } from '../shared/utils/tweet-length';
+import { getPersona, getPersonaTopic } from '../config/persona';
+import { createContentModel } from './content-models';
+import { checkContentRules, formatViolations } from './content-rules';
+import { GenerationBudgetTracker } from './generation-budget';
 
 /**
  * Template OpenAI Service Class
  * 
- * Manages all OpenAI API interactions for content generation. Handles authentication,
- * content generation, rate limiting, and error management for OpenAI operations.
+ * Manages content generation through the configured content model. Handles
+ * initialization, batching, rate limiting, and error management.
  */
 export class TemplateOpenAIService {
-  private client: OpenAI | null = null;
+  private contentModel: ContentModel;
   private isInitialized = false;
 
   /**
-   * Initialize OpenAI Service - Set up API client and test connection
+   * Constructor - Select the content model
    * 
-   * This method initializes the OpenAI API client using the API key from environment
-   * variables. It tests the connection to ensure the credentials are valid and the
+   * @param contentModel - Optional content model; defaults to the one selected by LLM_PROVIDER
+   * @param budget - Optional spend tracker; when set, every batch is checked against the generation budget
+   */
+  constructor(contentModel?: ContentModel, private budget?: GenerationBudgetTracker) {
+    this.contentModel = contentModel || createContentModel();
+  }
+
+  /**
+   * Initialize OpenAI Service - Set up the content model and test connection
+   * 
+   * This method initializes the content model selected by LLM_PROVIDER. Network
+   * providers test their endpoint to ensure credentials are valid and the
    * service is ready for content generation.
    * 
-   * Required Environment Variables:
-   * - OPENAI_API_KEY: OpenAI API key for authentication
-   * - OPENAI_MODEL: Model to use for generation (default: gpt-4)
+   * Environment Variables:
+   * - LLM_PROVIDER: openai (default), openai-compatible, or stub
+   * - LLM_MODEL / OPENAI_MODEL: Model to use for generation (default: gpt-4)
+   * - OPENAI_API_KEY: OpenAI API key (openai provider)
+   * - LLM_BASE_URL: Endpoint for the openai-compatible provider
    * 
    * @throws OpenAIError if initialization fails or credentials are missing
    */
   async initialize(): Promise<void> {
     try {
-      logger.info('Initializing OpenAI service...');
+      logger.info(`Initializing content model (${this.contentModel.provider})...`);
 
-      // Retrieve OpenAI API credentials and configuration
-      const apiKey = process.env.OPENAI_API_KEY;
-      const model = process.env.OPENAI_MODEL || 'gpt-4';
-
-      // Validate that API key is present
-      if (!apiKey) {
-        throw new OpenAIError('Missing OpenAI API key');
-      }
-
-      // Create OpenAI client with API key
-      this.client = new OpenAI({
-        apiKey: apiKey,
-      });
+      await this.contentModel.initialize();
 
-      // Test the connection with a simple request
-      await this.testConnection();
-      
-      logger.info(`OpenAI service initialized with model: ${model}`);
+      logger.info(`Content service initialized with model: ${this.contentModel.id}`);
       this.isInitialized = true;
     } catch (error) {
-      logger.error('Failed to initialize OpenAI service:', error);
+      logger.error('Failed to initialize content model:', error);
       throw new OpenAIError(
-        `OpenAI initialization failed: ${error instanceof Error ? error.message : String(error)}`
+        `Content model initialization failed: ${error instanceof Error ? error.message : String(error)}`
       );
     }
   }
 
   /**
-   * Test Connection - Verify OpenAI API connectivity and credentials
-   * 
-   * This method tests the OpenAI API connection by sending a simple test request.
-   * Used for health checks and credential validation during initialization.
-   * 
-   * @throws OpenAIError if connection test fails
-   */
-  private async testConnection(): Promise<void> {
-    if (!this.client) {
-      throw new OpenAIError('OpenAI client not initialized');
-    }
-
-    try {
-      // Send a simple test request to verify API connectivity
-      const response = await this.client.chat.completions.create({
-        model: process.env.OPENAI_MODEL || 'gpt-4',
-        messages: [
-          {
-            role: 'user',
-            content: 'Hello, this is a test message. Please respond with "OK" if you can see this.'
-          }
-        ],
-        max_tokens: 10,
-        temperature: 0.1
-      });
-
-      // Validate that we received a proper response
-      if (!response.choices[0]?.message?.content) {
-        throw new OpenAIError('No response from OpenAI API');
-      }
-
-      logger.info('OpenAI connection test successful');
-    } catch (error) {
-      throw new OpenAIError(`OpenAI connection test failed: ${error instanceof Error ? error.message : String(error)}`);
-    }
-  }
-
-  /**
-   * Generate Posts - Generate multiple posts using OpenAI API
+   * Generate Posts - Generate multiple posts using the content model
    * 
-   * This method generates a batch of posts using the OpenAI API with proper
+   * This method generates a batch of posts using the content model with proper
    * rate limiting and error handling. It processes posts in smaller batches
    * to avoid rate limits and provides comprehensive error recovery.
    * 
@@ -131,26 +104,35 @@ export class TemplateOpenAIService {
    * @throws OpenAIError if generation fails or service is not initialized
    */
   async generatePosts(batchSize: number, categories: string[]): Promise<PostGenerationResult[]> {
-    if (!this.isInitialized || !this.client) {
+    if (!this.isInitialized) {
       throw new OpenAIError('OpenAI service not initialized');
     }
 
     try {
-      logger.info(`Generating ${batchSize} posts using OpenAI...`);
+      logger.info(`Generating ${batchSize} posts using ${this.contentModel.id}...`);
 
       const posts: PostGenerationResult[] = [];
-      const model = process.env.OPENAI_MODEL || 'gpt-4';
 
       // Generate posts in smaller batches to avoid rate limits
       const batchSizeLimit = 10;
       const totalBatches = Math.ceil(batchSize / batchSizeLimit);
 
       for (let batch = 0; batch < totalBatches; batch++) {
+        // Stop before spending past the daily or monthly budget
+        const budget = await this.getBudgetStatus();
+        if (budget && !budget.allowed) {
+          if (posts.length === 0) {
+            throw new BudgetExceededError(budget.reason || 'Generation budget exhausted', { budget });
+          }
+          logger.warn(`${budget.reason}, stopping after ${posts.length} of ${batchSize} posts`);
+          break;
+        }
+
         const currentBatchSize = Math.min(batchSizeLimit, batchSize - batch * batchSizeLimit);
         
         logger.info(`Generating batch ${batch + 1}/${totalBatches} with ${currentBatchSize} posts...`);
 
-        const batchPosts = await this.generateBatch(currentBatchSize, categories, model);
+        const batchPosts = await this.generateBatch(currentBatchSize, categories);
         posts.push(...batchPosts);
 
         // Add delay between batches to respect rate limits
@@ -164,6 +146,9 @@ export class TemplateOpenAIService {
 
     } catch (error) {
       logger.error('Failed to generate posts:', error);
+      if (error instanceof BudgetExceededError) {
+        throw error;
+      }
       throw new OpenAIError(
         `Failed to generate posts: ${error instanceof Error ? error.message : String(error)}`
       );
@@ -173,20 +158,15 @@ export class TemplateOpenAIService {
   /**
    * Generate Batch - Generate a single batch of posts
    * 
-   * This method generates a single batch of posts using the OpenAI API.
-   * It handles the actual API calls, content validation, and response processing.
+   * This method generates a single batch of posts using the content model.
+   * It handles the actual model calls, content validation, and response processing.
    * 
    * @param batchSize - Number of posts to generate in this batch
    * @param categories - Array of categories to generate posts for
-   * @param model - OpenAI model to use for generation
    * @returns Promise<PostGenerationResult[]> - Array of generated posts
    * @throws OpenAIError if batch generation fails
    */
-  private async generateBatch(batchSize: number, categories: string[], model: string): Promise<PostGenerationResult[]> {
-    if (!this.client) {
-      throw new OpenAIError('OpenAI client not initialized');
-    }
-
+  private async generateBatch(batchSize: number, categories: string[]): Promise<PostGenerationResult[]> {
     try {
       const posts: PostGenerationResult[] = [];
 
@@ -197,30 +177,25 @@ export class TemplateOpenAIService {
         // Create prompt for the specific category
         const prompt = this.createPromptForCategory(category);
         
-        // Generate content using OpenAI API
-        const response = await this.client.chat.completions.create({
-          model: model,
-          messages: [
-            {
-              role: 'system',
-              content: personalityConfig.voice
-            },
-            {
-              role: 'user',
-              content: prompt
-            }
-          ],
+        // Generate content using the content model
+        const completion = await this.contentModel.complete({
+          system: this.createSystemPrompt(),
+          prompt,
           max_tokens: 280, // Twitter character limit
-          temperature: 0.8, // Creative but controlled randomness
-          top_p: 0.9,
-          frequency_penalty: 0.1,
-          presence_penalty: 0.1
+          temperature: 0.8 // Creative but controlled randomness
         });
 
-        const content = response.choices[0]?.message?.content?.trim();
+        await this.budget?.recordSpend(completion.model, completion.cost, completion.total_tokens);
+
+        if (this.budget && !this.budget.isWithinPostLimits(completion.cost, completion.total_tokens)) {
+          logger.warn(`Discarding post from ${completion.model} over per-post limits ($${completion.cost}, ${completion.total_tokens} tokens)`);
+          continue;
+        }
+
+        const content = completion.text;
         
         if (!content) {
-          logger.warn('Empty response from OpenAI, skipping post');
+          logger.warn(`Empty response from ${completion.model}, skipping post`);
           continue;
         }
 
@@ -231,9 +206,9 @@ export class TemplateOpenAIService {
           posts.push({
             content: validatedContent,
             category: category,
-            cost: this.calculateCost(response.usage?.total_tokens || 0, model),
-            tokens_used: response.usage?.total_tokens || 0,
-            model: model
+            cost: completion.cost,
+            tokens_used: completion.total_tokens,
+            model: completion.model
           });
         }
       }
@@ -248,53 +223,85 @@ export class TemplateOpenAIService {
     }
   }
 
+  /**
+   * Draft Reply - Write a reply to a mention in the persona's voice
+   *
+   * The reply goes through the same cleaning and content rules as generated
+   * posts and is checked against the generation budget first.
+   *
+   * @param mention - The mention being answered
+   * @param category - What the mention is (question or praise)
+   * @returns Promise<PostGenerationResult | null> - The reply, or null if it failed validation
+   * @throws BudgetExceededError if the generation budget is exhausted
+   * @throws OpenAIError if generation fails or service is not initialized
+   */
+  async draftReply(mention: IncomingMention, category: MentionCategory): Promise<PostGenerationResult | null> {
+    if (!this.isInitialized) {
+      throw new OpenAIError('OpenAI service not initialized');
+    }
+
+    const budget = await this.getBudgetStatus();
+    if (budget && !budget.allowed) {
+      throw new BudgetExceededError(budget.reason || 'Generation budget exhausted', { budget });
+    }
+
+    try {
+      const author = mention.author_username ? `@${mention.author_username}` : 'someone';
+      const completion = await this.contentModel.complete({
+        system: this.createSystemPrompt(),
+        prompt: category === 'question'
+          ? `${author} asked you: "${mention.text}". Answer in one short reply. Do not start with their handle.`
+          : `${author} wrote to you: "${mention.text}". Thank them in one short, genuine reply. Do not start with their handle.`,
+        max_tokens: 280,
+        temperature: 0.7
+      });
+
+      await this.budget?.recordSpend(completion.model, completion.cost, completion.total_tokens);
+
+      const content = completion.text ? this.validateAndCleanContent(completion.text, true) : null;
+      if (!content) {
+        return null;
+      }
+      return {
+        content,
+        category,
+        cost: completion.cost,
+        tokens_used: completion.total_tokens,
+        model: completion.model
+      };
+    } catch (error) {
+      logger.error('Failed to draft reply:', error);
+      throw new OpenAIError(
+        `Failed to draft reply: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Create System Prompt - Describe the persona to the content model
+   * 
+   * @returns string - Voice, tone and writing style of the active persona
+   */
+  private createSystemPrompt(): string {
+    const persona = getPersona();
+    return `${persona.voice}. Tone: ${persona.tone}. Style: ${persona.writingStyle}.`;
+  }
+
   /**
    * Create Prompt for Category - Generate appropriate prompt for content category
    * 
    * This method creates a specific prompt for generating content in a given category.
-   * It ensures the generated content aligns with the bot's personality and the
-   * specific topic area.
+   * Persona topics may define their own prompt; otherwise the topic name is used.
    * 
-   * @param category - The category to generate content for
+   * @param category - The persona topic key (or free-form category) to generate content for
    * @returns string - Formatted prompt for the category
    */
   private createPromptForCategory(category: string): string {
-    const categoryPrompts: Record<string, string> = {
-      'battle_wisdom': 'Generate a tweet about battle wisdom and combat philosophy.',
-      'life_advice': 'Generate a tweet with life advice and survival tips.',
-      'northern_culture': 'Generate a tweet about culture and traditions.',
-      'friendship': 'Generate a tweet about friendship and loyalty.',
-      'redemption': 'Generate a tweet about redemption and personal growth.',
-      'humor': 'Generate a witty and humorous tweet.',
-      'philosophy': 'Generate a philosophical tweet about life and existence.',
-      'war': 'Generate a tweet about war and its consequences.',
-      'peace': 'Generate a tweet about peace and its value.',
-      'death': 'Generate a tweet about death and mortality.',
-      'honor': 'Generate a tweet about honor and integrity.',
-      'betrayal': 'Generate a tweet about betrayal and trust.',
-      'hope': 'Generate a tweet about hope and perseverance.',
-      'despair': 'Generate a tweet about despair and overcoming it.',
-      'power': 'Generate a tweet about power and its corrupting influence.',
-      'weakness': 'Generate a tweet about weakness and vulnerability.',
-      'strength': 'Generate a tweet about strength and resilience.',
-      'fear': 'Generate a tweet about fear and courage.',
-      'love': 'Generate a tweet about love and relationships.',
-      'hate': 'Generate a tweet about hate and its destructive nature.',
-      'justice': 'Generate a tweet about justice and fairness.',
-      'injustice': 'Generate a tweet about injustice and oppression.',
-      'freedom': 'Generate a tweet about freedom and its value.',
-      'slavery': 'Generate a tweet about slavery and oppression.',
-      'wealth': 'Generate a tweet about wealth and poverty.',
-      'poverty': 'Generate a tweet about poverty and hardship.',
-      'knowledge': 'Generate a tweet about knowledge and wisdom.',
-      'ignorance': 'Generate a tweet about ignorance and its dangers.',
-      'truth': 'Generate a tweet about truth and lies.',
-      'lies': 'Generate a tweet about lies and deception.',
-      'faith': 'Generate a tweet about faith and belief.',
-      'doubt': 'Generate a tweet about doubt and uncertainty.'
-    };
-
-    return categoryPrompts[category] || `Generate a tweet about ${category}.`;
+    const topic = getPersonaTopic(category);
+    if (topic?.prompt) {
+      return topic.prompt;
+    }
+    return `Generate a tweet about ${topic ? topic.name : category}.`;
   }
 
   /**
@@ -305,9 +312,10 @@ export class TemplateOpenAIService {
    * and ensures proper formatting.
    * 
    * @param content - Raw generated content to validate and clean
+   * @param reply - Whether the content is a reply rather than a post
    * @returns string | null - Cleaned content or null if validation fails
    */
-  private validateAndCleanContent(content: string): string | null {
+  private validateAndCleanContent(content: string, reply = false): string | null {
     // Remove any system messages or prefixes
     let cleanedContent = content.replace(/^(System:|Assistant:|User:)/, '').trim();
     
@@ -316,10 +324,11 @@ export class TemplateOpenAIService {
       cleanedContent = cleanedContent.slice(1, -1);
     }
     
-    // Validate length (Twitter limit)
-    if (cleanedContent.length > 280) {
-      logger.warn(`Generated content too long (${cleanedContent.length} chars), truncating`);
-      cleanedContent = cleanedContent.substring(0, 277) + '...';
+    // Validate length (X's weighted character limit)
+    const length = tweetLength(cleanedContent);
+    if (length > MAX_TWEET_LENGTH) {
+      logger.warn(`Generated content too long (${length} chars), truncating`);
+      cleanedContent = truncateTweet(cleanedContent);
     }
     
     // Validate minimum length
@@ -328,39 +337,35 @@ export class TemplateOpenAIService {
       return null;
     }
     
-    // Basic content filtering
-    const inappropriateWords = ['fuck', 'shit', 'ass', 'bitch', 'damn', 'hell', 'crap', 'piss'];
-    const lowerContent = cleanedContent.toLowerCase();
-    
-    for (const word of inappropriateWords) {
-      if (lowerContent.includes(word)) {
-        logger.warn(`Generated content contains inappropriate word: ${word}, skipping`);
-        return null;
-      }
+    // Persona content rules: errors reject the content, warnings are logged
+    const report = checkContentRules({ content: cleanedContent }, getPersona(), { reply });
+    if (!report.valid) {
+      logger.warn(`Generated content breaks content rules (${formatViolations(report.violations)}), skipping`);
+      return null;
+    }
+    if (report.violations.length > 0) {
+      logger.warn(`Generated content has content rule warnings: ${formatViolations(report.violations)}`);
     }
     
     return cleanedContent;
   }
 
   /**
-   * Calculate Cost - Calculate the cost of API usage
+   * Get Content Model - The model that generates posts
    * 
-   * This method calculates the cost of OpenAI API usage based on the number
-   * of tokens used and the model. Used for cost tracking and budgeting.
+   * @returns ContentModel - Configured content model (provider, model ID, pricing)
+   */
+  getContentModel(): ContentModel {
+    return this.contentModel;
+  }
+
+  /**
+   * Get Budget Status - Current generation budget, if a tracker is configured
    * 
-   * @param tokens - Number of tokens used
-   * @param model - OpenAI model used
-   * @returns number - Cost in USD
+   * @returns Promise<GenerationBudgetStatus | null> - Budget status, or null without a tracker
    */
-  private calculateCost(tokens: number, model: string): number {
-    const costPer1kTokens: Record<string, number> = {
-      'gpt-4': 0.03,
-      'gpt-4-turbo': 0.01,
-      'gpt-3.5-turbo': 0.002
-    };
-    
-    const costPerToken = (costPer1kTokens[model] || 0.03) / 1000;
-    return tokens * costPerToken;
+  async getBudgetStatus(): Promise<GenerationBudgetStatus | null> {
+    return this.budget ? this.budget.checkBudget() : null;
   }
 
   /**
@@ -369,6 +374,6 @@ export class TemplateOpenAIService {
    * @returns boolean - True if the service is properly initialized
    */
   isServiceInitialized(): boolean {
-    return this.isInitialized && this.client !== null;
+    return this.isInitialized;
   }
 }
@@ -6,7 +6,7 @@
  * - Marking posts as used
  * - Storing new posts with uniqueness checking
  * - Managing post statistics and metadata
- * - Content validation and deduplication
+ * - Content validation, deduplication and near-duplicate detection
  * 
  * Key Features:
  * - Automatic content hash generation for uniqueness
@@ -18,10 +18,23 @@
  * @version 1.0.0
  */
 
-import { Post, PostGenerationResult } from '../shared/types';
+import {
+  BotError,
+  Post,
+  PostGenerationResult,
+  PostReviewStatus,
+  PostedTweet,
+  SimilarityMatch,
+  SimilarPostError,
+  ThreadProgress
+} from '../shared/types';
 import { DatabaseConnection } from '../shared/database/connection';
+import { parseSqlTimestamp } from '../shared/utils/sql-timestamp';
 import { logger } from '../utils/logger';
 import { createHash } from 'crypto';
+import { resolveMediaAttachments, validateMediaAttachments } from './media';
+import { assertContentRules, checkContentRules, formatViolations } from './content-rules';
+import { getSimilaritySettings, PostFingerprint, TemplateSimilarityChecker } from './similarity';
 
 /**
  * Template Post Manager Class
@@ -32,6 +45,7 @@ import { createHash } from 'crypto';
  */
 export class TemplatePostManager {
   private botId: string;
+  private similarity: TemplateSimilarityChecker;
 
   /**
    * Constructor - Initialize post manager with database connection
@@ -40,6 +54,7 @@ export class TemplatePostManager {
    */
   constructor(private db: DatabaseConnection) {
     this.botId = process.env.BOT_NAME || 'template-bot';
+    this.similarity = new TemplateSimilarityChecker(db);
   }
 
   /**
@@ -68,18 +83,20 @@ export class TemplatePostManager {
    * Get Next Available Post - Retrieve the next unused post for posting
    * 
    * This method retrieves the oldest unused post from the database, ordered
-   * by creation time to ensure fair distribution of content. It transforms
-   * the database row into a proper Post object with correct data types.
+   * by creation time, ignoring categories; the bot picks posts with
+   * TemplatePostSelector, which applies category rotation rules. Only approved
+   * posts are returned. It transforms the database row into a proper Post
+   * object with correct data types.
    * 
    * @returns Promise<Post | null> - The next available post or null if none available
    * @throws Error if database query fails
    */
   async getNextPost(): Promise<Post | null> {
     try {
-      // Query for the oldest unused post for this bot
+      // Query for the oldest unused post for this bot (pinned posts wait for their time)
       const post = await this.db.get(`
         SELECT * FROM posts 
-        WHERE bot_id = ? AND used = 0 
+        WHERE bot_id = ? AND used = 0 AND retired_at IS NULL AND review_status = 'approved' AND scheduled_for IS NULL
         ORDER BY created_at ASC 
         LIMIT 1
       `, [this.botId]);
@@ -89,19 +106,7 @@ export class TemplatePostManager {
       }
 
       // Transform database row to Post object with proper types
-      return {
-        id: post.id,
-        content: post.content,
-        bot_id: post.bot_id,
-        category: post.category,
-        used: Boolean(post.used),
-        used_at: post.used_at ? new Date(post.used_at) : undefined,
-        created_at: new Date(post.created_at),
-        updated_at: new Date(post.updated_at),
-        generation_cost: post.generation_cost,
-        generation_tokens: post.generation_tokens,
-        generation_model: post.generation_model
-      };
+      return this.withMedia(this.mapRowToPost(post));
     } catch (error) {
       logger.error('Failed to get next post:', error);
       throw error;
@@ -112,11 +117,11 @@ export class TemplatePostManager {
    * Mark Post as Used - Update post status after successful posting
    * 
    * This method marks a post as used in the database, recording the timestamp
-   * when it was posted. This prevents the same post from being used again
-   * and provides audit trail for post usage.
+   * when it was posted and the tweet it produced. This prevents the same post
+   * from being used again and provides audit trail for post usage.
    * 
    * @param postId - The ID of the post to mark as used
-   * @param tweetId - Optional Twitter tweet ID for reference
+   * @param tweetId - Tweet the post produced (thread head)
    * @throws Error if database update fails
    */
   async markPostAsUsed(postId: number, tweetId?: string): Promise<void> {
@@ -124,9 +129,9 @@ export class TemplatePostManager {
       // Update post status to used with current timestamp
       await this.db.run(`
         UPDATE posts 
-        SET used = 1, used_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+        SET used = 1, used_at = CURRENT_TIMESTAMP, tweet_id = ?, updated_at = CURRENT_TIMESTAMP
         WHERE id = ? AND bot_id = ?
-      `, [postId, this.botId]);
+      `, [tweetId || null, postId, this.botId]);
 
       logger.info(`Marked post ${postId} as used with tweet ID: ${tweetId}`);
     } catch (error) {
@@ -135,71 +140,444 @@ export class TemplatePostManager {
     }
   }
 
+  /**
+   * Mark Post as Needing Attention - Take a half-recorded thread out of the queue
+   *
+   * Used when a thread segment was posted but its post_logs row could not be
+   * written: resuming from post_logs would post that segment again, so the
+   * post leaves the queue (and the calendar) until someone checks X.
+   *
+   * @param postId - The ID of the thread post
+   * @throws Error if database update fails
+   */
+  async markNeedsAttention(postId: number): Promise<void> {
+    try {
+      await this.db.transaction(async db => {
+        const result = await db.run(`
+          UPDATE posts
+          SET review_status = 'needs_attention', scheduled_for = NULL, updated_at = CURRENT_TIMESTAMP
+          WHERE id = ? AND bot_id = ? AND used = 0 AND review_status = 'approved'
+        `, [postId, this.botId]);
+        if (result.changes) {
+          await db.run(`
+            UPDATE bot_stats SET remaining_posts = remaining_posts - 1, updated_at = CURRENT_TIMESTAMP
+            WHERE bot_id = ?
+          `, [this.botId]);
+        }
+      });
+
+      logger.warn(`Post ${postId} needs attention and was taken out of the queue`);
+    } catch (error) {
+      logger.error('Failed to mark post as needing attention:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get Thread Progress - Find how far a thread got on previous attempts
+   * 
+   * This method reads successful segment rows from post_logs for a post and
+   * returns the contiguous run of posted segments starting at the head, so a
+   * partially posted thread can continue from the next segment.
+   * 
+   * @param postId - The ID of the thread post
+   * @returns Promise<ThreadProgress> - Tweet IDs already posted and the next segment index
+   * @throws Error if database query fails
+   */
+  async getThreadProgress(postId: number): Promise<ThreadProgress> {
+    try {
+      const rows = await this.db.all(`
+        SELECT segment_index, tweet_id FROM post_logs
+        WHERE bot_id = ? AND post_id = ? AND success = 1 AND segment_index IS NOT NULL
+        ORDER BY segment_index ASC, created_at DESC
+      `, [this.botId, postId]);
+
+      const tweetIds: string[] = [];
+      for (const row of rows) {
+        if (row.segment_index === tweetIds.length && row.tweet_id) {
+          tweetIds.push(row.tweet_id);
+        }
+      }
+
+      return { post_id: postId, tweet_ids: tweetIds, next_segment_index: tweetIds.length };
+    } catch (error) {
+      logger.error('Failed to get thread progress:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get Recent Tweets - Most recently published tweets that still exist on X
+   *
+   * Every tweet counts separately, so a thread contributes one tweet per
+   * segment. Tweets already deleted by the kill switch are left out.
+   *
+   * @param limit - Maximum number of tweets
+   * @returns Promise<PostedTweet[]> - Newest tweet first
+   */
+  async getRecentTweets(limit: number): Promise<PostedTweet[]> {
+    try {
+      const rows = await this.db.all(`
+        SELECT tweet_id, post_id, segment_index, MIN(created_at) AS posted_at FROM post_logs
+        WHERE bot_id = ? AND success = 1 AND tweet_id IS NOT NULL AND deleted_at IS NULL
+        GROUP BY tweet_id
+        ORDER BY posted_at DESC, MAX(id) DESC
+        LIMIT ?
+      `, [this.botId, limit]);
+
+      return rows.map(row => ({
+        tweet_id: row.tweet_id,
+        post_id: row.post_id ?? undefined,
+        segment_index: row.segment_index ?? undefined,
+        posted_at: parseSqlTimestamp(row.posted_at)
+      }));
+    } catch (error) {
+      logger.error('Failed to get recent tweets:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark Tweet Deleted - Record that a published tweet was deleted from X
+   *
+   * @param tweetId - The deleted tweet
+   */
+  async markTweetDeleted(tweetId: string): Promise<void> {
+    try {
+      await this.db.run(`
+        UPDATE post_logs SET deleted_at = CURRENT_TIMESTAMP
+        WHERE bot_id = ? AND tweet_id = ? AND deleted_at IS NULL
+      `, [this.botId, tweetId]);
+    } catch (error) {
+      logger.error('Failed to mark tweet as deleted:', error);
+      throw error;
+    }
+  }
+
   /**
    * Store Posts - Store multiple generated posts with uniqueness checking
    * 
    * This method stores a batch of generated posts in the database, ensuring
    * no duplicate content is stored. It uses content hashing to detect duplicates
-   * and only stores unique posts to maintain content quality.
+   * and only stores unique posts to maintain content quality. Posts whose media
+   * attachments fail validation or that break the persona's content rules are
+   * skipped so they never reach the schedule. Near-duplicates of a queued or
+   * recently published post (see services/similarity.ts) are skipped too and
+   * recorded in similarity_rejections with the post they collide with.
    * 
    * @param posts - Array of generated posts to store
+   * @returns Promise<number> - Number of posts actually stored
    * @throws Error if database transaction fails
    */
-  async storePosts(posts: PostGenerationResult[]): Promise<void> {
+  async storePosts(posts: PostGenerationResult[]): Promise<number> {
     try {
       logger.info(`Storing ${posts.length} posts in database...`);
+      let stored = 0;
+
+      // Fingerprints and the index are built first: the transaction must not wait on the embedding model
+      const fingerprints = await this.similarity.fingerprint(posts.map(post => post.content));
+      const index = getSimilaritySettings().enabled ? await this.similarity.loadIndex('pool') : null;
 
       // Use transaction to ensure data integrity
       await this.db.transaction(async (db) => {
-        for (const post of posts) {
-          // Generate content hash for uniqueness checking
-          const contentHash = this.generateContentHash(post.content);
-          
-          // Check if content already exists to prevent duplicates
-          const existing = await db.get(`
-            SELECT id FROM posts 
-            WHERE bot_id = ? AND content_hash = ?
-          `, [this.botId, contentHash]);
-
-          if (!existing) {
-            // Insert new post with all metadata
-            await db.run(`
-              INSERT INTO posts (
-                content, bot_id, used, created_at, updated_at,
-                generation_cost, generation_tokens, generation_model, content_hash
-              ) VALUES (?, ?, 0, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP, ?, ?, ?, ?)
-            `, [
-              post.content,
-              this.botId,
-              post.cost,
-              post.tokens_used,
-              post.model,
-              contentHash
-            ]);
+        for (const [position, post] of posts.entries()) {
+          // Reject posts with missing, unsupported or oversize media
+          if (post.media && post.media.length > 0) {
+            const mediaValidation = validateMediaAttachments(post.media);
+            if (!mediaValidation.isValid) {
+              logger.warn(`Skipping post with invalid media: ${mediaValidation.errors.join('; ')}`);
+              continue;
+            }
+          }
+
+          const report = checkContentRules(post);
+          if (!report.valid) {
+            logger.warn(`Skipping post that breaks content rules: ${formatViolations(report.violations)}`);
+            continue;
+          }
+
+          const match = index?.findMatch(fingerprints[position], post.variant_group);
+          if (match) {
+            logger.warn(`Skipping near-duplicate of post ${match.post_id} (${match.method} similarity ${match.similarity.toFixed(2)}): "${post.content.slice(0, 50)}"`);
+            await this.similarity.recordRejection(db, 'insert', post.content, match);
+            continue;
+          }
+
+          const postId = await this.insertPost(db, post, fingerprints[position]);
+          if (postId === null) {
+            logger.debug(`Skipping duplicate post with hash: ${this.generateContentHash(post.content)}`);
           } else {
-            logger.debug(`Skipping duplicate post with hash: ${contentHash}`);
+            stored++;
+            index?.add({ post_id: postId, variant_group: post.variant_group, ...fingerprints[position] });
           }
         }
       });
 
-      logger.info(`Successfully stored posts in database`);
+      logger.info(`Successfully stored ${stored} of ${posts.length} posts in database`);
+      return stored;
     } catch (error) {
       logger.error('Failed to store posts:', error);
       throw error;
     }
   }
 
+  /**
+   * Add Post - Store a single post, rejecting invalid or duplicate content
+   * 
+   * Unlike storePosts, which silently skips bad entries in a generated batch,
+   * this method is used for hand-written posts (manual posts, API requests)
+   * and fails loudly so the caller can report the problem.
+   * 
+   * @param post - The post to store
+   * @returns Promise<number> - ID of the stored post
+   * @throws MediaError if media attachments fail validation
+   * @throws ContentRuleError if the content breaks the persona's content rules
+   * @throws BotError if the content duplicates an existing post
+   * @throws SimilarPostError if the content is a near-duplicate of a queued or recently published post
+   */
+  async addPost(post: PostGenerationResult): Promise<number> {
+    const [postId] = await this.addPosts([post]);
+    return postId;
+  }
+
+  /**
+   * Add Posts - Store several hand-written posts together, or none of them
+   * 
+   * Used where posts only make sense as a set (the variants of an A/B test):
+   * if any post is invalid or duplicates existing content, nothing is stored.
+   * Posts of the same variant group are not compared with each other.
+   * 
+   * @param posts - The posts to store
+   * @returns Promise<number[]> - IDs of the stored posts, in order
+   * @throws MediaError if media attachments fail validation
+   * @throws ContentRuleError if any content breaks the persona's content rules
+   * @throws BotError if any content duplicates an existing post
+   * @throws SimilarPostError if any content is a near-duplicate of a queued or recently published post
+   */
+  async addPosts(posts: PostGenerationResult[]): Promise<number[]> {
+    for (const post of posts) {
+      if (post.media && post.media.length > 0) {
+        resolveMediaAttachments(post.media);
+      }
+      assertContentRules(post);
+    }
+
+    const fingerprints = await this.similarity.fingerprint(posts.map(post => post.content));
+    const index = getSimilaritySettings().enabled ? await this.similarity.loadIndex('pool') : null;
+
+    const postIds = await this.db.transaction(async db => {
+      const ids: number[] = [];
+      for (const [position, post] of posts.entries()) {
+        const match = index?.findMatch(fingerprints[position], post.variant_group);
+        if (match) {
+          throw this.similarPostError(match, { content: post.content.slice(0, 50) });
+        }
+
+        const postId = await this.insertPost(db, post, fingerprints[position]);
+        if (postId === null) {
+          throw new BotError('Post content duplicates an existing post', 'DUPLICATE_POST', false, {
+            content: post.content.slice(0, 50)
+          });
+        }
+        ids.push(postId);
+        index?.add({ post_id: postId, variant_group: post.variant_group, ...fingerprints[position] });
+      }
+      return ids;
+    });
+
+    logger.info(`Stored post${postIds.length === 1 ? '' : 's'} ${postIds.join(', ')}`);
+    return postIds;
+  }
+
+  /**
+   * Get Post By ID - Retrieve a single post with its media
+   * 
+   * @param postId - The ID of the post to retrieve
+   * @returns Promise<Post | null> - The post or null if not found
+   * @throws Error if database query fails
+   */
+  async getPostById(postId: number): Promise<Post | null> {
+    try {
+      const post = await this.db.get(`
+        SELECT * FROM posts WHERE id = ? AND bot_id = ?
+      `, [postId, this.botId]);
+
+      return post ? this.withMedia(this.mapRowToPost(post)) : null;
+    } catch (error) {
+      logger.error('Failed to get post by ID:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update Post Content - Replace the content of a post that has not gone out
+   *
+   * A thread keeps its segments only if new ones are given; plain content
+   * turns the post into a single tweet.
+   *
+   * @param postId - The post to edit
+   * @param content - New content (a thread's segments joined)
+   * @param segments - New thread segments, if the post is a thread
+   * @throws ContentRuleError if the content breaks the persona's content rules
+   * @throws BotError (DUPLICATE_POST) if the content duplicates another post
+   * @throws SimilarPostError if the content is a near-duplicate of another queued or recently published post
+   */
+  async updatePostContent(postId: number, content: string, segments?: string[]): Promise<void> {
+    assertContentRules({ content, segments });
+
+    const contentHash = this.generateContentHash(content);
+    const existing = await this.db.get(`
+      SELECT id FROM posts WHERE bot_id = ? AND content_hash = ? AND id != ?
+    `, [this.botId, contentHash, postId]);
+    if (existing) {
+      throw new BotError('Post content duplicates an existing post', 'DUPLICATE_POST', false, {
+        post_id: postId,
+        duplicate_of: existing.id
+      });
+    }
+
+    const [fingerprint] = await this.similarity.fingerprint([content]);
+    if (getSimilaritySettings().enabled) {
+      const post = await this.db.get('SELECT variant_group FROM posts WHERE id = ? AND bot_id = ?', [postId, this.botId]);
+      const match = (await this.similarity.loadIndex('pool', postId)).findMatch(fingerprint, post?.variant_group || undefined);
+      if (match) {
+        throw this.similarPostError(match, { post_id: postId });
+      }
+    }
+
+    const { minhash, embedding } = this.similarity.encode(fingerprint);
+    await this.db.run(`
+      UPDATE posts SET content = ?, content_hash = ?, segments = ?, minhash = ?, embedding = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND bot_id = ? AND used = 0
+    `, [
+      content,
+      contentHash,
+      segments && segments.length > 1 ? JSON.stringify(segments) : null,
+      minhash,
+      embedding,
+      postId,
+      this.botId
+    ]);
+  }
+
+  /**
+   * Similar Post Error - Error naming the post a near-duplicate collides with
+   *
+   * @param match - The colliding post
+   * @param context - Details of the rejected post
+   * @returns SimilarPostError - Error for the caller to throw
+   */
+  private similarPostError(match: SimilarityMatch, context: Record<string, unknown>): SimilarPostError {
+    return new SimilarPostError(
+      `Post content is too similar to post ${match.post_id} (${match.method} similarity ${match.similarity.toFixed(2)})`,
+      {
+        ...context,
+        similar_post_id: match.post_id,
+        similar_content: match.content,
+        similarity: match.similarity,
+        method: match.method
+      }
+    );
+  }
+
+  /**
+   * Insert Post - Insert a post and its media unless the content already exists
+   * 
+   * @param db - Database connection (inside the caller's transaction)
+   * @param post - The post to insert
+   * @param fingerprint - Similarity fingerprint of the content
+   * @returns Promise<number | null> - New post ID, or null for duplicate content
+   */
+  private async insertPost(
+    db: DatabaseConnection,
+    post: PostGenerationResult,
+    fingerprint: PostFingerprint
+  ): Promise<number | null> {
+    // Generate content hash for uniqueness checking
+    const contentHash = this.generateContentHash(post.content);
+
+    // Check if content already exists to prevent duplicates
+    const existing = await db.get(`
+      SELECT id FROM posts 
+      WHERE bot_id = ? AND content_hash = ?
+    `, [this.botId, contentHash]);
+
+    if (existing) {
+      return null;
+    }
+
+    // Insert new post with all metadata
+    const { minhash, embedding } = this.similarity.encode(fingerprint);
+    const result = await db.run(`
+      INSERT INTO posts (
+        content, bot_id, category, used, created_at, updated_at,
+        generation_cost, generation_tokens, generation_model, content_hash, segments,
+        variant_group, variant_label, review_status, minhash, embedding
+      ) VALUES (?, ?, ?, 0, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      post.content,
+      this.botId,
+      post.category || null,
+      post.cost,
+      post.tokens_used,
+      post.model,
+      contentHash,
+      post.segments && post.segments.length > 1 ? JSON.stringify(post.segments) : null,
+      post.variant_group || null,
+      post.variant_label || null,
+      post.review_status || 'approved',
+      minhash,
+      embedding
+    ]);
+
+    // Attach media in display order
+    for (const [position, attachment] of resolveMediaAttachments(post.media || []).entries()) {
+      await db.run(`
+        INSERT INTO post_media (post_id, position, file_path, alt_text, mime_type, file_size)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `, [result.lastID, position, attachment.path, attachment.alt_text, attachment.mime_type, attachment.file_size]);
+    }
+
+    return result.lastID;
+  }
+
+  /**
+   * With Media - Load a post's media attachments
+   * 
+   * @param post - The post to load media for
+   * @returns Promise<Post> - The post with media attached (if any)
+   */
+  private async withMedia(post: Post): Promise<Post> {
+    const media = await this.db.all(`
+      SELECT file_path, alt_text, mime_type FROM post_media
+      WHERE post_id = ?
+      ORDER BY position ASC
+    `, [post.id]);
+
+    if (media.length > 0) {
+      post.media = media.map(row => ({
+        path: row.file_path,
+        alt_text: row.alt_text,
+        mime_type: row.mime_type
+      }));
+    }
+
+    return post;
+  }
+
   /**
    * Get Post Count - Get statistics about posts for this bot
    * 
    * This method retrieves comprehensive statistics about posts including
    * total count, used count, and remaining count for monitoring and
-   * decision making about content generation.
+   * decision making about content generation. Retired variants are not
+   * used but do not count as remaining either; posts waiting for review
+   * are counted separately.
    * 
-   * @returns Promise<{total: number, used: number, remaining: number}> - Post statistics
+   * @returns Promise<{total, used, remaining, pending_review}> - Post statistics
    * @throws Error if database query fails
    */
-  async getPostCount(): Promise<{total: number, used: number, remaining: number}> {
+  async getPostCount(): Promise<{total: number, used: number, remaining: number, pending_review: number}> {
     try {
       // Get total post count
       const totalResult = await this.db.get(`
@@ -211,11 +589,23 @@ export class TemplatePostManager {
         SELECT COUNT(*) as count FROM posts WHERE bot_id = ? AND used = 1
       `, [this.botId]);
 
+      // Get remaining post count (only approved posts go out, retired variants never do)
+      const remainingResult = await this.db.get(`
+        SELECT COUNT(*) as count FROM posts
+        WHERE bot_id = ? AND used = 0 AND retired_at IS NULL AND review_status = 'approved'
+      `, [this.botId]);
+
+      // Get count of posts waiting for a reviewer
+      const pendingResult = await this.db.get(`
+        SELECT COUNT(*) as count FROM posts WHERE bot_id = ? AND review_status = 'pending_review'
+      `, [this.botId]);
+
       const total = totalResult.count;
       const used = usedResult.count;
-      const remaining = total - used;
+      const remaining = remainingResult.count;
+      const pending_review = pendingResult.count;
 
-      return { total, used, remaining };
+      return { total, used, remaining, pending_review };
     } catch (error) {
       logger.error('Failed to get post count:', error);
       throw error;
@@ -263,19 +653,7 @@ export class TemplatePostManager {
         LIMIT ?
       `, [this.botId, limit]);
 
-      return posts.map(post => ({
-        id: post.id,
-        content: post.content,
-        bot_id: post.bot_id,
-        category: post.category,
-        used: Boolean(post.used),
-        used_at: post.used_at ? new Date(post.used_at) : undefined,
-        created_at: new Date(post.created_at),
-        updated_at: new Date(post.updated_at),
-        generation_cost: post.generation_cost,
-        generation_tokens: post.generation_tokens,
-        generation_model: post.generation_model
-      }));
+      return posts.map(post => this.mapRowToPost(post));
     } catch (error) {
       logger.error('Failed to get post history:', error);
       throw error;
@@ -297,24 +675,12 @@ export class TemplatePostManager {
     try {
       const posts = await this.db.all(`
         SELECT * FROM posts 
-        WHERE bot_id = ? AND category = ? AND used = 0
+        WHERE bot_id = ? AND category = ? AND used = 0 AND retired_at IS NULL AND review_status = 'approved'
         ORDER BY created_at ASC 
         LIMIT ?
       `, [this.botId, category, limit]);
 
-      return posts.map(post => ({
-        id: post.id,
-        content: post.content,
-        bot_id: post.bot_id,
-        category: post.category,
-        used: Boolean(post.used),
-        used_at: post.used_at ? new Date(post.used_at) : undefined,
-        created_at: new Date(post.created_at),
-        updated_at: new Date(post.updated_at),
-        generation_cost: post.generation_cost,
-        generation_tokens: post.generation_tokens,
-        generation_model: post.generation_model
-      }));
+      return posts.map(post => this.mapRowToPost(post));
     } catch (error) {
       logger.error('Failed to get posts by category:', error);
       throw error;
@@ -371,6 +737,39 @@ export class TemplatePostManager {
     }
   }
 
+  /**
+   * Map Row To Post - Transform a posts table row into a Post object
+   * 
+   * @param row - Raw database row from the posts table
+   * @returns Post - Post object with proper types
+   */
+  private mapRowToPost(row: any): Post {
+    return {
+      id: row.id,
+      content: row.content,
+      bot_id: row.bot_id,
+      category: row.category,
+      used: Boolean(row.used),
+      used_at: row.used_at ? new Date(row.used_at) : undefined,
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at),
+      generation_cost: row.generation_cost,
+      generation_tokens: row.generation_tokens,
+      generation_model: row.generation_model,
+      segments: row.segments ? JSON.parse(row.segments) : undefined,
+      // Stored as UTC "YYYY-MM-DD HH:MM:SS"
+      scheduled_for: row.scheduled_for ? parseSqlTimestamp(row.scheduled_for) : undefined,
+      tweet_id: row.tweet_id || undefined,
+      variant_group: row.variant_group || undefined,
+      variant_label: row.variant_label || undefined,
+      retired_at: row.retired_at ? parseSqlTimestamp(row.retired_at) : undefined,
+      review_status: (row.review_status || 'approved') as PostReviewStatus,
+      reviewed_by: row.reviewed_by || undefined,
+      reviewed_at: row.reviewed_at ? parseSqlTimestamp(row.reviewed_at) : undefined,
+      rejection_reason: row.rejection_reason || undefined
+    };
+  }
+
   /**
    * Generate Content Hash - Create SHA-256 hash of post content
    * 
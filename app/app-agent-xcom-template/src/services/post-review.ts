@@ -0,0 +1,204 @@
+/**
+ * Template Post Reviewer - Human approval of queued posts
+ *
+ * Every post has a review status, and only approved posts are published:
+ *
+ *   draft ──> pending_review ──> approved ──> retired
+ *     │             │               │
+ *     └─────────────┴───────────────┴──> rejected
+ *
+ * Posts written by the content model are stored as pending_review unless
+ * LLM_POST_REVIEW=false; local template posts, manual posts and A/B variants
+ * are approved when stored. A reviewer can approve a post as it is or with
+ * edited content, or reject one or more posts with a reason. Every decision
+ * records who made it and when. Losing A/B variants are retired, and queued
+ * posts that break the persona's content rules are rejected before they are
+ * published.
+ *
+ * Approved posts join the queue straight away (remaining_posts in bot_stats)
+ * and leave it when rejected; a rejected post that was pinned is unpinned.
+ * A thread that stopped after a tweet whose progress could not be recorded
+ * needs attention: it leaves the queue until someone checks X, and can
+ * only be rejected from there.
+ *
+ * @author Your Name
+ * @version 1.0.0
+ */
+
+import { DatabaseConnection } from '../shared/database/connection';
+import { BotError, Post, PostReviewStatus } from '../shared/types';
+import { TemplatePostManager } from './post-manager';
+import { logger } from '../utils/logger';
+
+// Review statuses each status may move to
+const REVIEW_TRANSITIONS: Record<PostReviewStatus, PostReviewStatus[]> = {
+  draft: ['pending_review', 'approved', 'rejected'],
+  pending_review: ['approved', 'rejected'],
+  approved: ['retired', 'rejected'],
+  rejected: [],
+  retired: [],
+  needs_attention: ['rejected']
+};
+
+/**
+ * Requires LLM Post Review - Read LLM_POST_REVIEW
+ *
+ * @returns boolean - True unless LLM_POST_REVIEW is "false"
+ */
+export function requiresLLMPostReview(): boolean {
+  return process.env.LLM_POST_REVIEW !== 'false';
+}
+
+/**
+ * Can Transition - Whether a post may move between two review statuses
+ *
+ * @param from - Current review status
+ * @param to - Requested review status
+ * @returns boolean - True if the state machine allows the move
+ */
+export function canTransition(from: PostReviewStatus, to: PostReviewStatus): boolean {
+  return REVIEW_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Template Post Reviewer Class
+ */
+export class TemplatePostReviewer {
+  private botId: string;
+  private postManager: TemplatePostManager;
+
+  /**
+   * Constructor - Initialize reviewer with database connection
+   *
+   * @param db - Database connection for posts and bot_stats
+   */
+  constructor(private db: DatabaseConnection) {
+    this.botId = process.env.BOT_NAME || 'template-bot';
+    this.postManager = new TemplatePostManager(db);
+  }
+
+  /**
+   * Get Posts - Posts in one review status, oldest first
+   *
+   * @param status - Review status to list
+   * @param limit - Maximum number of posts
+   * @returns Promise<Post[]> - Posts in the order they were stored
+   */
+  async getPosts(status: PostReviewStatus, limit: number): Promise<Post[]> {
+    const rows = await this.db.all(`
+      SELECT id FROM posts WHERE bot_id = ? AND review_status = ?
+      ORDER BY created_at ASC, id ASC
+      LIMIT ?
+    `, [this.botId, status, limit]);
+
+    const posts: Post[] = [];
+    for (const row of rows) {
+      posts.push((await this.postManager.getPostById(row.id))!);
+    }
+    return posts;
+  }
+
+  /**
+   * Approve - Approve a post for publishing, optionally with edited content
+   *
+   * @param postId - Post to approve
+   * @param reviewer - Who approved it
+   * @param edit - Replacement content (a thread's segments joined) and thread segments
+   * @returns Promise<Post> - The approved post
+   * @throws BotError (POST_NOT_FOUND) if the post does not exist
+   * @throws BotError (INVALID_REVIEW_TRANSITION) if the post cannot be approved from its status
+   * @throws BotError (DUPLICATE_POST) if the edited content duplicates another post
+   * @throws ContentRuleError if the edited content breaks the persona's content rules
+   */
+  async approve(postId: number, reviewer: string, edit?: { content: string; segments?: string[] }): Promise<Post> {
+    await this.db.transaction(async db => {
+      await this.assertTransition(postId, 'approved');
+
+      if (edit) {
+        await this.postManager.updatePostContent(postId, edit.content, edit.segments);
+      }
+      await db.run(`
+        UPDATE posts
+        SET review_status = 'approved', reviewed_by = ?, reviewed_at = CURRENT_TIMESTAMP, rejection_reason = NULL,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = ? AND bot_id = ?
+      `, [reviewer, postId, this.botId]);
+      await db.run(`
+        UPDATE bot_stats SET remaining_posts = remaining_posts + 1, updated_at = CURRENT_TIMESTAMP
+        WHERE bot_id = ?
+      `, [this.botId]);
+    });
+
+    logger.info(`Post ${postId} ${edit ? 'edited and ' : ''}approved by ${reviewer}`);
+    return (await this.postManager.getPostById(postId))!;
+  }
+
+  /**
+   * Reject - Reject several posts with one reason, or none of them
+   *
+   * @param postIds - Posts to reject
+   * @param reviewer - Who rejected them
+   * @param reason - Why they were rejected
+   * @returns Promise<Post[]> - The rejected posts, in the order given
+   * @throws BotError (POST_NOT_FOUND) if any post does not exist
+   * @throws BotError (INVALID_REVIEW_TRANSITION) if any post cannot be rejected from its status
+   */
+  async reject(postIds: number[], reviewer: string, reason: string): Promise<Post[]> {
+    const ids = [...new Set(postIds)];
+
+    await this.db.transaction(async db => {
+      let queued = 0;
+      for (const postId of ids) {
+        if (await this.assertTransition(postId, 'rejected') === 'approved') {
+          queued++;
+        }
+      }
+      await db.run(`
+        UPDATE posts
+        SET review_status = 'rejected', reviewed_by = ?, reviewed_at = CURRENT_TIMESTAMP, rejection_reason = ?,
+            scheduled_for = NULL, updated_at = CURRENT_TIMESTAMP
+        WHERE bot_id = ? AND id IN (${ids.map(() => '?').join(', ')})
+      `, [reviewer, reason, this.botId, ...ids]);
+      if (queued > 0) {
+        await db.run(`
+          UPDATE bot_stats SET remaining_posts = remaining_posts - ?, updated_at = CURRENT_TIMESTAMP
+          WHERE bot_id = ?
+        `, [queued, this.botId]);
+      }
+    });
+
+    logger.info(`Post${ids.length === 1 ? '' : 's'} ${ids.join(', ')} rejected by ${reviewer}: ${reason}`);
+    const posts: Post[] = [];
+    for (const postId of ids) {
+      posts.push((await this.postManager.getPostById(postId))!);
+    }
+    return posts;
+  }
+
+  /**
+   * Assert Transition - Check that a post exists and may move to a review status
+   *
+   * @param postId - Post to check
+   * @param to - Requested review status
+   * @returns Promise<PostReviewStatus> - The post's current review status
+   */
+  private async assertTransition(postId: number, to: PostReviewStatus): Promise<PostReviewStatus> {
+    const post = await this.db.get(`
+      SELECT review_status, used FROM posts WHERE id = ? AND bot_id = ?
+    `, [postId, this.botId]);
+    if (!post) {
+      throw new BotError(`Post ${postId} not found`, 'POST_NOT_FOUND', false, { post_id: postId });
+    }
+
+    const from = post.review_status as PostReviewStatus;
+    if (post.used || !canTransition(from, to)) {
+      throw new BotError(
+        `Post ${postId} cannot be ${to} (review status: ${from}${post.used ? ', already posted' : ''})`,
+        'INVALID_REVIEW_TRANSITION',
+        false,
+        { post_id: postId, review_status: from, requested: to }
+      );
+    }
+    return from;
+  }
+}
@@ -0,0 +1,373 @@
+/**
+ * Template Post Selector - Choose the next queued post
+ *
+ * This class picks which unused post the bot publishes next. Categories are
+ * first filtered by the rotation rules, then one category is chosen by the
+ * selection strategy and its oldest unused post is returned.
+ *
+ * Strategies (POST_SELECTION_STRATEGY):
+ * - oldest (default): oldest unused post among the eligible categories
+ * - weighted-random: category drawn at random in proportion to topic weights
+ *   (persona weights, or learned from engagement with TOPIC_WEIGHT_MODE=learned)
+ * - round-robin: next eligible category after the last posted one, in persona topic order
+ *
+ * Rotation rules:
+ * - POST_SELECTION_NO_REPEAT_WITHIN: a category may not repeat within this many posts (0 = off)
+ * - POST_SELECTION_CATEGORY_GAPS: minimum hours between posts per category,
+ *   e.g. "humor:24,leadership:12"; "*" applies to every category
+ *
+ * Pinned posts (scheduled_for set) are never picked; the content calendar
+ * publishes them at their time. Retired variants are never picked, and
+ * variants of a running A/B test wait for a comparable slot (see
+ * TemplateVariantTester).
+ *
+ * If the rules block every category, they are ignored for that pick so the
+ * bot never skips a scheduled post. Every decision is logged and stored in
+ * post_selections with the candidates that were considered.
+ *
+ * @author Your Name
+ * @version 1.0.0
+ */
+
+import { DatabaseConnection } from '../shared/database/connection';
+import { SelectionCandidate, SelectionDecision, SelectionPolicy, SelectionStrategy } from '../shared/types';
+import { parseSqlTimestamp } from '../shared/utils/sql-timestamp';
+import { getPersona } from '../config/persona';
+import { logger } from '../utils/logger';
+import { TemplateTopicOptimizer } from './topic-optimizer';
+import { TemplateVariantTester } from './variant-testing';
+
+const SELECTION_STRATEGIES: SelectionStrategy[] = ['oldest', 'weighted-random', 'round-robin'];
+
+// Category reported for posts stored without one (manual posts, older databases)
+export const UNCATEGORIZED = 'uncategorized';
+
+// Unused posts of one category, as seen by the selector
+interface CategoryQueue extends SelectionCandidate {
+  oldest_created_at: string;
+  oldest_id: number;
+}
+
+/**
+ * Parse Category Gaps - Parse a "category:hours,..." list
+ *
+ * @param value - Comma separated category:hours pairs
+ * @returns Record<string, number> - Minimum hours between posts per category
+ * @throws Error if an entry is not category:hours with non-negative hours
+ */
+export function parseCategoryGaps(value: string): Record<string, number> {
+  const gaps: Record<string, number> = {};
+
+  for (const entry of value.split(',').map(part => part.trim()).filter(Boolean)) {
+    const [category, hours] = entry.split(':').map(part => part.trim());
+    const parsed = Number(hours);
+    if (!category || !hours || isNaN(parsed) || parsed < 0) {
+      throw new Error(`Invalid POST_SELECTION_CATEGORY_GAPS entry "${entry}" (expected category:hours)`);
+    }
+    gaps[category] = parsed;
+  }
+
+  return gaps;
+}
+
+/**
+ * Get Selection Policy - Read the POST_SELECTION_* settings from the environment
+ *
+ * @returns SelectionPolicy - Configured strategy and rotation rules
+ * @throws Error if POST_SELECTION_STRATEGY or POST_SELECTION_CATEGORY_GAPS is invalid
+ */
+export function getSelectionPolicy(): SelectionPolicy {
+  const strategy = (process.env.POST_SELECTION_STRATEGY || 'oldest') as SelectionStrategy;
+  if (!SELECTION_STRATEGIES.includes(strategy)) {
+    throw new Error(
+      `Invalid POST_SELECTION_STRATEGY "${strategy}" (expected one of: ${SELECTION_STRATEGIES.join(', ')})`
+    );
+  }
+
+  const noRepeatWithin = parseInt(process.env.POST_SELECTION_NO_REPEAT_WITHIN || '0');
+
+  return {
+    strategy,
+    no_repeat_within: isNaN(noRepeatWithin) ? 0 : Math.max(0, noRepeatWithin),
+    category_gaps: parseCategoryGaps(process.env.POST_SELECTION_CATEGORY_GAPS || '')
+  };
+}
+
+/**
+ * Template Post Selector Class
+ */
+export class TemplatePostSelector {
+  private botId: string;
+  private topicOptimizer: TemplateTopicOptimizer;
+  private variantTester: TemplateVariantTester;
+
+  /**
+   * Constructor - Initialize selector with database connection
+   *
+   * @param db - Database connection for posts, post_selections, topic weights and variant groups
+   * @param random - Random source for the weighted-random strategy (0 <= n < 1)
+   */
+  constructor(private db: DatabaseConnection, private random: () => number = Math.random) {
+    this.botId = process.env.BOT_NAME || 'template-bot';
+    this.topicOptimizer = new TemplateTopicOptimizer(db);
+    this.variantTester = new TemplateVariantTester(db);
+  }
+
+  /**
+   * Select Next - Choose the next post to publish and explain why
+   *
+   * @param policy - Strategy and rotation rules; defaults to the POST_SELECTION_* settings
+   * @param record - Store the decision in post_selections (false for previews)
+   * @param slotAt - Schedule slot being filled, which variant posts must match
+   * @param exclude - Posts never to pick (posts a dry run already published but left queued)
+   * @returns Promise<SelectionDecision> - Chosen post (null when the queue is empty) and the reasoning
+   * @throws Error if a database query fails
+   */
+  async selectNext(
+    policy: SelectionPolicy = getSelectionPolicy(),
+    record: boolean = true,
+    slotAt?: Date,
+    exclude: number[] = []
+  ): Promise<SelectionDecision> {
+    const waiting = Array.from((await this.variantTester.getWaitingPosts(slotAt)).keys());
+    const excluded = [...waiting, ...exclude];
+    const queues = await this.getCategoryQueues(policy, excluded);
+    const eligible = queues.filter(queue => queue.eligible);
+    const relaxed = eligible.length === 0 && queues.length > 0;
+    const pool = relaxed ? queues : eligible;
+
+    const decision: SelectionDecision = {
+      post_id: null,
+      strategy: policy.strategy,
+      reason: waiting.length > 0
+        ? `No unused posts in the queue (${waiting.length} variant post(s) wait for a comparable slot)`
+        : exclude.length > 0
+          ? `No unused posts in the queue (${exclude.length} post(s) already published in this dry run)`
+          : 'No unused posts in the queue',
+      relaxed,
+      candidates: queues.map(({ category, available, weight, eligible, reason }) => (
+        { category, available, weight, eligible, reason }
+      )),
+      decided_at: new Date()
+    };
+
+    if (pool.length > 0) {
+      const { queue, reason } = await this.pickCategory(policy.strategy, pool, queues);
+      const post = await this.db.get(`
+        SELECT id FROM posts
+        WHERE bot_id = ? AND used = 0 AND retired_at IS NULL AND review_status = 'approved' AND scheduled_for IS NULL AND COALESCE(category, ?) = ?
+          ${this.excludeClause(excluded)}
+        ORDER BY created_at ASC, id ASC
+        LIMIT 1
+      `, [this.botId, UNCATEGORIZED, queue.category, ...excluded]);
+
+      decision.post_id = post.id;
+      decision.category = queue.category;
+      decision.reason = relaxed
+        ? `Rotation rules block all ${queues.length} categories, ignoring them: ${reason}`
+        : reason;
+    }
+
+    logger.info(decision.post_id === null
+      ? `Post selection (${policy.strategy}): ${decision.reason}`
+      : `Selected post ${decision.post_id} [${decision.category}] (${policy.strategy}): ${decision.reason}`);
+
+    if (record) {
+      await this.recordDecision(decision);
+    }
+    return decision;
+  }
+
+  /**
+   * Get Recent Decisions - Latest selection decisions, newest first
+   *
+   * @param limit - Maximum number of decisions to return (default: 10)
+   * @returns Promise<SelectionDecision[]> - Stored decisions with their candidates
+   * @throws Error if database query fails
+   */
+  async getRecentDecisions(limit: number = 10): Promise<SelectionDecision[]> {
+    const rows = await this.db.all(`
+      SELECT * FROM post_selections
+      WHERE bot_id = ?
+      ORDER BY id DESC
+      LIMIT ?
+    `, [this.botId, limit]);
+
+    return rows.map(row => ({
+      post_id: row.post_id,
+      category: row.category || undefined,
+      strategy: row.strategy,
+      reason: row.reason,
+      relaxed: Boolean(row.relaxed),
+      candidates: row.candidates ? JSON.parse(row.candidates) : [],
+      decided_at: parseSqlTimestamp(row.created_at)
+    }));
+  }
+
+  /**
+   * Get Category Queues - Unused posts per category and whether the rules allow each
+   *
+   * @param policy - Rotation rules to apply
+   * @param excluded - Posts that may not go out now (waiting variants, rehearsed posts)
+   * @returns Promise<CategoryQueue[]> - One entry per category with unused posts
+   */
+  private async getCategoryQueues(policy: SelectionPolicy, excluded: number[]): Promise<CategoryQueue[]> {
+    const rows = await this.db.all(`
+      SELECT COALESCE(category, ?) as category, COUNT(*) as available,
+             MIN(created_at) as oldest_created_at, MIN(id) as oldest_id
+      FROM posts
+      WHERE bot_id = ? AND used = 0 AND retired_at IS NULL AND review_status = 'approved' AND scheduled_for IS NULL ${this.excludeClause(excluded)}
+      GROUP BY COALESCE(category, ?)
+    `, [UNCATEGORIZED, this.botId, ...excluded, UNCATEGORIZED]);
+
+    const recent = policy.no_repeat_within > 0 ? await this.getRecentCategories(policy.no_repeat_within) : [];
+    const hoursSince = await this.getHoursSinceLastPost();
+    const weights = await this.topicOptimizer.getWeights();
+
+    return rows.map(row => {
+      const queue: CategoryQueue = {
+        category: row.category,
+        available: row.available,
+        weight: weights[row.category] ?? 1,
+        eligible: true,
+        oldest_created_at: row.oldest_created_at,
+        oldest_id: row.oldest_id
+      };
+
+      const postsAgo = recent.indexOf(row.category) + 1;
+      const gap = policy.category_gaps[row.category] ?? policy.category_gaps['*'];
+      const since = hoursSince[row.category];
+
+      if (postsAgo > 0) {
+        queue.eligible = false;
+        queue.reason = `Posted ${postsAgo} post(s) ago (no repeat within ${policy.no_repeat_within})`;
+      } else if (gap !== undefined && since !== undefined && since < gap) {
+        queue.eligible = false;
+        queue.reason = `Last posted ${since.toFixed(1)}h ago (minimum gap ${gap}h)`;
+      }
+      return queue;
+    });
+  }
+
+  /**
+   * Exclude Clause - SQL condition leaving out posts by ID
+   *
+   * @param postIds - Posts to leave out (bound as parameters)
+   * @returns string - "AND id NOT IN (?, ...)", or nothing for no posts
+   */
+  private excludeClause(postIds: number[]): string {
+    return postIds.length > 0 ? `AND id NOT IN (${postIds.map(() => '?').join(', ')})` : '';
+  }
+
+  /**
+   * Pick Category - Apply the selection strategy to the eligible categories
+   *
+   * @param strategy - Selection strategy
+   * @param pool - Categories to choose from (never empty)
+   * @param queues - Every category with unused posts, eligible or not (round-robin order)
+   * @returns Promise with the chosen category and the reason it was chosen
+   */
+  private async pickCategory(
+    strategy: SelectionStrategy,
+    pool: CategoryQueue[],
+    queues: CategoryQueue[]
+  ): Promise<{ queue: CategoryQueue; reason: string }> {
+    if (strategy === 'weighted-random') {
+      const totalWeight = pool.reduce((sum, queue) => sum + queue.weight, 0);
+      let random = this.random() * totalWeight;
+      const queue = pool.find(candidate => (random -= candidate.weight) < 0) || pool[pool.length - 1];
+      return {
+        queue,
+        reason: `Weighted random pick: weight ${queue.weight} of ${totalWeight} across ${pool.length} eligible categories`
+      };
+    }
+
+    if (strategy === 'round-robin') {
+      // The last category is usually blocked by the rules, so the order covers every category
+      const [last] = await this.getRecentCategories(1);
+      const order = this.getRotationOrder([...queues.map(queue => queue.category), ...(last === undefined ? [] : [last])]);
+      const start = last === undefined ? 0 : order.indexOf(last) + 1;
+      const rotated = [...order.slice(start), ...order.slice(0, start)];
+      const queue = rotated
+        .map(category => pool.find(candidate => candidate.category === category))
+        .find((candidate): candidate is CategoryQueue => candidate !== undefined)!;
+      return {
+        queue,
+        reason: last === undefined
+          ? 'First eligible category in rotation order (nothing posted yet)'
+          : `Next eligible category after "${last}" in rotation order`
+      };
+    }
+
+    const queue = [...pool].sort((a, b) =>
+      a.oldest_created_at.localeCompare(b.oldest_created_at) || a.oldest_id - b.oldest_id
+    )[0];
+    return { queue, reason: `Oldest unused post among ${pool.length} eligible categories` };
+  }
+
+  /**
+   * Get Rotation Order - Persona topics in order, then other categories alphabetically
+   *
+   * @param categories - Categories outside the persona's topics to include
+   * @returns string[] - Ordered categories, each once
+   */
+  private getRotationOrder(categories: string[]): string[] {
+    const topicKeys = getPersona().topics.map(topic => topic.key);
+    const others = [...new Set(categories)].filter(category => !topicKeys.includes(category));
+    return [...topicKeys, ...others.sort((a, b) => a.localeCompare(b))];
+  }
+
+  /**
+   * Get Recent Categories - Categories of the most recently posted posts, newest first
+   *
+   * @param limit - Number of posts to look back
+   * @returns Promise<string[]> - Category per posted post
+   */
+  private async getRecentCategories(limit: number): Promise<string[]> {
+    const rows = await this.db.all(`
+      SELECT COALESCE(category, ?) as category FROM posts
+      WHERE bot_id = ? AND used = 1
+      ORDER BY used_at DESC, id DESC
+      LIMIT ?
+    `, [UNCATEGORIZED, this.botId, limit]);
+
+    return rows.map(row => row.category);
+  }
+
+  /**
+   * Get Hours Since Last Post - Hours since each category was last posted
+   *
+   * @returns Promise<Record<string, number>> - Hours per category that has been posted
+   */
+  private async getHoursSinceLastPost(): Promise<Record<string, number>> {
+    const rows = await this.db.all(`
+      SELECT COALESCE(category, ?) as category,
+             (julianday('now') - julianday(MAX(used_at))) * 24 as hours_since
+      FROM posts
+      WHERE bot_id = ? AND used = 1 AND used_at IS NOT NULL
+      GROUP BY COALESCE(category, ?)
+    `, [UNCATEGORIZED, this.botId, UNCATEGORIZED]);
+
+    return Object.fromEntries(rows.map(row => [row.category, row.hours_since]));
+  }
+
+  /**
+   * Record Decision - Store a selection decision in post_selections
+   *
+   * @param decision - Decision to store
+   */
+  private async recordDecision(decision: SelectionDecision): Promise<void> {
+    await this.db.run(`
+      INSERT INTO post_selections (bot_id, post_id, category, strategy, reason, relaxed, candidates)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `, [
+      this.botId,
+      decision.post_id,
+      decision.category || null,
+      decision.strategy,
+      decision.reason,
+      decision.relaxed ? 1 : 0,
+      JSON.stringify(decision.candidates)
+    ]);
+  }
+}
@@ -0,0 +1,347 @@
+/**
+ * Template Posting Gate - Jitter, blackout windows and quiet mode
+ *
+ * Decides whether the bot may post at a given time:
+ *
+ * - Blackout windows (POSTING_BLACKOUTS) on the schedule timezone's wall
+ *   clock, ";"-separated:
+ *     2026-12-24..2026-12-26                 whole days, end day included
+ *     2026-11-03T18:00..2026-11-04T06:00     exact local times, end excluded
+ *     daily 22:00-06:00                      every night, past midnight
+ *     sat,sun                                whole weekend days
+ *     mon-fri 12:00-13:00                    recurring on weekdays
+ *   A scheduled slot inside a blackout is skipped, or with BLACKOUT_ACTION=defer
+ *   posted once when the blackout ends. Pinned posts wait until it ends.
+ * - Quiet mode: an emergency stop toggled at runtime (PUT /quiet-mode) and
+ *   kept in bot_state across restarts. Nothing is posted while it is on;
+ *   scheduled slots are skipped rather than deferred.
+ * - Jitter (POST_JITTER_MINUTES): scheduled posts go out a random delay of
+ *   up to that many minutes after the slot, so they are not at the same
+ *   second every day.
+ *
+ * @author Your Name
+ * @version 1.0.0
+ */
+
+import { DatabaseConnection } from '../shared/database/connection';
+import {
+  BlackoutAction,
+  BlackoutPeriod,
+  BotError,
+  BlackoutWindow,
+  PostingGateStatus,
+  PostingWindowSettings,
+  QuietMode
+} from '../shared/types';
+import { ONE_MINUTE_MS, SCHEDULE_WEEKDAYS } from '../shared/constants';
+import { fromWallClock, getPostingSchedule, getWallClock } from '../config/schedule';
+import { TemplateBotState } from './bot-state';
+import { logger } from '../utils/logger';
+
+const BLACKOUT_ACTIONS: BlackoutAction[] = ['skip', 'defer'];
+
+// bot_state keys
+const QUIET_MODE_KEY = 'quiet_mode';
+const DEFERRED_SLOT_KEY = 'deferred_slot';
+
+const ONE_DAY_MS = 24 * 60 * ONE_MINUTE_MS;
+
+// Most blackout periods listed for one range
+const MAX_BLACKOUT_PERIODS = 200;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T([01]\d|2[0-3]):[0-5]\d$/;
+const TIME_RANGE_PATTERN = /^(([01]\d|2[0-3]):[0-5]\d)-(([01]\d|2[0-3]):[0-5]\d)$/;
+
+// Local calendar date arithmetic on "YYYY-MM-DD" strings
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00Z`) + days * ONE_DAY_MS).toISOString().slice(0, 10);
+}
+
+function weekdayOf(date: string): number {
+  return new Date(`${date}T00:00Z`).getUTCDay();
+}
+
+// Parse "daily", "sat,sun", "mon-fri" into weekday numbers
+function parseDays(value: string): number[] | null {
+  if (value === 'daily') {
+    return [0, 1, 2, 3, 4, 5, 6];
+  }
+
+  const days = new Set<number>();
+  for (const part of value.split(',')) {
+    const [first, last = first] = part.split('-').map(day => SCHEDULE_WEEKDAYS.indexOf(day as typeof SCHEDULE_WEEKDAYS[number]));
+    if (first === -1 || last === -1) {
+      return null;
+    }
+    // Ranges may wrap around the week, e.g. fri-mon
+    for (let offset = 0; offset <= (last - first + 7) % 7; offset++) {
+      days.add((first + offset) % 7);
+    }
+  }
+  return [...days].sort((a, b) => a - b);
+}
+
+/**
+ * Parse Blackouts - Read a POSTING_BLACKOUTS value
+ *
+ * @param value - ";"-separated date ranges and recurring windows
+ * @returns BlackoutWindow[] - Parsed windows in the order given
+ * @throws Error if an entry cannot be parsed
+ */
+export function parseBlackouts(value: string): BlackoutWindow[] {
+  return value.split(';').map(entry => entry.trim()).filter(Boolean).map(entry => {
+    const invalid = () => new Error(
+      `Invalid POSTING_BLACKOUTS entry "${entry}" (expected YYYY-MM-DD..YYYY-MM-DD, ` +
+      'YYYY-MM-DDTHH:MM..YYYY-MM-DDTHH:MM or "<days> [HH:MM-HH:MM]")'
+    );
+
+    if (entry.includes('..')) {
+      const [start, end] = entry.split('..').map(part => part.trim());
+      const dates = DATE_PATTERN.test(start) && DATE_PATTERN.test(end);
+      if (!dates && !(DATE_TIME_PATTERN.test(start) && DATE_TIME_PATTERN.test(end))) {
+        throw invalid();
+      }
+      const window = dates
+        ? { label: entry, start: `${start}T00:00`, end: `${addDays(end, 1)}T00:00` }
+        : { label: entry, start, end };
+      if (isNaN(Date.parse(`${window.start}Z`)) || isNaN(Date.parse(`${window.end}Z`)) || window.start >= window.end) {
+        throw invalid();
+      }
+      return window;
+    }
+
+    const [dayList, times] = entry.toLowerCase().split(/\s+/);
+    const days = parseDays(dayList);
+    const range = times === undefined ? ['', '00:00', '', '00:00'] : TIME_RANGE_PATTERN.exec(times);
+    if (!days || !range || entry.split(/\s+/).length > 2) {
+      throw invalid();
+    }
+    return { label: entry, start: range[1], end: range[3], days };
+  });
+}
+
+/**
+ * Get Posting Window Settings - Read jitter and blackout settings from the environment
+ *
+ * @returns PostingWindowSettings - Configured jitter, blackout action and windows
+ * @throws Error if any setting is invalid
+ */
+export function getPostingWindowSettings(): PostingWindowSettings {
+  const jitterMinutes = Number(process.env.POST_JITTER_MINUTES || '0');
+  if (!Number.isFinite(jitterMinutes) || jitterMinutes < 0) {
+    throw new Error(`Invalid POST_JITTER_MINUTES "${process.env.POST_JITTER_MINUTES}" (expected minutes >= 0)`);
+  }
+
+  const action = (process.env.BLACKOUT_ACTION || 'skip') as BlackoutAction;
+  if (!BLACKOUT_ACTIONS.includes(action)) {
+    throw new Error(`Invalid BLACKOUT_ACTION "${action}" (expected one of: ${BLACKOUT_ACTIONS.join(', ')})`);
+  }
+
+  return {
+    jitter_minutes: jitterMinutes,
+    blackout_action: action,
+    blackouts: parseBlackouts(process.env.POSTING_BLACKOUTS || '')
+  };
+}
+
+/**
+ * Get Blackout Periods - Occurrences of blackout windows that overlap a range
+ *
+ * @param windows - Blackout windows
+ * @param timezone - IANA timezone the windows are in
+ * @param from - Start of the range
+ * @param to - End of the range
+ * @returns BlackoutPeriod[] - Overlapping periods by start time (at most 200)
+ */
+export function getBlackoutPeriods(windows: BlackoutWindow[], timezone: string, from: Date, to: Date): BlackoutPeriod[] {
+  const periods: BlackoutPeriod[] = [];
+  const addPeriod = (label: string, start: string, end: string) => {
+    const period = { label, start: fromWallClock(start, timezone), end: fromWallClock(end, timezone) };
+    if (period.start < to && period.end > from) {
+      periods.push(period);
+    }
+  };
+
+  // Recurring windows last at most a day, so start the day before the range
+  const firstDay = addDays(getWallClock(from, timezone).slice(0, 10), -1);
+  const lastDay = getWallClock(to, timezone).slice(0, 10);
+
+  for (const window of windows) {
+    if (!window.days) {
+      addPeriod(window.label, window.start, window.end);
+      continue;
+    }
+    for (let day = firstDay; day <= lastDay && periods.length < MAX_BLACKOUT_PERIODS; day = addDays(day, 1)) {
+      if (window.days.includes(weekdayOf(day))) {
+        const endDay = window.end > window.start ? day : addDays(day, 1);
+        addPeriod(window.label, `${day}T${window.start}`, `${endDay}T${window.end}`);
+      }
+    }
+  }
+
+  return periods.sort((a, b) => a.start.getTime() - b.start.getTime()).slice(0, MAX_BLACKOUT_PERIODS);
+}
+
+/**
+ * Template Posting Gate Class
+ */
+export class TemplatePostingGate {
+  private state: TemplateBotState;
+
+  /**
+   * Constructor - Initialize gate with database connection
+   *
+   * @param db - Database connection for bot_state
+   * @param random - Random source for jitter (tests pass a fixed one)
+   */
+  constructor(db: DatabaseConnection, private random: () => number = Math.random) {
+    this.state = new TemplateBotState(db);
+  }
+
+  /**
+   * Get Jitter Ms - Random delay for one scheduled post
+   *
+   * @returns number - Milliseconds between 0 and POST_JITTER_MINUTES
+   */
+  getJitterMs(): number {
+    return Math.floor(this.random() * getPostingWindowSettings().jitter_minutes * ONE_MINUTE_MS);
+  }
+
+  /**
+   * Get Quiet Mode - Current quiet mode (expired quiet mode reads as off)
+   *
+   * @param now - Current time
+   * @returns Promise<QuietMode> - Quiet mode state
+   */
+  async getQuietMode(now: Date = new Date()): Promise<QuietMode> {
+    const stored = await this.state.get(QUIET_MODE_KEY);
+    if (!stored) {
+      return { enabled: false };
+    }
+
+    const quiet = JSON.parse(stored);
+    const until = quiet.until ? new Date(quiet.until) : undefined;
+    if (!quiet.enabled || (until && until <= now)) {
+      return { enabled: false };
+    }
+    return { enabled: true, reason: quiet.reason, since: new Date(quiet.since), until };
+  }
+
+  /**
+   * Set Quiet Mode - Turn the emergency stop on or off
+   *
+   * @param enabled - True to stop all posting
+   * @param reason - Why (shown in /stats and the logs)
+   * @param until - Optional time at which quiet mode ends by itself (none: until turned off)
+   * @returns Promise<QuietMode> - The new quiet mode state
+   * @throws BotError (INVALID_QUIET_MODE) if until is not in the future
+   */
+  async setQuietMode(enabled: boolean, reason?: string, until?: Date): Promise<QuietMode> {
+    // A quiet mode that has already ended would report itself on and block nothing
+    if (enabled && until && !(until.getTime() > Date.now())) {
+      throw new BotError('Quiet mode can only end at a future time', 'INVALID_QUIET_MODE', false, { until: until.toString() });
+    }
+    const quiet = enabled ? { enabled, reason, since: new Date(), until } : { enabled: false };
+    await this.state.set(QUIET_MODE_KEY, JSON.stringify(quiet));
+
+    if (enabled) {
+      logger.warn(`Quiet mode on${reason ? `: ${reason}` : ''}${until ? ` (until ${until.toISOString()})` : ''}`);
+    } else {
+      logger.info('Quiet mode off');
+    }
+    return quiet;
+  }
+
+  /**
+   * Check - Whether the bot may post at a time
+   *
+   * @param at - Time to check
+   * @param settings - Blackout settings (default: from the environment)
+   * @returns Promise<PostingGateStatus> - Allowed, or the quiet mode / blackout that blocks posting
+   */
+  async check(at: Date = new Date(), settings: PostingWindowSettings = getPostingWindowSettings()): Promise<PostingGateStatus> {
+    const quietMode = await this.getQuietMode(at);
+    if (quietMode.enabled) {
+      return {
+        allowed: false,
+        reason: `Quiet mode is on${quietMode.reason ? `: ${quietMode.reason}` : ''}`,
+        quiet_mode: quietMode,
+        resume_at: quietMode.until
+      };
+    }
+
+    if (settings.blackouts.length === 0) {
+      return { allowed: true, quiet_mode: quietMode };
+    }
+
+    const timezone = getPostingSchedule().timezone;
+    const periods = getBlackoutPeriods(settings.blackouts, timezone, new Date(at.getTime() - ONE_DAY_MS), new Date(at.getTime() + 31 * ONE_DAY_MS));
+    const blackout = periods.find(period => period.start <= at && period.end > at);
+    if (!blackout) {
+      return { allowed: true, quiet_mode: quietMode };
+    }
+
+    // Back-to-back windows: resume when none of them covers the time any more
+    let resumeAt = blackout.end;
+    for (let next = periods.find(period => period.start <= resumeAt && period.end > resumeAt); next; ) {
+      resumeAt = next.end;
+      next = periods.find(period => period.start <= resumeAt && period.end > resumeAt);
+    }
+
+    return {
+      allowed: false,
+      reason: `Blackout "${blackout.label}" until ${resumeAt.toISOString()}`,
+      quiet_mode: quietMode,
+      blackout,
+      resume_at: resumeAt
+    };
+  }
+
+  /**
+   * Defer Slot - Remember a blacked-out slot to post when the blackout ends
+   *
+   * Only one slot is deferred at a time, so a long blackout produces one post.
+   *
+   * @param slotAt - Slot that was blacked out
+   * @param notBefore - End of the blackout
+   * @returns Promise<Date | null> - The slot already deferred if there is one, otherwise null
+   */
+  async deferSlot(slotAt: Date, notBefore: Date): Promise<Date | null> {
+    const pending = await this.getDeferredSlot();
+    if (pending) {
+      return pending.slot_at;
+    }
+    await this.state.set(DEFERRED_SLOT_KEY, JSON.stringify({ slot_at: slotAt, not_before: notBefore }));
+    return null;
+  }
+
+  /**
+   * Get Deferred Slot - The slot waiting for a blackout to end, if any
+   *
+   * @returns Promise<Object | null> - Slot time and the earliest time to post it
+   */
+  async getDeferredSlot(): Promise<{ slot_at: Date; not_before: Date } | null> {
+    const stored = await this.state.get(DEFERRED_SLOT_KEY);
+    if (!stored) {
+      return null;
+    }
+    const deferred = JSON.parse(stored);
+    return { slot_at: new Date(deferred.slot_at), not_before: new Date(deferred.not_before) };
+  }
+
+  /**
+   * Take Due Deferred Slot - Claim the deferred slot once posting is allowed again
+   *
+   * @param now - Current time
+   * @returns Promise<Date | null> - The deferred slot to post now, or null
+   */
+  async takeDueDeferredSlot(now: Date = new Date()): Promise<Date | null> {
+    const deferred = await this.getDeferredSlot();
+    if (!deferred || deferred.not_before > now || !(await this.check(now)).allowed) {
+      return null;
+    }
+    await this.state.delete(DEFERRED_SLOT_KEY);
+    return deferred.slot_at;
+  }
+}
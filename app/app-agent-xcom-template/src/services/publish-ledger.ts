@@ -0,0 +1,221 @@
+/**
+ * Template Publish Ledger - Which queued post produced which tweets
+ *
+ * post_logs records every attempt; the ledger keeps one row per queued post
+ * that was sent to a publisher, with its final status, the account and
+ * publish mode, the number of attempts and every tweet it produced (one per
+ * thread segment). It answers "what did the bot publish", lets a post be
+ * deleted from X by its local ID, and gives metrics collection the tweet
+ * IDs to look up.
+ *
+ * Statuses:
+ * - published: every tweet of the post is live
+ * - partial: a thread stopped part way (the next run resumes it unless the post needs attention)
+ * - failed: nothing was published
+ * - deleted: every tweet of the post was deleted from X
+ *
+ * @author Your Name
+ * @version 1.0.0
+ */
+
+import { DatabaseConnection } from '../shared/database/connection';
+import { PublishedPostRecord, PublishedPostStatus, PublishMode } from '../shared/types';
+import { parseSqlTimestamp } from '../shared/utils/sql-timestamp';
+
+/**
+ * Outcome of one executePost run, as recorded in the ledger
+ */
+export interface PublishOutcome {
+  tweet_ids: string[];  // Tweets posted so far, in thread order (empty if none)
+  complete: boolean;    // True if the whole post is published
+  attempts: number;     // Posting attempts made in this run
+  error?: string;
+  account?: string;
+  publish_mode: PublishMode;
+  persona_version?: number;  // Persona the bot is running with
+}
+
+/**
+ * Template Publish Ledger Class
+ */
+export class TemplatePublishLedger {
+  private botId: string;
+
+  /**
+   * Constructor - Initialize ledger with database connection
+   *
+   * @param db - Database connection for published_posts and published_tweets
+   */
+  constructor(private db: DatabaseConnection) {
+    this.botId = process.env.BOT_NAME || 'template-bot';
+  }
+
+  /**
+   * Record - Store the outcome of a posting run for a post
+   *
+   * Attempts add up across runs; the status, error and account are those of
+   * the latest run. A failed run never downgrades a post that is already
+   * (partly) published.
+   *
+   * @param postId - Queued post that was published (or attempted)
+   * @param outcome - Tweets posted, attempts and error
+   * @returns Promise<PublishedPostStatus> - The post's status after this run
+   */
+  async record(postId: number, outcome: PublishOutcome): Promise<PublishedPostStatus> {
+    const status: PublishedPostStatus = outcome.complete
+      ? 'published'
+      : outcome.tweet_ids.length > 0 ? 'partial' : 'failed';
+
+    await this.db.transaction(async (db) => {
+      await db.run(`
+        INSERT INTO published_posts (
+          bot_id, post_id, status, account, publish_mode, tweet_id, attempts, error_message, persona_version, published_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ${outcome.complete ? 'CURRENT_TIMESTAMP' : 'NULL'})
+        ON CONFLICT (bot_id, post_id) DO UPDATE SET
+          status = CASE
+            WHEN excluded.status = 'failed' AND published_posts.status IN ('published', 'partial') THEN published_posts.status
+            ELSE excluded.status
+          END,
+          account = COALESCE(excluded.account, published_posts.account),
+          publish_mode = excluded.publish_mode,
+          tweet_id = COALESCE(published_posts.tweet_id, excluded.tweet_id),
+          attempts = published_posts.attempts + excluded.attempts,
+          error_message = excluded.error_message,
+          persona_version = COALESCE(published_posts.persona_version, excluded.persona_version),
+          published_at = COALESCE(published_posts.published_at, excluded.published_at),
+          updated_at = CURRENT_TIMESTAMP
+      `, [
+        this.botId,
+        postId,
+        status,
+        outcome.account || null,
+        outcome.publish_mode,
+        outcome.tweet_ids[0] || null,
+        outcome.attempts,
+        outcome.error || null,
+        outcome.persona_version ?? null
+      ]);
+
+      for (const [index, tweetId] of outcome.tweet_ids.entries()) {
+        await db.run(`
+          INSERT INTO published_tweets (bot_id, post_id, tweet_id, segment_index) VALUES (?, ?, ?, ?)
+          ON CONFLICT (bot_id, tweet_id) DO NOTHING
+        `, [this.botId, postId, tweetId, index]);
+      }
+    });
+
+    return status;
+  }
+
+  /**
+   * Get Entry - Ledger entry of one post
+   *
+   * @param postId - Local post ID
+   * @returns Promise<PublishedPostRecord | null> - The entry, or null if the post was never sent to a publisher
+   */
+  async getEntry(postId: number): Promise<PublishedPostRecord | null> {
+    const [entry] = await this.query('AND pp.post_id = ?', [postId], 1, 0);
+    return entry || null;
+  }
+
+  /**
+   * Get Published - Ledger entries, most recently published first
+   *
+   * @param limit - Maximum number of entries
+   * @param offset - Entries to skip (paging)
+   * @param status - Only entries with this status
+   * @returns Promise<PublishedPostRecord[]> - Entries with their tweets, content and category
+   */
+  async getPublished(limit: number = 20, offset: number = 0, status?: PublishedPostStatus): Promise<PublishedPostRecord[]> {
+    return status ? this.query('AND pp.status = ?', [status], limit, offset) : this.query('', [], limit, offset);
+  }
+
+  /**
+   * Get Live Tweets - Tweets of a post that have not been deleted
+   *
+   * @param postId - Local post ID
+   * @returns Promise<string[]> - Tweet IDs in thread order
+   */
+  async getLiveTweets(postId: number): Promise<string[]> {
+    const rows = await this.db.all(`
+      SELECT tweet_id FROM published_tweets
+      WHERE bot_id = ? AND post_id = ? AND deleted_at IS NULL
+      ORDER BY segment_index ASC
+    `, [this.botId, postId]);
+    return rows.map(row => row.tweet_id);
+  }
+
+  /**
+   * Mark Tweets Deleted - Record tweets deleted from X
+   *
+   * A post whose tweets are all deleted becomes 'deleted'.
+   *
+   * @param tweetIds - Deleted tweets
+   */
+  async markTweetsDeleted(tweetIds: string[]): Promise<void> {
+    if (tweetIds.length === 0) {
+      return;
+    }
+
+    await this.db.transaction(async (db) => {
+      await db.run(`
+        UPDATE published_tweets SET deleted_at = CURRENT_TIMESTAMP
+        WHERE bot_id = ? AND deleted_at IS NULL AND tweet_id IN (${tweetIds.map(() => '?').join(', ')})
+      `, [this.botId, ...tweetIds]);
+
+      await db.run(`
+        UPDATE published_posts SET status = 'deleted', deleted_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+        WHERE bot_id = ? AND status != 'deleted'
+          AND EXISTS (SELECT 1 FROM published_tweets pt WHERE pt.bot_id = published_posts.bot_id AND pt.post_id = published_posts.post_id)
+          AND NOT EXISTS (
+            SELECT 1 FROM published_tweets pt
+            WHERE pt.bot_id = published_posts.bot_id AND pt.post_id = published_posts.post_id AND pt.deleted_at IS NULL
+          )
+      `, [this.botId]);
+    });
+  }
+
+  /**
+   * Query - Read ledger entries with their tweets
+   *
+   * @param where - Extra conditions on published_posts (pp)
+   * @param params - Parameters for the conditions
+   * @param limit - Maximum number of entries
+   * @param offset - Entries to skip
+   * @returns Promise<PublishedPostRecord[]> - Most recently published (then attempted) first
+   */
+  private async query(where: string, params: unknown[], limit: number, offset: number): Promise<PublishedPostRecord[]> {
+    const rows = await this.db.all(`
+      SELECT pp.*, p.content, p.category FROM published_posts pp
+      LEFT JOIN posts p ON p.id = pp.post_id
+      WHERE pp.bot_id = ? ${where}
+      ORDER BY COALESCE(pp.published_at, pp.updated_at) DESC, pp.id DESC
+      LIMIT ? OFFSET ?
+    `, [this.botId, ...params, limit, offset]);
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const tweets = await this.db.all(`
+      SELECT post_id, tweet_id FROM published_tweets
+      WHERE bot_id = ? AND post_id IN (${rows.map(() => '?').join(', ')})
+      ORDER BY segment_index ASC
+    `, [this.botId, ...rows.map(row => row.post_id)]);
+
+    return rows.map(row => ({
+      post_id: row.post_id,
+      status: row.status,
+      account: row.account || undefined,
+      publish_mode: row.publish_mode,
+      tweet_id: row.tweet_id || undefined,
+      tweet_ids: tweets.filter(tweet => tweet.post_id === row.post_id).map(tweet => tweet.tweet_id),
+      attempts: row.attempts,
+      error: row.error_message || undefined,
+      published_at: row.published_at ? parseSqlTimestamp(row.published_at) : undefined,
+      deleted_at: row.deleted_at ? parseSqlTimestamp(row.deleted_at) : undefined,
+      content: row.content ?? undefined,
+      category: row.category ?? undefined,
+      persona_version: row.persona_version ?? undefined
+    }));
+  }
+}
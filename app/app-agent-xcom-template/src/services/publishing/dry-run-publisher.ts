@@ -0,0 +1,160 @@
+/**
+ * Dry-Run Publisher - Publish tweets to a local outbox instead of X
+ *
+ * This publisher lets a persona be rehearsed end-to-end without touching the
+ * live account. Tweets go through the same content and media validation as
+ * the live publisher and are written to the outbox table (and optionally a
+ * JSON Lines file) with a generated tweet ID.
+ *
+ * Key Features:
+ * - Same content and media validation as live posting
+ * - Outbox table with generated "dry-run-" tweet IDs
+ * - Optional JSON Lines outbox file (DRY_RUN_OUTBOX_FILE)
+ * - Thread replies recorded with their reply target
+ * - Posts already in the outbox, so a dry run that leaves posts queued
+ *   (DRY_RUN_MARK_USED=false) can move on through the queue
+ *
+ * @author Your Name
+ * @version 1.0.0
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { DatabaseConnection } from '../../shared/database/connection';
+import { PublishedTweet, PublishMode } from '../../shared/types';
+import { parseSqlTimestamp } from '../../shared/utils/sql-timestamp';
+import { logger } from '../../utils/logger';
+import { resolveMediaAttachments } from '../media';
+import { assertPublishableContent, PostTweetOptions, Publisher } from './publisher';
+
+/**
+ * Dry-Run Publisher Class
+ *
+ * Records every tweet in the outbox table so posting behaviour (cadence,
+ * threads, media, stats) can be reviewed before going live.
+ */
+export class DryRunPublisher implements Publisher {
+  readonly mode: PublishMode = 'dry-run';
+  private botId: string;
+  private sequence = 0;
+
+  /**
+   * Constructor - Initialize publisher with database connection
+   *
+   * @param db - Database connection instance for the outbox table
+   * @param outboxFile - Optional JSON Lines file that also receives every tweet
+   */
+  constructor(
+    private db: DatabaseConnection,
+    private outboxFile: string | undefined = process.env.DRY_RUN_OUTBOX_FILE
+  ) {
+    this.botId = process.env.BOT_NAME || 'template-bot';
+  }
+
+  /**
+   * Initialize Publisher - Prepare the outbox file directory
+   */
+  async initialize(): Promise<void> {
+    if (this.outboxFile) {
+      fs.mkdirSync(path.dirname(this.outboxFile), { recursive: true });
+    }
+    logger.info(`Dry-run publishing enabled: tweets go to the outbox${this.outboxFile ? ` and ${this.outboxFile}` : ''}, not X`);
+  }
+
+  /**
+   * Post Tweet - Validate and record a tweet in the outbox
+   *
+   * @param content - The tweet content (max 280 characters)
+   * @param options - Optional reply target and media attachments
+   * @returns Promise<string> - Generated tweet ID ("dry-run-...")
+   * @throws TwitterAPIError if content is invalid
+   * @throws MediaError if attached media fails validation
+   */
+  async postTweet(content: string, options: PostTweetOptions = {}): Promise<string> {
+    assertPublishableContent(content);
+    const media = options.media && options.media.length > 0
+      ? resolveMediaAttachments(options.media)
+      : undefined;
+
+    const tweet: PublishedTweet = {
+      tweet_id: `dry-run-${Date.now()}-${++this.sequence}`,
+      content,
+      reply_to_id: options.replyToId,
+      media,
+      created_at: new Date()
+    };
+
+    await this.db.run(`
+      INSERT INTO outbox (bot_id, tweet_id, content, reply_to_id, media)
+      VALUES (?, ?, ?, ?, ?)
+    `, [
+      this.botId,
+      tweet.tweet_id,
+      tweet.content,
+      tweet.reply_to_id ?? null,
+      tweet.media ? JSON.stringify(tweet.media) : null
+    ]);
+
+    if (this.outboxFile) {
+      fs.appendFileSync(this.outboxFile, `${JSON.stringify({ bot_id: this.botId, ...tweet })}\n`);
+    }
+
+    logger.info(`[dry-run] Recorded tweet ${tweet.tweet_id}${tweet.reply_to_id ? ` (reply to ${tweet.reply_to_id})` : ''}`);
+    return tweet.tweet_id;
+  }
+
+  /**
+   * Delete Tweet - Remove a tweet from the outbox
+   *
+   * @param tweetId - The outbox tweet ID
+   * @returns Promise<boolean> - True if the tweet was in the outbox
+   */
+  async deleteTweet(tweetId: string): Promise<boolean> {
+    const result = await this.db.run(
+      'DELETE FROM outbox WHERE bot_id = ? AND tweet_id = ?',
+      [this.botId, tweetId]
+    );
+    return result.changes > 0;
+  }
+
+  /**
+   * Get Rehearsed Post IDs - Queued posts that already have a tweet in the outbox
+   *
+   * Deleting a post's tweets from the outbox makes it pickable again.
+   *
+   * @returns Promise<number[]> - Local post IDs
+   */
+  async getRehearsedPostIds(): Promise<number[]> {
+    const rows = await this.db.all(`
+      SELECT DISTINCT pt.post_id FROM published_tweets pt
+      JOIN outbox o ON o.bot_id = pt.bot_id AND o.tweet_id = pt.tweet_id
+      WHERE pt.bot_id = ?
+      ORDER BY pt.post_id
+    `, [this.botId]);
+    return rows.map(row => row.post_id);
+  }
+
+  /**
+   * Get Outbox - Most recent tweets recorded by the dry-run publisher
+   *
+   * @param limit - Maximum number of tweets to return
+   * @returns Promise<PublishedTweet[]> - Tweets, newest first
+   */
+  async getOutbox(limit: number = 50): Promise<PublishedTweet[]> {
+    const rows = await this.db.all(`
+      SELECT tweet_id, content, reply_to_id, media, created_at
+      FROM outbox
+      WHERE bot_id = ?
+      ORDER BY id DESC
+      LIMIT ?
+    `, [this.botId, limit]);
+
+    return rows.map(row => ({
+      tweet_id: row.tweet_id,
+      content: row.content,
+      reply_to_id: row.reply_to_id || undefined,
+      media: row.media ? JSON.parse(row.media) : undefined,
+      created_at: parseSqlTimestamp(row.created_at)
+    }));
+  }
+}
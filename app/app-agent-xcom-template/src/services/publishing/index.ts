@@ -0,0 +1,57 @@
+/**
+ * Publishing - Publisher selection
+ *
+ * PUBLISH_MODE selects where tweets go:
+ * - live (default): the X account, via TemplateTwitterService
+ * - dry-run: the local outbox table (and DRY_RUN_OUTBOX_FILE, if set)
+ * - memory: an in-memory list, for tests
+ *
+ * @author Your Name
+ * @version 1.0.0
+ */
+
+import { DatabaseConnection } from '../../shared/database/connection';
+import { PublishMode } from '../../shared/types';
+import { TemplateTwitterService } from '../twitter';
+import { RateLimitTracker } from '../rate-limit-tracker';
+import { DryRunPublisher } from './dry-run-publisher';
+import { InMemoryPublisher } from './memory-publisher';
+import { Publisher } from './publisher';
+
+export * from './publisher';
+export { DryRunPublisher } from './dry-run-publisher';
+export { InMemoryPublisher } from './memory-publisher';
+
+const PUBLISH_MODES: PublishMode[] = ['live', 'dry-run', 'memory'];
+
+/**
+ * Get Publish Mode - Read PUBLISH_MODE from the environment
+ *
+ * @returns PublishMode - Configured mode, "live" when unset
+ * @throws Error if PUBLISH_MODE is not a known mode
+ */
+export function getPublishMode(): PublishMode {
+  const mode = (process.env.PUBLISH_MODE || 'live') as PublishMode;
+  if (!PUBLISH_MODES.includes(mode)) {
+    throw new Error(`Invalid PUBLISH_MODE "${mode}" (expected one of: ${PUBLISH_MODES.join(', ')})`);
+  }
+  return mode;
+}
+
+/**
+ * Create Publisher - Build the publisher selected by PUBLISH_MODE
+ *
+ * @param db - Database connection (used by the dry-run outbox)
+ * @param rateLimitTracker - Tracker attached to the live X client
+ * @returns Publisher - Publisher for the configured mode
+ */
+export function createPublisher(db: DatabaseConnection, rateLimitTracker?: RateLimitTracker): Publisher {
+  switch (getPublishMode()) {
+    case 'dry-run':
+      return new DryRunPublisher(db);
+    case 'memory':
+      return new InMemoryPublisher();
+    default:
+      return new TemplateTwitterService(rateLimitTracker);
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * In-Memory Publisher - Publisher for tests
+ *
+ * Keeps published tweets in an array so tests can run TemplateBot end-to-end
+ * and assert on exactly what would have been posted, without mocking the X
+ * client module. Failures can be queued to exercise retry and resume paths,
+ * engagement can be set per tweet for metrics collection, and mentions can
+ * be received for the reply workflow.
+ *
+ * @author Your Name
+ * @version 1.0.0
+ */
+
+import { IncomingMention, PublishedTweet, PublishMode, TweetMetrics } from '../../shared/types';
+import { assertPublishableContent, PostTweetOptions, Publisher } from './publisher';
+
+/**
+ * In-Memory Publisher Class
+ */
+export class InMemoryPublisher implements Publisher {
+  readonly mode: PublishMode = 'memory';
+  readonly published: PublishedTweet[] = [];
+  private failures: Error[] = [];
+  private metrics = new Map<string, TweetMetrics>();
+  private mentions: IncomingMention[] = [];
+  private sequence = 0;
+
+  /**
+   * Initialize Publisher - Nothing to set up
+   */
+  async initialize(): Promise<void> {}
+
+  /**
+   * Post Tweet - Validate and record a tweet in memory
+   *
+   * @param content - The tweet content (max 280 characters)
+   * @param options - Optional reply target and media attachments
+   * @returns Promise<string> - Generated tweet ID ("memory-N")
+   * @throws The next queued failure, or TwitterAPIError if content is invalid
+   */
+  async postTweet(content: string, options: PostTweetOptions = {}): Promise<string> {
+    const failure = this.failures.shift();
+    if (failure) {
+      throw failure;
+    }
+    assertPublishableContent(content);
+
+    const tweet: PublishedTweet = {
+      tweet_id: `memory-${++this.sequence}`,
+      content,
+      reply_to_id: options.replyToId,
+      media: options.media,
+      created_at: new Date()
+    };
+    this.published.push(tweet);
+    return tweet.tweet_id;
+  }
+
+  /**
+   * Delete Tweet - Remove a tweet from memory
+   *
+   * @param tweetId - The tweet ID
+   * @returns Promise<boolean> - True if the tweet existed
+   */
+  async deleteTweet(tweetId: string): Promise<boolean> {
+    const index = this.published.findIndex(tweet => tweet.tweet_id === tweetId);
+    if (index === -1) {
+      return false;
+    }
+    this.published.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Get Tweet Metrics - Engagement set with setMetrics (zero otherwise)
+   *
+   * @param tweetIds - Tweet IDs to look up
+   * @returns Promise<Map<string, TweetMetrics>> - Metrics of the tweets still in memory
+   */
+  async getTweetMetrics(tweetIds: string[]): Promise<Map<string, TweetMetrics>> {
+    const metrics = new Map<string, TweetMetrics>();
+    for (const tweetId of tweetIds) {
+      if (this.published.some(tweet => tweet.tweet_id === tweetId)) {
+        metrics.set(tweetId, this.metrics.get(tweetId) || { impressions: 0, likes: 0, reposts: 0, replies: 0, quotes: 0 });
+      }
+    }
+    return metrics;
+  }
+
+  /**
+   * Set Metrics - Engagement returned for a tweet from now on
+   *
+   * @param tweetId - The tweet ID
+   * @param metrics - Counts to set (others stay as they were, zero by default)
+   */
+  setMetrics(tweetId: string, metrics: Partial<TweetMetrics>): void {
+    const current = this.metrics.get(tweetId) || { impressions: 0, likes: 0, reposts: 0, replies: 0, quotes: 0 };
+    this.metrics.set(tweetId, { ...current, ...metrics });
+  }
+
+  /**
+   * Get Mentions - Mentions received with receiveMention after sinceId
+   *
+   * @param sinceId - Last mention already seen
+   * @returns Promise<IncomingMention[]> - Newer mentions, oldest first
+   */
+  async getMentions(sinceId?: string): Promise<IncomingMention[]> {
+    const seen = sinceId ? this.mentions.findIndex(mention => mention.tweet_id === sinceId) : -1;
+    return this.mentions.slice(seen + 1);
+  }
+
+  /**
+   * Receive Mention - Add a tweet mentioning the account
+   *
+   * @param text - Mention text
+   * @param authorUsername - Handle of the author (without @)
+   * @returns string - Generated tweet ID of the mention
+   */
+  receiveMention(text: string, authorUsername: string = 'someone'): string {
+    const mention: IncomingMention = {
+      tweet_id: `memory-${++this.sequence}`,
+      author_id: `user-${authorUsername}`,
+      author_username: authorUsername,
+      text,
+      created_at: new Date()
+    };
+    this.mentions.push(mention);
+    return mention.tweet_id;
+  }
+
+  /**
+   * Fail Next - Make the next postTweet calls throw the given errors, in order
+   *
+   * @param errors - Errors to throw
+   */
+  failNext(...errors: Error[]): void {
+    this.failures.push(...errors);
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * Publisher - Interface for everything that can publish tweets
+ *
+ * The bot never talks to X directly; it hands tweets to a Publisher. The live
+ * X client, the dry-run outbox publisher and the in-memory test publisher all
+ * implement this interface, so the full posting path (queue selection,
+ * validation, post_logs, stats) runs the same way in every mode.
+ *
+ * Key Features:
+ * - Publisher interface shared by live, dry-run and in-memory publishers
+ * - Content checks every publisher applies before publishing
+ * - Thread posting (reply chains with resume support) over any publisher
+ *
+ * @author Your Name
+ * @version 1.0.0
+ */
+
+import { logger } from '../../utils/logger';
+import { BotError, IncomingMention, MediaAttachment, PublishMode, TweetMetrics, TwitterAPIError } from '../../shared/types';
+import { MAX_TWEET_LENGTH } from '../../shared/constants';
+import { fitsInTweet } from '../../shared/utils/tweet-length';
+
+/**
+ * Options for posting a single tweet
+ */
+export interface PostTweetOptions {
+  replyToId?: string;  // Tweet ID this tweet replies to (used to chain threads)
+  media?: MediaAttachment[];  // Local media files to upload and attach
+}
+
+/**
+ * Options for posting a thread
+ */
+export interface PostThreadOptions {
+  // Resume a partially posted thread: first segment still to post and the tweet it replies to
+  resumeFrom?: { segmentIndex: number; replyToId: string };
+  // Called after each segment is posted so progress can be persisted immediately
+  onSegmentPosted?: (segmentIndex: number, tweetId: string) => Promise<void>;
+  // Media attached to the head segment
+  media?: MediaAttachment[];
+}
+
+/**
+ * Publisher Interface
+ *
+ * Implemented by TemplateTwitterService (live), DryRunPublisher (outbox)
+ * and InMemoryPublisher (tests).
+ */
+export interface Publisher {
+  readonly mode: PublishMode;
+  readonly account?: string;  // X account (@handle) tweets go to, known after initialize (live only)
+  initialize(): Promise<void>;
+  postTweet(content: string, options?: PostTweetOptions): Promise<string>;
+  deleteTweet(tweetId: string): Promise<boolean>;
+  // Public metrics of up to MAX_METRICS_LOOKUP_IDS tweets; tweets that no longer exist are left out.
+  // Publishers without engagement (dry-run) do not implement it
+  getTweetMetrics?(tweetIds: string[]): Promise<Map<string, TweetMetrics>>;
+  // Tweets mentioning the account posted after sinceId (all recent ones without it), oldest first.
+  // Publishers without an inbox (dry-run) do not implement it
+  getMentions?(sinceId?: string): Promise<IncomingMention[]>;
+}
+
+/**
+ * Assert Publishable Content - Reject tweets X would refuse
+ *
+ * @param content - The tweet content to check
+ * @throws TwitterAPIError (not retryable) if content is empty or too long
+ */
+export function assertPublishableContent(content: string): void {
+  // Validate content length (X's weighted character limit)
+  if (!fitsInTweet(content)) {
+    throw new TwitterAPIError(`Tweet content exceeds ${MAX_TWEET_LENGTH} character limit`, false);
+  }
+
+  // Validate content is not empty
+  if (!content.trim()) {
+    throw new TwitterAPIError('Tweet content cannot be empty', false);
+  }
+}
+
+/**
+ * Post Thread - Post ordered segments as a chain of replies
+ *
+ * Each segment is posted as a reply to the previous one. When a segment fails,
+ * the error carries the tweet IDs posted so far and the failed segment index
+ * so the caller can resume the thread instead of re-posting the head. When
+ * the progress callback fails, the thread stops with a non-retryable error
+ * naming the posted but unrecorded tweet.
+ *
+ * @param publisher - Publisher that posts each segment
+ * @param segments - Ordered thread segments (each max 280 characters)
+ * @param options - Resume point and per-segment progress callback
+ * @returns Promise<string[]> - Tweet IDs of the segments posted by this call
+ * @throws TwitterAPIError if any segment fails to post
+ * @throws BotError (THREAD_PROGRESS_NOT_RECORDED) if a posted segment could not be recorded
+ */
+export async function postThread(
+  publisher: Publisher,
+  segments: string[],
+  options: PostThreadOptions = {}
+): Promise<string[]> {
+  if (segments.length === 0) {
+    throw new TwitterAPIError('Thread must contain at least one segment', false);
+  }
+
+  const startIndex = options.resumeFrom?.segmentIndex ?? 0;
+  let replyToId = options.resumeFrom?.replyToId;
+  const tweetIds: string[] = [];
+
+  logger.info(`Posting thread segments ${startIndex + 1}-${segments.length}...`);
+
+  for (let index = startIndex; index < segments.length; index++) {
+    let tweetId: string;
+    try {
+      tweetId = await publisher.postTweet(segments[index], {
+        replyToId,
+        media: index === 0 ? options.media : undefined
+      });
+    } catch (error) {
+      const retryable = error instanceof BotError ? error.retryable : true;
+      throw new TwitterAPIError(
+        `Thread failed at segment ${index + 1}/${segments.length}: ${error instanceof Error ? error.message : String(error)}`,
+        retryable,
+        { failedSegmentIndex: index, postedTweetIds: tweetIds }
+      );
+    }
+    tweetIds.push(tweetId);
+    replyToId = tweetId;
+
+    if (options.onSegmentPosted) {
+      try {
+        await options.onSegmentPosted(index, tweetId);
+      } catch (error) {
+        // The segment is live but its progress was lost, so resuming would post it again
+        throw new BotError(
+          `Thread stopped at segment ${index + 1}/${segments.length}: tweet ${tweetId} was posted but could not be recorded: ${error instanceof Error ? error.message : String(error)}`,
+          'THREAD_PROGRESS_NOT_RECORDED',
+          false,
+          { unrecordedSegmentIndex: index, unrecordedTweetId: tweetId, postedTweetIds: tweetIds }
+        );
+      }
+    }
+  }
+
+  logger.info(`Successfully posted thread of ${segments.length} segments`);
+  return tweetIds;
+}
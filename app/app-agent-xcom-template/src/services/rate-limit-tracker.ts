@@ -0,0 +1,277 @@
+/**
+ * Rate Limit Tracker - X API rate limit windows and local posting budget
+ *
+ * This class records the x-rate-limit-* headers returned by every X API
+ * response, persists the latest window per endpoint, and enforces a local
+ * posting budget so the bot stops before X has to stop it.
+ * 
+ * Key Features:
+ * - twitter-api-v2 plugin that captures rate limit headers on success and error
+ * - Per-endpoint windows persisted in rate_limit_windows (survive restarts)
+ * - Wait time calculation from the window reset time
+ * - Local 15-minute and daily tweet budget (defaults from TWITTER_RATE_LIMIT_POSTS_* constants)
+ * 
+ * @author Your Name
+ * @version 1.0.0
+ */
+
+import type { ITwitterApiClientPlugin, TwitterRateLimit } from 'twitter-api-v2';
+import { DatabaseConnection } from '../shared/database/connection';
+import { PostingBudgetSettings, PostingBudgetStatus, RateLimitWindow } from '../shared/types';
+import { parseSqlTimestamp } from '../shared/utils/sql-timestamp';
+import {
+  TWITTER_RATE_LIMIT_POSTS_PER_15MIN,
+  TWITTER_RATE_LIMIT_POSTS_PER_DAY
+} from '../shared/constants';
+import { logger } from '../utils/logger';
+
+// Endpoint used for posting tweets (tweet create)
+export const TWEET_CREATE_ENDPOINT = 'POST /2/tweets';
+
+// Endpoint used for looking up tweets in bulk (engagement metrics)
+export const TWEET_LOOKUP_ENDPOINT = 'GET /2/tweets';
+
+// Endpoint used for reading the mention timeline (user IDs become ":id")
+export const MENTIONS_TIMELINE_ENDPOINT = 'GET /2/users/:id/mentions';
+
+/**
+ * Get Posting Budget Settings - Read TWITTER_POSTS_PER_15MIN_BUDGET and TWITTER_POSTS_PER_DAY_BUDGET
+ *
+ * @returns PostingBudgetSettings - Tweets allowed per 15 minutes and per day
+ * @throws Error if a budget is not a whole number >= 0
+ */
+export function getPostingBudgetSettings(): PostingBudgetSettings {
+  const limitPer15Min = Number(process.env.TWITTER_POSTS_PER_15MIN_BUDGET || String(TWITTER_RATE_LIMIT_POSTS_PER_15MIN));
+  if (!Number.isInteger(limitPer15Min) || limitPer15Min < 0) {
+    throw new Error(`Invalid TWITTER_POSTS_PER_15MIN_BUDGET "${process.env.TWITTER_POSTS_PER_15MIN_BUDGET}" (expected a number >= 0)`);
+  }
+
+  const limitPerDay = Number(process.env.TWITTER_POSTS_PER_DAY_BUDGET || String(TWITTER_RATE_LIMIT_POSTS_PER_DAY));
+  if (!Number.isInteger(limitPerDay) || limitPerDay < 0) {
+    throw new Error(`Invalid TWITTER_POSTS_PER_DAY_BUDGET "${process.env.TWITTER_POSTS_PER_DAY_BUDGET}" (expected a number >= 0)`);
+  }
+
+  return { limit_per_15min: limitPer15Min, limit_per_day: limitPerDay };
+}
+
+/**
+ * Rate Limit Tracker Class
+ *
+ * Keeps the most recent rate limit window for each X API endpoint in memory
+ * and in the database, and answers "can we post now, and if not, when?".
+ */
+export class RateLimitTracker {
+  private botId: string;
+  private windows = new Map<string, RateLimitWindow>();
+
+  /**
+   * Constructor - Initialize tracker with database connection
+   * 
+   * @param db - Database connection instance for persistent storage
+   */
+  constructor(private db: DatabaseConnection) {
+    this.botId = process.env.BOT_NAME || 'template-bot';
+  }
+
+  /**
+   * Initialize Tracker - Load persisted rate limit windows
+   * 
+   * @throws Error if database query fails or the budget settings are invalid
+   */
+  async initialize(): Promise<void> {
+    const rows = await this.db.all(`
+      SELECT endpoint, limit_total, remaining, reset_at, updated_at
+      FROM rate_limit_windows
+      WHERE bot_id = ?
+    `, [this.botId]);
+
+    for (const row of rows) {
+      this.windows.set(row.endpoint, {
+        endpoint: row.endpoint,
+        limit: row.limit_total,
+        remaining: row.remaining,
+        reset_at: new Date(row.reset_at * 1000),
+        updated_at: new Date(row.updated_at)
+      });
+    }
+
+    // Fail at startup rather than on the first post if the budget is misconfigured
+    const budget = getPostingBudgetSettings();
+    logger.info(`Rate limit tracker loaded ${rows.length} endpoint windows (posting budget ${budget.limit_per_15min} per 15 minutes, ${budget.limit_per_day} per day)`);
+  }
+
+  /**
+   * Create Plugin - twitter-api-v2 plugin that records rate limit headers
+   * 
+   * The plugin captures the parsed x-rate-limit-* headers from successful
+   * responses and from error responses (including 429s).
+   * 
+   * @returns ITwitterApiClientPlugin - Plugin to pass to the TwitterApi client
+   */
+  createPlugin(): ITwitterApiClientPlugin {
+    return {
+      onAfterRequest: async ({ url, params, response }) => {
+        if (response.rateLimit) {
+          await this.record(RateLimitTracker.endpointKey(params.method, url), response.rateLimit);
+        }
+      },
+      onResponseError: async ({ url, params, error }) => {
+        if (error.rateLimit) {
+          await this.record(RateLimitTracker.endpointKey(params.method, url), error.rateLimit);
+        }
+      }
+    };
+  }
+
+  /**
+   * Record - Store the latest rate limit window for an endpoint
+   * 
+   * Persistence failures are logged but never break the API call that
+   * produced the headers.
+   * 
+   * @param endpoint - Endpoint key, e.g. "POST /2/tweets"
+   * @param rateLimit - Parsed rate limit headers (reset is epoch seconds)
+   */
+  async record(endpoint: string, rateLimit: TwitterRateLimit): Promise<void> {
+    const window: RateLimitWindow = {
+      endpoint,
+      limit: rateLimit.limit,
+      remaining: rateLimit.remaining,
+      reset_at: new Date(rateLimit.reset * 1000),
+      updated_at: new Date()
+    };
+    this.windows.set(endpoint, window);
+
+    if (window.remaining === 0) {
+      logger.warn(`Rate limit exhausted for ${endpoint} until ${window.reset_at.toISOString()}`);
+    }
+
+    try {
+      await this.db.run(`
+        INSERT INTO rate_limit_windows (bot_id, endpoint, limit_total, remaining, reset_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+        ON CONFLICT(bot_id, endpoint) DO UPDATE SET
+          limit_total = excluded.limit_total,
+          remaining = excluded.remaining,
+          reset_at = excluded.reset_at,
+          updated_at = CURRENT_TIMESTAMP
+      `, [this.botId, endpoint, rateLimit.limit, rateLimit.remaining, rateLimit.reset]);
+    } catch (error) {
+      logger.error('Failed to persist rate limit window:', error);
+    }
+  }
+
+  /**
+   * Get Wait Time - How long until an endpoint accepts requests again
+   * 
+   * @param endpoint - Endpoint key, e.g. "POST /2/tweets"
+   * @param now - Current time (for testing)
+   * @returns number - Milliseconds to wait, 0 if requests are allowed now
+   */
+  getWaitMs(endpoint: string, now: Date = new Date()): number {
+    const window = this.windows.get(endpoint);
+    if (!window || window.remaining > 0) {
+      return 0;
+    }
+    return Math.max(0, window.reset_at.getTime() - now.getTime());
+  }
+
+  /**
+   * Check Posting Budget - Enforce the local tweet budget
+   * 
+   * Counts tweets posted (each thread segment is a tweet) in the last
+   * 15 minutes and the last 24 hours against the configured budget, and
+   * combines that with the live tweet-create window from X.
+   * 
+   * @param tweetsNeeded - Number of tweets about to be posted
+   * @returns Promise<PostingBudgetStatus> - Whether posting is allowed and how long to wait otherwise
+   * @throws Error if the budget settings are invalid
+   */
+  async checkPostingBudget(tweetsNeeded: number = 1): Promise<PostingBudgetStatus> {
+    const { limit_per_15min: limitPer15Min, limit_per_day: limitPerDay } = getPostingBudgetSettings();
+
+    const fifteenMinutes = await this.getPostWindowUsage('-15 minutes');
+    const oneDay = await this.getPostWindowUsage('-1 day');
+
+    const status: PostingBudgetStatus = {
+      allowed: true,
+      wait_ms: 0,
+      posts_last_15min: fifteenMinutes.count,
+      posts_last_day: oneDay.count,
+      limit_per_15min: limitPer15Min,
+      limit_per_day: limitPerDay
+    };
+
+    const now = Date.now();
+
+    if (oneDay.count + tweetsNeeded > limitPerDay) {
+      status.allowed = false;
+      status.reason = `Daily posting budget exhausted (${oneDay.count}/${limitPerDay})`;
+      status.wait_ms = oneDay.oldest ? Math.max(0, oneDay.oldest.getTime() + 24 * 60 * 60 * 1000 - now) : 0;
+    } else if (fifteenMinutes.count + tweetsNeeded > limitPer15Min) {
+      status.allowed = false;
+      status.reason = `15-minute posting budget exhausted (${fifteenMinutes.count}/${limitPer15Min})`;
+      status.wait_ms = fifteenMinutes.oldest ? Math.max(0, fifteenMinutes.oldest.getTime() + 15 * 60 * 1000 - now) : 0;
+    }
+
+    const apiWaitMs = this.getWaitMs(TWEET_CREATE_ENDPOINT);
+    if (apiWaitMs > 0) {
+      status.allowed = false;
+      status.reason = status.reason || 'X API tweet rate limit exhausted';
+      status.wait_ms = Math.max(status.wait_ms, apiWaitMs);
+    }
+
+    return status;
+  }
+
+  /**
+   * Get Status - Current windows and local budget for monitoring
+   * 
+   * @returns Promise with per-endpoint windows and posting budget
+   */
+  async getStatus(): Promise<{ endpoints: RateLimitWindow[]; budget: PostingBudgetStatus }> {
+    return {
+      endpoints: Array.from(this.windows.values()).sort((a, b) => a.endpoint.localeCompare(b.endpoint)),
+      budget: await this.checkPostingBudget(0)
+    };
+  }
+
+  /**
+   * Get Post Window Usage - Count tweets posted since a relative time
+   * 
+   * @param modifier - SQLite datetime modifier, e.g. "-15 minutes"
+   * @returns Count of tweets and the time of the oldest one in the window
+   */
+  private async getPostWindowUsage(modifier: string): Promise<{ count: number; oldest?: Date }> {
+    const row = await this.db.get(`
+      SELECT COUNT(*) as count, MIN(created_at) as oldest
+      FROM post_logs
+      WHERE bot_id = ? AND success = 1 AND tweet_id IS NOT NULL
+        AND created_at >= datetime('now', ?)
+    `, [this.botId, modifier]);
+
+    return {
+      count: row?.count || 0,
+      oldest: row?.oldest ? parseSqlTimestamp(row.oldest) : undefined
+    };
+  }
+
+  /**
+   * Endpoint Key - Normalize a request into a stable endpoint name
+   * 
+   * Numeric IDs are replaced with ":id" so every tweet lookup or delete
+   * shares one window, e.g. "DELETE /2/tweets/:id".
+   * 
+   * @param method - HTTP method
+   * @param url - Request URL
+   * @returns string - Endpoint key
+   */
+  static endpointKey(method: string, url: URL): string {
+    // The first segment is the API version ("2", "1.1") and is kept as-is
+    const pathname = url.pathname
+      .split('/')
+      .map((segment, index) => (index > 1 && /^\d+$/.test(segment) ? ':id' : segment))
+      .join('/');
+    return `${method.toUpperCase()} ${pathname}`;
+  }
+}
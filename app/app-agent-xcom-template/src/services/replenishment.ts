@@ -0,0 +1,229 @@
+/**
+ * Template Replenishment Service - Refill the post queue
+ *
+ * This service decides where new posts come from when the queue runs low
+ * and records every run in generation_logs.
+ *
+ * Strategies (REPLENISHMENT_STRATEGY):
+ * - local (default): seed posts from the local post generator, split by topic
+ *   weights (persona or learned, see TOPIC_WEIGHT_MODE), no API cost
+ * - llm: posts written by the configured content model for the persona's topics
+ * - hybrid: REPLENISHMENT_LLM_RATIO of the batch from the content model, the rest local
+ *
+ * If the content model is unavailable, throws, or returns fewer posts than
+ * asked for, the shortfall is filled from the local generator and the reason
+ * is stored in generation_logs.error_message.
+ *
+ * Posts from the content model wait in pending_review until a human approves
+ * them (see TemplatePostReviewer) unless LLM_POST_REVIEW=false.
+ *
+ * @author Your Name
+ * @version 1.0.0
+ */
+
+import { DatabaseConnection } from '../shared/database/connection';
+import { PostGenerationResult, ReplenishmentResult, ReplenishmentStrategy } from '../shared/types';
+import { getPersona } from '../config/persona';
+import { logger } from '../utils/logger';
+import { TemplatePostManager } from './post-manager';
+import { TemplateOpenAIService } from './openai';
+import { TemplatePostGenerator } from './generator/post-generator';
+import { TemplateTopicOptimizer } from './topic-optimizer';
+import { requiresLLMPostReview } from './post-review';
+
+const REPLENISHMENT_STRATEGIES: ReplenishmentStrategy[] = ['local', 'llm', 'hybrid'];
+
+/**
+ * Get Replenishment Strategy - Read REPLENISHMENT_STRATEGY from the environment
+ *
+ * @returns ReplenishmentStrategy - Configured strategy, "local" when unset
+ * @throws Error if REPLENISHMENT_STRATEGY is not a known strategy
+ */
+export function getReplenishmentStrategy(): ReplenishmentStrategy {
+  const strategy = (process.env.REPLENISHMENT_STRATEGY || 'local') as ReplenishmentStrategy;
+  if (!REPLENISHMENT_STRATEGIES.includes(strategy)) {
+    throw new Error(
+      `Invalid REPLENISHMENT_STRATEGY "${strategy}" (expected one of: ${REPLENISHMENT_STRATEGIES.join(', ')})`
+    );
+  }
+  return strategy;
+}
+
+/**
+ * Get LLM Ratio - Share of a hybrid batch written by the content model
+ *
+ * @returns number - REPLENISHMENT_LLM_RATIO clamped to 0..1, 0.5 when unset or invalid
+ */
+export function getLLMRatio(): number {
+  const ratio = parseFloat(process.env.REPLENISHMENT_LLM_RATIO || '0.5');
+  if (isNaN(ratio)) {
+    return 0.5;
+  }
+  return Math.min(1, Math.max(0, ratio));
+}
+
+/**
+ * Template Replenishment Service Class
+ */
+export class TemplateReplenishmentService {
+  private botId: string;
+  private topicOptimizer: TemplateTopicOptimizer;
+
+  /**
+   * Constructor - Wire the services replenishment draws on
+   *
+   * @param db - Database connection for generation_logs and topic weights
+   * @param postManager - Stores generated posts with deduplication
+   * @param openaiService - Content model service used by the llm and hybrid strategies
+   */
+  constructor(
+    private db: DatabaseConnection,
+    private postManager: TemplatePostManager,
+    private openaiService: TemplateOpenAIService
+  ) {
+    this.botId = process.env.BOT_NAME || 'template-bot';
+    this.topicOptimizer = new TemplateTopicOptimizer(db);
+  }
+
+  /**
+   * Replenish - Generate, store and log one batch of posts
+   *
+   * @param batchSize - Number of posts to generate
+   * @param strategy - Strategy to use; defaults to REPLENISHMENT_STRATEGY
+   * @returns Promise<ReplenishmentResult> - What was generated, stored and spent
+   * @throws Error if storing posts fails
+   */
+  async replenish(
+    batchSize: number,
+    strategy: ReplenishmentStrategy = getReplenishmentStrategy()
+  ): Promise<ReplenishmentResult> {
+    const llmTarget = strategy === 'llm'
+      ? batchSize
+      : strategy === 'hybrid' ? Math.round(batchSize * getLLMRatio()) : 0;
+
+    logger.info(`Replenishing ${batchSize} posts (strategy: ${strategy}, llm: ${llmTarget})...`);
+
+    const { posts: llmPosts, error: llmError } = await this.generateWithLLM(llmTarget);
+    const local = batchSize - llmPosts.length > 0
+      ? TemplatePostGenerator.generateWeightedPosts(batchSize - llmPosts.length, await this.topicOptimizer.getWeights())
+      : { posts: [], distribution: [] };
+    const localPosts = local.posts;
+    const posts = [...llmPosts, ...localPosts];
+
+    const fallbackReason = llmPosts.length < llmTarget
+      ? llmError || `Content model returned ${llmPosts.length} of ${llmTarget} posts`
+      : undefined;
+    if (fallbackReason) {
+      logger.warn(`Filled ${llmTarget - llmPosts.length} posts from local generator: ${fallbackReason}`);
+    }
+
+    const review = requiresLLMPostReview();
+    let stored = 0;
+    let pendingReview = 0;
+    let storeError: unknown;
+    try {
+      if (llmPosts.length > 0) {
+        stored = await this.postManager.storePosts(
+          llmPosts.map(post => ({ ...post, review_status: review ? 'pending_review' : 'approved' }))
+        );
+        pendingReview = review ? stored : 0;
+      }
+      if (localPosts.length > 0) {
+        stored += await this.postManager.storePosts(localPosts);
+      }
+    } catch (error) {
+      storeError = error;
+    }
+
+    const result: ReplenishmentResult = {
+      strategy,
+      requested: batchSize,
+      llm_posts: llmPosts.length,
+      local_posts: localPosts.length,
+      stored,
+      pending_review: pendingReview,
+      rejected: posts.length - stored,
+      tokens_used: posts.reduce((sum, post) => sum + post.tokens_used, 0),
+      cost: posts.reduce((sum, post) => sum + post.cost, 0),
+      models: [...new Set(posts.map(post => post.model))],
+      distribution: local.distribution,
+      fallback_reason: fallbackReason
+    };
+
+    const errors = [fallbackReason, storeError && `Store failed: ${storeError instanceof Error ? storeError.message : String(storeError)}`]
+      .filter(Boolean)
+      .join('; ');
+    await this.logGeneration(result, llmTarget - llmPosts.length, errors || undefined);
+
+    if (storeError) {
+      throw storeError;
+    }
+
+    logger.info(
+      `Replenishment stored ${stored} of ${posts.length} posts ` +
+      `(${result.llm_posts} llm, ${result.local_posts} local, ${pendingReview} for review, $${result.cost.toFixed(4)})`
+    );
+    return result;
+  }
+
+  /**
+   * Generate With LLM - Ask the content model for posts on the persona's topics
+   *
+   * Never throws: failures are returned so the caller can fall back.
+   *
+   * @param count - Number of posts wanted
+   * @returns Promise<{ posts, error? }> - Posts generated and the failure reason, if any
+   */
+  private async generateWithLLM(count: number): Promise<{ posts: PostGenerationResult[]; error?: string }> {
+    if (count <= 0) {
+      return { posts: [] };
+    }
+    if (!this.openaiService.isServiceInitialized()) {
+      return { posts: [], error: 'Content model not initialized' };
+    }
+
+    try {
+      const posts = await this.openaiService.generatePosts(count, getPersona().topics.map(topic => topic.key));
+      if (posts.length < count) {
+        // A short batch is usually the generation budget running out mid-run
+        const budget = await this.openaiService.getBudgetStatus();
+        return { posts: posts.slice(0, count), error: budget && !budget.allowed ? budget.reason : undefined };
+      }
+      return { posts: posts.slice(0, count) };
+    } catch (error) {
+      logger.error('LLM generation failed, falling back to local generator:', error);
+      return { posts: [], error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Log Generation - Record a replenishment run in generation_logs
+   *
+   * @param result - Outcome of the run
+   * @param llmFailures - Posts the content model was asked for but did not deliver
+   * @param errorMessage - Fallback or storage failure reason
+   */
+  private async logGeneration(result: ReplenishmentResult, llmFailures: number, errorMessage?: string): Promise<void> {
+    try {
+      await this.db.run(`
+        INSERT INTO generation_logs (
+          bot_id, batch_size, tokens_used, cost, model, strategy,
+          success_count, failure_count, error_message, distribution
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `, [
+        this.botId,
+        result.requested,
+        result.tokens_used,
+        result.cost,
+        result.models.join(',') || 'none',
+        result.strategy,
+        result.stored,
+        result.rejected + llmFailures,
+        errorMessage || null,
+        JSON.stringify(result.distribution)
+      ]);
+    } catch (error) {
+      logger.error('Failed to write generation log:', error);
+    }
+  }
+}
@@ -0,0 +1,299 @@
+/**
+ * Template Slot Tracker - Record posting slots and catch up on missed ones
+ *
+ * node-cron only fires while the process runs, so a slot that passes while
+ * the container is down would otherwise vanish without a trace. Every slot
+ * that comes due is recorded in schedule_slots; on startup the tracker works
+ * out which slots of the current schedule passed since the last recorded one
+ * and applies the missed post policy (MISSED_POST_POLICY):
+ *
+ * - skip (default): record the missed slots, post nothing
+ * - post-once: post once immediately, however long the bot was down
+ * - grace-window: post once if the latest missed slot is at most
+ *   MISSED_POST_GRACE_MINUTES old, otherwise skip
+ *
+ * At most one catch-up post is made however many slots were missed. Slots
+ * owned by a pinned post are not counted: the content calendar publishes
+ * overdue pinned posts on its own. Each missed slot is stored with the policy
+ * and the reasoning, so missed days can be audited later.
+ *
+ * @author Your Name
+ * @version 1.0.0
+ */
+
+import { DatabaseConnection } from '../shared/database/connection';
+import {
+  MissedPostPolicy,
+  MissedPostSettings,
+  MissedSlotReport,
+  PostExecutionResult,
+  ScheduleSlotRecord,
+  ScheduleSlotStatus
+} from '../shared/types';
+import { ONE_MINUTE_MS } from '../shared/constants';
+import { getNextFireTimes, PostingSchedule } from '../config/schedule';
+import { parseSqlTimestamp, toSqlTimestamp } from '../shared/utils/sql-timestamp';
+import { TemplateBotState } from './bot-state';
+import { logger } from '../utils/logger';
+
+const MISSED_POST_POLICIES: MissedPostPolicy[] = ['skip', 'post-once', 'grace-window'];
+
+// bot_state key: when slot tracking started (no slot before it counts as missed)
+const TRACKED_SINCE_KEY = 'schedule_tracked_since';
+
+// Most missed slots recorded after one outage; older ones are only counted in the log
+const MAX_MISSED_SLOTS = 500;
+
+/**
+ * Get Missed Post Settings - Read MISSED_POST_POLICY and MISSED_POST_GRACE_MINUTES
+ *
+ * @returns MissedPostSettings - Configured policy and grace window
+ * @throws Error if either setting is invalid
+ */
+export function getMissedPostSettings(): MissedPostSettings {
+  const policy = (process.env.MISSED_POST_POLICY || 'skip') as MissedPostPolicy;
+  if (!MISSED_POST_POLICIES.includes(policy)) {
+    throw new Error(`Invalid MISSED_POST_POLICY "${policy}" (expected one of: ${MISSED_POST_POLICIES.join(', ')})`);
+  }
+
+  const graceMinutes = Number(process.env.MISSED_POST_GRACE_MINUTES || '60');
+  if (!Number.isFinite(graceMinutes) || graceMinutes < 0) {
+    throw new Error(`Invalid MISSED_POST_GRACE_MINUTES "${process.env.MISSED_POST_GRACE_MINUTES}" (expected minutes >= 0)`);
+  }
+
+  return { policy, grace_minutes: graceMinutes };
+}
+
+// Slot times have minute resolution
+function toSlotMinute(at: Date): Date {
+  return new Date(Math.floor(at.getTime() / ONE_MINUTE_MS) * ONE_MINUTE_MS);
+}
+
+/**
+ * Template Slot Tracker Class
+ */
+export class TemplateSlotTracker {
+  private botId: string;
+  private state: TemplateBotState;
+
+  /**
+   * Constructor - Initialize tracker with database connection
+   *
+   * @param db - Database connection for schedule_slots and bot_state
+   */
+  constructor(private db: DatabaseConnection) {
+    this.botId = process.env.BOT_NAME || 'template-bot';
+    this.state = new TemplateBotState(db);
+  }
+
+  /**
+   * Record Slot - Store how a posting slot ended
+   *
+   * @param at - Slot time; compared per minute
+   * @param status - Outcome of the slot
+   * @param details - Post, reason and (for missed slots) the policy applied
+   * @returns Promise<boolean> - False if the slot was already recorded
+   */
+  async recordSlot(
+    at: Date,
+    status: ScheduleSlotStatus,
+    details: { post_id?: number; reason?: string; missed?: boolean; policy?: MissedPostPolicy } = {}
+  ): Promise<boolean> {
+    const result = await this.db.run(`
+      INSERT INTO schedule_slots (bot_id, slot_at, status, missed, policy, reason, post_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (bot_id, slot_at) DO NOTHING
+    `, [
+      this.botId,
+      toSqlTimestamp(toSlotMinute(at)),
+      status,
+      details.missed ? 1 : 0,
+      details.policy || null,
+      details.reason || null,
+      details.post_id ?? null
+    ]);
+    return (result.changes || 0) > 0;
+  }
+
+  /**
+   * Update Slot - Change how a recorded slot ended (deferred slots once they are posted)
+   *
+   * @param at - Slot time; compared per minute
+   * @param status - New outcome
+   * @param details - Post and reason
+   */
+  async updateSlot(at: Date, status: ScheduleSlotStatus, details: { post_id?: number; reason?: string } = {}): Promise<void> {
+    await this.db.run(`
+      UPDATE schedule_slots SET status = ?, post_id = ?, reason = ?
+      WHERE bot_id = ? AND slot_at = ?
+    `, [status, details.post_id ?? null, details.reason || null, this.botId, toSqlTimestamp(toSlotMinute(at))]);
+  }
+
+  /**
+   * Restart Tracking - Stop counting earlier slots as missed
+   *
+   * Used when the bot resumes after a pause: slots that passed while it was
+   * paused were skipped on purpose and must not be caught up on.
+   *
+   * @param now - Slots up to this time are never treated as missed
+   */
+  async restartTracking(now: Date = new Date()): Promise<void> {
+    await this.state.set(TRACKED_SINCE_KEY, now.toISOString());
+  }
+
+  /**
+   * Find Missed Slots - Slots of the schedule that passed without being recorded
+   *
+   * The first call only starts tracking; nothing before it counts as missed.
+   *
+   * @param schedule - Current posting schedule
+   * @param now - Current time
+   * @returns Promise<Object> - Missed slot times (latest MAX_MISSED_SLOTS, oldest first) and the total count
+   */
+  async findMissedSlots(schedule: PostingSchedule, now: Date = new Date()): Promise<{ slots: Date[]; total: number }> {
+    const trackedSince = await this.state.get(TRACKED_SINCE_KEY);
+    if (!trackedSince) {
+      await this.state.set(TRACKED_SINCE_KEY, now.toISOString());
+      return { slots: [], total: 0 };
+    }
+
+    const lastSlot = await this.db.get(`
+      SELECT MAX(slot_at) AS slot_at FROM schedule_slots WHERE bot_id = ?
+    `, [this.botId]);
+    const since = Math.max(
+      new Date(trackedSince).getTime(),
+      // Everything in the last recorded slot's minute was covered by it
+      lastSlot?.slot_at ? parseSqlTimestamp(lastSlot.slot_at).getTime() + ONE_MINUTE_MS - 1 : 0
+    );
+
+    const pinned = new Set((await this.db.all(`
+      SELECT scheduled_for FROM posts WHERE bot_id = ? AND scheduled_for > ? AND scheduled_for <= ?
+    `, [this.botId, toSqlTimestamp(new Date(since)), toSqlTimestamp(now)])).map(row => row.scheduled_for));
+
+    const slots: Date[] = [];
+    let total = 0;
+    let cursor = new Date(since);
+    for (;;) {
+      const batch = getNextFireTimes(schedule, cursor, 100).filter(date => date <= now);
+      for (const date of batch) {
+        if (!pinned.has(toSqlTimestamp(toSlotMinute(date)))) {
+          slots.push(date);
+          total++;
+        }
+      }
+      if (slots.length > MAX_MISSED_SLOTS) {
+        slots.splice(0, slots.length - MAX_MISSED_SLOTS);
+      }
+      if (batch.length < 100) {
+        break;
+      }
+      cursor = batch[batch.length - 1];
+    }
+
+    return { slots, total };
+  }
+
+  /**
+   * Catch Up - Apply the missed post policy to slots missed during downtime
+   *
+   * @param schedule - Current posting schedule
+   * @param post - Publishes one post from the queue
+   * @param now - Current time
+   * @param settings - Missed post policy (default: from the environment)
+   * @returns Promise<MissedSlotReport> - What was missed and what was done about it
+   */
+  async catchUp(
+    schedule: PostingSchedule,
+    post: () => Promise<PostExecutionResult>,
+    now: Date = new Date(),
+    settings: MissedPostSettings = getMissedPostSettings()
+  ): Promise<MissedSlotReport> {
+    const { policy, grace_minutes: graceMinutes } = settings;
+    const { slots, total } = await this.findMissedSlots(schedule, now);
+    if (slots.length === 0) {
+      return { missed: 0, policy, posted: false, reason: 'No missed slots' };
+    }
+
+    const latest = slots[slots.length - 1];
+    const lateMinutes = (now.getTime() - latest.getTime()) / ONE_MINUTE_MS;
+    const late = lateMinutes < 120 ? `${Math.round(lateMinutes)} minute(s)` : `${(lateMinutes / 60).toFixed(1)}h`;
+
+    let reason: string;
+    let shouldPost = false;
+    if (policy === 'skip') {
+      reason = `Missed ${total} slot(s) while the bot was down; policy skip does not post missed slots`;
+    } else if (policy === 'grace-window' && lateMinutes > graceMinutes) {
+      reason = `Latest missed slot is ${late} old, outside the ${graceMinutes} minute grace window`;
+    } else {
+      shouldPost = true;
+      reason = policy === 'post-once'
+        ? `Posting once for ${total} missed slot(s) (latest ${late} ago)`
+        : `Latest missed slot is ${late} old, within the ${graceMinutes} minute grace window`;
+    }
+
+    if (total > slots.length) {
+      logger.warn(`${total - slots.length} older missed slot(s) not recorded (keeping the latest ${slots.length})`);
+    }
+    logger.warn(`Missed ${total} posting slot(s) since ${slots[0].toISOString()}: ${reason}`);
+
+    let result: PostExecutionResult | undefined;
+    if (shouldPost) {
+      try {
+        result = await post();
+      } catch (error) {
+        result = { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+      if (!result.success) {
+        reason = `${reason}; catch-up post ${result.blocked ? 'blocked' : 'failed'}: ${result.error}`;
+      }
+    }
+
+    for (const slot of slots) {
+      const isLatest = slot === latest;
+      const status: ScheduleSlotStatus = !isLatest || !result || result.blocked
+        ? 'skipped'
+        : result.success ? 'caught-up' : 'failed';
+      await this.recordSlot(slot, status, {
+        missed: true,
+        policy,
+        post_id: isLatest ? result?.post_id : undefined,
+        reason: isLatest || !shouldPost ? reason : 'Superseded by a later missed slot (at most one catch-up post)'
+      });
+    }
+
+    return {
+      missed: total,
+      policy,
+      posted: Boolean(result?.success),
+      reason,
+      latest_missed_at: latest,
+      post_id: result?.post_id
+    };
+  }
+
+  /**
+   * Get Recent Slots - Latest recorded slots for auditing
+   *
+   * @param limit - Maximum number of slots
+   * @param missedOnly - Only slots missed during downtime
+   * @returns Promise<ScheduleSlotRecord[]> - Most recent slot first
+   */
+  async getRecentSlots(limit: number = 20, missedOnly: boolean = false): Promise<ScheduleSlotRecord[]> {
+    const rows = await this.db.all(`
+      SELECT * FROM schedule_slots
+      WHERE bot_id = ? ${missedOnly ? 'AND missed = 1' : ''}
+      ORDER BY slot_at DESC
+      LIMIT ?
+    `, [this.botId, limit]);
+
+    return rows.map(row => ({
+      slot_at: parseSqlTimestamp(row.slot_at),
+      status: row.status,
+      missed: Boolean(row.missed),
+      policy: row.policy || undefined,
+      reason: row.reason || undefined,
+      post_id: row.post_id ?? undefined,
+      recorded_at: parseSqlTimestamp(row.created_at)
+    }));
+  }
+}
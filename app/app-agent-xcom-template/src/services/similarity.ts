@@ -0,0 +1,501 @@
+/**
+ * Template Similarity Checker - Near-duplicate detection for the post pool
+ *
+ * The content hash only catches exact repeats. Posts are also compared on
+ * their wording: text is normalized (NFKC, lowercase, links and punctuation
+ * removed) and split into overlapping three-word shingles, and a MinHash
+ * signature of the shingles estimates the Jaccard similarity of two posts.
+ * When SIMILARITY_EMBEDDING_MODEL is set, posts are embedded as well and
+ * the cosine similarity of the embeddings catches rephrasings that share
+ * few words. Signatures and embeddings are stored with the post and
+ * computed for older posts the first time they are needed.
+ *
+ * Checks run at two points:
+ * - insert: a new post is compared with the queued posts and with posts
+ *   published within SIMILARITY_LOOKBACK_DAYS
+ * - publish: a queued post is compared with the posts published within the
+ *   lookback window before it goes out
+ *
+ * Variants of the same A/B test are meant to be alike and are never compared
+ * with each other. Every near-duplicate is recorded in similarity_rejections
+ * with the post it collided with.
+ *
+ * Configuration:
+ * - SIMILARITY_CHECK: "false" turns detection off
+ * - SIMILARITY_THRESHOLD: MinHash similarity that makes a near-duplicate (0-1, default 0.8)
+ * - SIMILARITY_EMBEDDING_THRESHOLD: cosine similarity that makes a near-duplicate (0-1, default 0.92)
+ * - SIMILARITY_LOOKBACK_DAYS: days of published posts to compare with (default 90)
+ * - SIMILARITY_EMBEDDING_MODEL: embedding model on the LLM_PROVIDER endpoint (optional)
+ *
+ * @author Your Name
+ * @version 1.0.0
+ */
+
+import { DatabaseConnection } from '../shared/database/connection';
+import {
+  Post,
+  SimilarityMatch,
+  SimilarityRejection,
+  SimilaritySettings,
+  SimilarityStage
+} from '../shared/types';
+import {
+  DEFAULT_SIMILARITY_EMBEDDING_THRESHOLD,
+  DEFAULT_SIMILARITY_LOOKBACK_DAYS,
+  DEFAULT_SIMILARITY_THRESHOLD,
+  MAX_SIMILARITY_EMBEDDING_BATCH,
+  MINHASH_SIGNATURE_SIZE
+} from '../shared/constants';
+import { EmbeddingModel } from '../shared/services/content-model';
+import { parseSqlTimestamp } from '../shared/utils/sql-timestamp';
+import { createEmbeddingModel } from './content-models';
+import { logger } from '../utils/logger';
+
+// Words per shingle
+const SHINGLE_SIZE = 3;
+
+// Posts compared with: the queue and recent posts (insert), or recent posts only (publish)
+export type SimilarityScope = 'pool' | 'published';
+
+// Comparable form of a post
+export interface PostFingerprint {
+  content: string;
+  minhash: number[] | null;  // null when nothing is left after normalizing (e.g. only emojis)
+  embedding?: number[];
+}
+
+// Post held in a similarity index
+export interface IndexedPost extends PostFingerprint {
+  post_id: number;
+  variant_group?: string;
+}
+
+// Embedding stored in posts.embedding; vectors of different models are not comparable
+interface StoredEmbedding {
+  model: string;
+  vector: number[];
+}
+
+/**
+ * Get Similarity Settings - Read SIMILARITY_CHECK, SIMILARITY_THRESHOLD,
+ * SIMILARITY_EMBEDDING_THRESHOLD and SIMILARITY_LOOKBACK_DAYS
+ *
+ * @returns SimilaritySettings - Whether detection runs, its thresholds and lookback window
+ * @throws Error if a setting is invalid
+ */
+export function getSimilaritySettings(): SimilaritySettings {
+  const threshold = Number(process.env.SIMILARITY_THRESHOLD || DEFAULT_SIMILARITY_THRESHOLD);
+  if (!Number.isFinite(threshold) || threshold <= 0 || threshold > 1) {
+    throw new Error(`Invalid SIMILARITY_THRESHOLD "${process.env.SIMILARITY_THRESHOLD}" (expected 0-1, e.g. 0.8)`);
+  }
+
+  const embeddingThreshold = Number(process.env.SIMILARITY_EMBEDDING_THRESHOLD || DEFAULT_SIMILARITY_EMBEDDING_THRESHOLD);
+  if (!Number.isFinite(embeddingThreshold) || embeddingThreshold <= 0 || embeddingThreshold > 1) {
+    throw new Error(
+      `Invalid SIMILARITY_EMBEDDING_THRESHOLD "${process.env.SIMILARITY_EMBEDDING_THRESHOLD}" (expected 0-1, e.g. 0.92)`
+    );
+  }
+
+  const lookbackDays = Number(process.env.SIMILARITY_LOOKBACK_DAYS || DEFAULT_SIMILARITY_LOOKBACK_DAYS);
+  if (!Number.isInteger(lookbackDays) || lookbackDays < 0) {
+    throw new Error(`Invalid SIMILARITY_LOOKBACK_DAYS "${process.env.SIMILARITY_LOOKBACK_DAYS}" (expected days >= 0)`);
+  }
+
+  return {
+    enabled: process.env.SIMILARITY_CHECK !== 'false',
+    threshold,
+    embedding_threshold: embeddingThreshold,
+    lookback_days: lookbackDays
+  };
+}
+
+/**
+ * Normalize For Similarity - Text reduced to the words that carry its meaning
+ *
+ * @param text - Post content
+ * @returns string - NFKC-normalized lowercase words without links, mentions' @ or punctuation
+ */
+export function normalizeForSimilarity(text: string): string {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/(?:https?:\/\/|www\.)\S+/g, ' ')
+    .replace(/[^\p{L}\p{N}\s]+/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * MinHash Signature - Signature of a text's word shingles
+ *
+ * @param text - Post content
+ * @returns number[] | null - MINHASH_SIGNATURE_SIZE minimum hashes, or null if no words are left
+ */
+export function minhashSignature(text: string): number[] | null {
+  const words = normalizeForSimilarity(text).split(' ').filter(word => word.length > 0);
+  if (words.length === 0) {
+    return null;
+  }
+
+  // Short texts are a single shingle
+  const shingles = new Set<string>();
+  for (let i = 0; i <= Math.max(0, words.length - SHINGLE_SIZE); i++) {
+    shingles.add(words.slice(i, i + SHINGLE_SIZE).join(' '));
+  }
+
+  const signature = new Array<number>(MINHASH_SIGNATURE_SIZE).fill(0xffffffff);
+  for (const shingle of shingles) {
+    // Double hashing: hash i is h1 + i * h2
+    const h1 = fnv1a(shingle, 0x811c9dc5);
+    const h2 = fnv1a(shingle, 0x01000193) | 1;
+    for (let i = 0; i < MINHASH_SIGNATURE_SIZE; i++) {
+      const hash = (h1 + Math.imul(i, h2)) >>> 0;
+      if (hash < signature[i]) {
+        signature[i] = hash;
+      }
+    }
+  }
+  return signature;
+}
+
+/**
+ * Estimate Similarity - Jaccard similarity estimated from two MinHash signatures
+ *
+ * @param a - First signature
+ * @param b - Second signature
+ * @returns number - Share of matching hashes (0-1)
+ */
+export function estimateSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) {
+    return 0;
+  }
+  let equal = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) {
+      equal++;
+    }
+  }
+  return equal / a.length;
+}
+
+/**
+ * Cosine Similarity - Cosine of the angle between two vectors
+ *
+ * @param a - First vector
+ * @param b - Second vector
+ * @returns number - Similarity (-1 to 1), 0 for vectors of different sizes or zero vectors
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) {
+    return 0;
+  }
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+// 32-bit FNV-1a over UTF-16 code units
+function fnv1a(text: string, seed: number): number {
+  let hash = seed;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Signature as hex ('' when there is nothing to compare)
+function encodeSignature(signature: number[] | null): string {
+  return signature ? signature.map(hash => hash.toString(16).padStart(8, '0')).join('') : '';
+}
+
+function decodeSignature(value: string): number[] | null {
+  if (value === '') {
+    return null;
+  }
+  return value.match(/.{8}/g)!.map(hash => parseInt(hash, 16));
+}
+
+/**
+ * Similarity Index Class
+ *
+ * Posts to compare with, searched linearly: a post pool holds a few thousand
+ * posts at most, and a signature comparison is 64 integer checks.
+ */
+export class SimilarityIndex {
+  private entries: IndexedPost[] = [];
+
+  /**
+   * Constructor - Create an empty index
+   *
+   * @param settings - Thresholds a match must reach
+   */
+  constructor(private settings: SimilaritySettings) {}
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Add - Compare later posts with this one too
+   *
+   * @param entry - Post and its fingerprint
+   */
+  add(entry: IndexedPost): void {
+    this.entries.push(entry);
+  }
+
+  /**
+   * Find Match - Most similar post over either threshold
+   *
+   * A MinHash match wins over an embedding match. Exact repeats are left to
+   * the content hash check, and variants of the same A/B test are skipped.
+   *
+   * @param fingerprint - Post to check
+   * @param variantGroup - A/B test the post belongs to
+   * @returns SimilarityMatch | null - The colliding post, or null if the post is distinct
+   */
+  findMatch(fingerprint: PostFingerprint, variantGroup?: string): SimilarityMatch | null {
+    const content = fingerprint.content.toLowerCase().trim();
+    let byMinhash: SimilarityMatch | null = null;
+    let byEmbedding: SimilarityMatch | null = null;
+
+    for (const entry of this.entries) {
+      if ((variantGroup && entry.variant_group === variantGroup) || entry.content.toLowerCase().trim() === content) {
+        continue;
+      }
+
+      if (fingerprint.minhash && entry.minhash) {
+        const similarity = estimateSimilarity(fingerprint.minhash, entry.minhash);
+        if (similarity >= this.settings.threshold && (!byMinhash || similarity > byMinhash.similarity)) {
+          byMinhash = { post_id: entry.post_id, content: entry.content, similarity, method: 'minhash' };
+        }
+      }
+      if (fingerprint.embedding && entry.embedding) {
+        const similarity = cosineSimilarity(fingerprint.embedding, entry.embedding);
+        if (similarity >= this.settings.embedding_threshold && (!byEmbedding || similarity > byEmbedding.similarity)) {
+          byEmbedding = { post_id: entry.post_id, content: entry.content, similarity, method: 'embedding' };
+        }
+      }
+    }
+
+    return byMinhash || byEmbedding;
+  }
+}
+
+/**
+ * Template Similarity Checker Class
+ */
+export class TemplateSimilarityChecker {
+  private botId: string;
+
+  /**
+   * Constructor - Initialize checker
+   *
+   * @param db - Database connection for posts and similarity_rejections
+   * @param embeddingModel - Embedding model, or null to compare MinHash signatures only
+   */
+  constructor(private db: DatabaseConnection, private embeddingModel: EmbeddingModel | null = createEmbeddingModel()) {
+    this.botId = process.env.BOT_NAME || 'template-bot';
+  }
+
+  /**
+   * Fingerprint - Signatures and embeddings of new content
+   *
+   * @param contents - Post contents
+   * @returns Promise<PostFingerprint[]> - One fingerprint per content, in order
+   *   (without embeddings when no model is configured or the model fails)
+   */
+  async fingerprint(contents: string[]): Promise<PostFingerprint[]> {
+    const embeddings = await this.embed(contents);
+    return contents.map((content, index) => ({
+      content,
+      minhash: minhashSignature(content),
+      embedding: embeddings?.[index]
+    }));
+  }
+
+  /**
+   * Encode - Fingerprint as stored in the posts table
+   *
+   * @param fingerprint - Fingerprint of the post's content
+   * @returns { minhash, embedding } - Column values (embedding null without a vector)
+   */
+  encode(fingerprint: PostFingerprint): { minhash: string; embedding: string | null } {
+    return {
+      minhash: encodeSignature(fingerprint.minhash),
+      embedding: fingerprint.embedding && this.embeddingModel
+        ? JSON.stringify({ model: this.embeddingModel.id, vector: fingerprint.embedding } as StoredEmbedding)
+        : null
+    };
+  }
+
+  /**
+   * Load Index - Index of the posts new or queued posts are compared with
+   *
+   * Missing signatures and embeddings are computed and stored.
+   *
+   * @param scope - "pool" for queued and recently published posts, "published" for recent posts only
+   * @param excludePostId - Post left out (the one being checked)
+   * @returns Promise<SimilarityIndex> - Index with the current settings
+   */
+  async loadIndex(scope: SimilarityScope, excludePostId?: number): Promise<SimilarityIndex> {
+    const settings = getSimilaritySettings();
+    const queued = scope === 'pool'
+      ? `(used = 0 AND retired_at IS NULL AND review_status IN ('draft', 'pending_review', 'approved')) OR `
+      : '';
+    const rows = await this.db.all(`
+      SELECT id, content, variant_group, minhash, embedding FROM posts
+      WHERE bot_id = ? AND id != ? AND (${queued}(used = 1 AND used_at >= datetime('now', ?)))
+      ORDER BY id ASC
+    `, [this.botId, excludePostId ?? -1, `-${settings.lookback_days} days`]);
+
+    const index = new SimilarityIndex(settings);
+    for (const entry of await this.withFingerprints(rows)) {
+      index.add(entry);
+    }
+    return index;
+  }
+
+  /**
+   * Check Queued Post - Compare a queued post with recently published posts
+   *
+   * @param post - Post about to be published
+   * @returns Promise<SimilarityMatch | null> - Published post it is too similar to, or null
+   */
+  async checkQueuedPost(post: Post): Promise<SimilarityMatch | null> {
+    if (!getSimilaritySettings().enabled) {
+      return null;
+    }
+
+    const row = await this.db.get(`
+      SELECT id, content, variant_group, minhash, embedding FROM posts WHERE id = ? AND bot_id = ?
+    `, [post.id, this.botId]);
+    if (!row) {
+      return null;
+    }
+    const [fingerprint] = await this.withFingerprints([row]);
+    const index = await this.loadIndex('published', post.id);
+    return index.findMatch(fingerprint, post.variant_group);
+  }
+
+  /**
+   * Record Rejection - Report a near-duplicate with the post it collided with
+   *
+   * @param db - Database connection (inside the caller's transaction, if any)
+   * @param stage - Where the near-duplicate was caught
+   * @param content - Its content
+   * @param match - The post it collided with
+   * @param postId - The near-duplicate's own post, if it was stored
+   */
+  async recordRejection(
+    db: DatabaseConnection,
+    stage: SimilarityStage,
+    content: string,
+    match: SimilarityMatch,
+    postId?: number
+  ): Promise<void> {
+    await db.run(`
+      INSERT INTO similarity_rejections (bot_id, stage, post_id, content, similar_post_id, similarity, method)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `, [this.botId, stage, postId ?? null, content, match.post_id, match.similarity, match.method]);
+  }
+
+  /**
+   * Get Rejections - Recent near-duplicates, newest first
+   *
+   * @param limit - Maximum number of rejections
+   * @returns Promise<SimilarityRejection[]> - Rejections with the content of the colliding post
+   */
+  async getRejections(limit: number = 50): Promise<SimilarityRejection[]> {
+    const rows = await this.db.all(`
+      SELECT r.*, p.content AS similar_content FROM similarity_rejections r
+      LEFT JOIN posts p ON p.id = r.similar_post_id
+      WHERE r.bot_id = ?
+      ORDER BY r.id DESC
+      LIMIT ?
+    `, [this.botId, limit]);
+
+    return rows.map(row => ({
+      id: row.id,
+      stage: row.stage,
+      post_id: row.post_id ?? undefined,
+      content: row.content,
+      similar_post_id: row.similar_post_id,
+      similar_content: row.similar_content ?? undefined,
+      similarity: row.similarity,
+      method: row.method,
+      created_at: parseSqlTimestamp(row.created_at)
+    }));
+  }
+
+  /**
+   * With Fingerprints - Decode stored fingerprints, computing and storing missing ones
+   *
+   * @param rows - posts rows with id, content, variant_group, minhash and embedding
+   * @returns Promise<IndexedPost[]> - Indexed posts, in order
+   */
+  private async withFingerprints(rows: any[]): Promise<IndexedPost[]> {
+    const entries: IndexedPost[] = rows.map(row => ({
+      post_id: row.id,
+      content: row.content,
+      variant_group: row.variant_group || undefined,
+      minhash: row.minhash === null ? minhashSignature(row.content) : decodeSignature(row.minhash),
+      embedding: this.decodeEmbedding(row.embedding)
+    }));
+
+    for (const [position, row] of rows.entries()) {
+      if (row.minhash === null) {
+        await this.db.run('UPDATE posts SET minhash = ? WHERE id = ?', [encodeSignature(entries[position].minhash), row.id]);
+      }
+    }
+
+    const missing = entries.filter(entry => !entry.embedding);
+    const embeddings = await this.embed(missing.map(entry => entry.content));
+    if (embeddings) {
+      for (const [position, entry] of missing.entries()) {
+        entry.embedding = embeddings[position];
+        await this.db.run('UPDATE posts SET embedding = ? WHERE id = ?', [this.encode(entry).embedding, entry.post_id]);
+      }
+    }
+    return entries;
+  }
+
+  // Stored embedding, unless it came from another model
+  private decodeEmbedding(value: string | null): number[] | undefined {
+    if (!value || !this.embeddingModel) {
+      return undefined;
+    }
+    const stored = JSON.parse(value) as StoredEmbedding;
+    return stored.model === this.embeddingModel.id ? stored.vector : undefined;
+  }
+
+  /**
+   * Embed - Embeddings in batches; a failing model only costs the semantic check
+   *
+   * @param contents - Texts to embed
+   * @returns Promise<number[][] | null> - One vector per text, or null without a working model
+   */
+  private async embed(contents: string[]): Promise<number[][] | null> {
+    if (!this.embeddingModel || contents.length === 0 || !getSimilaritySettings().enabled) {
+      return null;
+    }
+
+    try {
+      const vectors: number[][] = [];
+      for (let start = 0; start < contents.length; start += MAX_SIMILARITY_EMBEDDING_BATCH) {
+        vectors.push(...await this.embeddingModel.embed(contents.slice(start, start + MAX_SIMILARITY_EMBEDDING_BATCH)));
+      }
+      return vectors;
+    } catch (error) {
+      logger.warn(`Embedding failed, comparing MinHash signatures only: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,253 @@
+/**
+ * Template Topic Optimizer - Learn topic weights from engagement
+ *
+ * Treats the persona's topics as arms of a multi-armed bandit. The reward of
+ * an arm is engagement per impression (likes + reposts + replies + quotes
+ * over impressions) of its posts' 24h metrics snapshots, over the last
+ * TOPIC_OPTIMIZER_LOOKBACK_DAYS days. Rates are smoothed towards the overall
+ * rate so a topic with few impressions is neither written off nor crowned
+ * on one lucky post, and every topic keeps at least TOPIC_EXPLORATION_FLOOR
+ * of the probability so a topic that starts badly can still recover:
+ *
+ *   rate(topic)   = (engagements + K * overall rate) / (impressions + K)
+ *   weight(topic) = floor + (1 - topics * floor) * rate(topic) / sum of rates
+ *
+ * Every update is stored in topic_weight_updates with the per-topic numbers
+ * it was computed from. TOPIC_WEIGHT_MODE picks the weights in use:
+ * - static (default): persona topic weights
+ * - learned: latest update (persona weights until there is one)
+ * The mode can be switched per bot at runtime (PUT /topic-weights); the
+ * switch is kept in bot_state. Weights drive the weighted-random selection
+ * strategy and the local generator's topic split.
+ *
+ * @author Your Name
+ * @version 1.0.0
+ */
+
+import { DatabaseConnection } from '../shared/database/connection';
+import {
+  MetricsAge,
+  TopicArmStats,
+  TopicWeightMode,
+  TopicWeightSettings,
+  TopicWeightStatus,
+  TopicWeightUpdate
+} from '../shared/types';
+import { getPersona } from '../config/persona';
+import { TemplateBotState } from './bot-state';
+import { parseSqlTimestamp, toSqlTimestamp } from '../shared/utils/sql-timestamp';
+import { logger } from '../utils/logger';
+
+const TOPIC_WEIGHT_MODES: TopicWeightMode[] = ['static', 'learned'];
+
+// bot_state key holding the mode set at runtime (overrides TOPIC_WEIGHT_MODE)
+const MODE_KEY = 'topic_weight_mode';
+
+// Metrics snapshot age the reward is read from
+const REWARD_AGE: MetricsAge = '24h';
+
+// Prior strength: impressions' worth of the overall rate added to every topic
+const PRIOR_IMPRESSIONS = 1000;
+
+/**
+ * Get Topic Weight Settings - Read TOPIC_WEIGHT_MODE, TOPIC_EXPLORATION_FLOOR and TOPIC_OPTIMIZER_LOOKBACK_DAYS
+ *
+ * @returns TopicWeightSettings - Default mode, exploration floor and lookback
+ * @throws Error if a setting is invalid
+ */
+export function getTopicWeightSettings(): TopicWeightSettings {
+  const mode = (process.env.TOPIC_WEIGHT_MODE || 'static') as TopicWeightMode;
+  if (!TOPIC_WEIGHT_MODES.includes(mode)) {
+    throw new Error(`Invalid TOPIC_WEIGHT_MODE "${mode}" (expected one of: ${TOPIC_WEIGHT_MODES.join(', ')})`);
+  }
+
+  const floor = Number(process.env.TOPIC_EXPLORATION_FLOOR || '0.05');
+  if (!Number.isFinite(floor) || floor < 0 || floor > 1) {
+    throw new Error(`Invalid TOPIC_EXPLORATION_FLOOR "${process.env.TOPIC_EXPLORATION_FLOOR}" (expected 0-1)`);
+  }
+
+  const lookbackDays = Number(process.env.TOPIC_OPTIMIZER_LOOKBACK_DAYS || '30');
+  if (!Number.isInteger(lookbackDays) || lookbackDays < 1) {
+    throw new Error(`Invalid TOPIC_OPTIMIZER_LOOKBACK_DAYS "${process.env.TOPIC_OPTIMIZER_LOOKBACK_DAYS}" (expected days >= 1)`);
+  }
+
+  return { mode, exploration_floor: floor, lookback_days: lookbackDays };
+}
+
+/**
+ * Compute Learned Weights - Selection probabilities from per-topic engagement
+ *
+ * @param arms - Impressions and engagements per topic (rate is filled in)
+ * @param explorationFloor - Minimum probability per topic (capped at an equal share)
+ * @returns Record<string, number> - Probability per topic, summing to 1 (4 decimals)
+ */
+export function computeLearnedWeights(arms: TopicArmStats[], explorationFloor: number): Record<string, number> {
+  const impressions = arms.reduce((sum, arm) => sum + arm.impressions, 0);
+  const engagements = arms.reduce((sum, arm) => sum + arm.engagements, 0);
+  const overallRate = impressions > 0 ? engagements / impressions : 0;
+
+  for (const arm of arms) {
+    arm.rate = (arm.engagements + PRIOR_IMPRESSIONS * overallRate) / (arm.impressions + PRIOR_IMPRESSIONS);
+  }
+
+  const floor = Math.min(explorationFloor, 1 / arms.length);
+  const totalRate = arms.reduce((sum, arm) => sum + arm.rate, 0);
+  return Object.fromEntries(arms.map(arm => {
+    // Without any engagement every topic is as good as the others
+    const share = totalRate > 0 ? arm.rate / totalRate : 1 / arms.length;
+    return [arm.topic, Math.round((floor + (1 - arms.length * floor) * share) * 10000) / 10000];
+  }));
+}
+
+// Persona topic weights
+function getStaticWeights(): Record<string, number> {
+  return Object.fromEntries(getPersona().topics.map(topic => [topic.key, topic.weight]));
+}
+
+/**
+ * Template Topic Optimizer Class
+ */
+export class TemplateTopicOptimizer {
+  private botId: string;
+  private state: TemplateBotState;
+
+  /**
+   * Constructor - Initialize optimizer with database connection
+   *
+   * @param db - Database connection for tweet_metrics, topic_weight_updates and bot_state
+   */
+  constructor(private db: DatabaseConnection) {
+    this.botId = process.env.BOT_NAME || 'template-bot';
+    this.state = new TemplateBotState(db);
+  }
+
+  /**
+   * Get Mode - Mode set at runtime, or TOPIC_WEIGHT_MODE
+   *
+   * @returns Promise<TopicWeightMode> - Where the weights in use come from
+   */
+  async getMode(): Promise<TopicWeightMode> {
+    const stored = await this.state.get(MODE_KEY);
+    return TOPIC_WEIGHT_MODES.includes(stored as TopicWeightMode)
+      ? stored as TopicWeightMode
+      : getTopicWeightSettings().mode;
+  }
+
+  /**
+   * Set Mode - Switch between persona and learned weights for this bot
+   *
+   * @param mode - Mode to use from now on (kept across restarts)
+   */
+  async setMode(mode: TopicWeightMode): Promise<void> {
+    await this.state.set(MODE_KEY, mode);
+    logger.info(`Topic weights switched to ${mode}`);
+  }
+
+  /**
+   * Get Weights - Topic weights in use
+   *
+   * Learned probabilities are scaled to the persona's total weight, so a
+   * category outside the persona (weight 1, e.g. manual posts) weighs the
+   * same against the topics in both modes. In learned mode, persona topics
+   * added since the latest update get the exploration floor until the next
+   * update.
+   *
+   * @returns Promise<Record<string, number>> - Weight per persona topic key
+   */
+  async getWeights(): Promise<Record<string, number>> {
+    return (await this.getStatus()).weights;
+  }
+
+  /**
+   * Get Status - Mode, weights in use, persona weights and the latest update
+   *
+   * @returns Promise<TopicWeightStatus> - Current topic weighting
+   */
+  async getStatus(): Promise<TopicWeightStatus> {
+    const mode = await this.getMode();
+    const staticWeights = getStaticWeights();
+    const [latest] = await this.getUpdates(1);
+
+    const totalWeight = Object.values(staticWeights).reduce((sum, weight) => sum + weight, 0);
+    const weights = mode === 'learned' && latest
+      ? Object.fromEntries(Object.keys(staticWeights).map(topic => {
+        const probability = latest.weights[topic] ?? latest.exploration_floor;
+        return [topic, Math.round(probability * totalWeight * 10000) / 10000];
+      }))
+      : staticWeights;
+
+    return { mode, weights, static_weights: staticWeights, latest_update: latest };
+  }
+
+  /**
+   * Update - Recompute learned weights from recent engagement
+   *
+   * Weights are computed in both modes, so learned weights can be reviewed
+   * before switching to them. Nothing is stored until some topic has
+   * impressions, or when the weights did not change.
+   *
+   * @param now - Current time
+   * @returns Promise<TopicWeightUpdate | null> - The latest update, or null without any engagement data
+   */
+  async update(now: Date = new Date()): Promise<TopicWeightUpdate | null> {
+    const settings = getTopicWeightSettings();
+    const since = new Date(now.getTime() - settings.lookback_days * 24 * 60 * 60 * 1000);
+
+    const rows = await this.db.all(`
+      SELECT p.category AS topic, COUNT(DISTINCT tm.post_id) AS posts, SUM(tm.impressions) AS impressions,
+        SUM(tm.likes + tm.reposts + tm.replies + tm.quotes) AS engagements
+      FROM tweet_metrics tm
+      JOIN published_posts pp ON pp.bot_id = tm.bot_id AND pp.post_id = tm.post_id
+      JOIN posts p ON p.id = tm.post_id
+      WHERE tm.bot_id = ? AND tm.age = ? AND pp.published_at >= ?
+      GROUP BY p.category
+    `, [this.botId, REWARD_AGE, toSqlTimestamp(since)]);
+
+    const arms: TopicArmStats[] = getPersona().topics.map(({ key }) => {
+      const row = rows.find(candidate => candidate.topic === key);
+      return { topic: key, posts: row?.posts || 0, impressions: row?.impressions || 0, engagements: row?.engagements || 0, rate: 0 };
+    });
+    if (arms.every(arm => arm.impressions === 0)) {
+      return null;
+    }
+
+    const weights = computeLearnedWeights(arms, settings.exploration_floor);
+    const [latest] = await this.getUpdates(1);
+    if (latest && JSON.stringify(latest.weights) === JSON.stringify(weights)) {
+      return latest;
+    }
+
+    await this.db.run(`
+      INSERT INTO topic_weight_updates (bot_id, weights, arms, exploration_floor, lookback_days, created_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `, [this.botId, JSON.stringify(weights), JSON.stringify(arms), settings.exploration_floor, settings.lookback_days, toSqlTimestamp(now)]);
+
+    logger.info(`Learned topic weights updated: ${Object.entries(weights).map(([topic, weight]) => `${topic} ${weight}`).join(', ')}`);
+    const [update] = await this.getUpdates(1);
+    return update;
+  }
+
+  /**
+   * Get Updates - Stored weight updates, newest first
+   *
+   * @param limit - Maximum number of updates
+   * @returns Promise<TopicWeightUpdate[]> - Updates with the engagement they were computed from
+   */
+  async getUpdates(limit: number = 10): Promise<TopicWeightUpdate[]> {
+    const rows = await this.db.all(`
+      SELECT * FROM topic_weight_updates
+      WHERE bot_id = ?
+      ORDER BY id DESC
+      LIMIT ?
+    `, [this.botId, limit]);
+
+    return rows.map(row => ({
+      id: row.id,
+      weights: JSON.parse(row.weights),
+      arms: JSON.parse(row.arms),
+      exploration_floor: row.exploration_floor,
+      lookback_days: row.lookback_days,
+      created_at: parseSqlTimestamp(row.created_at)
+    }));
+  }
+}
@@ -8,7 +8,12 @@
  * Key Features:
  * - OAuth 1.0a authentication with Twitter API v2
  * - Tweet posting with content validation
- * - Rate limit handling and error recovery
+ * - Thread posting with resumable reply chains
+ * - Media upload (chunked) with alt text
+ * - Mention timeline polling with a since_id cursor
+ * - Rate limit tracking from x-rate-limit-* response headers
+ * - Error classification from HTTP status codes (retryable vs. permanent)
+ * - Optional API base URL override (TWITTER_API_BASE_URL) for a local fake X server
  * - Comprehensive error handling and logging
  * - Connection testing and health monitoring
  * 
@@ -20,9 +25,48 @@
  * @version 1.0.0
  */
 
-import { TwitterApi } from 'twitter-api-v2';
+import http from 'http';
+import { ApiResponseError, ITwitterApiClientPlugin, TwitterApi } from 'twitter-api-v2';
 import { logger } from '../utils/logger';
-import { TwitterAPIError } from '../shared/types';
+import { IncomingMention, PublishMode, TweetMetrics, TwitterAPIError } from '../shared/types';
+import { MAX_MENTIONS_PER_POLL, MAX_METRICS_LOOKUP_IDS, MEDIA_UPLOAD_CHUNK_BYTES } from '../shared/constants';
+import { resolveMediaAttachments } from './media';
+import { RateLimitTracker } from './rate-limit-tracker';
+import {
+  assertPublishableContent,
+  postThread,
+  PostThreadOptions,
+  PostTweetOptions,
+  Publisher
+} from './publishing/publisher';
+
+export type { PostThreadOptions, PostTweetOptions } from './publishing/publisher';
+
+/**
+ * Create API Base URL Plugin - Send every X API request to another host
+ * 
+ * Rewrites the protocol and host of api.x.com and upload.x.com requests
+ * (the path is kept), so the client can talk to a local stand-in such as
+ * the fake X server used by integration tests. Plain http targets get an
+ * http agent, since the client always issues requests through https.
+ * 
+ * @param baseUrl - Target origin, e.g. "http://127.0.0.1:4010"
+ * @returns ITwitterApiClientPlugin - Plugin to pass to the TwitterApi client
+ */
+export function createApiBaseUrlPlugin(baseUrl: string): ITwitterApiClientPlugin {
+  const target = new URL(baseUrl);
+  const agent = target.protocol === 'http:' ? new http.Agent({ keepAlive: false }) : undefined;
+
+  return {
+    onBeforeRequest: ({ computedParams, requestOptions }) => {
+      computedParams.url.protocol = target.protocol;
+      computedParams.url.host = target.host;
+      if (agent) {
+        requestOptions.agent = agent;
+      }
+    }
+  };
+}
 
 /**
  * Template Twitter Service Class
@@ -31,10 +75,20 @@ import { TwitterAPIError } from '../shared/types';
  * Handles authentication, posting, retrieval, and error management for
  * Twitter operations with proper rate limiting and error recovery.
  */
-export class TemplateTwitterService {
+export class TemplateTwitterService implements Publisher {
+  readonly mode: PublishMode = 'live';
+  account?: string;  // @handle of the authenticated user, set by initialize
+  private userId?: string;  // X user ID of the authenticated user, set by initialize
   private client: TwitterApi | null = null;
   private isInitialized = false;
 
+  /**
+   * Constructor - Optionally attach a rate limit tracker
+   * 
+   * @param rateLimitTracker - Tracker that records rate limit headers from every response
+   */
+  constructor(private rateLimitTracker?: RateLimitTracker) {}
+
   /**
    * Initialize Twitter Service - Set up API client and test connection
    * 
@@ -48,6 +102,8 @@ export class TemplateTwitterService {
    * - TWITTER_ACCESS_TOKEN: Twitter access token
    * - TWITTER_ACCESS_SECRET: Twitter access token secret
    * 
+   * Optional: TWITTER_API_BASE_URL sends all requests to another host (testing only)
+   * 
    * @throws TwitterAPIError if initialization fails or credentials are missing
    */
   async initialize(): Promise<void> {
@@ -65,17 +121,30 @@ export class TemplateTwitterService {
         throw new TwitterAPIError('Missing Twitter API credentials', false);
       }
 
-      // Create Twitter client with OAuth 1.0a authentication
+      // Create Twitter client with OAuth 1.0a authentication; the tracker plugin
+      // sees the rate limit headers of every response, and TWITTER_API_BASE_URL
+      // points the client at a local fake X server instead of api.x.com
+      const plugins: ITwitterApiClientPlugin[] = [];
+      if (this.rateLimitTracker) {
+        plugins.push(this.rateLimitTracker.createPlugin());
+      }
+      if (process.env.TWITTER_API_BASE_URL) {
+        logger.warn(`Sending X API requests to ${process.env.TWITTER_API_BASE_URL}`);
+        plugins.push(createApiBaseUrlPlugin(process.env.TWITTER_API_BASE_URL));
+      }
+
       this.client = new TwitterApi({
         appKey: apiKey,
         appSecret: apiSecret,
         accessToken: accessToken,
         accessSecret: accessSecret,
-      });
+      }, { plugins });
 
       // Test the connection by retrieving user information
       const me = await this.client.v2.me();
-      logger.info(`Twitter service initialized for user: @${me.data.username}`);
+      this.account = `@${me.data.username}`;
+      this.userId = me.data.id;
+      logger.info(`Twitter service initialized for user: ${this.account}`);
 
       this.isInitialized = true;
     } catch (error) {
@@ -95,29 +164,38 @@ export class TemplateTwitterService {
    * for different failure scenarios.
    * 
    * @param content - The tweet content to post (max 280 characters)
+   * @param options - Optional reply target and media attachments
    * @returns Promise<string> - The tweet ID of the posted tweet
    * @throws TwitterAPIError if posting fails or content is invalid
+   * @throws MediaError if attached media fails validation
    */
-  async postTweet(content: string): Promise<string> {
+  async postTweet(content: string, options: PostTweetOptions = {}): Promise<string> {
     if (!this.isInitialized || !this.client) {
       throw new TwitterAPIError('Twitter service not initialized', false);
     }
 
+    // Validate media up front so bad files fail fast and are never retried
+    const media = options.media && options.media.length > 0
+      ? resolveMediaAttachments(options.media)
+      : [];
+
     try {
       logger.info('Posting tweet to Twitter...');
 
-      // Validate content length (Twitter's character limit)
-      if (content.length > 280) {
-        throw new TwitterAPIError('Tweet content exceeds 280 character limit', false);
-      }
+      // Validate content length and that it is not empty
+      assertPublishableContent(content);
 
-      // Validate content is not empty
-      if (!content.trim()) {
-        throw new TwitterAPIError('Tweet content cannot be empty', false);
+      // Upload media before tweeting so the tweet can reference the media IDs
+      const mediaIds: string[] = [];
+      for (const attachment of media) {
+        mediaIds.push(await this.uploadMedia(attachment.path, attachment.mime_type, attachment.alt_text));
       }
 
-      // Post the tweet using Twitter API v2
-      const tweet = await this.client.v2.tweet(content);
+      // Post the tweet using Twitter API v2, as a reply when chaining a thread
+      const tweet = await this.client.v2.tweet(content, {
+        ...(options.replyToId ? { reply: { in_reply_to_tweet_id: options.replyToId } } : {}),
+        ...(mediaIds.length > 0 ? { media: { media_ids: mediaIds as [string] } } : {})
+      });
       
       // Validate that we received a valid tweet ID in response
       if (!tweet.data?.id) {
@@ -129,28 +207,60 @@ export class TemplateTwitterService {
 
     } catch (error) {
       logger.error('Failed to post tweet:', error);
-      
-      // Handle specific Twitter API errors with appropriate error types
-      if (error instanceof Error) {
-        if (error.message.includes('rate limit')) {
-          throw new TwitterAPIError('Rate limit exceeded', true);
-        } else if (error.message.includes('duplicate')) {
-          throw new TwitterAPIError('Duplicate tweet content', false);
-        } else if (error.message.includes('forbidden')) {
-          throw new TwitterAPIError('Tweet content violates Twitter rules', false);
-        } else if (error.message.includes('unauthorized')) {
-          throw new TwitterAPIError('Twitter API credentials are invalid', false);
-        }
-      }
+      throw this.toTwitterError(error, 'Failed to post tweet');
+    }
+  }
 
-      // Generic error handling for unknown failures
-      throw new TwitterAPIError(
-        `Failed to post tweet: ${error instanceof Error ? error.message : String(error)}`,
-        true
-      );
+  /**
+   * Upload Media - Upload a local media file and set its alt text
+   * 
+   * Files are sent with the chunked upload flow (INIT/APPEND/FINALIZE) in
+   * MEDIA_UPLOAD_CHUNK_BYTES pieces, so large GIFs and videos upload reliably.
+   * 
+   * @param filePath - Path to the local media file
+   * @param mimeType - MIME type of the file
+   * @param altText - Alt text describing the media
+   * @returns Promise<string> - The uploaded media ID
+   * @throws TwitterAPIError if upload fails
+   */
+  async uploadMedia(filePath: string, mimeType: string, altText: string): Promise<string> {
+    if (!this.isInitialized || !this.client) {
+      throw new TwitterAPIError('Twitter service not initialized', false);
+    }
+
+    try {
+      logger.info(`Uploading media: ${filePath}`);
+
+      const mediaId = await this.client.v1.uploadMedia(filePath, {
+        mimeType,
+        chunkLength: MEDIA_UPLOAD_CHUNK_BYTES
+      });
+      await this.client.v1.createMediaMetadata(mediaId, { alt_text: { text: altText } });
+
+      logger.info(`Successfully uploaded media: ${mediaId}`);
+      return mediaId;
+    } catch (error) {
+      logger.error('Failed to upload media:', error);
+      throw this.toTwitterError(error, 'Failed to upload media');
     }
   }
 
+  /**
+   * Post Thread - Post ordered segments as a chain of replies
+   * 
+   * Each segment is posted as a reply to the previous one. When a segment fails,
+   * the error carries the tweet IDs posted so far and the failed segment index
+   * so the caller can resume the thread instead of re-posting the head.
+   * 
+   * @param segments - Ordered thread segments (each max 280 characters)
+   * @param options - Resume point and per-segment progress callback
+   * @returns Promise<string[]> - Tweet IDs of the segments posted by this call
+   * @throws TwitterAPIError if any segment fails to post
+   */
+  async postThread(segments: string[], options: PostThreadOptions = {}): Promise<string[]> {
+    return postThread(this, segments, options);
+  }
+
   /**
    * Get Tweet - Retrieve tweet information by ID
    * 
@@ -175,10 +285,97 @@ export class TemplateTwitterService {
       return tweet.data;
     } catch (error) {
       logger.error('Failed to get tweet:', error);
-      throw new TwitterAPIError(
-        `Failed to get tweet: ${error instanceof Error ? error.message : String(error)}`,
-        true
-      );
+      throw this.toTwitterError(error, 'Failed to get tweet');
+    }
+  }
+
+  /**
+   * Get Tweet Metrics - Public metrics of several tweets in one lookup
+   * 
+   * Uses the multi-tweet lookup (GET /2/tweets?ids=), so one request covers
+   * up to 100 tweets. Tweets X does not return (deleted, or from an account
+   * that became protected) are left out of the result.
+   * 
+   * @param tweetIds - Tweet IDs to look up (at most 100)
+   * @returns Promise<Map<string, TweetMetrics>> - Metrics by tweet ID
+   * @throws TwitterAPIError if the lookup fails
+   */
+  async getTweetMetrics(tweetIds: string[]): Promise<Map<string, TweetMetrics>> {
+    if (!this.isInitialized || !this.client) {
+      throw new TwitterAPIError('Twitter service not initialized', false);
+    }
+    if (tweetIds.length > MAX_METRICS_LOOKUP_IDS) {
+      throw new TwitterAPIError(`At most ${MAX_METRICS_LOOKUP_IDS} tweets can be looked up at once`, false);
+    }
+
+    const metrics = new Map<string, TweetMetrics>();
+    if (tweetIds.length === 0) {
+      return metrics;
+    }
+
+    try {
+      const result = await this.client.v2.tweets(tweetIds, { 'tweet.fields': ['public_metrics'] });
+
+      // Missing tweets come back as partial errors, with no data at all if none exist
+      for (const tweet of result.data || []) {
+        const counts = tweet.public_metrics;
+        metrics.set(tweet.id, {
+          impressions: counts?.impression_count || 0,
+          likes: counts?.like_count || 0,
+          reposts: counts?.retweet_count || 0,
+          replies: counts?.reply_count || 0,
+          quotes: counts?.quote_count || 0
+        });
+      }
+
+      return metrics;
+    } catch (error) {
+      logger.error('Failed to get tweet metrics:', error);
+      throw this.toTwitterError(error, 'Failed to get tweet metrics');
+    }
+  }
+
+  /**
+   * Get Mentions - Tweets mentioning the authenticated user
+   * 
+   * Reads the mention timeline (GET /2/users/:id/mentions) back to sinceId,
+   * paging up to MAX_MENTIONS_PER_POLL tweets. When more mentions arrived
+   * since the last poll, only the newest are returned.
+   * 
+   * @param sinceId - Newest mention already seen (omit for the most recent mentions)
+   * @returns Promise<IncomingMention[]> - Mentions, oldest first
+   * @throws TwitterAPIError if the lookup fails
+   */
+  async getMentions(sinceId?: string): Promise<IncomingMention[]> {
+    if (!this.isInitialized || !this.client || !this.userId) {
+      throw new TwitterAPIError('Twitter service not initialized', false);
+    }
+
+    try {
+      const timeline = await this.client.v2.userMentionTimeline(this.userId, {
+        ...(sinceId ? { since_id: sinceId } : {}),
+        max_results: 100,
+        expansions: ['author_id'],
+        'user.fields': ['username'],
+        'tweet.fields': ['author_id', 'conversation_id', 'created_at']
+      });
+      // fetchLast always requests another page, so only call it when there is one
+      if (!timeline.done) {
+        await timeline.fetchLast(MAX_MENTIONS_PER_POLL - timeline.tweets.length);
+      }
+
+      // The timeline is newest first
+      return timeline.tweets.slice(0, MAX_MENTIONS_PER_POLL).reverse().map(tweet => ({
+        tweet_id: tweet.id,
+        author_id: tweet.author_id,
+        author_username: timeline.includes.author(tweet)?.username,
+        text: tweet.text,
+        conversation_id: tweet.conversation_id,
+        created_at: tweet.created_at ? new Date(tweet.created_at) : undefined
+      }));
+    } catch (error) {
+      logger.error('Failed to get mentions:', error);
+      throw this.toTwitterError(error, 'Failed to get mentions');
     }
   }
 
@@ -207,10 +404,7 @@ export class TemplateTwitterService {
       return true;
     } catch (error) {
       logger.error('Failed to delete tweet:', error);
-      throw new TwitterAPIError(
-        `Failed to delete tweet: ${error instanceof Error ? error.message : String(error)}`,
-        true
-      );
+      throw this.toTwitterError(error, 'Failed to delete tweet');
     }
   }
 
@@ -251,22 +445,20 @@ export class TemplateTwitterService {
   /**
    * Get Rate Limit Status - Check current rate limit status
    * 
-   * This method retrieves the current rate limit status for Twitter API endpoints.
-   * Useful for monitoring and preventing rate limit violations.
+   * This method returns the latest rate limit window recorded for each X API
+   * endpoint (from x-rate-limit-* response headers) and the local posting
+   * budget. Useful for monitoring and preventing rate limit violations.
    * 
-   * @returns Promise<any> - Rate limit information
+   * @returns Promise<any> - Rate limit windows per endpoint and posting budget
    * @throws TwitterAPIError if rate limit check fails
    */
   async getRateLimitStatus(): Promise<any> {
-    if (!this.isInitialized || !this.client) {
-      throw new TwitterAPIError('Twitter service not initialized', false);
+    if (!this.rateLimitTracker) {
+      throw new TwitterAPIError('Rate limit tracking not configured', false);
     }
 
     try {
-      // Get rate limit status for tweets endpoint
-      // TODO: Fix rate limit status method
-      logger.warn('Rate limit status method not implemented');
-      return { limit: 0, remaining: 0, reset: 0 };
+      return await this.rateLimitTracker.getStatus();
     } catch (error) {
       logger.error('Failed to get rate limit status:', error);
       throw new TwitterAPIError(
@@ -276,6 +468,61 @@ export class TemplateTwitterService {
     }
   }
 
+  /**
+   * To Twitter Error - Classify an API failure as retryable or permanent
+   * 
+   * Classification uses the HTTP status of X API responses:
+   * - 429: rate limited, retryable after the window reset (resetAt in context)
+   * - 403 duplicate / 403 other: permanent (duplicate content, rules violation)
+   * - 401: permanent (invalid credentials)
+   * - 5xx and network errors: retryable
+   * - other 4xx: permanent
+   * 
+   * @param error - The caught error
+   * @param action - Description of the failed action for the error message
+   * @returns TwitterAPIError - Classified error with status code context
+   */
+  private toTwitterError(error: unknown, action: string): TwitterAPIError {
+    // Errors raised by our own validation are already classified
+    if (error instanceof TwitterAPIError) {
+      return error;
+    }
+
+    if (error instanceof ApiResponseError) {
+      const context: Record<string, unknown> = { statusCode: error.code };
+      const detail = [error.data?.detail, error.data?.title, error.message]
+        .filter(Boolean)
+        .join(' ')
+        .toLowerCase();
+
+      if (error.code === 429 || error.rateLimitError) {
+        if (error.rateLimit?.reset) {
+          context.resetAt = error.rateLimit.reset * 1000;
+        }
+        return new TwitterAPIError('Rate limit exceeded', true, context);
+      }
+      if (error.code === 403 && detail.includes('duplicate')) {
+        return new TwitterAPIError('Duplicate tweet content', false, context);
+      }
+      if (error.code === 403) {
+        return new TwitterAPIError('Tweet content violates Twitter rules', false, context);
+      }
+      if (error.code === 401 || error.isAuthError) {
+        return new TwitterAPIError('Twitter API credentials are invalid', false, context);
+      }
+      if (error.code >= 500) {
+        return new TwitterAPIError(`${action}: X API server error (${error.code})`, true, context);
+      }
+      return new TwitterAPIError(`${action}: ${error.message}`, false, context);
+    }
+
+    // Network failures and unknown errors are worth another attempt
+    return new TwitterAPIError(
+      `${action}: ${error instanceof Error ? error.message : String(error)}`,
+      true
+    );
+  }
+
   /**
    * Check if Service is Initialized
    * 
@@ -0,0 +1,319 @@
+/**
+ * Template Variant Tester - A/B test phrasings of the same idea
+ *
+ * Posts can belong to a variant group (variant_group) under a label
+ * (variant_label, e.g. "A" and "B"); a label may have several posts, such
+ * as one phrasing style applied on different days. While a group is
+ * running, the post selector only publishes its variants at comparable slots:
+ * - at most one post of a group per day (schedule timezone)
+ * - once a variant went out at a scheduled slot, the others wait for the
+ *   same local slot time on later days
+ * - labels take turns: a label that has been published more often than
+ *   another label with queued posts waits
+ *
+ * Variants are compared on engagement per impression (likes + reposts +
+ * replies + quotes over impressions) of their 24h metrics snapshots, with a
+ * two-proportion z-test against the leading variant. Variants need
+ * VARIANT_MIN_IMPRESSIONS impressions to be compared. When the leader beats
+ * every other variant with p < VARIANT_SIGNIFICANCE, the group concludes:
+ * the leader is the winner and the queued posts of the other variants are
+ * retired (kept for the record, never published). Concluded groups are
+ * stored in variant_conclusions and their remaining posts are ordinary
+ * queue posts.
+ *
+ * @author Your Name
+ * @version 1.0.0
+ */
+
+import { DatabaseConnection } from '../shared/database/connection';
+import { MetricsAge, VariantGroupReport, VariantStats, VariantTestSettings } from '../shared/types';
+import { DEFAULT_VARIANT_MIN_IMPRESSIONS, DEFAULT_VARIANT_SIGNIFICANCE } from '../shared/constants';
+import { getPostingSchedule, getWallClock } from '../config/schedule';
+import { parseSqlTimestamp, toSqlTimestamp } from '../shared/utils/sql-timestamp';
+import { logger } from '../utils/logger';
+
+// Metrics snapshot age variants are compared at
+const COMPARISON_AGE: MetricsAge = '24h';
+
+/**
+ * Get Variant Test Settings - Read VARIANT_SIGNIFICANCE and VARIANT_MIN_IMPRESSIONS
+ *
+ * @returns VariantTestSettings - Significance level and minimum impressions per variant
+ * @throws Error if a setting is invalid
+ */
+export function getVariantTestSettings(): VariantTestSettings {
+  const significance = Number(process.env.VARIANT_SIGNIFICANCE || DEFAULT_VARIANT_SIGNIFICANCE);
+  if (!Number.isFinite(significance) || significance <= 0 || significance >= 0.5) {
+    throw new Error(`Invalid VARIANT_SIGNIFICANCE "${process.env.VARIANT_SIGNIFICANCE}" (expected 0-0.5, e.g. 0.05)`);
+  }
+
+  const minImpressions = Number(process.env.VARIANT_MIN_IMPRESSIONS || DEFAULT_VARIANT_MIN_IMPRESSIONS);
+  if (!Number.isInteger(minImpressions) || minImpressions < 1) {
+    throw new Error(`Invalid VARIANT_MIN_IMPRESSIONS "${process.env.VARIANT_MIN_IMPRESSIONS}" (expected impressions >= 1)`);
+  }
+
+  return { significance, min_impressions: minImpressions };
+}
+
+// Error function (Abramowitz and Stegun 7.1.26, accurate to 1.5e-7)
+function erf(x: number): number {
+  const sign = x < 0 ? -1 : 1;
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const poly = ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t;
+  return sign * (1 - poly * Math.exp(-x * x));
+}
+
+/**
+ * Two Proportion Z Test - Compare two engagement rates
+ *
+ * @param successesA - Engagements of the first variant
+ * @param trialsA - Impressions of the first variant
+ * @param successesB - Engagements of the second variant
+ * @param trialsB - Impressions of the second variant
+ * @returns z score (positive when the first rate is higher) and two-sided p-value
+ */
+export function twoProportionZTest(
+  successesA: number,
+  trialsA: number,
+  successesB: number,
+  trialsB: number
+): { z_score: number; p_value: number } {
+  const pooled = (successesA + successesB) / (trialsA + trialsB);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / trialsA + 1 / trialsB));
+  if (!(standardError > 0)) {
+    return { z_score: 0, p_value: 1 };
+  }
+
+  const z = (successesA / trialsA - successesB / trialsB) / standardError;
+  return { z_score: z, p_value: Math.min(1, 2 * (1 - (1 + erf(Math.abs(z) / Math.SQRT2)) / 2)) };
+}
+
+/**
+ * Template Variant Tester Class
+ */
+export class TemplateVariantTester {
+  private botId: string;
+
+  /**
+   * Constructor - Initialize variant tester with database connection
+   *
+   * @param db - Database connection for posts, schedule_slots, tweet_metrics and variant_conclusions
+   */
+  constructor(private db: DatabaseConnection) {
+    this.botId = process.env.BOT_NAME || 'template-bot';
+  }
+
+  /**
+   * Get Waiting Posts - Queued variants that may not go out at a slot
+   *
+   * @param slotAt - Slot being filled; without one (manual or catch-up posts)
+   *   variants of a group that already posted at a slot wait
+   * @param now - Current time, for the day when there is no slot
+   * @returns Promise<Map<number, string>> - Why each waiting post waits, by post ID
+   */
+  async getWaitingPosts(slotAt?: Date, now: Date = new Date()): Promise<Map<number, string>> {
+    const waiting = new Map<number, string>();
+    const queued = await this.db.all(`
+      SELECT p.id, p.variant_group, p.variant_label FROM posts p
+      WHERE p.bot_id = ? AND p.used = 0 AND p.retired_at IS NULL AND p.review_status = 'approved' AND p.scheduled_for IS NULL
+        AND p.variant_group IS NOT NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM variant_conclusions vc WHERE vc.bot_id = p.bot_id AND vc.variant_group = p.variant_group
+        )
+    `, [this.botId]);
+    if (queued.length === 0) {
+      return waiting;
+    }
+
+    const groups = Array.from(new Set(queued.map(row => row.variant_group as string)));
+    const published = await this.db.all(`
+      SELECT p.variant_group, p.variant_label, p.used_at, s.slot_at FROM posts p
+      LEFT JOIN schedule_slots s ON s.bot_id = p.bot_id AND s.post_id = p.id AND s.status = 'posted'
+      WHERE p.bot_id = ? AND p.used = 1 AND p.variant_group IN (${groups.map(() => '?').join(', ')})
+      ORDER BY p.used_at ASC, p.id ASC
+    `, [this.botId, ...groups]);
+
+    const timezone = getPostingSchedule().timezone;
+    const localTime = (value: string) => getWallClock(parseSqlTimestamp(value), timezone);
+    const slotClock = slotAt ? getWallClock(slotAt, timezone) : undefined;
+    const today = (slotClock || getWallClock(now, timezone)).slice(0, 10);
+
+    for (const group of groups) {
+      const groupPublished = published.filter(row => row.variant_group === group);
+      const groupQueued = queued.filter(row => row.variant_group === group);
+      const anchor = groupPublished.find(row => row.slot_at);
+      const anchorTime = anchor ? localTime(anchor.slot_at).slice(11) : undefined;
+      const postedToday = groupPublished.some(row => localTime(row.slot_at || row.used_at).startsWith(today));
+
+      const turns = (label: string) => groupPublished.filter(row => row.variant_label === label).length;
+      const fewestTurns = Math.min(...groupQueued.map(row => turns(row.variant_label)));
+
+      for (const row of groupQueued) {
+        if (postedToday) {
+          waiting.set(row.id, `Variant group "${group}" already posted on ${today}`);
+        } else if (anchorTime && slotClock?.slice(11) !== anchorTime) {
+          waiting.set(row.id, `Variant group "${group}" posts at the ${anchorTime} slot`);
+        } else if (turns(row.variant_label) > fewestTurns) {
+          waiting.set(row.id, `Variant ${row.variant_label} of group "${group}" waits for the other variants' turn`);
+        }
+      }
+    }
+
+    return waiting;
+  }
+
+  /**
+   * Get Reports - A/B test results per variant group
+   *
+   * @param group - Only this group
+   * @returns Promise<VariantGroupReport[]> - Groups by name, variants by label
+   */
+  async getReports(group?: string): Promise<VariantGroupReport[]> {
+    const settings = getVariantTestSettings();
+    const rows = await this.db.all(`
+      SELECT p.variant_group, p.variant_label, p.category, p.used, p.retired_at,
+        m.impressions, m.engagements
+      FROM posts p
+      LEFT JOIN (
+        SELECT post_id, SUM(impressions) AS impressions, SUM(likes + reposts + replies + quotes) AS engagements
+        FROM tweet_metrics
+        WHERE bot_id = ? AND age = ?
+        GROUP BY post_id
+      ) m ON m.post_id = p.id
+      WHERE p.bot_id = ? AND p.variant_group IS NOT NULL ${group !== undefined ? 'AND p.variant_group = ?' : ''}
+      ORDER BY p.variant_group ASC, p.variant_label ASC, p.id ASC
+    `, [this.botId, COMPARISON_AGE, this.botId, ...(group !== undefined ? [group] : [])]);
+
+    const conclusions = await this.db.all(`
+      SELECT * FROM variant_conclusions WHERE bot_id = ?
+    `, [this.botId]);
+
+    const reports = new Map<string, VariantGroupReport>();
+    for (const row of rows) {
+      let report = reports.get(row.variant_group);
+      if (!report) {
+        report = { group: row.variant_group, category: row.category || undefined, status: 'running', variants: [] };
+        reports.set(row.variant_group, report);
+      }
+
+      let variant = report.variants.find(candidate => candidate.label === row.variant_label);
+      if (!variant) {
+        variant = {
+          label: row.variant_label,
+          posts: 0,
+          published: 0,
+          queued: 0,
+          retired: 0,
+          impressions: 0,
+          engagements: 0,
+          engagement_rate: 0
+        };
+        report.variants.push(variant);
+      }
+
+      variant.posts++;
+      if (row.used) {
+        variant.published++;
+      } else if (row.retired_at) {
+        variant.retired++;
+      } else {
+        variant.queued++;
+      }
+      variant.impressions += row.impressions || 0;
+      variant.engagements += row.engagements || 0;
+    }
+
+    return Array.from(reports.values()).map(report => {
+      this.compareVariants(report, settings);
+
+      const conclusion = conclusions.find(candidate => candidate.variant_group === report.group);
+      if (conclusion) {
+        report.status = 'concluded';
+        report.winner = conclusion.winner_label;
+        report.retired_posts = conclusion.retired_posts;
+        report.concluded_at = parseSqlTimestamp(conclusion.concluded_at);
+      }
+      return report;
+    });
+  }
+
+  /**
+   * Evaluate - Conclude the running groups that have a clear winner
+   *
+   * The queued posts of the losing variants are retired.
+   *
+   * @param now - Current time
+   * @returns Promise<VariantGroupReport[]> - Groups concluded by this run
+   */
+  async evaluate(now: Date = new Date()): Promise<VariantGroupReport[]> {
+    const concluded: VariantGroupReport[] = [];
+
+    for (const report of await this.getReports()) {
+      const winner = report.leader;
+      const clear = report.status === 'running' && winner !== undefined && report.variants.length > 1 &&
+        report.variants.every(variant => variant.label === winner || variant.significant);
+      if (!clear) {
+        continue;
+      }
+
+      const pValue = Math.max(...report.variants.map(variant => variant.p_value ?? 0));
+      const retired = await this.db.transaction(async db => {
+        const result = await db.run(`
+          UPDATE posts SET retired_at = ?, review_status = 'retired', scheduled_for = NULL, updated_at = CURRENT_TIMESTAMP
+          WHERE bot_id = ? AND variant_group = ? AND variant_label != ? AND used = 0 AND retired_at IS NULL
+        `, [toSqlTimestamp(now), this.botId, report.group, winner]);
+        const changes = result.changes || 0;
+
+        await db.run(`
+          UPDATE bot_stats SET remaining_posts = remaining_posts - ?, updated_at = CURRENT_TIMESTAMP
+          WHERE bot_id = ?
+        `, [changes, this.botId]);
+        await db.run(`
+          INSERT INTO variant_conclusions (bot_id, variant_group, winner_label, p_value, retired_posts, concluded_at)
+          VALUES (?, ?, ?, ?, ?, ?)
+        `, [this.botId, report.group, winner, pValue, changes, toSqlTimestamp(now)]);
+        return changes;
+      });
+
+      logger.info(`Variant group "${report.group}" concluded: ${winner} wins (p ≤ ${pValue.toFixed(4)}), retired ${retired} queued post(s)`);
+      concluded.push({
+        ...report,
+        status: 'concluded',
+        winner,
+        retired_posts: retired,
+        concluded_at: new Date(Math.floor(now.getTime() / 1000) * 1000)
+      });
+    }
+
+    return concluded;
+  }
+
+  /**
+   * Compare Variants - Find the leader and test every other variant against it
+   *
+   * @param report - Group report whose variants are filled in
+   * @param settings - Significance level and minimum impressions
+   */
+  private compareVariants(report: VariantGroupReport, settings: VariantTestSettings): void {
+    for (const variant of report.variants) {
+      variant.engagement_rate = variant.impressions > 0 ? variant.engagements / variant.impressions : 0;
+    }
+
+    const measured = report.variants.filter(variant => variant.impressions >= settings.min_impressions);
+    const leader = measured.reduce<VariantStats | undefined>(
+      (best, variant) => (!best || variant.engagement_rate > best.engagement_rate ? variant : best),
+      undefined
+    );
+    if (!leader) {
+      return;
+    }
+
+    report.leader = leader.label;
+    for (const variant of measured.filter(candidate => candidate !== leader)) {
+      const test = twoProportionZTest(leader.engagements, leader.impressions, variant.engagements, variant.impressions);
+      variant.z_score = test.z_score;
+      variant.p_value = test.p_value;
+      variant.significant = test.p_value < settings.significance;
+    }
+  }
+}
@@ -7,14 +7,62 @@ export const TWITTER_RATE_LIMIT_POSTS_PER_15MIN = 300;
 export const TWITTER_RATE_LIMIT_POSTS_PER_DAY = 2400;
 export const OPENAI_RATE_LIMIT_REQUESTS_PER_MINUTE = 60;
 
+// Engagement metrics
+export const MAX_METRICS_LOOKUP_IDS = 100;  // Tweet IDs per GET /2/tweets lookup
+export const DEFAULT_METRICS_INTERVAL_MINUTES = 15;
+export const DEFAULT_METRICS_MAX_REQUESTS_PER_RUN = 1;
+
+// A/B variant testing
+export const MAX_POSTS_PER_VARIANT_GROUP = 20;
+export const DEFAULT_VARIANT_SIGNIFICANCE = 0.05;
+export const DEFAULT_VARIANT_MIN_IMPRESSIONS = 500;  // 24h impressions per variant before comparing
+
+// Mentions and replies
+export const MAX_MENTIONS_PER_POLL = 200;  // Newest mentions fetched per poll (100 per request)
+export const DEFAULT_MENTIONS_INTERVAL_MINUTES = 5;
+export const DEFAULT_MENTION_REPLIES_PER_HOUR = 5;
+
+// Content review
+export const MAX_POSTS_PER_REVIEW = 500;  // Posts rejected in one bulk request
+
+// Near-duplicate detection
+export const MINHASH_SIGNATURE_SIZE = 64;  // Hashes per MinHash signature
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.8;  // Estimated Jaccard similarity of word shingles
+export const DEFAULT_SIMILARITY_EMBEDDING_THRESHOLD = 0.92;  // Cosine similarity of embeddings
+export const DEFAULT_SIMILARITY_LOOKBACK_DAYS = 90;
+export const MAX_SIMILARITY_EMBEDDING_BATCH = 100;  // Texts per embeddings request
+
 // Content Limits
-export const MAX_TWEET_LENGTH = 280;
+export const MAX_TWEET_LENGTH = 280;  // Weighted characters (see shared/utils/tweet-length)
+export const TWEET_URL_LENGTH = 23;  // Every link counts as this many characters
 export const MAX_HASHTAGS_PER_TWEET = 5;
 export const MAX_URLS_PER_TWEET = 2;
+export const MAX_THREAD_SEGMENTS = 25;
+
+// Media Limits
+export const MAX_MEDIA_PER_TWEET = 4;
+export const MAX_ALT_TEXT_LENGTH = 1000;
+export const MAX_IMAGE_SIZE_BYTES = 5 * 1024 * 1024;
+export const MAX_GIF_SIZE_BYTES = 15 * 1024 * 1024;
+export const MAX_VIDEO_SIZE_BYTES = 512 * 1024 * 1024;
+export const MEDIA_UPLOAD_CHUNK_BYTES = 1024 * 1024;
+
+// Supported media file extensions and their MIME types
+export const SUPPORTED_MEDIA_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+  '.mp4': 'video/mp4'
+};
 
 // Cost Limits
 export const MAX_COST_PER_POST_GENERATION = 0.50;
 export const MAX_TOKENS_PER_POST_GENERATION = 1000;
+export const DEFAULT_DAILY_GENERATION_BUDGET_USD = 5.00;
+export const DEFAULT_MONTHLY_GENERATION_BUDGET_USD = 50.00;
+export const DEFAULT_GENERATION_BUDGET_WARNING_RATIO = 0.8;
 
 // Database Constants
 export const DEFAULT_BATCH_SIZE = 2000;
@@ -68,20 +116,27 @@ export const CONTENT_CATEGORIES = {
   WAR_EXPERIENCE: 'war_experience'
 } as const;
 
-// Timezones
+// Timezones (IANA names; each observes daylight saving time except UTC)
 export const TIMEZONES = {
-  MST: 'America/Denver',
-  PST: 'America/Los_Angeles',
-  EST: 'America/New_York',
+  MOUNTAIN: 'America/Denver',
+  PACIFIC: 'America/Los_Angeles',
+  EASTERN: 'America/New_York',
   UTC: 'UTC'
 } as const;
 
-// Cron Schedules
+// Cron Schedules - matched against the wall clock of the schedule timezone,
+// so DAILY_9AM is 9 AM local time in both standard and daylight time
 export const CRON_SCHEDULES = {
-  DAILY_9AM_MST: '0 9 * * *',
-  DAILY_10AM_MST: '0 10 * * *',
-  DAILY_11AM_MST: '0 11 * * *',
-  DAILY_12PM_MST: '0 12 * * *',
-  DAILY_1PM_MST: '0 13 * * *',
-  DAILY_2PM_MST: '0 14 * * *'
+  DAILY_9AM: '0 9 * * *',
+  DAILY_10AM: '0 10 * * *',
+  DAILY_11AM: '0 11 * * *',
+  DAILY_12PM: '0 12 * * *',
+  DAILY_1PM: '0 13 * * *',
+  DAILY_2PM: '0 14 * * *'
 } as const;
+
+// Posting slot times are "HH:MM" on a 24-hour clock
+export const SLOT_TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+// Weekday keys for per-day slot variations, in cron order (0 = Sunday)
+export const SCHEDULE_WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
@@ -1,7 +1,13 @@
 import sqlite3 from 'sqlite3';
 import { promisify } from 'util';
 import { DatabaseError } from '../types';
-import { DATABASE_SCHEMA, DATABASE_INDEXES, DATABASE_TRIGGERS, DATABASE_VIEWS } from './schema';
+import {
+  DATABASE_SCHEMA,
+  DATABASE_MIGRATIONS,
+  DATABASE_INDEXES,
+  DATABASE_TRIGGERS,
+  DATABASE_VIEWS
+} from './schema';
 
 export class DatabaseConnection {
   private db: sqlite3.Database;
@@ -38,6 +44,9 @@ export class DatabaseConnection {
         await this.run(schema);
       }
 
+      // Add columns introduced after the table was first created
+      await this.applyMigrations();
+
       // Create indexes
       for (const index of DATABASE_INDEXES) {
         await this.run(index);
@@ -59,6 +68,20 @@ export class DatabaseConnection {
     }
   }
 
+  /**
+   * Add any columns from DATABASE_MIGRATIONS that an existing table lacks
+   */
+  private async applyMigrations(): Promise<void> {
+    for (const migration of DATABASE_MIGRATIONS) {
+      const columns = await this.all<{ name: string }>(`PRAGMA table_info(${migration.table})`);
+      if (!columns.some(column => column.name === migration.column)) {
+        await this.run(
+          `ALTER TABLE ${migration.table} ADD COLUMN ${migration.column} ${migration.definition}`
+        );
+      }
+    }
+  }
+
   /**
    * Execute a SQL statement with parameters
    */
@@ -14,10 +14,37 @@ export const DATABASE_SCHEMA = {
       generation_tokens INTEGER,
       generation_model TEXT,
       content_hash TEXT UNIQUE,
+      segments TEXT,
+      scheduled_for DATETIME,
+      tweet_id TEXT,
+      variant_group TEXT,
+      variant_label TEXT,
+      retired_at DATETIME,
+      review_status TEXT NOT NULL DEFAULT 'approved',
+      reviewed_by TEXT,
+      reviewed_at DATETIME,
+      rejection_reason TEXT,
+      minhash TEXT,
+      embedding TEXT,
       CONSTRAINT unique_content_per_bot UNIQUE(bot_id, content_hash)
     )
   `,
 
+  // Post media table - local media files attached to posts, in display order
+  post_media: `
+    CREATE TABLE IF NOT EXISTS post_media (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      post_id INTEGER NOT NULL,
+      position INTEGER NOT NULL DEFAULT 0,
+      file_path TEXT NOT NULL,
+      alt_text TEXT NOT NULL,
+      mime_type TEXT NOT NULL,
+      file_size INTEGER,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (post_id) REFERENCES posts (id) ON DELETE CASCADE
+    )
+  `,
+
   // Bot stats table - tracks bot performance and usage
   bot_stats: `
     CREATE TABLE IF NOT EXISTS bot_stats (
@@ -46,6 +73,8 @@ export const DATABASE_SCHEMA = {
       tweet_id TEXT,
       error_message TEXT,
       response_time_ms INTEGER,
+      segment_index INTEGER,
+      deleted_at DATETIME,
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       FOREIGN KEY (post_id) REFERENCES posts (id)
     )
@@ -60,8 +89,218 @@ export const DATABASE_SCHEMA = {
       tokens_used INTEGER NOT NULL,
       cost REAL NOT NULL,
       model TEXT NOT NULL,
+      strategy TEXT,
       success_count INTEGER DEFAULT 0,
       failure_count INTEGER DEFAULT 0,
+      error_message TEXT,
+      distribution TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `,
+
+  // Rate limit windows table - latest x-rate-limit-* headers per X API endpoint
+  rate_limit_windows: `
+    CREATE TABLE IF NOT EXISTS rate_limit_windows (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      bot_id TEXT NOT NULL,
+      endpoint TEXT NOT NULL,
+      limit_total INTEGER NOT NULL,
+      remaining INTEGER NOT NULL,
+      reset_at INTEGER NOT NULL,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      CONSTRAINT unique_endpoint_per_bot UNIQUE(bot_id, endpoint)
+    )
+  `,
+
+  // Generation spend table - cost and tokens of every content model completion
+  generation_spend: `
+    CREATE TABLE IF NOT EXISTS generation_spend (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      bot_id TEXT NOT NULL,
+      model TEXT NOT NULL,
+      cost REAL NOT NULL,
+      tokens INTEGER NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `,
+
+  // Post selections table - why each queued post was picked (see TemplatePostSelector)
+  post_selections: `
+    CREATE TABLE IF NOT EXISTS post_selections (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      bot_id TEXT NOT NULL,
+      post_id INTEGER,
+      category TEXT,
+      strategy TEXT NOT NULL,
+      reason TEXT NOT NULL,
+      relaxed BOOLEAN DEFAULT FALSE,
+      candidates TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (post_id) REFERENCES posts (id)
+    )
+  `,
+
+  // Published posts ledger - one row per queued post sent to a publisher, with its final status
+  published_posts: `
+    CREATE TABLE IF NOT EXISTS published_posts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      bot_id TEXT NOT NULL,
+      post_id INTEGER NOT NULL,
+      status TEXT NOT NULL,
+      account TEXT,
+      publish_mode TEXT NOT NULL,
+      tweet_id TEXT,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      error_message TEXT,
+      published_at DATETIME,
+      deleted_at DATETIME,
+      persona_version INTEGER,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      CONSTRAINT unique_published_post UNIQUE(bot_id, post_id),
+      FOREIGN KEY (post_id) REFERENCES posts (id)
+    )
+  `,
+
+  // Published tweets table - every tweet a ledger post produced (one per thread segment)
+  published_tweets: `
+    CREATE TABLE IF NOT EXISTS published_tweets (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      bot_id TEXT NOT NULL,
+      post_id INTEGER NOT NULL,
+      tweet_id TEXT NOT NULL,
+      segment_index INTEGER NOT NULL DEFAULT 0,
+      deleted_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      CONSTRAINT unique_published_tweet UNIQUE(bot_id, tweet_id),
+      FOREIGN KEY (post_id) REFERENCES posts (id)
+    )
+  `,
+
+  // Tweet metrics table - engagement snapshots of published tweets at fixed ages after posting
+  tweet_metrics: `
+    CREATE TABLE IF NOT EXISTS tweet_metrics (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      bot_id TEXT NOT NULL,
+      post_id INTEGER NOT NULL,
+      tweet_id TEXT NOT NULL,
+      age TEXT NOT NULL,
+      impressions INTEGER NOT NULL DEFAULT 0,
+      likes INTEGER NOT NULL DEFAULT 0,
+      reposts INTEGER NOT NULL DEFAULT 0,
+      replies INTEGER NOT NULL DEFAULT 0,
+      quotes INTEGER NOT NULL DEFAULT 0,
+      collected_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      CONSTRAINT unique_tweet_metrics_age UNIQUE(bot_id, tweet_id, age),
+      FOREIGN KEY (post_id) REFERENCES posts (id)
+    )
+  `,
+
+  // Topic weight updates table - learned topic weights and the engagement they were computed from
+  topic_weight_updates: `
+    CREATE TABLE IF NOT EXISTS topic_weight_updates (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      bot_id TEXT NOT NULL,
+      weights TEXT NOT NULL,
+      arms TEXT NOT NULL,
+      exploration_floor REAL NOT NULL,
+      lookback_days INTEGER NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `,
+
+  // Variant conclusions table - A/B tests with a clear winner and the losing posts retired
+  variant_conclusions: `
+    CREATE TABLE IF NOT EXISTS variant_conclusions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      bot_id TEXT NOT NULL,
+      variant_group TEXT NOT NULL,
+      winner_label TEXT NOT NULL,
+      p_value REAL NOT NULL,
+      retired_posts INTEGER NOT NULL DEFAULT 0,
+      concluded_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      CONSTRAINT unique_variant_conclusion UNIQUE(bot_id, variant_group)
+    )
+  `,
+
+  // Mentions table - tweets mentioning the account, how they were classified and the reply drafted for them
+  mentions: `
+    CREATE TABLE IF NOT EXISTS mentions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      bot_id TEXT NOT NULL,
+      tweet_id TEXT NOT NULL,
+      author_id TEXT,
+      author_username TEXT,
+      text TEXT NOT NULL,
+      conversation_id TEXT,
+      category TEXT NOT NULL,
+      status TEXT NOT NULL,
+      reply_content TEXT,
+      reply_tweet_id TEXT,
+      reply_model TEXT,
+      reply_cost REAL DEFAULT 0,
+      error_message TEXT,
+      mentioned_at DATETIME,
+      received_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      reviewed_at DATETIME,
+      replied_at DATETIME,
+      CONSTRAINT unique_mention UNIQUE(bot_id, tweet_id)
+    )
+  `,
+
+  // Similarity rejections table - near-duplicates kept out of the queue or held back before publishing,
+  // and the post each one collided with
+  similarity_rejections: `
+    CREATE TABLE IF NOT EXISTS similarity_rejections (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      bot_id TEXT NOT NULL,
+      stage TEXT NOT NULL,
+      post_id INTEGER,
+      content TEXT NOT NULL,
+      similar_post_id INTEGER NOT NULL,
+      similarity REAL NOT NULL,
+      method TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `,
+
+  // Schedule slots table - every posting slot that came due, including slots missed during downtime
+  schedule_slots: `
+    CREATE TABLE IF NOT EXISTS schedule_slots (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      bot_id TEXT NOT NULL,
+      slot_at DATETIME NOT NULL,
+      status TEXT NOT NULL,
+      missed BOOLEAN DEFAULT FALSE,
+      policy TEXT,
+      reason TEXT,
+      post_id INTEGER,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      CONSTRAINT unique_schedule_slot UNIQUE(bot_id, slot_at),
+      FOREIGN KEY (post_id) REFERENCES posts (id)
+    )
+  `,
+
+  // Bot state table - small per-bot values that must survive restarts
+  bot_state: `
+    CREATE TABLE IF NOT EXISTS bot_state (
+      bot_id TEXT NOT NULL,
+      key TEXT NOT NULL,
+      value TEXT NOT NULL,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (bot_id, key)
+    )
+  `,
+
+  // Outbox table - tweets "published" by the dry-run publisher instead of X
+  outbox: `
+    CREATE TABLE IF NOT EXISTS outbox (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      bot_id TEXT NOT NULL,
+      tweet_id TEXT UNIQUE NOT NULL,
+      content TEXT NOT NULL,
+      reply_to_id TEXT,
+      media TEXT,
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP
     )
   `,
@@ -94,12 +333,64 @@ export const DATABASE_SCHEMA = {
       max_length INTEGER DEFAULT 280,
       schedule_cron TEXT DEFAULT '0 9 * * *',
       timezone TEXT DEFAULT 'America/Denver',
+      persona_version INTEGER,
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
     )
+  `,
+
+  // Persona snapshots table - every distinct persona file a bot has run with
+  persona_snapshots: `
+    CREATE TABLE IF NOT EXISTS persona_snapshots (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      bot_id TEXT NOT NULL,
+      version INTEGER NOT NULL,
+      name TEXT NOT NULL,
+      source_path TEXT NOT NULL,
+      content_hash TEXT NOT NULL,
+      persona TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      CONSTRAINT unique_persona_version UNIQUE(bot_id, version)
+    )
   `
 };
 
+// Column migrations - columns added after the initial schema shipped.
+// CREATE TABLE IF NOT EXISTS leaves existing tables untouched, so each column
+// listed here is added with ALTER TABLE when an older database is missing it.
+export const DATABASE_MIGRATIONS: Array<{ table: string; column: string; definition: string }> = [
+  // Thread support - ordered tweet segments stored as a JSON array
+  { table: 'posts', column: 'segments', definition: 'TEXT' },
+  { table: 'post_logs', column: 'segment_index', definition: 'INTEGER' },
+  // Kill switch - when a published tweet was deleted from X
+  { table: 'post_logs', column: 'deleted_at', definition: 'DATETIME' },
+  // Replenishment strategy and LLM fallback reason per generation run
+  { table: 'generation_logs', column: 'strategy', definition: 'TEXT' },
+  { table: 'generation_logs', column: 'error_message', definition: 'TEXT' },
+  // Realized local topic distribution (JSON array of TopicAllocation)
+  { table: 'generation_logs', column: 'distribution', definition: 'TEXT' },
+  // Pinned posts - UTC time a post must go out at (content calendar)
+  { table: 'posts', column: 'scheduled_for', definition: 'DATETIME' },
+  // Published-post ledger - tweet the post produced (thread head)
+  { table: 'posts', column: 'tweet_id', definition: 'TEXT' },
+  // Metrics per persona - persona version a ledger post went out under
+  { table: 'published_posts', column: 'persona_version', definition: 'INTEGER' },
+  // Persona snapshot the bot config was last written from
+  { table: 'bot_configs', column: 'persona_version', definition: 'INTEGER' },
+  // A/B variants - group and label of a variant post, and when a losing one was retired
+  { table: 'posts', column: 'variant_group', definition: 'TEXT' },
+  { table: 'posts', column: 'variant_label', definition: 'TEXT' },
+  { table: 'posts', column: 'retired_at', definition: 'DATETIME' },
+  // Human review - posts queued before review existed count as approved
+  { table: 'posts', column: 'review_status', definition: "TEXT NOT NULL DEFAULT 'approved'" },
+  { table: 'posts', column: 'reviewed_by', definition: 'TEXT' },
+  { table: 'posts', column: 'reviewed_at', definition: 'DATETIME' },
+  { table: 'posts', column: 'rejection_reason', definition: 'TEXT' },
+  // Similarity detection - MinHash signature (hex) and embedding (JSON array); computed when missing
+  { table: 'posts', column: 'minhash', definition: 'TEXT' },
+  { table: 'posts', column: 'embedding', definition: 'TEXT' }
+];
+
 // Indexes for performance
 export const DATABASE_INDEXES = [
   // Posts table indexes
@@ -107,16 +398,55 @@ export const DATABASE_INDEXES = [
   'CREATE INDEX IF NOT EXISTS idx_posts_used ON posts(used)',
   'CREATE INDEX IF NOT EXISTS idx_posts_created_at ON posts(created_at)',
   'CREATE INDEX IF NOT EXISTS idx_posts_category ON posts(category)',
+  'CREATE INDEX IF NOT EXISTS idx_posts_bot_used_at ON posts(bot_id, used_at)',
+  'CREATE INDEX IF NOT EXISTS idx_posts_bot_scheduled_for ON posts(bot_id, scheduled_for)',
+  'CREATE INDEX IF NOT EXISTS idx_posts_bot_variant_group ON posts(bot_id, variant_group)',
+  'CREATE INDEX IF NOT EXISTS idx_posts_bot_review_status ON posts(bot_id, review_status)',
+
+  // Post media indexes
+  'CREATE INDEX IF NOT EXISTS idx_post_media_post_id ON post_media(post_id)',
   
   // Post logs indexes
   'CREATE INDEX IF NOT EXISTS idx_post_logs_bot_id ON post_logs(bot_id)',
   'CREATE INDEX IF NOT EXISTS idx_post_logs_created_at ON post_logs(created_at)',
   'CREATE INDEX IF NOT EXISTS idx_post_logs_success ON post_logs(success)',
+  'CREATE INDEX IF NOT EXISTS idx_post_logs_post_id ON post_logs(post_id)',
+  
+  // Outbox indexes
+  'CREATE INDEX IF NOT EXISTS idx_outbox_bot_id ON outbox(bot_id)',
   
   // Generation logs indexes
   'CREATE INDEX IF NOT EXISTS idx_generation_logs_bot_id ON generation_logs(bot_id)',
   'CREATE INDEX IF NOT EXISTS idx_generation_logs_created_at ON generation_logs(created_at)',
+
+  // Post selections indexes
+  'CREATE INDEX IF NOT EXISTS idx_post_selections_bot_created ON post_selections(bot_id, created_at)',
+
+  // Published-post ledger indexes
+  'CREATE INDEX IF NOT EXISTS idx_published_posts_bot_published ON published_posts(bot_id, published_at)',
+  'CREATE INDEX IF NOT EXISTS idx_published_tweets_bot_post ON published_tweets(bot_id, post_id)',
+
+  // Tweet metrics indexes
+  'CREATE INDEX IF NOT EXISTS idx_tweet_metrics_bot_post ON tweet_metrics(bot_id, post_id)',
+
+  // Topic weight update indexes
+  'CREATE INDEX IF NOT EXISTS idx_topic_weight_updates_bot_id ON topic_weight_updates(bot_id)',
+
+  // Mentions indexes
+  'CREATE INDEX IF NOT EXISTS idx_mentions_bot_status ON mentions(bot_id, status)',
+
+  // Similarity rejections indexes
+  'CREATE INDEX IF NOT EXISTS idx_similarity_rejections_bot_created ON similarity_rejections(bot_id, created_at)',
+
+  // Schedule slots indexes
+  'CREATE INDEX IF NOT EXISTS idx_schedule_slots_bot_missed ON schedule_slots(bot_id, missed)',
+
+  // Generation spend indexes
+  'CREATE INDEX IF NOT EXISTS idx_generation_spend_bot_created ON generation_spend(bot_id, created_at)',
   
+  // Persona snapshot indexes
+  'CREATE INDEX IF NOT EXISTS idx_persona_snapshots_bot_hash ON persona_snapshots(bot_id, content_hash)',
+
   // Health checks indexes
   'CREATE INDEX IF NOT EXISTS idx_health_checks_bot_id ON health_checks(bot_id)',
   'CREATE INDEX IF NOT EXISTS idx_health_checks_created_at ON health_checks(created_at)',
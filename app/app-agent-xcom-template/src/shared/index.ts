@@ -9,10 +9,11 @@ export * from './database/schema';
 export * from './utils/logger';
 export * from './utils/config';
 export * from './utils/validation';
+export * from './utils/cron';
 
 // Services
 export * from './services/twitter';
-export * from './services/openai';
+export * from './services/content-model';
 export * from './services/scheduler';
 export * from './services/post-manager';
 
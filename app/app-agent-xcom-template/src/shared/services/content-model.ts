@@ -0,0 +1,52 @@
+// Provider-agnostic interface for the language models that write posts.
+// Implementations (OpenAI, OpenAI-compatible endpoints, offline stub) live in
+// src/services/content-models and own their pricing and token accounting.
+
+import { LLMProvider } from '../types';
+
+// Price per 1,000 tokens in USD
+export interface ContentModelPricing {
+  input_per_1k: number;
+  output_per_1k: number;
+}
+
+export interface ContentRequest {
+  system: string;
+  prompt: string;
+  max_tokens?: number;
+  temperature?: number;
+}
+
+export interface ContentCompletion {
+  text: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  cost: number;
+  model: string;  // Qualified model ID, e.g. "openai:gpt-4", stored as generation_model
+}
+
+export interface ContentModel {
+  readonly provider: LLMProvider;
+  readonly model: string;
+  readonly id: string;  // "<provider>:<model>"
+  readonly pricing: ContentModelPricing;
+  initialize(): Promise<void>;
+  complete(request: ContentRequest): Promise<ContentCompletion>;
+  healthCheck(): Promise<boolean>;
+}
+
+// Text embeddings for semantic similarity between posts (optional, see services/similarity.ts)
+export interface EmbeddingModel {
+  readonly id: string;  // "<provider>:<model>"
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// Cost of a completion from token usage and per-1k pricing
+export function calculateCompletionCost(
+  pricing: ContentModelPricing,
+  promptTokens: number,
+  completionTokens: number
+): number {
+  return (promptTokens * pricing.input_per_1k + completionTokens * pricing.output_per_1k) / 1000;
+}
@@ -18,7 +18,8 @@ export const EnvironmentSchema = z.object({
   // Bot configuration
   BOT_NAME: z.string().min(1),
   BOT_PERSONALITY: z.string().min(1),
-  BOT_SCHEDULE: z.string().default('0 9 * * *'), // 9am MST default
+  BOT_SCHEDULE: z.string().optional(), // ";"-separated cron expressions / HH:MM times; overrides the persona schedule
+  TIMEZONE: z.string().optional(),     // IANA timezone for the schedule; overrides the persona timezone
   
   // Logging
   LOG_LEVEL: z.enum(['error', 'warn', 'info', 'debug']).default('info'),
@@ -54,6 +55,81 @@ export interface Post {
   generation_cost?: number;
   generation_tokens?: number;
   generation_model?: string;
+  segments?: string[];
+  media?: MediaAttachment[];
+  scheduled_for?: Date;  // Pinned posts go out at this time instead of from the queue
+  tweet_id?: string;     // Tweet the post produced (thread head), once posted
+  variant_group?: string;  // A/B test the post is a variant in
+  variant_label?: string;  // Variant within the group ("A", "B", ...)
+  retired_at?: Date;     // Losing variant taken out of the queue
+  review_status: PostReviewStatus;  // Only approved posts are published
+  reviewed_by?: string;
+  reviewed_at?: Date;
+  rejection_reason?: string;
+}
+
+// Human review of a post: draft -> pending_review -> approved | rejected; approved -> retired | rejected.
+// needs_attention: a thread stopped after a tweet that could not be recorded (only rejecting it is allowed)
+export type PostReviewStatus = 'draft' | 'pending_review' | 'approved' | 'rejected' | 'retired' | 'needs_attention';
+
+// Persona content rules - each rule has a severity; "error" violations block the post, "warning" ones are reported
+export type ContentRuleSeverity = 'error' | 'warning' | 'off';
+export type ContentRuleId = 'length' | 'banned_words' | 'hashtags' | 'emojis' | 'punctuation' | 'mentions' | 'urls';
+
+// One broken content rule
+export interface ContentRuleViolation {
+  rule: ContentRuleId;
+  severity: Exclude<ContentRuleSeverity, 'off'>;
+  message: string;
+  segment?: number;     // Thread segment (0-based) the violation is in
+}
+
+// Result of checking a post against the persona's content rules
+export interface ContentRuleReport {
+  valid: boolean;       // No error violations
+  violations: ContentRuleViolation[];
+}
+
+// Near-duplicate detection: MinHash of word shingles, or embeddings when a model is configured
+export type SimilarityMethod = 'minhash' | 'embedding';
+
+// Where a near-duplicate was caught: storing a post, or checking a queued post before it goes out
+export type SimilarityStage = 'insert' | 'publish';
+
+// Similarity detection settings (SIMILARITY_*)
+export interface SimilaritySettings {
+  enabled: boolean;
+  threshold: number;            // Estimated Jaccard similarity of word shingles that makes a near-duplicate
+  embedding_threshold: number;  // Cosine similarity of embeddings that makes a near-duplicate
+  lookback_days: number;        // Published posts within this window are compared against
+}
+
+// Existing post another post is too similar to
+export interface SimilarityMatch {
+  post_id: number;
+  content: string;
+  similarity: number;
+  method: SimilarityMethod;
+}
+
+// Near-duplicate kept out of the queue or held back before publishing
+export interface SimilarityRejection {
+  id: number;
+  stage: SimilarityStage;
+  post_id?: number;             // Queued post held back (publish stage); content never stored has none
+  content: string;
+  similar_post_id: number;
+  similar_content?: string;     // Absent once the colliding post is deleted
+  similarity: number;
+  method: SimilarityMethod;
+  created_at: Date;
+}
+
+// Media attached to a post - a local file plus its required alt text
+export interface MediaAttachment {
+  path: string;
+  alt_text: string;
+  mime_type?: string;
 }
 
 export interface BotStats {
@@ -75,10 +151,182 @@ export interface TwitterPostResult {
   retry_count: number;
 }
 
+// Thread posting progress - tweet IDs already posted for a thread, in segment order
+export interface ThreadProgress {
+  post_id: number;
+  tweet_ids: string[];
+  next_segment_index: number;
+}
+
+// Rate limit window for one X API endpoint, from x-rate-limit-* headers
+export interface RateLimitWindow {
+  endpoint: string;
+  limit: number;
+  remaining: number;
+  reset_at: Date;
+  updated_at: Date;
+}
+
+// Local posting budget derived from tweets already posted
+// Local posting budget (TWITTER_POSTS_PER_15MIN_BUDGET, TWITTER_POSTS_PER_DAY_BUDGET), in tweets
+export interface PostingBudgetSettings {
+  limit_per_15min: number;
+  limit_per_day: number;
+}
+
+export interface PostingBudgetStatus {
+  allowed: boolean;
+  wait_ms: number;
+  reason?: string;
+  posts_last_15min: number;
+  posts_last_day: number;
+  limit_per_15min: number;
+  limit_per_day: number;
+}
+
+// Generation spend budget state: ok, warning (past GENERATION_BUDGET_WARNING_RATIO) or exhausted
+export type GenerationBudgetState = 'ok' | 'warning' | 'exhausted';
+
+// Content model spend for one budget period (UTC day or month); limit 0 means unlimited
+export interface GenerationBudgetPeriod {
+  spent_usd: number;
+  limit_usd: number;
+  tokens: number;
+}
+
+// Daily and monthly content model spend against the configured budget
+export interface GenerationBudgetStatus {
+  allowed: boolean;
+  state: GenerationBudgetState;
+  reason?: string;
+  daily: GenerationBudgetPeriod;
+  monthly: GenerationBudgetPeriod;
+}
+
+// Where published tweets go: the live X account, the local outbox, or memory
+export type PublishMode = 'live' | 'dry-run' | 'memory';
+
+// Tweet recorded by a non-live publisher
+export interface PublishedTweet {
+  tweet_id: string;
+  content: string;
+  reply_to_id?: string;
+  media?: MediaAttachment[];
+  created_at: Date;
+}
+
+// Posts allocated to (target) and actually produced for (generated) one topic in a local batch
+export interface TopicAllocation {
+  topic: string;
+  weight: number;
+  target: number;
+  generated: number;
+}
+
+// Local generator output with its realized topic distribution
+export interface LocalGenerationResult {
+  posts: PostGenerationResult[];
+  distribution: TopicAllocation[];
+}
+
+// How the post queue is refilled (REPLENISHMENT_STRATEGY)
+export type ReplenishmentStrategy = 'local' | 'llm' | 'hybrid';
+
+// Outcome of one replenishment run, also written to generation_logs
+export interface ReplenishmentResult {
+  strategy: ReplenishmentStrategy;
+  requested: number;
+  llm_posts: number;
+  local_posts: number;
+  stored: number;
+  pending_review: number;       // Stored posts waiting for human review
+  rejected: number;
+  tokens_used: number;
+  cost: number;
+  models: string[];
+  distribution: TopicAllocation[];  // Local posts per topic
+  fallback_reason?: string;
+}
+
+// How the next queued post is chosen (POST_SELECTION_STRATEGY)
+export type SelectionStrategy = 'oldest' | 'weighted-random' | 'round-robin';
+
+// Selection strategy plus the category rotation rules applied before it
+export interface SelectionPolicy {
+  strategy: SelectionStrategy;
+  no_repeat_within: number;              // A category may not repeat within this many posts
+  category_gaps: Record<string, number>; // Minimum hours between posts per category ("*" = every category)
+}
+
+// One category considered for selection and why it was (not) eligible
+export interface SelectionCandidate {
+  category: string;
+  available: number;
+  weight: number;
+  eligible: boolean;
+  reason?: string;
+}
+
+// Why a post was picked, recorded in post_selections
+export interface SelectionDecision {
+  post_id: number | null;
+  category?: string;
+  strategy: SelectionStrategy;
+  reason: string;
+  relaxed: boolean;  // True when every category was blocked and the rules were ignored
+  candidates: SelectionCandidate[];
+  decided_at: Date;
+}
+
+// Where topic weights come from (TOPIC_WEIGHT_MODE): persona weights or the bandit optimizer
+export type TopicWeightMode = 'static' | 'learned';
+
+// Topic weight optimizer configuration (TOPIC_WEIGHT_MODE, TOPIC_EXPLORATION_FLOOR, TOPIC_OPTIMIZER_LOOKBACK_DAYS)
+export interface TopicWeightSettings {
+  mode: TopicWeightMode;         // Default mode; PUT /topic-weights can override it per bot
+  exploration_floor: number;     // Minimum selection probability of every topic
+  lookback_days: number;         // Only posts published this recently count
+}
+
+// Engagement of one topic (bandit arm) used for a weight update
+export interface TopicArmStats {
+  topic: string;
+  posts: number;
+  impressions: number;
+  engagements: number;           // likes + reposts + replies + quotes
+  rate: number;                  // Smoothed engagements per impression
+}
+
+// One learned weight update, stored in topic_weight_updates with its inputs
+export interface TopicWeightUpdate {
+  id: number;
+  weights: Record<string, number>;  // Selection probability per topic (sums to 1)
+  arms: TopicArmStats[];
+  exploration_floor: number;
+  lookback_days: number;
+  created_at: Date;
+}
+
+// Topic weights in use and where they come from
+export interface TopicWeightStatus {
+  mode: TopicWeightMode;
+  weights: Record<string, number>;        // Weights in use (learned ones scaled to the persona's total weight)
+  static_weights: Record<string, number>; // Persona topic weights
+  latest_update?: TopicWeightUpdate;
+}
+
+// Content model providers (LLM_PROVIDER)
+export type LLMProvider = 'openai' | 'openai-compatible' | 'stub';
+
 // OpenAI API types
 export interface PostGenerationResult {
   content: string;
+  segments?: string[];
+  media?: MediaAttachment[];
   category?: string;
+  variant_group?: string;
+  variant_label?: string;
+  review_status?: PostReviewStatus;  // Defaults to approved
   tokens_used: number;
   cost: number;
   model: string;
@@ -96,7 +344,316 @@ export interface BotPersonality {
   max_length: number;
 }
 
-// Scheduling configuration
+// Where a calendar slot's post comes from: a pinned post or the general queue
+export type CalendarSlotSource = 'pinned' | 'queue';
+
+// One upcoming posting slot in the content calendar
+export interface CalendarSlot {
+  at: Date;
+  source: CalendarSlotSource;
+  on_schedule: boolean;         // False for pinned posts at times no schedule slot fires
+  post_id?: number;             // Pinned post; queue slots are filled when they fire
+  category?: string;
+  content?: string;
+  conflicts?: number[];         // Other pinned posts in the same slot
+  blackout?: string;            // Blackout window the slot falls in; it is skipped or deferred
+}
+
+// What happens to posting slots that passed while the bot was down (MISSED_POST_POLICY)
+export type MissedPostPolicy = 'skip' | 'post-once' | 'grace-window';
+
+// How a posting slot ended: filled on time, owned by a pinned post, failed,
+// skipped (missed during downtime, blackout or quiet mode), posted late after
+// downtime, or deferred to the end of a blackout
+export type ScheduleSlotStatus = 'posted' | 'pinned' | 'failed' | 'skipped' | 'caught-up' | 'deferred';
+
+// One posting slot that came due, recorded in schedule_slots
+export interface ScheduleSlotRecord {
+  slot_at: Date;
+  status: ScheduleSlotStatus;
+  missed: boolean;              // True for slots that passed while the bot was down
+  policy?: MissedPostPolicy;    // Policy applied to a missed slot
+  reason?: string;
+  post_id?: number;
+  recorded_at: Date;
+}
+
+// Missed slot policy with its grace window
+export interface MissedPostSettings {
+  policy: MissedPostPolicy;
+  grace_minutes: number;        // grace-window only: latest missed slot must be at most this old
+}
+
+// Outcome of the startup check for slots missed during downtime
+export interface MissedSlotReport {
+  missed: number;
+  policy: MissedPostPolicy;
+  posted: boolean;
+  reason: string;
+  latest_missed_at?: Date;
+  post_id?: number;
+}
+
+// Outcome of one executePost run
+export interface PostExecutionResult {
+  success: boolean;
+  post_id?: number;
+  tweet_id?: string;
+  error?: string;
+  blocked?: boolean;            // True when a blackout, quiet mode or a pause stopped the post
+}
+
+// What a scheduled slot does during a blackout (BLACKOUT_ACTION)
+export type BlackoutAction = 'skip' | 'defer';
+
+// Blackout window on the schedule timezone's wall clock: a date range, or recurring times on weekdays
+export interface BlackoutWindow {
+  label: string;                // The entry as configured
+  start: string;                // "YYYY-MM-DDTHH:MM" for date ranges, "HH:MM" for recurring windows
+  end: string;                  // Exclusive; a recurring end at or before start runs past midnight
+  days?: number[];              // Recurring windows only: weekdays the window starts on (0 = Sunday)
+}
+
+// One occurrence of a blackout window
+export interface BlackoutPeriod {
+  label: string;
+  start: Date;
+  end: Date;
+}
+
+// Emergency quiet mode, toggled at runtime and kept across restarts
+export interface QuietMode {
+  enabled: boolean;
+  reason?: string;
+  since?: Date;
+  until?: Date;                 // Quiet mode ends by itself at this time, if set
+}
+
+// Jitter and blackout configuration (POST_JITTER_MINUTES, POSTING_BLACKOUTS, BLACKOUT_ACTION)
+export interface PostingWindowSettings {
+  jitter_minutes: number;
+  blackout_action: BlackoutAction;
+  blackouts: BlackoutWindow[];
+}
+
+// Whether the bot may post at a given time, and if not, why and until when
+export interface PostingGateStatus {
+  allowed: boolean;
+  reason?: string;
+  quiet_mode: QuietMode;
+  blackout?: BlackoutPeriod;
+  resume_at?: Date;             // When posting is allowed again (unknown for open-ended quiet mode)
+}
+
+// Whether the bot is paused (no scheduled posts, no replenishment), kept across restarts
+export interface PauseState {
+  paused: boolean;
+  reason?: string;
+  since?: Date;
+  killed?: boolean;             // Paused by the kill switch
+}
+
+// Tweet the bot posted, read from post_logs
+export interface PostedTweet {
+  tweet_id: string;
+  post_id?: number;
+  segment_index?: number;       // Position in a thread, if the tweet is a thread segment
+  posted_at: Date;
+}
+
+// Tweets deleted from X, and the ones that could not be
+export interface TweetDeletionResult {
+  deleted: string[];
+  failed: Array<{ tweet_id: string; error: string }>;
+}
+
+// Outcome of the kill switch
+export interface KillSwitchReport extends TweetDeletionResult {
+  pause: PauseState;
+  requested: number;            // Number of recent tweets asked to be deleted
+}
+
+// Final status of a post in the published-post ledger
+export type PublishedPostStatus = 'published' | 'partial' | 'failed' | 'deleted';
+
+// Published-post ledger entry: a queued post and the tweet(s) it produced
+export interface PublishedPostRecord {
+  post_id: number;
+  status: PublishedPostStatus;  // partial: a thread stopped part way
+  account?: string;             // X account (@handle) in live mode
+  publish_mode: PublishMode;
+  tweet_id?: string;            // First tweet (thread head)
+  tweet_ids: string[];          // Every tweet, in thread order
+  attempts: number;             // Posting attempts across all runs
+  error?: string;               // Last error, if the post failed
+  published_at?: Date;
+  deleted_at?: Date;
+  content?: string;
+  category?: string;
+  persona_version?: number;     // Persona the bot was running with when the post went out
+}
+
+// Ages after publishing at which engagement metrics are collected
+export type MetricsAge = '1h' | '24h' | '7d';
+
+// Public engagement counts of a tweet (or the sum over a thread's tweets)
+export interface TweetMetrics {
+  impressions: number;
+  likes: number;
+  reposts: number;
+  replies: number;
+  quotes: number;
+}
+
+// Metrics of one tweet at one age, stored in tweet_metrics
+export interface TweetMetricsSnapshot extends TweetMetrics {
+  post_id: number;
+  tweet_id: string;
+  age: MetricsAge;
+  collected_at: Date;
+}
+
+// Metrics of a post at one age, summed over its tweets
+export interface PostMetricsSnapshot extends TweetMetrics {
+  age: MetricsAge;
+  tweets: number;               // Tweets with a snapshot at this age
+  collected_at: Date;           // Latest collection time among them
+}
+
+// Metrics of a post at every age collected so far
+export interface PostMetrics {
+  post_id: number;
+  category?: string;
+  persona_version?: number;
+  published_at?: Date;
+  snapshots: PostMetricsSnapshot[];  // In age order
+}
+
+// Metrics of a group of posts (a category or a persona version) at one age
+export interface MetricsGroupSummary extends TweetMetrics {
+  group: string;                // Category, or persona version
+  persona_name?: string;        // Persona name, when grouped by persona
+  posts: number;
+  avg_impressions: number;      // Per post
+  engagement_rate: number;      // (likes + reposts + replies + quotes) / impressions, 0 without impressions
+}
+
+// Metrics collection configuration (METRICS_COLLECTION, METRICS_INTERVAL_MINUTES, METRICS_MAX_REQUESTS_PER_RUN)
+export interface MetricsSettings {
+  enabled: boolean;
+  interval_minutes: number;     // How often due snapshots are collected
+  max_requests_per_run: number; // Lookup requests (up to 100 tweets each) per run
+}
+
+// Outcome of one metrics collection run
+export interface MetricsCollectionReport {
+  due: number;                  // Snapshots due when the run started
+  collected: number;
+  missing: number;              // Tweets X no longer returns (deleted or protected)
+  requests: number;             // Lookup requests made
+  rate_limited: boolean;        // Stopped early by the X rate limit or the per-run request cap
+  error?: string;
+}
+
+// Whether a variant group is still being tested
+export type VariantGroupStatus = 'running' | 'concluded';
+
+// A/B test configuration (VARIANT_SIGNIFICANCE, VARIANT_MIN_IMPRESSIONS)
+export interface VariantTestSettings {
+  significance: number;         // p-value below which a difference counts as clear
+  min_impressions: number;      // 24h impressions a variant needs before it is compared
+}
+
+// 24h engagement of one variant, compared against the leading variant of its group
+export interface VariantStats {
+  label: string;
+  posts: number;
+  published: number;
+  queued: number;               // Unused and not retired
+  retired: number;
+  impressions: number;
+  engagements: number;          // likes + reposts + replies + quotes
+  engagement_rate: number;      // engagements / impressions, 0 without impressions
+  z_score?: number;             // Two-proportion z-test against the leader (not set for the leader)
+  p_value?: number;
+  significant?: boolean;        // p_value < significance
+}
+
+// A/B test of one variant group
+export interface VariantGroupReport {
+  group: string;
+  category?: string;
+  status: VariantGroupStatus;
+  leader?: string;              // Highest engagement rate among variants with enough impressions
+  winner?: string;              // Set once concluded
+  variants: VariantStats[];
+  concluded_at?: Date;
+  retired_posts?: number;       // Queued losing posts retired when the group concluded
+}
+
+// What a mention is, as decided by the mention classifier
+export type MentionCategory = 'question' | 'praise' | 'abuse' | 'spam' | 'other';
+
+// Where a mention is in the reply workflow
+export type MentionStatus = 'new' | 'ignored' | 'pending_approval' | 'approved' | 'replied' | 'rejected' | 'failed';
+
+// Whether drafted replies go out on their own or wait for a human
+export type MentionReplyMode = 'auto' | 'approval';
+
+// Mention monitoring configuration (MENTIONS_POLLING, MENTIONS_INTERVAL_MINUTES, MENTION_REPLY_MODE, MENTION_REPLIES_PER_HOUR)
+export interface MentionSettings {
+  enabled: boolean;
+  interval_minutes: number;     // How often mentions are polled
+  reply_mode: MentionReplyMode;
+  replies_per_hour: number;     // Replies posted in any rolling hour (0 = never post)
+}
+
+// Tweet mentioning the account, as returned by the publisher
+export interface IncomingMention {
+  tweet_id: string;
+  author_id?: string;
+  author_username?: string;
+  text: string;
+  conversation_id?: string;
+  created_at?: Date;
+}
+
+// Mention stored in mentions, with its drafted reply
+export interface MentionRecord extends IncomingMention {
+  id: number;
+  category: MentionCategory;
+  status: MentionStatus;
+  reply_content?: string;
+  reply_tweet_id?: string;
+  reply_model?: string;
+  reply_cost: number;
+  error?: string;
+  received_at: Date;
+  reviewed_at?: Date;           // Approved or rejected by a human
+  replied_at?: Date;
+}
+
+// Outcome of one mentions run: poll, draft replies, post approved replies
+export interface MentionRunReport {
+  fetched: number;
+  drafted: number;
+  pending_approval: number;     // Drafts waiting for a human after this run
+  replied: number;
+  rate_limited: boolean;        // Poll skipped or replies held back by a rate limit, budget or reply cap
+  blocked?: string;             // Why no reply was posted (pause, blackout, quiet mode)
+  error?: string;
+}
+
+// Versioned copy of a persona file, stored in persona_snapshots
+export interface PersonaSnapshot {
+  version: number;
+  name: string;
+  source_path: string;
+  content_hash: string;
+  created_at: Date;
+}
+
+// One posting slot: a node-cron expression matched against the wall clock in an IANA timezone
 export interface ScheduleConfig {
   cron_expression: string;
   timezone: string;
@@ -137,6 +694,34 @@ export class OpenAIError extends BotError {
   }
 }
 
+export class BudgetExceededError extends BotError {
+  constructor(message: string, context?: Record<string, unknown>) {
+    super(message, 'BUDGET_EXCEEDED', false, context);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export class MediaError extends BotError {
+  constructor(message: string, context?: Record<string, unknown>) {
+    super(message, 'MEDIA_ERROR', false, context);
+    this.name = 'MediaError';
+  }
+}
+
+export class ContentRuleError extends BotError {
+  constructor(message: string, context?: Record<string, unknown>) {
+    super(message, 'CONTENT_RULE_VIOLATION', false, context);
+    this.name = 'ContentRuleError';
+  }
+}
+
+export class SimilarPostError extends BotError {
+  constructor(message: string, context?: Record<string, unknown>) {
+    super(message, 'SIMILAR_POST', false, context);
+    this.name = 'SimilarPostError';
+  }
+}
+
 // Logging types
 export interface LogEntry {
   timestamp: Date;
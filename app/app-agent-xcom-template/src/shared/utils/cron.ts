@@ -0,0 +1,198 @@
+// Cron expression utilities - upcoming fire times for node-cron schedules.
+// Expressions use node-cron syntax: 5 fields (minute hour day month weekday)
+// or 6 with leading seconds; numbers, *, ranges, steps, lists and month /
+// weekday names. Like node-cron, every field must match (day of month AND
+// weekday), and fields are matched against the wall clock in the timezone:
+// times skipped by a DST change never fire, and times repeated by one fire
+// the first time only.
+
+export interface CronFields {
+  seconds: number[];
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+}
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const WEEKDAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const ONE_MINUTE = 60 * 1000;
+const ONE_HOUR = 60 * ONE_MINUTE;
+
+// Search at most this far ahead for the next fire time (covers Feb 29 schedules)
+const MAX_SEARCH_MS = 8 * 366 * 24 * ONE_HOUR;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// Parse one field ("*/15", "1-5", "mon,wed", ...) into the values it allows
+function parseField(field: string, min: number, max: number, names: string[] = [], nameOffset = 0): Set<number> {
+  const values = new Set<number>();
+  const toNumber = (token: string) => {
+    const named = names.indexOf(token.toLowerCase().slice(0, 3));
+    const value = named !== -1 && isNaN(Number(token)) ? named + nameOffset : Number(token);
+    if (!Number.isInteger(value) || value < min || value > max) {
+      throw new Error(`Invalid cron value "${token}" (expected ${min}-${max})`);
+    }
+    return value;
+  };
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron step "${part}"`);
+    }
+
+    const [start, end] = range === '*'
+      ? [min, max]
+      : range.includes('-')
+        ? range.split('-').map(toNumber)
+        : [toNumber(range), stepText === undefined ? toNumber(range) : max];
+    if (start > end) {
+      throw new Error(`Invalid cron range "${part}"`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse Cron Expression - Split a node-cron expression into allowed values per field
+ *
+ * @param expression - 5 or 6 field cron expression
+ * @returns CronFields - Allowed values per field (weekday 7 is folded into 0)
+ * @throws Error if the expression is malformed
+ */
+export function parseCronExpression(expression: string): CronFields {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5 && parts.length !== 6) {
+    throw new Error(`Invalid cron expression "${expression}" (expected 5 or 6 fields)`);
+  }
+  const [seconds, minutes, hours, days, months, weekdays] = parts.length === 6 ? parts : ['0', ...parts];
+
+  const weekdayValues = parseField(weekdays, 0, 7, WEEKDAY_NAMES);
+  if (weekdayValues.delete(7)) {
+    weekdayValues.add(0);
+  }
+
+  return {
+    seconds: [...parseField(seconds, 0, 59)].sort((a, b) => a - b),
+    minutes: parseField(minutes, 0, 59),
+    hours: parseField(hours, 0, 23),
+    days: parseField(days, 1, 31),
+    months: parseField(months, 1, 12, MONTH_NAMES, 1),
+    weekdays: weekdayValues
+  };
+}
+
+/**
+ * Get Timezone Offset - Offset of a timezone from UTC at an instant
+ *
+ * @param timezone - IANA timezone, e.g. "America/Denver"
+ * @param at - Instant to evaluate (offsets change with DST)
+ * @returns number - Milliseconds to add to UTC to get the wall clock time
+ * @throws RangeError if the timezone is unknown
+ */
+export function getTimezoneOffset(timezone: string, at: Date): number {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric'
+    });
+    formatters.set(timezone, formatter);
+  }
+
+  const parts = Object.fromEntries(formatter.formatToParts(at).map(part => [part.type, Number(part.value)]));
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  return wallClock - Math.floor(at.getTime() / ONE_MINUTE) * ONE_MINUTE;
+}
+
+/**
+ * Get Next Cron Dates - Upcoming fire times of a cron expression
+ *
+ * @param expression - node-cron expression
+ * @param timezone - IANA timezone the expression is evaluated in
+ * @param from - Times strictly after this instant are returned (default: now)
+ * @param count - Number of fire times to return
+ * @returns Date[] - Up to `count` fire times in ascending order (fewer if the schedule never fires)
+ * @throws Error if the expression or timezone is invalid
+ */
+export function getNextCronDates(
+  expression: string,
+  timezone: string,
+  from: Date = new Date(),
+  count: number = 1
+): Date[] {
+  const fields = parseCronExpression(expression);
+  const dates: Date[] = [];
+  const end = from.getTime() + MAX_SEARCH_MS;
+
+  let time = Math.floor(from.getTime() / ONE_MINUTE) * ONE_MINUTE;
+  let offsetHour = -1;
+  let offset = 0;
+  let lastLocal = -Infinity;
+
+  while (dates.length < count && time <= end) {
+    // Offsets only change on the hour, so look them up once per UTC hour
+    const hour = Math.floor(time / ONE_HOUR);
+    if (hour !== offsetHour) {
+      offsetHour = hour;
+      offset = getTimezoneOffset(timezone, new Date(time));
+    }
+
+    // Skip ahead by wall clock hours (not UTC, for :30 and :45 offsets). Days
+    // are skipped to the last hour before midnight so a DST change on the way
+    // can never jump past the first hour of the next day
+    const local = new Date(time + offset);
+    if (
+      !fields.months.has(local.getUTCMonth() + 1) ||
+      !fields.days.has(local.getUTCDate()) ||
+      !fields.weekdays.has(local.getUTCDay())
+    ) {
+      time += (Math.max(23 - local.getUTCHours(), 1) * 60 - local.getUTCMinutes()) * ONE_MINUTE;
+      continue;
+    }
+    if (!fields.hours.has(local.getUTCHours())) {
+      time += (60 - local.getUTCMinutes()) * ONE_MINUTE;
+      continue;
+    }
+
+    if (fields.minutes.has(local.getUTCMinutes()) && local.getTime() > lastLocal) {
+      const second = fields.seconds.find(value => time + value * 1000 > from.getTime());
+      if (second !== undefined) {
+        dates.push(new Date(time + second * 1000));
+        lastLocal = local.getTime();
+      }
+    }
+    time += ONE_MINUTE;
+  }
+
+  return dates;
+}
+
+/**
+ * Is Valid Timezone - Whether Intl knows an IANA timezone
+ *
+ * @param timezone - Timezone name to check
+ * @returns boolean - True if the timezone can be used for scheduling
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,24 @@
+// SQL timestamp utilities - conversion between Dates and SQLite timestamps.
+// SQLite's CURRENT_TIMESTAMP stores UTC as "YYYY-MM-DD HH:MM:SS" without a
+// zone, which new Date() would read as local time, so every timestamp column
+// is written and read through these helpers.
+
+/**
+ * To SQL Timestamp - Format a date the way SQLite's CURRENT_TIMESTAMP does
+ *
+ * @param date - Instant to format
+ * @returns string - UTC "YYYY-MM-DD HH:MM:SS"
+ */
+export function toSqlTimestamp(date: Date): string {
+  return date.toISOString().slice(0, 19).replace('T', ' ');
+}
+
+/**
+ * Parse SQL Timestamp - Read a SQLite timestamp as UTC
+ *
+ * @param value - UTC "YYYY-MM-DD HH:MM:SS"
+ * @returns Date - The instant the timestamp stands for
+ */
+export function parseSqlTimestamp(value: string): Date {
+  return new Date(`${value.replace(' ', 'T')}Z`);
+}
@@ -0,0 +1,149 @@
+// Tweet length utilities - X's weighted character count and truncation.
+// X counts text after NFC normalization: code points in the Latin, general
+// punctuation and similar ranges weigh 1, everything else (CJK, most other
+// scripts) weighs 2, an emoji sequence weighs 2 however many code points it
+// has, and a link weighs TWEET_URL_LENGTH whatever its own length, because X
+// shortens it. Links are http(s) URLs, www. hosts and bare domains on common
+// top-level domains; punctuation right after a link is not part of it.
+
+import { MAX_TWEET_LENGTH, TWEET_URL_LENGTH } from '../constants';
+
+// A piece of text that is counted (and cut) as a whole
+interface TweetUnit {
+  text: string;
+  weight: number;
+  url: boolean;
+}
+
+// Code point ranges that weigh 1 (twitter-text v3 configuration)
+const LIGHT_RANGES: Array<[number, number]> = [
+  [0x0000, 0x10ff],
+  [0x2000, 0x200d],
+  [0x2010, 0x201f],
+  [0x2032, 0x2037]
+];
+
+const URL_PATTERN = new RegExp(
+  '(?:https?:\\/\\/|www\\.)[^\\s<>"]+' +
+  '|\\b(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\\.)+(?:com|org|net|edu|gov|io|ai|co|dev|app|me|ly|info|xyz|us|uk|de)\\b(?:\\/[^\\s<>"]*)?',
+  'gi'
+);
+const URL_TRAILING_PUNCTUATION = /[.,:;!?'")\]]+$/;
+const EMOJI_PATTERN = /\p{Emoji_Presentation}|\p{Regional_Indicator}|[\uFE0F\u20E3]/u;
+const ELLIPSIS = '…';
+
+const graphemes = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+
+/**
+ * Extract URLs - Links X would shorten, in order
+ *
+ * @param text - Tweet text
+ * @returns string[] - The links, without trailing punctuation
+ */
+export function extractUrls(text: string): string[] {
+  return splitUrls(text.normalize('NFC')).filter(unit => unit.url).map(unit => unit.text);
+}
+
+/**
+ * Tweet Length - Weighted length of a tweet as X counts it
+ *
+ * @param text - Tweet text
+ * @returns number - Weighted character count (max MAX_TWEET_LENGTH per tweet)
+ */
+export function tweetLength(text: string): number {
+  return toUnits(text).reduce((length, unit) => length + unit.weight, 0);
+}
+
+/**
+ * Fits In Tweet - Whether text is within a weighted length
+ *
+ * @param text - Tweet text
+ * @param max - Longest allowed weighted length
+ * @returns boolean - True if X would accept the text at that limit
+ */
+export function fitsInTweet(text: string, max: number = MAX_TWEET_LENGTH): boolean {
+  return tweetLength(text) <= max;
+}
+
+/**
+ * Truncate Tweet - Shorten text to a weighted length with an ellipsis
+ *
+ * Cuts at the last word break that fits, or between graphemes when a single
+ * word is too long, and never inside a link or an emoji sequence.
+ *
+ * @param text - Tweet text
+ * @param max - Longest allowed weighted length, ellipsis included
+ * @returns string - The text unchanged if it fits, otherwise shortened and ending in "…"
+ */
+export function truncateTweet(text: string, max: number = MAX_TWEET_LENGTH): string {
+  const units = toUnits(text);
+  if (units.reduce((length, unit) => length + unit.weight, 0) <= max) {
+    return text.normalize('NFC');
+  }
+
+  const budget = max - tweetLength(ELLIPSIS);
+  let length = 0;
+  let end = 0;
+  let wordEnd = 0;
+  for (; end < units.length && length + units[end].weight <= budget; end++) {
+    length += units[end].weight;
+    if (/^\s+$/.test(units[end].text)) {
+      wordEnd = end;
+    }
+  }
+
+  // Prefer a word break, unless that throws away most of the text
+  const cut = wordEnd > end / 2 ? wordEnd : end;
+  const kept = units.slice(0, cut).map(unit => unit.text).join('').replace(/[\s.,:;!?-]+$/u, '');
+  return kept + ELLIPSIS;
+}
+
+// Split text into links (one unit each) and graphemes
+function toUnits(text: string): TweetUnit[] {
+  const units: TweetUnit[] = [];
+  for (const part of splitUrls(text.normalize('NFC'))) {
+    if (part.url) {
+      units.push(part);
+      continue;
+    }
+    for (const { segment } of graphemes.segment(part.text)) {
+      units.push({ text: segment, weight: graphemeWeight(segment), url: false });
+    }
+  }
+  return units;
+}
+
+// Split text into links and the text between them
+function splitUrls(text: string): TweetUnit[] {
+  const parts: TweetUnit[] = [];
+  let index = 0;
+  for (const match of text.matchAll(URL_PATTERN)) {
+    const url = match[0].replace(URL_TRAILING_PUNCTUATION, '');
+    // Email addresses, @handle.com and the middle of a word or path are not links
+    if (match.index! > 0 && /[@\w/.:-]/.test(text[match.index! - 1])) {
+      continue;
+    }
+    if (match.index! > index) {
+      parts.push({ text: text.slice(index, match.index), weight: 0, url: false });
+    }
+    parts.push({ text: url, weight: TWEET_URL_LENGTH, url: true });
+    index = match.index! + url.length;
+  }
+  if (index < text.length) {
+    parts.push({ text: text.slice(index), weight: 0, url: false });
+  }
+  return parts;
+}
+
+// An emoji sequence weighs 2; other graphemes weigh the sum of their code points
+function graphemeWeight(grapheme: string): number {
+  if (EMOJI_PATTERN.test(grapheme)) {
+    return 2;
+  }
+  let weight = 0;
+  for (const char of grapheme) {
+    const codePoint = char.codePointAt(0)!;
+    weight += LIGHT_RANGES.some(([start, end]) => codePoint >= start && codePoint <= end) ? 1 : 2;
+  }
+  return weight;
+}
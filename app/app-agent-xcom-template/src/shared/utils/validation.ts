@@ -1,8 +1,57 @@
 import { z } from 'zod';
+import { MAX_THREAD_SEGMENTS, MAX_TWEET_LENGTH, MAX_POSTS_PER_REVIEW, MAX_POSTS_PER_VARIANT_GROUP } from '../constants';
+import { fitsInTweet } from './tweet-length';
+
+// One tweet, measured the way X counts characters
+export const TweetTextSchema = z.string().trim().min(1).refine(fitsInTweet, {
+  message: `Content exceeds ${MAX_TWEET_LENGTH} character limit`
+});
+
+// Thread segments - each segment is posted as its own tweet
+export const ThreadSegmentsSchema = z
+  .array(TweetTextSchema)
+  .min(1)
+  .max(MAX_THREAD_SEGMENTS);
+
+// A thread's content is its segments joined. Single posts (and one-segment threads, which
+// are published as a single tweet) must fit in one tweet; threads are limited per segment instead
+const withTweetLength = <T extends { content: string; segments?: string[] }>(
+  value: T,
+  ctx: z.RefinementCtx
+) => {
+  if (value.segments && value.content !== value.segments.join('\n\n')) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['content'],
+      message: 'Content must be the thread segments joined by blank lines'
+    });
+  }
+  if ((!value.segments || value.segments.length < 2) && !fitsInTweet(value.content)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.too_big,
+      maximum: MAX_TWEET_LENGTH,
+      type: 'string',
+      inclusive: true,
+      path: ['content'],
+      message: `Content exceeds ${MAX_TWEET_LENGTH} character limit`
+    });
+  }
+};
+
+// Posts given as content or segments - a thread's content is its segments joined
+const withContent = <T extends { content?: string; segments?: string[] }>(value: T, ctx: z.RefinementCtx) => {
+  const content = value.content ?? value.segments?.join('\n\n');
+  if (!content) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Either content or segments is required' });
+    return z.NEVER;
+  }
+  return { ...value, content };
+};
 
 // Validation schemas
 export const PostSchema = z.object({
-  content: z.string().min(1).max(280),
+  content: z.string().min(1),
+  segments: ThreadSegmentsSchema.optional(),
   bot_id: z.string().min(1),
   category: z.string().optional(),
   used: z.boolean().default(false),
@@ -13,7 +62,7 @@ export const PostSchema = z.object({
   generation_tokens: z.number().optional(),
   generation_model: z.string().optional(),
   content_hash: z.string().optional()
-});
+}).superRefine(withTweetLength);
 
 export const BotStatsSchema = z.object({
   bot_id: z.string().min(1),
@@ -34,12 +83,83 @@ export const TwitterPostResultSchema = z.object({
 });
 
 export const PostGenerationResultSchema = z.object({
-  content: z.string().min(1).max(280),
+  content: z.string().min(1),
+  segments: ThreadSegmentsSchema.optional(),
   tokens_used: z.number(),
   cost: z.number(),
   model: z.string()
+}).superRefine(withTweetLength);
+
+// Media attachment - local file path plus required alt text
+export const MediaAttachmentSchema = z.object({
+  path: z.string().min(1),
+  alt_text: z.string().trim().min(1)
+});
+
+// Manual post request - single tweet or thread, with optional media on the first tweet
+export const ManualPostSchema = z.object({
+  content: z.string().trim().min(1).optional(),
+  segments: ThreadSegmentsSchema.optional(),
+  media: z.array(MediaAttachmentSchema).optional()
+}).transform(withContent).superRefine(withTweetLength);
+
+export type ManualPostInput = z.infer<typeof ManualPostSchema>;
+
+// A/B variant post - one phrasing under a variant label, as a single tweet or a thread
+export const VariantSchema = z.object({
+  label: z.string().trim().min(1).max(32),
+  content: z.string().trim().min(1).optional(),
+  segments: ThreadSegmentsSchema.optional()
+}).transform(withContent).superRefine(withTweetLength);
+
+// Variant group request - phrasings tested against each other; a label may have several posts
+export const VariantGroupSchema = z.object({
+  group: z.string().trim().min(1).max(64),
+  category: z.string().trim().min(1).optional(),
+  variants: z.array(VariantSchema).min(2).max(MAX_POSTS_PER_VARIANT_GROUP)
+}).superRefine((value, ctx) => {
+  if (new Set(value.variants.map(variant => variant.label)).size < 2) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['variants'], message: 'At least two variant labels are required' });
+  }
+});
+
+export type VariantGroupInput = z.infer<typeof VariantGroupSchema>;
+
+// Who made a review decision
+const ReviewerSchema = z.string().trim().min(1).max(64);
+
+// Post approval - optionally with edited content or thread segments
+export const PostApprovalSchema = z.object({
+  reviewer: ReviewerSchema,
+  content: z.string().trim().min(1).optional(),
+  segments: ThreadSegmentsSchema.optional()
+}).transform(value => {
+  const content = value.content ?? value.segments?.join('\n\n');
+  return { reviewer: value.reviewer, edit: content ? { content, segments: value.segments } : undefined };
+}).superRefine((value, ctx) => value.edit && withTweetLength(value.edit, ctx));
+
+export type PostApprovalInput = z.infer<typeof PostApprovalSchema>;
+
+// Bulk rejection - posts rejected together with one reason
+export const PostRejectionSchema = z.object({
+  reviewer: ReviewerSchema,
+  ids: z.array(z.number().int().positive()).min(1).max(MAX_POSTS_PER_REVIEW),
+  reason: z.string().trim().min(1).max(500)
+});
+
+export type PostRejectionInput = z.infer<typeof PostRejectionSchema>;
+
+// Quiet mode request - until is optional, and null means no end time
+export const QuietModeRequestSchema = z.object({
+  enabled: z.boolean(),
+  reason: z.string().optional(),
+  until: z.union([z.string(), z.number()]).nullish()
+    .transform(value => (value === null || value === undefined ? undefined : new Date(value)))
+    .refine(until => !until || !isNaN(until.getTime()), { message: 'Invalid until time' })
 });
 
+export type QuietModeRequestInput = z.infer<typeof QuietModeRequestSchema>;
+
 // Validation functions
 export function validatePost(post: unknown) {
   return PostSchema.parse(post);
@@ -57,58 +177,24 @@ export function validatePostGenerationResult(result: unknown) {
   return PostGenerationResultSchema.parse(result);
 }
 
-// Content validation
-export function validateTweetContent(content: string): { isValid: boolean; errors: string[] } {
-  const errors: string[] = [];
-
-  if (!content || content.trim().length === 0) {
-    errors.push('Content cannot be empty');
-  }
-
-  if (content.length > 280) {
-    errors.push('Content exceeds 280 character limit');
-  }
-
-  // Check for potentially problematic content
-  const problematicPatterns = [
-    /\b(hate|kill|murder|suicide|bomb|terrorist)\b/i,
-    /@\w+/g, // Mentions
-    /https?:\/\/\S+/g // URLs
-  ];
-
-  // NO hashtags allowed for non-scripture bots
-  const hashtagCount = (content.match(/#\w+/g) || []).length;
-  if (hashtagCount > 0) {
-    errors.push('Hashtags are not allowed');
-  }
-
-  // NO quotation marks allowed for non-scripture bots
-  const quoteCount = (content.match(/["""]/g) || []).length;
-  if (quoteCount > 0) {
-    errors.push('Quotation marks are not allowed');
-  }
+export function validateManualPost(input: unknown): ManualPostInput {
+  return ManualPostSchema.parse(input);
+}
 
-  // NO brackets allowed for non-scripture bots
-  const bracketCount = (content.match(/[\[\](){}]/g) || []).length;
-  if (bracketCount > 0) {
-    errors.push('Brackets and parentheses are not allowed');
-  }
+export function validateVariantGroup(input: unknown): VariantGroupInput {
+  return VariantGroupSchema.parse(input);
+}
 
-  // NO emojis allowed for any bot
-  const emojiCount = (content.match(/[\u{1F600}-\u{1F64F}]|[\u{1F300}-\u{1F5FF}]|[\u{1F680}-\u{1F6FF}]|[\u{1F1E0}-\u{1F1FF}]|[\u{2600}-\u{26FF}]|[\u{2700}-\u{27BF}]/gu) || []).length;
-  if (emojiCount > 0) {
-    errors.push('Emojis are not allowed');
-  }
+export function validatePostApproval(input: unknown): PostApprovalInput {
+  return PostApprovalSchema.parse(input);
+}
 
-  const urlCount = (content.match(/https?:\/\/\S+/g) || []).length;
-  if (urlCount > 2) {
-    errors.push('Too many URLs (max 2)');
-  }
+export function validatePostRejection(input: unknown): PostRejectionInput {
+  return PostRejectionSchema.parse(input);
+}
 
-  return {
-    isValid: errors.length === 0,
-    errors
-  };
+export function validateQuietModeRequest(input: unknown): QuietModeRequestInput {
+  return QuietModeRequestSchema.parse(input);
 }
 
 // Rate limiting validation
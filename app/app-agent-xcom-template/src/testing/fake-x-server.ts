@@ -0,0 +1,502 @@
+/**
+ * Fake X Server - Local stand-in for the X API endpoints the bot uses
+ *
+ * Integration tests point TemplateTwitterService at this server with
+ * TWITTER_API_BASE_URL, so the real request/response handling (OAuth
+ * signing, rate limit headers, error mapping to TwitterAPIError) runs
+ * against realistic HTTP responses instead of a mocked module.
+ *
+ * Endpoints:
+ * - GET    /2/users/me                  - authenticated user
+ * - POST   /2/tweets                    - create tweet (403 on duplicate text)
+ * - GET    /2/tweets?ids=               - multi-tweet lookup (public metrics)
+ * - GET    /2/tweets/:id                - tweet lookup
+ * - DELETE /2/tweets/:id                - delete tweet
+ * - GET    /2/users/:id/mentions        - mention timeline (since_id, paged newest first)
+ * - POST   /1.1/media/upload.json       - chunked upload (INIT/APPEND/FINALIZE)
+ * - POST   /1.1/media/metadata/create.json - alt text
+ *
+ * Failures are scripted per endpoint key ("POST /2/tweets") and consumed in
+ * order: 429 with reset headers, 403 duplicate, 403 forbidden, 401 and 5xx.
+ * Every response carries x-rate-limit-* headers from a per-endpoint window,
+ * and an exhausted window answers 429 until its reset time.
+ *
+ * @author Your Name
+ * @version 1.0.0
+ */
+
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { RateLimitTracker } from '../services/rate-limit-tracker';
+
+/**
+ * Scripted failure for the next request to an endpoint
+ * ("none" lets one request through, to fail a later one in a sequence)
+ */
+export type FakeXFailure =
+  | { type: 'none' }
+  | { type: 'rate-limit'; resetInSeconds?: number }
+  | { type: 'duplicate' }
+  | { type: 'forbidden' }
+  | { type: 'unauthorized' }
+  | { type: 'server-error'; status?: number };
+
+/**
+ * Tweet stored by the fake server
+ */
+export interface FakeTweet {
+  id: string;
+  text: string;
+  reply_to_id?: string;
+  media_ids: string[];
+  created_at: Date;
+  // Engagement returned by lookups; tests change it to simulate activity
+  public_metrics: { impression_count: number; like_count: number; retweet_count: number; reply_count: number; quote_count: number };
+}
+
+/**
+ * Tweet mentioning the authenticated user, posted by someone else
+ */
+export interface FakeMention {
+  id: string;
+  text: string;
+  author_id: string;
+  username: string;
+  created_at: Date;
+}
+
+/**
+ * Uploaded media stored by the fake server
+ */
+export interface FakeMedia {
+  id: string;
+  media_type: string;
+  total_bytes: number;
+  chunks: number;
+  finalized: boolean;
+  alt_text?: string;
+}
+
+/**
+ * Request received by the fake server
+ */
+export interface FakeXRequest {
+  endpoint: string;
+  command?: string;
+  status: number;
+  at: Date;
+}
+
+/**
+ * Fake X Server Options
+ */
+export interface FakeXServerOptions {
+  username?: string;
+  // Requests per 15-minute window reported in x-rate-limit-limit
+  rateLimits?: Record<string, number>;
+}
+
+const DEFAULT_RATE_LIMIT = 900;
+const DEFAULT_RATE_LIMITS: Record<string, number> = {
+  'POST /2/tweets': 200,
+  'DELETE /2/tweets/:id': 50,
+  'GET /2/tweets': 15,
+  'GET /2/users/:id/mentions': 180,
+  'GET /2/users/me': 75
+};
+const WINDOW_SECONDS = 15 * 60;
+const TOO_MANY_REQUESTS = { title: 'Too Many Requests', detail: 'Too Many Requests', type: 'about:blank', status: 429 };
+
+/**
+ * Fake X Server Class
+ */
+export class FakeXServer {
+  readonly tweets = new Map<string, FakeTweet>();
+  readonly media = new Map<string, FakeMedia>();
+  readonly mentions: FakeMention[] = [];
+  readonly requests: FakeXRequest[] = [];
+  private app: express.Application;
+  private server: Server | null = null;
+  private failures = new Map<string, FakeXFailure[]>();
+  private windows = new Map<string, { remaining: number; reset: number }>();
+  private latencyMs = 0;
+  private nextId = BigInt('1800000000000000000');
+
+  /**
+   * Constructor - Set up routes
+   *
+   * @param options - Username returned by users/me and per-endpoint limits
+   */
+  constructor(private options: FakeXServerOptions = {}) {
+    this.app = express();
+    this.setupRoutes();
+  }
+
+  /**
+   * Start - Listen on a local port
+   *
+   * @param port - Port to listen on (0 picks a free port)
+   * @returns Promise<string> - Base URL to use as TWITTER_API_BASE_URL
+   */
+  async start(port: number = 0): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const server = this.app.listen(port, '127.0.0.1', () => {
+        const address = server.address() as AddressInfo;
+        resolve(`http://127.0.0.1:${address.port}`);
+      });
+      server.on('error', reject);
+      this.server = server;
+    });
+  }
+
+  /**
+   * Stop - Close the server
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (!server) {
+      return;
+    }
+    await new Promise<void>((resolve, reject) => {
+      server.close(error => (error ? reject(error) : resolve()));
+    });
+  }
+
+  /**
+   * Fail Next - Script failures for the next requests to an endpoint
+   *
+   * @param endpoint - Endpoint key, e.g. "POST /2/tweets" or "DELETE /2/tweets/:id"
+   * @param failures - Failures to return, in order, before normal responses resume
+   */
+  failNext(endpoint: string, ...failures: FakeXFailure[]): void {
+    const queue = this.failures.get(endpoint) || [];
+    queue.push(...failures);
+    this.failures.set(endpoint, queue);
+  }
+
+  /**
+   * Add Mention - Have another user mention the authenticated user
+   *
+   * @param text - Mention text
+   * @param username - Handle of the author (without @)
+   * @returns string - Tweet ID of the mention
+   */
+  addMention(text: string, username: string = 'someone'): string {
+    const mention: FakeMention = { id: this.generateId(), text, author_id: `2${username.length}00`, username, created_at: new Date() };
+    this.mentions.push(mention);
+    return mention.id;
+  }
+
+  /**
+   * Set Latency - Delay every response
+   *
+   * @param ms - Milliseconds to wait before responding
+   */
+  setLatency(ms: number): void {
+    this.latencyMs = ms;
+  }
+
+  /**
+   * Reset - Clear tweets, media, requests, scripted failures and windows
+   */
+  reset(): void {
+    this.tweets.clear();
+    this.media.clear();
+    this.mentions.length = 0;
+    this.requests.length = 0;
+    this.failures.clear();
+    this.windows.clear();
+    this.latencyMs = 0;
+  }
+
+  /**
+   * Requests To - Requests received for one endpoint
+   *
+   * @param endpoint - Endpoint key
+   * @returns FakeXRequest[] - Matching requests, oldest first
+   */
+  requestsTo(endpoint: string): FakeXRequest[] {
+    return this.requests.filter(request => request.endpoint === endpoint);
+  }
+
+  /**
+   * Setup Routes - Middleware (latency, auth, scripted failures) and endpoints
+   */
+  private setupRoutes(): void {
+    this.app.use(express.json());
+    this.app.use(express.raw({ type: 'multipart/form-data', limit: '20mb' }));
+
+    this.app.use(async (req, res, next) => {
+      const endpoint = RateLimitTracker.endpointKey(req.method, new URL(req.originalUrl, 'http://localhost'));
+      const command = Buffer.isBuffer(req.body) ? this.formField(req.body, 'command') : undefined;
+      res.locals.endpoint = endpoint;
+
+      res.on('finish', () => {
+        this.requests.push({ endpoint, command, status: res.statusCode, at: new Date() });
+      });
+
+      if (this.latencyMs > 0) {
+        await new Promise(resolve => setTimeout(resolve, this.latencyMs));
+      }
+
+      // Every X API request is signed; an unsigned one means the client is misconfigured
+      if (!req.get('authorization')?.startsWith('OAuth ')) {
+        this.sendFailure(res, endpoint, { type: 'unauthorized' });
+        return;
+      }
+
+      const failure = this.failures.get(endpoint)?.shift();
+      if (failure && failure.type !== 'none') {
+        this.sendFailure(res, endpoint, failure);
+        return;
+      }
+
+      // Like X, an exhausted window keeps answering 429 until it resets
+      const window = this.windows.get(endpoint);
+      if (window && window.remaining === 0 && window.reset > Date.now() / 1000) {
+        this.setRateLimitHeaders(res, endpoint, false);
+        res.status(429).json(TOO_MANY_REQUESTS);
+        return;
+      }
+
+      this.setRateLimitHeaders(res, endpoint, true);
+      next();
+    });
+
+    this.app.get('/2/users/me', (req, res) => {
+      const username = this.options.username || 'fake_x_bot';
+      res.json({ data: { id: '1000', name: username, username } });
+    });
+
+    this.app.post('/2/tweets', (req, res) => {
+      const text: string = req.body?.text || '';
+      const duplicate = Array.from(this.tweets.values()).some(tweet => tweet.text === text);
+      if (duplicate) {
+        this.sendFailure(res, res.locals.endpoint, { type: 'duplicate' });
+        return;
+      }
+
+      const tweet: FakeTweet = {
+        id: this.generateId(),
+        text,
+        reply_to_id: req.body?.reply?.in_reply_to_tweet_id,
+        media_ids: req.body?.media?.media_ids || [],
+        created_at: new Date(),
+        public_metrics: { impression_count: 0, like_count: 0, retweet_count: 0, reply_count: 0, quote_count: 0 }
+      };
+      this.tweets.set(tweet.id, tweet);
+      res.status(201).json({ data: { id: tweet.id, text: tweet.text, edit_history_tweet_ids: [tweet.id] } });
+    });
+
+    this.app.get('/2/tweets', (req, res) => {
+      const ids = String(req.query.ids || '').split(',').filter(Boolean);
+      const found = ids.filter(id => this.tweets.has(id));
+      const missing = ids.filter(id => !this.tweets.has(id));
+
+      res.json({
+        ...(found.length > 0 && {
+          data: found.map(id => {
+            const tweet = this.tweets.get(id) as FakeTweet;
+            return { id: tweet.id, text: tweet.text, public_metrics: { ...tweet.public_metrics } };
+          })
+        }),
+        ...(missing.length > 0 && {
+          errors: missing.map(id => ({
+            value: id,
+            detail: `Could not find tweet with id: [${id}].`,
+            title: 'Not Found Error',
+            resource_type: 'tweet',
+            type: 'https://api.twitter.com/2/problems/resource-not-found'
+          }))
+        })
+      });
+    });
+
+    this.app.get('/2/tweets/:id', (req, res) => {
+      const tweet = this.tweets.get(req.params.id);
+      if (!tweet) {
+        // X reports missing tweets as partial errors on a 200 response
+        res.json({
+          errors: [{
+            value: req.params.id,
+            detail: `Could not find tweet with id: [${req.params.id}].`,
+            title: 'Not Found Error',
+            resource_type: 'tweet',
+            type: 'https://api.twitter.com/2/problems/resource-not-found'
+          }]
+        });
+        return;
+      }
+      res.json({
+        data: {
+          id: tweet.id,
+          text: tweet.text,
+          created_at: tweet.created_at.toISOString(),
+          public_metrics: { ...tweet.public_metrics }
+        }
+      });
+    });
+
+    this.app.delete('/2/tweets/:id', (req, res) => {
+      res.json({ data: { deleted: this.tweets.delete(req.params.id) } });
+    });
+
+    this.app.get('/2/users/:id/mentions', (req, res) => {
+      const sinceId = req.query.since_id ? BigInt(String(req.query.since_id)) : BigInt(0);
+      const maxResults = Number(req.query.max_results || 10);
+      const start = Number(req.query.pagination_token || 0);
+      const newer = this.mentions.filter(mention => BigInt(mention.id) > sinceId).reverse();
+      const page = newer.slice(start, start + maxResults);
+
+      res.json({
+        ...(page.length > 0 && {
+          data: page.map(mention => ({
+            id: mention.id,
+            text: mention.text,
+            author_id: mention.author_id,
+            conversation_id: mention.id,
+            created_at: mention.created_at.toISOString(),
+            edit_history_tweet_ids: [mention.id]
+          })),
+          includes: {
+            users: Array.from(new Map(page.map(mention => [mention.author_id, mention])).values())
+              .map(mention => ({ id: mention.author_id, name: mention.username, username: mention.username }))
+          }
+        }),
+        meta: {
+          result_count: page.length,
+          ...(page.length > 0 && { newest_id: page[0].id, oldest_id: page[page.length - 1].id }),
+          ...(start + maxResults < newer.length && { next_token: String(start + maxResults) })
+        }
+      });
+    });
+
+    this.app.post('/1.1/media/upload.json', (req, res) => {
+      const body: Buffer = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+      const command = this.formField(body, 'command');
+
+      if (command === 'INIT') {
+        const media: FakeMedia = {
+          id: this.generateId(),
+          media_type: this.formField(body, 'media_type') || 'application/octet-stream',
+          total_bytes: parseInt(this.formField(body, 'total_bytes') || '0'),
+          chunks: 0,
+          finalized: false
+        };
+        this.media.set(media.id, media);
+        res.json({ media_id: Number(media.id), media_id_string: media.id, expires_after_secs: 86400 });
+        return;
+      }
+
+      const media = this.media.get(this.formField(body, 'media_id') || '');
+      if (!media) {
+        res.status(400).json({ errors: [{ code: 324, message: 'Invalid media id.' }] });
+        return;
+      }
+
+      if (command === 'APPEND') {
+        media.chunks++;
+        res.status(204).end();
+        return;
+      }
+      if (command === 'FINALIZE') {
+        media.finalized = true;
+        res.json({ media_id: Number(media.id), media_id_string: media.id, size: media.total_bytes });
+        return;
+      }
+      res.status(400).json({ errors: [{ code: 38, message: 'command parameter is missing.' }] });
+    });
+
+    this.app.post('/1.1/media/metadata/create.json', (req, res) => {
+      const media = this.media.get(String(req.body?.media_id));
+      if (!media) {
+        res.status(400).json({ errors: [{ code: 324, message: 'Invalid media id.' }] });
+        return;
+      }
+      media.alt_text = req.body?.alt_text?.text;
+      res.status(200).end();
+    });
+  }
+
+  /**
+   * Send Failure - Respond with the X error body for a scripted failure
+   */
+  private sendFailure(res: express.Response, endpoint: string, failure: Exclude<FakeXFailure, { type: 'none' }>): void {
+    switch (failure.type) {
+      case 'rate-limit': {
+        const reset = Math.floor(Date.now() / 1000) + (failure.resetInSeconds ?? WINDOW_SECONDS);
+        this.windows.set(endpoint, { remaining: 0, reset });
+        this.setRateLimitHeaders(res, endpoint, false);
+        res.status(429).json(TOO_MANY_REQUESTS);
+        return;
+      }
+      case 'duplicate':
+        this.setRateLimitHeaders(res, endpoint, true);
+        res.status(403).json({
+          detail: 'You are not allowed to create a Tweet with duplicate content.',
+          type: 'about:blank',
+          title: 'Forbidden',
+          status: 403
+        });
+        return;
+      case 'forbidden':
+        this.setRateLimitHeaders(res, endpoint, true);
+        res.status(403).json({
+          detail: 'You are not permitted to perform this action.',
+          type: 'about:blank',
+          title: 'Forbidden',
+          status: 403
+        });
+        return;
+      case 'unauthorized':
+        res.status(401).json({ title: 'Unauthorized', detail: 'Unauthorized', type: 'about:blank', status: 401 });
+        return;
+      case 'server-error': {
+        const status = failure.status ?? 503;
+        res.status(status).json({ title: 'Service Unavailable', detail: 'Service Unavailable', type: 'about:blank', status });
+        return;
+      }
+    }
+  }
+
+  /**
+   * Set Rate Limit Headers - Report (and optionally consume) the endpoint window
+   */
+  private setRateLimitHeaders(res: express.Response, endpoint: string, consume: boolean): void {
+    const limit = this.options.rateLimits?.[endpoint] ?? DEFAULT_RATE_LIMITS[endpoint] ?? DEFAULT_RATE_LIMIT;
+    const now = Math.floor(Date.now() / 1000);
+
+    let window = this.windows.get(endpoint);
+    if (!window || window.reset <= now) {
+      window = { remaining: limit, reset: now + WINDOW_SECONDS };
+      this.windows.set(endpoint, window);
+    }
+    if (consume && window.remaining > 0) {
+      window.remaining--;
+    }
+
+    res.set({
+      'x-rate-limit-limit': String(limit),
+      'x-rate-limit-remaining': String(window.remaining),
+      'x-rate-limit-reset': String(window.reset)
+    });
+  }
+
+  /**
+   * Form Field - Read a text field from a multipart/form-data body
+   */
+  private formField(body: Buffer, name: string): string | undefined {
+    const match = body.toString('latin1').match(new RegExp(`name="${name}"\\r\\n(?:[^\\r\\n]+\\r\\n)*\\r\\n([^\\r\\n]*)`));
+    return match ? match[1] : undefined;
+  }
+
+  /**
+   * Generate ID - Snowflake-sized numeric string
+   */
+  private generateId(): string {
+    this.nextId += BigInt(1);
+    return this.nextId.toString();
+  }
+}
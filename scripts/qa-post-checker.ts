@@ -2,31 +2,38 @@
 
 /**
  * QA Post Checker for X.com Bot Template
- * 
- * This script validates all bot content for quality, compliance, and consistency.
- * It checks character limits, content uniqueness, profanity, and formatting.
+ *
+ * This script validates queued bot content before deployment. Every post is
+ * checked against the active persona's content rules (the same rules the bot
+ * applies when generating, storing and publishing posts), for duplicate and
+ * near-duplicate content (the bot's MinHash check at SIMILARITY_THRESHOLD),
+ * and for repetitive phrasing.
+ *
+ * Environment: BOT_NAME (default template-bot), DATABASE_PATH (default
+ * ./data/template-bot.db, relative to the app) and PERSONA_FILE.
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
 import * as sqlite3 from 'sqlite3';
+import { checkContentRules, formatViolations } from '../app/app-agent-xcom-template/src/services/content-rules';
+import {
+  estimateSimilarity,
+  getSimilaritySettings,
+  minhashSignature
+} from '../app/app-agent-xcom-template/src/services/similarity';
+import { ContentRuleViolation } from '../app/app-agent-xcom-template/src/shared/types';
 
 interface QAReport {
   botName: string;
   totalPosts: number;
   errors: {
-    characterLimit: string[];
-    emptyContent: string[];
+    contentRules: string[];
     duplicateContent: string[];
-    invalidCharacters: string[];
-    profanity: string[];
-    incompleteSentences: string[];
-    excessivePunctuation: string[];
-    missingTopicSuffix: string[];
+    nearDuplicates: string[];
   };
   warnings: {
-    shortPosts: string[];
-    longPosts: string[];
+    contentRules: string[];
     repetitivePhrases: string[];
   };
   passed: boolean;
@@ -34,104 +41,66 @@ interface QAReport {
 
 class PostChecker {
   private db: sqlite3.Database;
-  private profanityList: Set<string>;
 
   constructor(dbPath: string) {
     this.db = new sqlite3.Database(dbPath);
-    this.profanityList = new Set([
-      // Add common profanity words here
-      'badword1', 'badword2', 'badword3'
-    ]);
   }
 
   async checkBotPosts(botName: string): Promise<QAReport> {
     const posts = await this.getPosts(botName);
-    
+
     const report: QAReport = {
       botName,
       totalPosts: posts.length,
       errors: {
-        characterLimit: [],
-        emptyContent: [],
+        contentRules: [],
         duplicateContent: [],
-        invalidCharacters: [],
-        profanity: [],
-        incompleteSentences: [],
-        excessivePunctuation: [],
-        missingTopicSuffix: []
+        nearDuplicates: []
       },
       warnings: {
-        shortPosts: [],
-        longPosts: [],
+        contentRules: [],
         repetitivePhrases: []
       },
       passed: true
     };
 
     const seenContent = new Set<string>();
+    const threshold = getSimilaritySettings().threshold;
+    const signatures: Array<{ id: number; signature: number[] }> = [];
 
     for (const post of posts) {
       const content = post.content;
 
-      // Check character limit
-      if (content.length > 280) {
-        report.errors.characterLimit.push(`Post ${post.id}: ${content.length} chars`);
+      // Check the persona's content rules
+      const rules = checkContentRules({ content, segments: post.segments ? JSON.parse(post.segments) : undefined });
+      const bySeverity = (severity: ContentRuleViolation['severity']) =>
+        rules.violations.filter(violation => violation.severity === severity);
+      if (!rules.valid) {
+        report.errors.contentRules.push(`Post ${post.id}: ${formatViolations(bySeverity('error'))}`);
         report.passed = false;
       }
-
-      // Check empty content
-      if (!content.trim()) {
-        report.errors.emptyContent.push(`Post ${post.id}: Empty content`);
-        report.passed = false;
+      if (bySeverity('warning').length > 0) {
+        report.warnings.contentRules.push(`Post ${post.id}: ${formatViolations(bySeverity('warning'))}`);
       }
 
       // Check duplicates
       const normalizedContent = content.toLowerCase().trim();
-      if (seenContent.has(normalizedContent)) {
+      const duplicate = seenContent.has(normalizedContent);
+      if (duplicate) {
         report.errors.duplicateContent.push(`Post ${post.id}: Duplicate content`);
         report.passed = false;
       }
       seenContent.add(normalizedContent);
 
-      // Check invalid characters
-      if (/[^\x00-\x7F]/.test(content)) {
-        report.errors.invalidCharacters.push(`Post ${post.id}: Contains non-ASCII characters`);
-        report.passed = false;
-      }
-
-      // Check profanity
-      const words = content.toLowerCase().split(/\s+/);
-      const profanityFound = words.some(word => this.profanityList.has(word));
-      if (profanityFound) {
-        report.errors.profanity.push(`Post ${post.id}: Contains profanity`);
-        report.passed = false;
-      }
-
-      // Check incomplete sentences
-      if (!content.match(/[.!?]$/)) {
-        report.errors.incompleteSentences.push(`Post ${post.id}: Incomplete sentence`);
-        report.passed = false;
-      }
-
-      // Check excessive punctuation
-      if ((content.match(/[!]{2,}/g) || []).length > 0) {
-        report.errors.excessivePunctuation.push(`Post ${post.id}: Excessive punctuation`);
-        report.passed = false;
-      }
-
-      // Check topic suffix (for template bots)
-      if (!content.includes('#') && !content.includes('@')) {
-        report.errors.missingTopicSuffix.push(`Post ${post.id}: Missing hashtag or mention`);
-        report.passed = false;
-      }
-
-      // Warnings
-      if (content.length < 50) {
-        report.warnings.shortPosts.push(`Post ${post.id}: Very short (${content.length} chars)`);
-      }
-
-      if (content.length > 250) {
-        report.warnings.longPosts.push(`Post ${post.id}: Very long (${content.length} chars)`);
+      // Check near-duplicates of earlier posts
+      const signature = minhashSignature(content);
+      if (signature && !duplicate) {
+        const similar = signatures.find(earlier => estimateSimilarity(signature, earlier.signature) >= threshold);
+        if (similar) {
+          report.errors.nearDuplicates.push(`Post ${post.id}: Near-duplicate of post ${similar.id}`);
+          report.passed = false;
+        }
+        signatures.push({ id: post.id, signature });
       }
 
       // Check repetitive phrases
@@ -151,12 +120,15 @@ class PostChecker {
     return report;
   }
 
-  private async getPosts(botName: string): Promise<Array<{id: number, content: string}>> {
+  // Posts that may still be published: not yet posted, rejected or retired
+  private async getPosts(botName: string): Promise<Array<{id: number, content: string, segments: string | null}>> {
     return new Promise((resolve, reject) => {
       this.db.all(
-        'SELECT id, content FROM posts WHERE bot_name = ? ORDER BY id',
+        `SELECT id, content, segments FROM posts
+         WHERE bot_id = ? AND used = 0 AND review_status IN ('draft', 'pending_review', 'approved')
+         ORDER BY id`,
         [botName],
-        (err, rows) => {
+        (err, rows: Array<{id: number, content: string, segments: string | null}>) => {
           if (err) reject(err);
           else resolve(rows || []);
         }
@@ -167,14 +139,14 @@ class PostChecker {
   private extractPhrases(content: string): string[] {
     const sentences = content.split(/[.!?]+/).filter(s => s.trim().length > 0);
     const phrases: string[] = [];
-    
+
     sentences.forEach(sentence => {
       const words = sentence.trim().split(/\s+/);
       for (let i = 0; i <= words.length - 3; i++) {
         phrases.push(words.slice(i, i + 3).join(' '));
       }
     });
-    
+
     return phrases;
   }
 
@@ -188,14 +160,9 @@ function displayReport(report: QAReport): void {
   console.log(`Total Posts: ${report.totalPosts}`);
   console.log(`Status: ${report.passed ? '✅ PASSED' : '❌ FAILED'}`);
 
-  if (report.errors.characterLimit.length > 0) {
-    console.log(`\n❌ Character Limit Errors (${report.errors.characterLimit.length}):`);
-    report.errors.characterLimit.slice(0, 5).forEach(error => console.log(`  - ${error}`));
-  }
-
-  if (report.errors.emptyContent.length > 0) {
-    console.log(`\n❌ Empty Content Errors (${report.errors.emptyContent.length}):`);
-    report.errors.emptyContent.slice(0, 5).forEach(error => console.log(`  - ${error}`));
+  if (report.errors.contentRules.length > 0) {
+    console.log(`\n❌ Content Rule Errors (${report.errors.contentRules.length}):`);
+    report.errors.contentRules.slice(0, 5).forEach(error => console.log(`  - ${error}`));
   }
 
   if (report.errors.duplicateContent.length > 0) {
@@ -203,39 +170,14 @@ function displayReport(report: QAReport): void {
     report.errors.duplicateContent.slice(0, 5).forEach(error => console.log(`  - ${error}`));
   }
 
-  if (report.errors.invalidCharacters.length > 0) {
-    console.log(`\n❌ Invalid Characters Errors (${report.errors.invalidCharacters.length}):`);
-    report.errors.invalidCharacters.slice(0, 5).forEach(error => console.log(`  - ${error}`));
-  }
-
-  if (report.errors.profanity.length > 0) {
-    console.log(`\n❌ Profanity Errors (${report.errors.profanity.length}):`);
-    report.errors.profanity.slice(0, 5).forEach(error => console.log(`  - ${error}`));
+  if (report.errors.nearDuplicates.length > 0) {
+    console.log(`\n❌ Near-Duplicate Errors (${report.errors.nearDuplicates.length}):`);
+    report.errors.nearDuplicates.slice(0, 5).forEach(error => console.log(`  - ${error}`));
   }
 
-  if (report.errors.incompleteSentences.length > 0) {
-    console.log(`\n❌ Incomplete Sentences Errors (${report.errors.incompleteSentences.length}):`);
-    report.errors.incompleteSentences.slice(0, 5).forEach(error => console.log(`  - ${error}`));
-  }
-
-  if (report.errors.excessivePunctuation.length > 0) {
-    console.log(`\n❌ Excessive Punctuation Errors (${report.errors.excessivePunctuation.length}):`);
-    report.errors.excessivePunctuation.slice(0, 5).forEach(error => console.log(`  - ${error}`));
-  }
-
-  if (report.errors.missingTopicSuffix.length > 0) {
-    console.log(`\n❌ Missing Topic Suffix Errors (${report.errors.missingTopicSuffix.length}):`);
-    report.errors.missingTopicSuffix.slice(0, 5).forEach(error => console.log(`  - ${error}`));
-  }
-
-  if (report.warnings.shortPosts.length > 0) {
-    console.log(`\n⚠️  Short Posts Warnings (${report.warnings.shortPosts.length}):`);
-    report.warnings.shortPosts.slice(0, 3).forEach(warning => console.log(`  - ${warning}`));
-  }
-
-  if (report.warnings.longPosts.length > 0) {
-    console.log(`\n⚠️  Long Posts Warnings (${report.warnings.longPosts.length}):`);
-    report.warnings.longPosts.slice(0, 3).forEach(warning => console.log(`  - ${warning}`));
+  if (report.warnings.contentRules.length > 0) {
+    console.log(`\n⚠️  Content Rule Warnings (${report.warnings.contentRules.length}):`);
+    report.warnings.contentRules.slice(0, 3).forEach(warning => console.log(`  - ${warning}`));
   }
 
   if (report.warnings.repetitivePhrases.length > 0) {
@@ -248,8 +190,9 @@ async function main(): Promise<void> {
   console.log('🔍 STARTING QA CHECK FOR X.com Bot Template');
   console.log('==========================================');
 
-  const botName = 'app-agent-xcom-template';
-  const dbPath = path.join(__dirname, '..', 'app', 'app-agent-xcom-template', 'data', 'app-agent-xcom-template.db');
+  const botName = process.env.BOT_NAME || 'template-bot';
+  const appDir = path.join(__dirname, '..', 'app', 'app-agent-xcom-template');
+  const dbPath = path.resolve(appDir, process.env.DATABASE_PATH || './data/template-bot.db');
 
   if (!fs.existsSync(dbPath)) {
     console.log(`❌ Database not found at ${dbPath}`);
@@ -265,15 +208,13 @@ async function main(): Promise<void> {
     displayReport(templateReport);
 
     // Summary
-    const totalErrors = 
-      templateReport.errors.characterLimit.length + templateReport.errors.emptyContent.length +
-      templateReport.errors.duplicateContent.length + templateReport.errors.invalidCharacters.length +
-      templateReport.errors.profanity.length + templateReport.errors.incompleteSentences.length +
-      templateReport.errors.excessivePunctuation.length + templateReport.errors.missingTopicSuffix.length;
-
-    const totalWarnings = 
-      templateReport.warnings.shortPosts.length + templateReport.warnings.longPosts.length +
-      templateReport.warnings.repetitivePhrases.length;
+    const totalErrors =
+      templateReport.errors.contentRules.length +
+      templateReport.errors.duplicateContent.length +
+      templateReport.errors.nearDuplicates.length;
+
+    const totalWarnings =
+      templateReport.warnings.contentRules.length + templateReport.warnings.repetitivePhrases.length;
 
     console.log(`\n📈 SUMMARY:`);
     console.log(`Total Posts Checked: ${templateReport.totalPosts}`);